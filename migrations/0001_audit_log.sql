@@ -0,0 +1,20 @@
+-- Audit log of creates, updates, deletes and audience membership changes
+-- made through the server. JSON columns hold redacted values.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  tenant TEXT NOT NULL,
+  tool TEXT NOT NULL,
+  method TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  object_id TEXT NOT NULL,
+  params TEXT NOT NULL,
+  success INTEGER NOT NULL,
+  result TEXT,
+  error TEXT,
+  fb_trace_id TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_tenant_time ON audit_log (tenant, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_tenant_object ON audit_log (tenant, object_id, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_tenant_tool ON audit_log (tenant, tool, created_at);
@@ -0,0 +1,17 @@
+-- Campaign snapshots saved for rollback. The tree column holds the campaign,
+-- its ad sets and their ads as JSON.
+CREATE TABLE IF NOT EXISTS snapshots (
+  id TEXT PRIMARY KEY,
+  tenant TEXT NOT NULL,
+  campaign_id TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  campaign_name TEXT NOT NULL,
+  label TEXT,
+  ad_set_count INTEGER NOT NULL,
+  ad_count INTEGER NOT NULL,
+  tree TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS snapshots_tenant_time ON snapshots (tenant, created_at);
+CREATE INDEX IF NOT EXISTS snapshots_tenant_campaign ON snapshots (tenant, campaign_id, created_at);
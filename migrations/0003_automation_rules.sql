@@ -0,0 +1,37 @@
+-- Automation rules evaluated by the worker's cron trigger. The spec column holds
+-- the rule definition as JSON; credentials holds the tenant's access token,
+-- encrypted with AUTOMATION_ENCRYPTION_KEY, so scheduled runs can call the API.
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id TEXT PRIMARY KEY,
+  tenant TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL,
+  spec TEXT NOT NULL,
+  credentials TEXT NOT NULL,
+  last_run_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS automation_rules_tenant ON automation_rules (tenant, created_at);
+CREATE INDEX IF NOT EXISTS automation_rules_enabled ON automation_rules (enabled);
+
+-- One row per rule run: every condition evaluated and every action taken or simulated.
+CREATE TABLE IF NOT EXISTS automation_rule_runs (
+  id TEXT PRIMARY KEY,
+  tenant TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  simulated INTEGER NOT NULL,
+  evaluations TEXT NOT NULL,
+  actions TEXT NOT NULL,
+  error TEXT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS automation_rule_runs_tenant_time
+  ON automation_rule_runs (tenant, started_at);
+CREATE INDEX IF NOT EXISTS automation_rule_runs_rule_time
+  ON automation_rule_runs (tenant, rule_id, started_at);
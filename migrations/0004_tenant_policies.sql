@@ -0,0 +1,8 @@
+-- Guardrail policies set by the operator, one per tenant. The tenant column is the
+-- same identifier the audit log records (user:<id>); policy holds the policy as JSON.
+-- A stored policy replaces the X-Meta-Policy header for that tenant.
+CREATE TABLE IF NOT EXISTS tenant_policies (
+  tenant TEXT PRIMARY KEY,
+  policy TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
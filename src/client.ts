@@ -8,42 +8,119 @@
  */
 
 import type {
+  AccountActivity,
+  AccountActivityFilters,
   Ad,
   AdAccount,
+  AdCopyInput,
+  AdRule,
+  AdRuleCreateInput,
+  AdRuleHistory,
+  AdRuleHistoryFilters,
+  AdRulePreview,
+  AdRuleUpdateInput,
   AdCreateInput,
   AdCreative,
   AdCreativeInput,
   AdImage,
   AdSet,
+  AdSetCopyInput,
   AdSetCreateInput,
   AdSetUpdateInput,
   AdUpdateInput,
   AdVideo,
+  AsyncRequest,
+  AsyncRequestSet,
+  BatchOperation,
+  BatchResult,
+  BulkUpdateObjectType,
+  BulkUpdatePatch,
+  BulkUpdateResult,
   Business,
   Campaign,
+  CampaignCopyInput,
   CampaignCreateInput,
+  CampaignPlan,
+  CampaignTree,
   CampaignUpdateInput,
+  CopiedObjectId,
+  CopyResult,
   CustomAudience,
   CustomAudienceCreateInput,
   CustomAudienceUpdateInput,
   DeliveryEstimate,
+  DryRunResult,
   Insights,
   InsightsParams,
+  InsightsReportRun,
+  LaunchInput,
+  LaunchObject,
+  LaunchResult,
+  LaunchRollbackResult,
+  LaunchStep,
+  ObjectUpdate,
   PaginatedResponse,
   PaginationParams,
   Pixel,
   PixelCreateInput,
+  PixelUpdateInput,
+  PlanStep,
+  PlanStepResult,
   ProductCatalog,
   ProductSet,
+  RateLimitStatus,
   ReachFrequencyPrediction,
   Targeting,
+  UpdateResult,
+  VideoUploadSession,
 } from './types/entities.js';
 import type { TenantCredentials } from './types/env.js';
 import {
   AuthenticationError,
+  MetaAdsApiError,
   RateLimitError,
+  TimeoutError,
+  UploadInterruptedError,
+  ValidationError,
+  formatErrorForLogging,
+  isRetryableError,
   parseMetaApiError,
 } from './utils/errors.js';
+import { type AuditLog, currentToolName, toAuditParams } from './utils/audit.js';
+import { CACHE_TTL_SECONDS, type CacheEntity, type CacheOptions, type ReadCache } from './utils/cache.js';
+import { hmacSha256Hex, sha256Hex } from './utils/crypto.js';
+import { diffFields } from './utils/diff.js';
+import { parentPath } from './utils/documents.js';
+import { isLargeInsightsQuery } from './utils/insights.js';
+import { type CollectedPages, type PaginateOptions, listAll } from './utils/pagination.js';
+import {
+  checkAdCreate,
+  checkAdSetCreate,
+  checkAdSetUpdate,
+  checkAdUpdate,
+  checkBatch,
+  checkCampaignCreate,
+  checkCampaignUpdate,
+  checkCopy,
+  checkDelete,
+  checkObjectUpdate,
+  type PolicyStore,
+  type TenantPolicy,
+} from './utils/policy.js';
+import { redactText, redactValue } from './utils/redact.js';
+import {
+  RetryBudget,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  shouldRetryRequest,
+  withRetry,
+} from './utils/retry.js';
+import {
+  createRateLimitStatus,
+  getRegainAccessSeconds,
+  getThrottleDelayMs,
+  recordUsageHeaders,
+} from './utils/usage.js';
 
 // =============================================================================
 // Configuration
@@ -52,6 +129,36 @@ import {
 const META_API_BASE_URL = 'https://graph.facebook.com';
 const DEFAULT_API_VERSION = 'v21.0';
 
+// Graph API accepts at most 50 sub-requests per batch call
+export const MAX_BATCH_SIZE = 50;
+
+// Meta checks the request and suggests improvements without executing it
+const VALIDATE_ONLY_EXECUTION_OPTIONS = JSON.stringify(['validate_only', 'include_recommendations']);
+
+/**
+ * Per-attempt timeouts in milliseconds, by kind of Graph API call
+ */
+export interface RequestTimeouts {
+  /** Reads and writes not covered below */
+  default: number;
+  /** Insights queries, which can take much longer on large accounts */
+  insights: number;
+  /** Image and video uploads */
+  upload: number;
+  /** Batch requests */
+  batch: number;
+}
+
+export const DEFAULT_REQUEST_TIMEOUTS: RequestTimeouts = {
+  default: 30_000,
+  insights: 120_000,
+  upload: 300_000,
+  batch: 60_000,
+};
+
+/** POST endpoints that read data without changing anything */
+const READ_ONLY_POST_ENDPOINT = /\/(insights|preview)$/;
+
 // Default fields for common entities
 const DEFAULT_AD_ACCOUNT_FIELDS = [
   'id',
@@ -66,6 +173,20 @@ const DEFAULT_AD_ACCOUNT_FIELDS = [
   'created_time',
 ].join(',');
 
+const DEFAULT_ACTIVITY_FIELDS = [
+  'actor_id',
+  'actor_name',
+  'application_name',
+  'date_time_in_timezone',
+  'event_time',
+  'event_type',
+  'extra_data',
+  'object_id',
+  'object_name',
+  'object_type',
+  'translated_event_type',
+].join(',');
+
 const DEFAULT_CAMPAIGN_FIELDS = [
   'id',
   'account_id',
@@ -77,6 +198,7 @@ const DEFAULT_CAMPAIGN_FIELDS = [
   'daily_budget',
   'lifetime_budget',
   'budget_remaining',
+  'spend_cap',
   'bid_strategy',
   'special_ad_categories',
   'start_time',
@@ -153,6 +275,30 @@ const DEFAULT_AUDIENCE_FIELDS = [
   'time_updated',
 ].join(',');
 
+const DEFAULT_AD_RULE_FIELDS = [
+  'id',
+  'account_id',
+  'name',
+  'status',
+  'evaluation_spec',
+  'execution_spec',
+  'schedule_spec',
+  'created_by',
+  'created_time',
+  'updated_time',
+].join(',');
+
+const DEFAULT_AD_RULE_HISTORY_FIELDS = [
+  'timestamp',
+  'is_manual',
+  'evaluation_spec',
+  'execution_spec',
+  'schedule_spec',
+  'exception_code',
+  'exception_message',
+  'results',
+].join(',');
+
 const DEFAULT_PIXEL_FIELDS = [
   'id',
   'name',
@@ -191,74 +337,256 @@ const DEFAULT_INSIGHTS_FIELDS = [
   'date_stop',
 ].join(',');
 
+// Rows per page when reading async report results
+const ASYNC_INSIGHTS_PAGE_SIZE = 500;
+
+// Rows collected when a large insights query is switched to an async report
+const MAX_ASYNC_INSIGHTS_ROWS = 5000;
+
+// Objects requested per page when reading a whole campaign tree
+const CAMPAIGN_TREE_PAGE_SIZE = 100;
+
+// Every effective status except DELETED, so campaign trees include archived objects
+const CAMPAIGN_TREE_STATUSES = [
+  'ACTIVE',
+  'PAUSED',
+  'ARCHIVED',
+  'CAMPAIGN_PAUSED',
+  'ADSET_PAUSED',
+  'PENDING_REVIEW',
+  'DISAPPROVED',
+  'PREAPPROVED',
+  'PENDING_BILLING_INFO',
+  'IN_PROCESS',
+  'WITH_ISSUES',
+];
+
+// Meta deep-copies at most this many child objects synchronously
+const MAX_SYNC_COPY_CHILDREN = 3;
+
+// Image files sent per /adimages request by uploadAdImages
+const MAX_IMAGES_PER_UPLOAD = 10;
+
+// Chunk sent first when resuming, before Meta names the next byte range
+const VIDEO_RESUME_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// =============================================================================
+// Parameter Encoding
+// =============================================================================
+
+/**
+ * Encode request parameters the way the Graph API expects them.
+ * Arrays and objects are JSON-encoded; undefined values are skipped.
+ */
+function toSearchParams(
+  params: Record<string, unknown>,
+  searchParams: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    if (typeof value === 'object' && value !== null) {
+      searchParams.set(key, JSON.stringify(value));
+    } else {
+      searchParams.set(key, String(value));
+    }
+  }
+  return searchParams;
+}
+
+type CopyParams = Record<string, string | boolean | undefined>;
+
+/**
+ * Graph parameters shared by every /copies edge
+ */
+function toCopyParams(input: CampaignCopyInput | AdCopyInput): CopyParams {
+  return {
+    deep_copy: 'deep_copy' in input ? input.deep_copy : undefined,
+    status_option: input.status_option,
+    rename_options: input.rename_options && JSON.stringify(input.rename_options),
+    start_time: 'start_time' in input ? input.start_time : undefined,
+    end_time: 'end_time' in input ? input.end_time : undefined,
+  };
+}
+
+/**
+ * Normalize a /copies response (copied_campaign_id, copied_adset_id or copied_ad_id)
+ */
+function parseCopyResult(result: Record<string, unknown>): CopyResult {
+  const copiedId = result.copied_campaign_id ?? result.copied_adset_id ?? result.copied_ad_id;
+  return {
+    copied_id: String(copiedId),
+    ad_object_ids: (result.ad_object_ids as CopiedObjectId[] | undefined) ?? [],
+  };
+}
+
+/**
+ * Translate a bulk update patch into Graph parameters, rejecting fields the
+ * object type does not have
+ */
+function toBulkUpdateParams(
+  type: BulkUpdateObjectType,
+  patch: BulkUpdatePatch
+): Record<string, string | number> {
+  const unsupported = [
+    type === 'ad' && (patch.daily_budget !== undefined || patch.budget_scale_percent !== undefined) && 'budgets',
+    type !== 'adset' && patch.bid_amount !== undefined && 'bid_amount',
+    type === 'ad' && patch.end_time !== undefined && 'end_time',
+  ].filter(Boolean);
+  if (unsupported.length > 0) {
+    throw new ValidationError(`Cannot set ${unsupported.join(', ')} on ${type}s`);
+  }
+  if (patch.daily_budget !== undefined && patch.budget_scale_percent !== undefined) {
+    throw new ValidationError('Set either daily_budget or budget_scale_percent, not both');
+  }
+  if (patch.budget_scale_percent !== undefined && patch.budget_scale_percent <= -100) {
+    throw new ValidationError('budget_scale_percent must be greater than -100');
+  }
+
+  const params: Record<string, string | number> = {};
+  if (patch.status !== undefined) params.status = patch.status;
+  if (patch.daily_budget !== undefined) params.daily_budget = patch.daily_budget;
+  if (patch.bid_amount !== undefined) params.bid_amount = patch.bid_amount;
+  if (patch.end_time !== undefined) params[type === 'campaign' ? 'stop_time' : 'end_time'] = patch.end_time;
+  if (Object.keys(params).length === 0 && patch.budget_scale_percent === undefined) {
+    throw new ValidationError('The patch must change at least one field');
+  }
+  return params;
+}
+
+/**
+ * Encode request parameters as multipart form fields, for uploads
+ */
+function toFormData(params: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  for (const [key, value] of toSearchParams(params)) {
+    formData.append(key, value);
+  }
+  return formData;
+}
+
 // =============================================================================
 // Meta Ads Client Interface
 // =============================================================================
 
 export interface MetaAdsClient {
+  // Cancellation
+  withSignal(signal?: AbortSignal): MetaAdsClient;
+
+  // Dry Runs
+  dryRun<K extends DryRunMethod>(method: K, ...args: Parameters<MetaAdsClient[K]>): Promise<DryRunResult>;
+
   // Connection
   testConnection(): Promise<{ connected: boolean; message: string; user?: { id: string; name: string } }>;
+  getTenantId(): Promise<string>;
+
+  // Tenant Policy
+  getPolicy(): Promise<TenantPolicy | undefined>;
+
+  // Rate Limits
+  getRateLimitStatus(accountId?: string): Promise<RateLimitStatus>;
+
+  // Batch Requests
+  batch<T = unknown>(operations: BatchOperation[]): Promise<BatchResult<T>[]>;
 
   // Ad Accounts
   listAdAccounts(params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<AdAccount>>;
-  getAdAccount(accountId: string, fields?: string): Promise<AdAccount>;
+  getAdAccount(accountId: string, fields?: string, options?: CacheOptions): Promise<AdAccount>;
+  listAccountActivities(accountId: string, params?: PaginationParams & AccountActivityFilters & { fields?: string }): Promise<PaginatedResponse<AccountActivity>>;
+  listAllAccountActivities(accountId: string, filters: AccountActivityFilters & { fields?: string }, options: PaginateOptions): Promise<CollectedPages<AccountActivity>>;
 
   // Campaigns
   listCampaigns(accountId: string, params?: PaginationParams & { fields?: string; effectiveStatus?: string[] }): Promise<PaginatedResponse<Campaign>>;
   getCampaign(campaignId: string, fields?: string): Promise<Campaign>;
   createCampaign(accountId: string, input: CampaignCreateInput): Promise<Campaign>;
-  updateCampaign(campaignId: string, input: CampaignUpdateInput): Promise<Campaign>;
+  updateCampaign(campaignId: string, input: CampaignUpdateInput): Promise<UpdateResult<Campaign>>;
   deleteCampaign(campaignId: string): Promise<void>;
 
   // Ad Sets
   listAdSets(accountId: string, params?: PaginationParams & { fields?: string; campaignId?: string; effectiveStatus?: string[] }): Promise<PaginatedResponse<AdSet>>;
   getAdSet(adSetId: string, fields?: string): Promise<AdSet>;
   createAdSet(accountId: string, input: AdSetCreateInput): Promise<AdSet>;
-  updateAdSet(adSetId: string, input: AdSetUpdateInput): Promise<AdSet>;
+  updateAdSet(adSetId: string, input: AdSetUpdateInput): Promise<UpdateResult<AdSet>>;
   deleteAdSet(adSetId: string): Promise<void>;
 
   // Ads
   listAds(accountId: string, params?: PaginationParams & { fields?: string; adSetId?: string; effectiveStatus?: string[] }): Promise<PaginatedResponse<Ad>>;
   getAd(adId: string, fields?: string): Promise<Ad>;
   createAd(accountId: string, input: AdCreateInput): Promise<Ad>;
-  updateAd(adId: string, input: AdUpdateInput): Promise<Ad>;
+  updateAd(adId: string, input: AdUpdateInput): Promise<UpdateResult<Ad>>;
   deleteAd(adId: string): Promise<void>;
 
+  // Campaign Trees
+  getCampaignTree(campaignId: string): Promise<CampaignTree>;
+  applyCampaignPlan(plan: CampaignPlan): Promise<PlanStepResult[]>;
+
+  // Launches
+  launch(accountId: string, input: LaunchInput): Promise<LaunchResult>;
+
+  // Copies
+  copyCampaign(campaignId: string, input?: CampaignCopyInput, options?: CopyWaitOptions): Promise<CopyResult>;
+  copyAdSet(adSetId: string, input?: AdSetCopyInput, options?: CopyWaitOptions): Promise<CopyResult>;
+  copyAd(adId: string, input?: AdCopyInput): Promise<CopyResult>;
+  getAsyncRequestSet(requestSetId: string): Promise<AsyncRequestSet>;
+  listAsyncRequests(requestSetId: string, params?: PaginationParams): Promise<PaginatedResponse<AsyncRequest>>;
+  getAsyncCopyResult(requestSetId: string): Promise<CopyResult | undefined>;
+
+  // Bulk Updates
+  bulkUpdate(type: BulkUpdateObjectType, ids: string[], patch: BulkUpdatePatch, options?: { validateOnly?: boolean }): Promise<BulkUpdateResult[]>;
+  updateObjects<T = unknown>(updates: ObjectUpdate[]): Promise<BatchResult<T>[]>;
+
   // Ad Creatives
   listAdCreatives(accountId: string, params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<AdCreative>>;
   getAdCreative(creativeId: string, fields?: string): Promise<AdCreative>;
   createAdCreative(accountId: string, input: AdCreativeInput): Promise<AdCreative>;
+  deleteAdCreative(creativeId: string): Promise<void>;
 
   // Ad Images
   listAdImages(accountId: string, params?: PaginationParams & { hashes?: string[] }): Promise<PaginatedResponse<AdImage>>;
   uploadAdImage(accountId: string, imageData: string, name?: string): Promise<AdImage>;
+  uploadAdImages(accountId: string, images: Array<{ name: string; bytes: Uint8Array }>): Promise<Record<string, AdImage>>;
 
   // Ad Videos
   listAdVideos(accountId: string, params?: PaginationParams): Promise<PaginatedResponse<AdVideo>>;
   getAdVideo(videoId: string): Promise<AdVideo>;
+  uploadAdVideo(accountId: string, data: Uint8Array, options?: VideoUploadOptions): Promise<AdVideo>;
+  waitForAdVideo(videoId: string, options?: VideoProcessingWaitOptions): Promise<AdVideo>;
 
   // Insights
   getAccountInsights(accountId: string, params?: InsightsParams): Promise<Insights[]>;
   getCampaignInsights(campaignId: string, params?: InsightsParams): Promise<Insights[]>;
   getAdSetInsights(adSetId: string, params?: InsightsParams): Promise<Insights[]>;
   getAdInsights(adId: string, params?: InsightsParams): Promise<Insights[]>;
+  startInsightsReport(objectId: string, params?: InsightsParams): Promise<InsightsReportRun>;
+  getInsightsReportStatus(reportRunId: string): Promise<InsightsReportRun>;
+  getInsightsReportResults(reportRunId: string, params?: PaginationParams): Promise<PaginatedResponse<Insights>>;
+  waitForInsightsReport(reportRunId: string, options?: InsightsReportWaitOptions): Promise<InsightsReportRun>;
 
   // Custom Audiences
   listCustomAudiences(accountId: string, params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<CustomAudience>>;
   getCustomAudience(audienceId: string, fields?: string): Promise<CustomAudience>;
   createCustomAudience(accountId: string, input: CustomAudienceCreateInput): Promise<CustomAudience>;
-  updateCustomAudience(audienceId: string, input: CustomAudienceUpdateInput): Promise<CustomAudience>;
+  updateCustomAudience(audienceId: string, input: CustomAudienceUpdateInput): Promise<UpdateResult<CustomAudience>>;
   deleteCustomAudience(audienceId: string): Promise<void>;
   addUsersToAudience(audienceId: string, schema: string[], data: string[][]): Promise<{ audience_id: string; num_received: number; num_invalid_entries: number }>;
   removeUsersFromAudience(audienceId: string, schema: string[], data: string[][]): Promise<{ audience_id: string; num_received: number; num_invalid_entries: number }>;
 
+  // Ad Rules
+  listAdRules(accountId: string, params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<AdRule>>;
+  getAdRule(ruleId: string, fields?: string): Promise<AdRule>;
+  createAdRule(accountId: string, input: AdRuleCreateInput): Promise<AdRule>;
+  updateAdRule(ruleId: string, input: AdRuleUpdateInput): Promise<UpdateResult<AdRule>>;
+  deleteAdRule(ruleId: string): Promise<void>;
+  previewAdRule(ruleId: string): Promise<AdRulePreview>;
+  listAdRuleHistory(ruleId: string, params?: PaginationParams & AdRuleHistoryFilters & { fields?: string }): Promise<PaginatedResponse<AdRuleHistory>>;
+
   // Pixels
-  listPixels(accountId: string, params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<Pixel>>;
+  listPixels(accountId: string, params?: PaginationParams & CacheOptions & { fields?: string }): Promise<PaginatedResponse<Pixel>>;
   getPixel(pixelId: string, fields?: string): Promise<Pixel>;
   createPixel(accountId: string, input: PixelCreateInput): Promise<Pixel>;
+  updatePixel(pixelId: string, input: PixelUpdateInput): Promise<UpdateResult<Pixel>>;
 
   // Product Catalogs
-  listProductCatalogs(businessId: string, params?: PaginationParams & { fields?: string }): Promise<PaginatedResponse<ProductCatalog>>;
+  listProductCatalogs(businessId: string, params?: PaginationParams & CacheOptions & { fields?: string }): Promise<PaginatedResponse<ProductCatalog>>;
   getProductCatalog(catalogId: string, fields?: string): Promise<ProductCatalog>;
   listProductSets(catalogId: string, params?: PaginationParams): Promise<PaginatedResponse<ProductSet>>;
 
@@ -271,12 +599,89 @@ export interface MetaAdsClient {
 
   // Business Manager
   getBusinesses(params?: PaginationParams): Promise<PaginatedResponse<Business>>;
-  getBusiness(businessId: string): Promise<Business>;
+  getBusiness(businessId: string, options?: CacheOptions): Promise<Business>;
   listBusinessAdAccounts(businessId: string, params?: PaginationParams): Promise<PaginatedResponse<AdAccount>>;
 
   // Targeting Search
   searchTargeting(accountId: string, type: string, query: string): Promise<Array<{ id: string; name: string; type: string; audience_size_lower_bound?: number; audience_size_upper_bound?: number }>>;
-  getTargetingCategories(accountId: string, type: string): Promise<Array<{ id: string; name: string; type: string }>>;
+  getTargetingCategories(accountId: string, type: string, options?: CacheOptions): Promise<Array<{ id: string; name: string; type: string }>>;
+}
+
+/**
+ * Polling limit for deep copies that run as async request sets
+ */
+export interface CopyWaitOptions {
+  /** Give up after this long (default: the upload timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Create and update methods that can be validated without changing anything
+ */
+export type DryRunMethod =
+  | 'createCampaign'
+  | 'updateCampaign'
+  | 'createAdSet'
+  | 'updateAdSet'
+  | 'createAd'
+  | 'updateAd'
+  | 'createAdCreative'
+  | 'updateCustomAudience';
+
+/**
+ * Polling limits for async insights report runs
+ */
+export interface InsightsReportWaitOptions {
+  /** Give up after this long (default: the insights timeout) */
+  timeoutMs?: number;
+  /** First delay between status checks (default: 1000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Options for a chunked video upload
+ */
+export interface VideoUploadOptions {
+  title?: string;
+  description?: string;
+  /** Continue an interrupted upload instead of starting a new session */
+  resume?: { uploadSessionId: string; videoId: string; startOffset: number };
+  /** Poll until processing finishes (default: true) */
+  waitForReady?: boolean;
+  /** Give up waiting for processing after this long (default: the upload timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Polling limits while a video is processed
+ */
+export interface VideoProcessingWaitOptions {
+  /** Give up after this long (default: the upload timeout) */
+  timeoutMs?: number;
+  /** First delay between status checks (default: 2000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Transport overrides, e.g. to run against a local Graph API simulator
+ */
+export interface MetaAdsClientOptions {
+  /** Graph API origin (default: https://graph.facebook.com) */
+  baseUrl?: string;
+  /** fetch implementation used for every Graph API call (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Wait used for retry backoff and throttling (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Per-call-type timeouts (default: DEFAULT_REQUEST_TIMEOUTS) */
+  timeouts?: Partial<RequestTimeouts>;
+  /** Cache for slow-changing reads (default: no caching) */
+  cache?: ReadCache;
+  /** Where mutations are recorded (default: no audit log) */
+  audit?: AuditLog;
+  /** Tenant guardrails checked before every change (default: none) */
+  policy?: TenantPolicy;
+  /** Stored tenant policies; one stored for the tenant replaces `policy` (default: none) */
+  policies?: PolicyStore;
 }
 
 // =============================================================================
@@ -287,21 +692,67 @@ class MetaAdsClientImpl implements MetaAdsClient {
   private credentials: TenantCredentials;
   private baseUrl: string;
   private apiVersion: string;
-
-  constructor(credentials: TenantCredentials) {
+  private fetch: typeof fetch;
+  private sleep: (ms: number) => Promise<void>;
+  private timeouts: RequestTimeouts;
+  private signal?: AbortSignal;
+  private validateOnly = false;
+  private cache?: ReadCache;
+  private cacheScope?: Promise<string>;
+  private audit?: AuditLog;
+  private policy?: TenantPolicy;
+  private policies?: PolicyStore;
+  // Shared with scoped clients so /me and the stored policy are read at most once per client
+  private tenant: { user?: Promise<string>; policy?: Promise<TenantPolicy | undefined> } = {};
+  private retryPolicy: RetryPolicy;
+  private retryBudget: RetryBudget;
+  private usage: RateLimitStatus;
+  private appSecretProof?: Promise<string>;
+
+  constructor(credentials: TenantCredentials, options: MetaAdsClientOptions = {}) {
     this.credentials = credentials;
-    this.baseUrl = META_API_BASE_URL;
+    this.baseUrl = (options.baseUrl || META_API_BASE_URL).replace(/\/+$/, '');
+    // Wrapped so the global is never invoked with the client as `this`
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.timeouts = { ...DEFAULT_REQUEST_TIMEOUTS, ...options.timeouts };
+    this.cache = options.cache;
+    this.audit = options.audit;
+    this.policy = options.policy;
+    this.policies = options.policies;
     this.apiVersion = credentials.apiVersion || DEFAULT_API_VERSION;
+    this.retryPolicy = resolveRetryPolicy({
+      maxAttempts: credentials.retryMaxAttempts,
+      maxTotalWaitMs: credentials.retryMaxWaitMs,
+    });
+    this.retryBudget = new RetryBudget(this.retryPolicy.maxTotalWaitMs);
+    this.usage = createRateLimitStatus();
   }
 
   // ===========================================================================
   // HTTP Request Helper
   // ===========================================================================
 
-  private getAuthParams(): URLSearchParams {
-    return new URLSearchParams({
-      access_token: this.credentials.accessToken,
-    });
+  /**
+   * The access token is sent as a header, never in the URL, so it cannot leak
+   * into request logs or observability traces.
+   */
+  private getAuthHeaders(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.credentials.accessToken}`,
+    };
+  }
+
+  /**
+   * appsecret_proof is the HMAC-SHA256 of the access token keyed by the app secret.
+   * Computed once per client since neither value changes during a request.
+   */
+  private getAppSecretProof(): Promise<string> | undefined {
+    if (!this.credentials.appSecret) {
+      return undefined;
+    }
+    this.appSecretProof ??= hmacSha256Hex(this.credentials.appSecret, this.credentials.accessToken);
+    return this.appSecretProof;
   }
 
   private async request<T>(
@@ -309,73 +760,408 @@ class MetaAdsClientImpl implements MetaAdsClient {
     options: RequestInit = {},
     params?: Record<string, string | string[] | number | boolean | undefined>
   ): Promise<T> {
-    const searchParams = this.getAuthParams();
-
-    // Add additional params
-    if (params) {
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) {
-          if (Array.isArray(value)) {
-            searchParams.set(key, JSON.stringify(value));
-          } else {
-            searchParams.set(key, String(value));
-          }
+    const method = (options.method || 'GET').toUpperCase();
+    const searchParams = toSearchParams(params ?? {});
+    const proof = await this.getAppSecretProof();
+    if (proof) {
+      searchParams.set('appsecret_proof', proof);
+    }
+
+    // POST parameters travel in the body so they stay out of URLs
+    const sendAsBody = method === 'POST';
+    const query = sendAsBody ? '' : searchParams.toString();
+    const url = `${this.baseUrl}/${this.apiVersion}${endpoint}${query ? `?${query}` : ''}`;
+
+    const timeoutMs = this.getTimeoutMs(endpoint, method);
+    const trace: { fbTraceId?: string } = {};
+
+    const call = this.withRetry(method, async () => {
+      await this.throttle();
+
+      return this.withTimeout(timeoutMs, async (signal) => {
+        const response = await this.fetch(url, {
+          ...options,
+          method,
+          body: sendAsBody ? searchParams : options.body,
+          headers: {
+            ...this.getAuthHeaders(),
+            ...(sendAsBody && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+            ...(options.headers || {}),
+          },
+          signal,
+        });
+        this.recordUsage(response, endpoint);
+        trace.fbTraceId = response.headers.get('x-fb-trace-id') ?? undefined;
+
+        // Handle rate limiting
+        if (response.status === 429) {
+          const retryAfter = Number.parseInt(response.headers.get('Retry-After') ?? '', 10);
+          throw new RateLimitError(
+            'Rate limit exceeded',
+            Number.isFinite(retryAfter) ? retryAfter : (getRegainAccessSeconds(this.usage) ?? 0)
+          );
         }
-      }
+
+        // Handle errors
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => ({}));
+          throw parseMetaApiError(
+            errorBody as Record<string, unknown>,
+            response.status,
+            getRegainAccessSeconds(this.usage)
+          );
+        }
+
+        // Starting an insights report run or previewing a rule reads data; it does
+        // not change the object
+        if (method !== 'GET' && !READ_ONLY_POST_ENDPOINT.test(endpoint)) {
+          await this.invalidateCache(endpoint);
+        }
+
+        // Handle 204 No Content
+        if (response.status === 204) {
+          return undefined as T;
+        }
+
+        return (await response.json()) as T;
+      });
+    });
+
+    return this.isAuditedMutation(method, endpoint, params)
+      ? this.audited(call, method, endpoint, params ?? {}, trace)
+      : call;
+  }
+
+  private async postForm<T>(
+    endpoint: string,
+    formData: FormData
+  ): Promise<T> {
+    const proof = await this.getAppSecretProof();
+    if (proof) {
+      formData.append('appsecret_proof', proof);
     }
 
-    const url = `${this.baseUrl}/${this.apiVersion}${endpoint}?${searchParams.toString()}`;
+    const url = `${this.baseUrl}/${this.apiVersion}${endpoint}`;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(options.headers || {}),
-      },
+    const timeoutMs = this.getTimeoutMs(endpoint, 'POST');
+
+    return this.withRetry('POST', async () => {
+      await this.throttle();
+
+      return this.withTimeout(timeoutMs, async (signal) => {
+        const response = await this.fetch(url, {
+          method: 'POST',
+          body: formData,
+          headers: this.getAuthHeaders(),
+          signal,
+        });
+        this.recordUsage(response, endpoint);
+
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => ({}));
+          throw parseMetaApiError(
+            errorBody as Record<string, unknown>,
+            response.status,
+            getRegainAccessSeconds(this.usage)
+          );
+        }
+
+        return (await response.json()) as T;
+      });
     });
+  }
+
+  /**
+   * Pick the timeout budget for a call from its endpoint
+   */
+  private getTimeoutMs(endpoint: string, method: string): number {
+    if (endpoint === '') {
+      return this.timeouts.batch;
+    }
+    if (/\/insights$/.test(endpoint)) {
+      return this.timeouts.insights;
+    }
+    if (method === 'POST' && /\/(adimages|advideos)$/.test(endpoint)) {
+      return this.timeouts.upload;
+    }
+    return this.timeouts.default;
+  }
+
+  /**
+   * Run one attempt with a signal that fires when the timeout elapses or the
+   * caller's signal aborts, whichever comes first. Response bodies must be read
+   * inside the operation so a stalled body is covered too.
+   */
+  private async withTimeout<T>(
+    timeoutMs: number,
+    operation: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    this.signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const timeout = new TimeoutError(`Meta API request timed out after ${timeoutMs}ms`, timeoutMs);
+    const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+    const onAbort = () => controller.abort(this.signal?.reason);
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted && controller.signal.reason === timeout) {
+        throw timeout;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener('abort', onAbort);
+    }
+  }
 
-    // Handle rate limiting
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError(
-        'Rate limit exceeded',
-        retryAfter ? Number.parseInt(retryAfter, 10) : 60
+  /**
+   * Sleep that ends early (by rejecting) when the caller aborts
+   */
+  private wait(ms: number): Promise<void> {
+    const signal = this.signal;
+    if (!signal) {
+      return this.sleep(ms);
+    }
+    signal.throwIfAborted();
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.sleep(ms).then(
+        () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject
       );
+    });
+  }
+
+  /**
+   * Call check until it returns a value, waiting between calls with a delay that
+   * grows 1.5x up to maxIntervalMs. Waiting is counted rather than timed so an
+   * injected sleep keeps tests fast.
+   */
+  private async pollUntil<T>(
+    check: () => Promise<T | undefined>,
+    options: {
+      timeoutMs: number;
+      intervalMs: number;
+      maxIntervalMs: number;
+      onTimeout: () => Error;
     }
+  ): Promise<T> {
+    let interval = options.intervalMs;
+    let waited = 0;
 
-    // Handle errors
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({}));
-      throw parseMetaApiError(errorBody as Record<string, unknown>, response.status);
+    while (true) {
+      const result = await check();
+      if (result !== undefined) {
+        return result;
+      }
+      if (waited >= options.timeoutMs) {
+        throw options.onTimeout();
+      }
+
+      const delay = Math.min(interval, options.timeoutMs - waited);
+      await this.wait(delay);
+      waited += delay;
+      interval = Math.min(interval * 1.5, options.maxIntervalMs);
     }
+  }
+
+  /**
+   * Update the usage snapshot from a response's throttling headers
+   */
+  private recordUsage(response: Response, endpoint: string): void {
+    const accountId = /^\/(act_\d+)/.exec(endpoint)?.[1];
+    recordUsageHeaders(this.usage, response.headers, accountId);
+  }
 
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return undefined as T;
+  /**
+   * Slow down when the latest usage headers show the tenant approaching a limit
+   */
+  private async throttle(): Promise<void> {
+    const delay = getThrottleDelayMs(this.usage);
+    if (delay > 0) {
+      await this.wait(delay);
     }
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Retry throttled and transient failures using the tenant's retry policy.
+   * The wait budget is shared by every call made through this client.
+   */
+  private withRetry<T>(method: string, operation: () => Promise<T>): Promise<T> {
+    return withRetry(operation, {
+      policy: this.retryPolicy,
+      budget: this.retryBudget,
+      shouldRetry: (error) => !this.signal?.aborted && shouldRetryRequest(error, method),
+      sleep: (ms) => this.wait(ms),
+    });
   }
 
-  private async postForm<T>(
+  // ===========================================================================
+  // Read Cache
+  // ===========================================================================
+
+  /**
+   * Cache entries are scoped by a hash of the access token so tenants never
+   * see each other's reads and the token itself is never stored.
+   */
+  private getCacheScope(): Promise<string> {
+    this.cacheScope ??= sha256Hex(this.credentials.accessToken).then((hash) => hash.slice(0, 32));
+    return this.cacheScope;
+  }
+
+  /**
+   * Serve a read from the cache, loading and storing it on a miss.
+   * `noCache` skips the lookup but still refreshes the stored value.
+   */
+  private async cached<T>(
+    entity: CacheEntity,
+    objectId: string,
+    variant: Record<string, unknown>,
+    options: CacheOptions | undefined,
+    load: () => Promise<T>
+  ): Promise<T> {
+    if (!this.cache) {
+      return load();
+    }
+
+    const scope = await this.getCacheScope();
+    const key = JSON.stringify([entity, this.apiVersion, variant]);
+    if (!options?.noCache) {
+      const hit = await this.cache.get<T>(scope, objectId, key);
+      if (hit !== undefined) {
+        return hit;
+      }
+    }
+
+    const value = await load();
+    await this.cache.set(scope, objectId, key, value, CACHE_TTL_SECONDS[entity]);
+    return value;
+  }
+
+  /**
+   * Drop cached reads about the object a write went to (the first path segment)
+   */
+  private async invalidateCache(path: string): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+    const objectId = path.replace(/^\/+/, '').replace(/^v\d+\.\d+\//, '').split(/[/?]/)[0];
+    if (objectId && !objectId.startsWith('{')) {
+      await this.cache.invalidate(await this.getCacheScope(), objectId);
+    }
+  }
+
+  // ===========================================================================
+  // Audit Log
+  // ===========================================================================
+
+  /**
+   * Creates, updates, deletes and audience membership changes are audited.
+   * Insights report runs only read, and validate_only calls change nothing.
+   */
+  private isAuditedMutation(
+    method: string,
     endpoint: string,
-    formData: FormData
+    params?: Record<string, unknown>
+  ): boolean {
+    return (
+      this.audit !== undefined &&
+      method !== 'GET' &&
+      !READ_ONLY_POST_ENDPOINT.test(endpoint) &&
+      !String(params?.execution_options ?? '').includes('validate_only')
+    );
+  }
+
+  private async audited<T>(
+    call: Promise<T>,
+    method: string,
+    endpoint: string,
+    params: Record<string, unknown>,
+    trace: { fbTraceId?: string }
   ): Promise<T> {
-    formData.append('access_token', this.credentials.accessToken);
+    try {
+      const result = await call;
+      await this.recordMutation(method, endpoint, params, { result, fbTraceId: trace.fbTraceId });
+      return result;
+    } catch (error) {
+      await this.recordMutation(method, endpoint, params, { error, fbTraceId: trace.fbTraceId });
+      throw error;
+    }
+  }
 
-    const url = `${this.baseUrl}/${this.apiVersion}${endpoint}`;
+  /**
+   * Write one audit entry. Auditing is best effort: a failed write never fails
+   * the call that was audited.
+   */
+  private async recordMutation(
+    method: string,
+    endpoint: string,
+    params: Record<string, unknown>,
+    outcome: { result?: unknown; error?: unknown; fbTraceId?: string }
+  ): Promise<void> {
+    if (!this.audit) {
+      return;
+    }
+    const path = endpoint.replace(/^\/+/, '').replace(/^v\d+\.\d+\//, '');
+    const [targetId, edge] = path.split(/[/?]/);
+    const createdId = (outcome.result as { id?: unknown } | undefined)?.id;
+    const error = outcome.error === undefined ? undefined : formatErrorForLogging(outcome.error);
+    try {
+      await this.audit.record({
+        id: crypto.randomUUID(),
+        tenant: await this.getTenantId(),
+        tool: currentToolName() ?? 'unknown',
+        method,
+        endpoint: `/${path}`,
+        objectId: edge && typeof createdId === 'string' ? createdId : targetId,
+        params: toAuditParams(params),
+        success: error === undefined,
+        result: error === undefined ? redactValue(outcome.result) : undefined,
+        error,
+        fbTraceId: (error?.fbTraceId as string | undefined) ?? outcome.fbTraceId,
+        timestamp: new Date().toISOString(),
+      });
+    } catch {
+      // Auditing is best effort
+    }
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
-    });
+  // ===========================================================================
+  // Cancellation
+  // ===========================================================================
 
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({}));
-      throw parseMetaApiError(errorBody as Record<string, unknown>, response.status);
+  /**
+   * A view of this client whose calls are aborted when the signal fires.
+   * Retry budget and usage tracking stay shared with the original client.
+   */
+  withSignal(signal?: AbortSignal): MetaAdsClient {
+    if (!signal) {
+      return this;
     }
+    const scoped = Object.create(this) as MetaAdsClientImpl;
+    scoped.signal = signal;
+    return scoped;
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Run a create or update method with execution_options=validate_only, so Meta
+   * checks the request and returns recommendations without changing anything
+   */
+  async dryRun<K extends DryRunMethod>(
+    method: K,
+    ...args: Parameters<MetaAdsClient[K]>
+  ): Promise<DryRunResult> {
+    const scoped = Object.create(this) as MetaAdsClientImpl;
+    scoped.validateOnly = true;
+    const mutate = scoped[method] as (...args: unknown[]) => Promise<unknown>;
+    return (await mutate.apply(scoped, args)) as DryRunResult;
   }
 
   // ===========================================================================
@@ -393,11 +1179,338 @@ class MetaAdsClientImpl implements MetaAdsClient {
     } catch (error) {
       return {
         connected: false,
-        message: error instanceof Error ? error.message : 'Connection failed',
+        message: error instanceof Error ? redactText(error.message) : 'Connection failed',
       };
     }
   }
 
+  /**
+   * Stable identifier for whoever owns the access token: the /me user ID, or a
+   * hash of the token when /me cannot be read. The hash only scopes snapshots,
+   * rules and the audit log; it is never used to look up a policy.
+   */
+  getTenantId(): Promise<string> {
+    return this.getUserTenantId().catch(
+      async () => `token:${(await sha256Hex(this.credentials.accessToken)).slice(0, 32)}`
+    );
+  }
+
+  /**
+   * The tenant as the /me user ID. Only a successful read is remembered, so a
+   * throttled or failed /me is tried again on the next call.
+   */
+  private getUserTenantId(): Promise<string> {
+    this.tenant.user ??= this.request<{ id: string }>('/me', {}, { fields: 'id' }).then(
+      (me) => `user:${me.id}`,
+      (error: unknown) => {
+        this.tenant.user = undefined;
+        throw error;
+      }
+    );
+    return this.tenant.user;
+  }
+
+  // ===========================================================================
+  // Tenant Policy
+  // ===========================================================================
+
+  /**
+   * The guardrails every change is checked against: the policy stored for the
+   * tenant if there is one, otherwise the one the client was created with.
+   * Campaign, ad set, ad and audience mutations check them here, so no tool or
+   * scheduled run can skip them. When the tenant cannot be read from /me this
+   * fails rather than falling back to a policy the caller chose.
+   */
+  getPolicy(): Promise<TenantPolicy | undefined> {
+    const policies = this.policies;
+    if (!policies) {
+      return Promise.resolve(this.policy);
+    }
+    this.tenant.policy ??= this.getUserTenantId()
+      .then(
+        (tenant) => policies.get(tenant),
+        (error: unknown) => {
+          throw new MetaAdsApiError(
+            `The tenant policy cannot be checked because the token's user could not be read; nothing was changed. ${error instanceof Error ? error.message : ''}`.trim(),
+            undefined,
+            'POLICY_UNAVAILABLE',
+            error instanceof MetaAdsApiError && error.retryable
+          );
+        }
+      )
+      .then(
+        (stored) => stored ?? this.policy,
+        (error: unknown) => {
+          this.tenant.policy = undefined;
+          throw error;
+        }
+      );
+    return this.tenant.policy;
+  }
+
+  /**
+   * Run a POST and read the resulting object back in a single batch round trip.
+   * Creates reference the new object's ID through JSONPath. Requests inside a
+   * batch are not retried, so a POST Meta throttled (and so never ran) is sent
+   * again on its own; any other failed POST may have gone through and is not.
+   */
+  private async mutateAndFetch<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    fields: string,
+    objectId?: string
+  ): Promise<T> {
+    if (this.validateOnly) {
+      // Nothing is written, so there is no object to read back; the caller
+      // (dryRun) knows the result is the validation outcome
+      return this.request<T>(endpoint, { method: 'POST' }, {
+        ...params,
+        execution_options: VALIDATE_ONLY_EXECUTION_OPTIONS,
+      } as Record<string, string | number | boolean | undefined>);
+    }
+
+    const [mutation, read] = await this.sendBatch<T>([
+      {
+        method: 'POST',
+        relativeUrl: endpoint,
+        params,
+        name: 'mutation',
+        omitResponseOnSuccess: false,
+      },
+      {
+        method: 'GET',
+        relativeUrl: objectId ?? '{result=mutation:$.id}',
+        params: { fields },
+        dependsOn: 'mutation',
+      },
+    ]);
+
+    if (mutation.error) {
+      if (!shouldRetryRequest(mutation.error, 'POST')) {
+        throw mutation.error;
+      }
+      return this.postAndFetch<T>(endpoint, params, fields, objectId);
+    }
+    if (read.success) {
+      return read.data as T;
+    }
+
+    // The mutation went through, so fall back to a direct read rather than failing
+    const id = objectId ?? (mutation.data as { id?: string } | undefined)?.id;
+    if (!id) {
+      throw read.error ?? new MetaAdsApiError('Mutation succeeded but returned no ID');
+    }
+    return this.request<T>(`/${id}`, {}, { fields });
+  }
+
+  /**
+   * Run a POST, then read the resulting object back, as separate calls that
+   * each get the usual retries
+   */
+  private async postAndFetch<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    fields: string,
+    objectId?: string
+  ): Promise<T> {
+    const mutation = await this.request<{ id?: string } | undefined>(endpoint, {
+      method: 'POST',
+    }, params as Record<string, string | number | boolean | undefined>);
+    const id = objectId ?? mutation?.id;
+    if (!id) {
+      throw new MetaAdsApiError('Mutation succeeded but returned no ID');
+    }
+    return this.request<T>(`/${id}`, {}, { fields });
+  }
+
+  /**
+   * Update an object and report what changed. The current state, the POST and
+   * the new state are read in one batch, each step waiting for the previous one.
+   * The first read is only for the diff: when it fails the POST never ran, so
+   * the update is sent without it and the result has no `before`.
+   */
+  private async updateAndDiff<T extends object>(
+    objectId: string,
+    params: Record<string, unknown>,
+    fields: string
+  ): Promise<UpdateResult<T>> {
+    if (this.validateOnly) {
+      return this.mutateAndFetch<UpdateResult<T>>(`/${objectId}`, params, fields, objectId);
+    }
+
+    const [before, mutation, read] = await this.sendBatch<T>([
+      {
+        method: 'GET',
+        relativeUrl: objectId,
+        params: { fields },
+        name: 'before',
+        omitResponseOnSuccess: false,
+      },
+      {
+        method: 'POST',
+        relativeUrl: objectId,
+        params,
+        name: 'mutation',
+        dependsOn: 'before',
+        omitResponseOnSuccess: false,
+      },
+      {
+        method: 'GET',
+        relativeUrl: objectId,
+        params: { fields },
+        dependsOn: 'mutation',
+      },
+    ]);
+
+    if (before.error) {
+      const after = await this.mutateAndFetch<T>(`/${objectId}`, params, fields, objectId);
+      return { after, changes: [] };
+    }
+    let after: T;
+    if (mutation.error) {
+      // Same rule as mutateAndFetch: only a throttled POST is known not to have run
+      if (!shouldRetryRequest(mutation.error, 'POST')) {
+        throw mutation.error;
+      }
+      after = await this.postAndFetch<T>(`/${objectId}`, params, fields, objectId);
+    } else {
+      // The mutation went through, so fall back to a direct read rather than failing
+      after = read.success
+        ? (read.data as T)
+        : await this.request<T>(`/${objectId}`, {}, { fields });
+    }
+    const previous = before.data as T;
+    return {
+      before: previous,
+      after,
+      changes: diffFields(previous, after, { ignore: ['updated_time'] }),
+    };
+  }
+
+  // ===========================================================================
+  // Rate Limits
+  // ===========================================================================
+
+  async getRateLimitStatus(accountId?: string): Promise<RateLimitStatus> {
+    // Make a lightweight call so the snapshot reflects Meta's current counters
+    if (accountId) {
+      const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+      await this.request(`/${id}`, {}, { fields: 'id' });
+    } else {
+      await this.request('/me', {}, { fields: 'id' });
+    }
+    return structuredClone(this.usage);
+  }
+
+  // ===========================================================================
+  // Batch Requests
+  // ===========================================================================
+
+  /**
+   * Send raw Graph API requests in one batch. With a tenant policy only reads
+   * are allowed, since the policy cannot judge arbitrary requests.
+   */
+  async batch<T = unknown>(operations: BatchOperation[]): Promise<BatchResult<T>[]> {
+    checkBatch(await this.getPolicy(), operations);
+    return this.sendBatch<T>(operations);
+  }
+
+  private async sendBatch<T>(operations: BatchOperation[]): Promise<BatchResult<T>[]> {
+    if (operations.length === 0 || operations.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(`A batch must contain between 1 and ${MAX_BATCH_SIZE} requests`);
+    }
+
+    const formData = new FormData();
+    formData.append('batch', JSON.stringify(operations.map((op) => this.toBatchItem(op))));
+    formData.append('include_headers', 'false');
+
+    const responses = await this.postForm<Array<{ code: number; body?: string } | null>>(
+      '',
+      formData
+    );
+
+    await Promise.all(
+      operations.map((op, index) => {
+        const response = responses[index];
+        return op.method !== 'GET' && response && response.code < 400
+          ? this.invalidateCache(op.relativeUrl)
+          : undefined;
+      })
+    );
+
+    const results = operations.map((op, index): BatchResult<T> => {
+      const response = responses[index];
+      if (!response) {
+        return {
+          index,
+          name: op.name,
+          status: null,
+          success: false,
+          error: new MetaAdsApiError(
+            'Request was not executed (a dependency failed or the batch timed out)',
+            undefined,
+            'BATCH_REQUEST_SKIPPED'
+          ),
+        };
+      }
+
+      let body: unknown;
+      try {
+        body = response.body ? JSON.parse(response.body) : undefined;
+      } catch {
+        body = response.body;
+      }
+
+      if (response.code >= 400) {
+        return {
+          index,
+          name: op.name,
+          status: response.code,
+          success: false,
+          error: parseMetaApiError((body ?? {}) as Record<string, unknown>, response.code),
+        };
+      }
+
+      return { index, name: op.name, status: response.code, success: true, data: body as T };
+    });
+
+    await Promise.all(
+      operations.map((op, index) =>
+        // Skipped operations never reached Meta, so there is nothing to record
+        this.isAuditedMutation(op.method, op.relativeUrl, op.params) && results[index].status !== null
+          ? this.recordMutation(op.method, op.relativeUrl, op.params ?? {}, {
+              result: results[index].data,
+              error: results[index].error,
+            })
+          : undefined
+      )
+    );
+    return results;
+  }
+
+  private toBatchItem(op: BatchOperation): Record<string, unknown> {
+    const path = op.relativeUrl.replace(/^\/+/, '').replace(/^v\d+\.\d+\//, '');
+    const encoded = op.params ? toSearchParams(op.params).toString() : '';
+    const item: Record<string, unknown> = { method: op.method };
+
+    if (op.method === 'POST') {
+      item.relative_url = `${this.apiVersion}/${path}`;
+      if (encoded) item.body = encoded;
+    } else {
+      const separator = path.includes('?') ? '&' : '?';
+      item.relative_url = encoded
+        ? `${this.apiVersion}/${path}${separator}${encoded}`
+        : `${this.apiVersion}/${path}`;
+    }
+
+    if (op.name) item.name = op.name;
+    if (op.dependsOn) item.depends_on = op.dependsOn;
+    if (op.omitResponseOnSuccess !== undefined) {
+      item.omit_response_on_success = op.omitResponseOnSuccess;
+    }
+    return item;
+  }
+
   // ===========================================================================
   // Ad Accounts
   // ===========================================================================
@@ -411,13 +1524,46 @@ class MetaAdsClientImpl implements MetaAdsClient {
     });
   }
 
-  async getAdAccount(accountId: string, fields?: string): Promise<AdAccount> {
+  async getAdAccount(accountId: string, fields?: string, options?: CacheOptions): Promise<AdAccount> {
+    const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+    const query = { fields: fields || DEFAULT_AD_ACCOUNT_FIELDS };
+    return this.cached('adAccount', id, query, options, () =>
+      this.request<AdAccount>(`/${id}`, {}, query)
+    );
+  }
+
+  async listAccountActivities(
+    accountId: string,
+    params?: PaginationParams & AccountActivityFilters & { fields?: string }
+  ): Promise<PaginatedResponse<AccountActivity>> {
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
-    return this.request<AdAccount>(`/${id}`, {}, {
-      fields: fields || DEFAULT_AD_ACCOUNT_FIELDS,
+    return this.request<PaginatedResponse<AccountActivity>>(`/${id}/activities`, {}, {
+      fields: params?.fields || DEFAULT_ACTIVITY_FIELDS,
+      limit: params?.limit || 25,
+      after: params?.after,
+      before: params?.before,
+      since: params?.since,
+      until: params?.until,
+      category: params?.category,
+      oid: params?.oid,
     });
   }
 
+  /**
+   * Follow cursors through an account's activity history until the last page
+   * or a cap in `options` is reached
+   */
+  async listAllAccountActivities(
+    accountId: string,
+    filters: AccountActivityFilters & { fields?: string },
+    options: PaginateOptions
+  ): Promise<CollectedPages<AccountActivity>> {
+    return listAll(
+      (page) => this.listAccountActivities(accountId, { ...filters, ...page }),
+      options
+    );
+  }
+
   // ===========================================================================
   // Campaigns
   // ===========================================================================
@@ -443,6 +1589,7 @@ class MetaAdsClientImpl implements MetaAdsClient {
   }
 
   async createCampaign(accountId: string, input: CampaignCreateInput): Promise<Campaign> {
+    checkCampaignCreate(await this.getPolicy(), input);
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
     const params: Record<string, unknown> = {
       name: input.name,
@@ -460,14 +1607,14 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.stop_time) params.stop_time = input.stop_time;
     if (input.promoted_object) params.promoted_object = JSON.stringify(input.promoted_object);
 
-    const result = await this.request<{ id: string }>(`/${id}/campaigns`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getCampaign(result.id);
+    return this.mutateAndFetch<Campaign>(`/${id}/campaigns`, params, DEFAULT_CAMPAIGN_FIELDS);
   }
 
-  async updateCampaign(campaignId: string, input: CampaignUpdateInput): Promise<Campaign> {
+  async updateCampaign(
+    campaignId: string,
+    input: CampaignUpdateInput
+  ): Promise<UpdateResult<Campaign>> {
+    await checkCampaignUpdate(await this.getPolicy(), this, campaignId, input);
     const params: Record<string, unknown> = {};
 
     if (input.name !== undefined) params.name = input.name;
@@ -479,14 +1626,11 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.start_time !== undefined) params.start_time = input.start_time;
     if (input.stop_time !== undefined) params.stop_time = input.stop_time;
 
-    await this.request(`/${campaignId}`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getCampaign(campaignId);
+    return this.updateAndDiff<Campaign>(campaignId, params, DEFAULT_CAMPAIGN_FIELDS);
   }
 
   async deleteCampaign(campaignId: string): Promise<void> {
+    await checkDelete(await this.getPolicy(), this, 'campaign', campaignId);
     await this.request(`/${campaignId}`, { method: 'DELETE' });
   }
 
@@ -527,6 +1671,7 @@ class MetaAdsClientImpl implements MetaAdsClient {
   }
 
   async createAdSet(accountId: string, input: AdSetCreateInput): Promise<AdSet> {
+    checkAdSetCreate(await this.getPolicy(), input);
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
     const params: Record<string, unknown> = {
       campaign_id: input.campaign_id,
@@ -549,14 +1694,11 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.is_dynamic_creative !== undefined) params.is_dynamic_creative = input.is_dynamic_creative;
     if (input.pacing_type) params.pacing_type = JSON.stringify(input.pacing_type);
 
-    const result = await this.request<{ id: string }>(`/${id}/adsets`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getAdSet(result.id);
+    return this.mutateAndFetch<AdSet>(`/${id}/adsets`, params, DEFAULT_ADSET_FIELDS);
   }
 
-  async updateAdSet(adSetId: string, input: AdSetUpdateInput): Promise<AdSet> {
+  async updateAdSet(adSetId: string, input: AdSetUpdateInput): Promise<UpdateResult<AdSet>> {
+    await checkAdSetUpdate(await this.getPolicy(), this, adSetId, input);
     const params: Record<string, unknown> = {};
 
     if (input.name !== undefined) params.name = input.name;
@@ -571,14 +1713,11 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.optimization_goal !== undefined) params.optimization_goal = input.optimization_goal;
     if (input.billing_event !== undefined) params.billing_event = input.billing_event;
 
-    await this.request(`/${adSetId}`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getAdSet(adSetId);
+    return this.updateAndDiff<AdSet>(adSetId, params, DEFAULT_ADSET_FIELDS);
   }
 
   async deleteAdSet(adSetId: string): Promise<void> {
+    await checkDelete(await this.getPolicy(), this, 'adset', adSetId);
     await this.request(`/${adSetId}`, { method: 'DELETE' });
   }
 
@@ -618,6 +1757,7 @@ class MetaAdsClientImpl implements MetaAdsClient {
   }
 
   async createAd(accountId: string, input: AdCreateInput): Promise<Ad> {
+    await checkAdCreate(await this.getPolicy(), this, input.adset_id);
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
     const params: Record<string, unknown> = {
       adset_id: input.adset_id,
@@ -629,14 +1769,11 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.tracking_specs) params.tracking_specs = JSON.stringify(input.tracking_specs);
     if (input.conversion_specs) params.conversion_specs = JSON.stringify(input.conversion_specs);
 
-    const result = await this.request<{ id: string }>(`/${id}/ads`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getAd(result.id);
+    return this.mutateAndFetch<Ad>(`/${id}/ads`, params, DEFAULT_AD_FIELDS);
   }
 
-  async updateAd(adId: string, input: AdUpdateInput): Promise<Ad> {
+  async updateAd(adId: string, input: AdUpdateInput): Promise<UpdateResult<Ad>> {
+    await checkAdUpdate(await this.getPolicy(), this, adId, input);
     const params: Record<string, unknown> = {};
 
     if (input.name !== undefined) params.name = input.name;
@@ -644,17 +1781,465 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.creative !== undefined) params.creative = JSON.stringify(input.creative);
     if (input.tracking_specs !== undefined) params.tracking_specs = JSON.stringify(input.tracking_specs);
 
-    await this.request(`/${adId}`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getAd(adId);
+    return this.updateAndDiff<Ad>(adId, params, DEFAULT_AD_FIELDS);
   }
 
   async deleteAd(adId: string): Promise<void> {
+    await checkDelete(await this.getPolicy(), this, 'ad', adId);
     await this.request(`/${adId}`, { method: 'DELETE' });
   }
 
+  // ===========================================================================
+  // Campaign Trees
+  // ===========================================================================
+
+  /**
+   * Read a campaign with all of its ad sets and, per ad set, all of its ads
+   */
+  async getCampaignTree(campaignId: string): Promise<CampaignTree> {
+    const campaign = await this.getCampaign(campaignId);
+    const options = { pageSize: CAMPAIGN_TREE_PAGE_SIZE };
+    const adSets = await listAll(
+      (page) =>
+        this.listAdSets(campaign.account_id, {
+          ...page,
+          campaignId,
+          effectiveStatus: CAMPAIGN_TREE_STATUSES,
+        }),
+      options
+    );
+
+    const tree: CampaignTree = { campaign, adSets: [] };
+    for (const adSet of adSets.data) {
+      const ads = await listAll(
+        (page) =>
+          this.listAds(campaign.account_id, {
+            ...page,
+            adSetId: adSet.id,
+            effectiveStatus: CAMPAIGN_TREE_STATUSES,
+          }),
+        options
+      );
+      tree.adSets.push({ ...adSet, ads: ads.data });
+    }
+    return tree;
+  }
+
+  /**
+   * Run a campaign document plan's steps in order, stopping at the first failure.
+   * New ad sets and ads without a parent ID get the ID of the parent created
+   * earlier in the plan.
+   */
+  async applyCampaignPlan(plan: CampaignPlan): Promise<PlanStepResult[]> {
+    const created = new Map<string, string>();
+    const results: PlanStepResult[] = [];
+    for (const step of plan.steps) {
+      try {
+        const id = await this.applyPlanStep(plan.accountId, step, created);
+        if (step.action === 'create' && step.path) created.set(step.path, id);
+        results.push({ ...step, id, success: true });
+      } catch (error) {
+        results.push({ ...step, success: false, error: formatErrorForLogging(error) });
+        break;
+      }
+    }
+    return results;
+  }
+
+  private async applyPlanStep(
+    accountId: string,
+    step: PlanStep,
+    created: Map<string, string>
+  ): Promise<string> {
+    if (step.action !== 'create') {
+      const id = step.id as string;
+      switch (step.objectType) {
+        case 'campaign':
+          await this.updateCampaign(id, step.params);
+          break;
+        case 'adset':
+          await this.updateAdSet(id, step.params);
+          break;
+        case 'ad':
+          await this.updateAd(id, step.params);
+          break;
+      }
+      return id;
+    }
+
+    const parentId = step.path ? created.get(parentPath(step.path)) : undefined;
+    switch (step.objectType) {
+      case 'campaign':
+        return (await this.createCampaign(accountId, step.params)).id;
+      case 'adset': {
+        const { campaign_id = parentId, ...params } = step.params;
+        if (!campaign_id) {
+          throw new ValidationError(`Ad set "${step.name}" has no campaign to be created in`);
+        }
+        return (await this.createAdSet(accountId, { ...params, campaign_id })).id;
+      }
+      case 'ad': {
+        const { adset_id = parentId, ...params } = step.params;
+        if (!adset_id) {
+          throw new ValidationError(`Ad "${step.name}" has no ad set to be created in`);
+        }
+        return (await this.createAd(accountId, { ...params, adset_id })).id;
+      }
+    }
+  }
+
+  // ===========================================================================
+  // Launches
+  // ===========================================================================
+
+  /**
+   * Create a campaign, ad set, creative and ad in order, all PAUSED, and activate
+   * them when asked. When a step fails, the objects created before it are deleted
+   * again, newest first.
+   */
+  async launch(accountId: string, input: LaunchInput): Promise<LaunchResult> {
+    const created: LaunchObject[] = [];
+    let step: LaunchStep = 'campaign';
+    try {
+      const campaign = await this.createCampaign(accountId, {
+        ...input.campaign,
+        status: 'PAUSED',
+      });
+      created.push({ objectType: 'campaign', id: campaign.id, name: campaign.name });
+
+      step = 'adset';
+      const adSet = await this.createAdSet(accountId, {
+        ...input.adSet,
+        campaign_id: campaign.id,
+        status: 'PAUSED',
+      });
+      created.push({ objectType: 'adset', id: adSet.id, name: adSet.name });
+
+      step = 'creative';
+      const creative = await this.createAdCreative(accountId, input.creative);
+      created.push({ objectType: 'creative', id: creative.id, name: creative.name });
+
+      step = 'ad';
+      const ad = await this.createAd(accountId, {
+        ...input.ad,
+        adset_id: adSet.id,
+        creative: { creative_id: creative.id },
+        status: 'PAUSED',
+      });
+      created.push({ objectType: 'ad', id: ad.id, name: ad.name });
+
+      if (input.activate) {
+        step = 'activate';
+        // The campaign goes last, so nothing delivers until the whole tree is active
+        await this.updateAd(ad.id, { status: 'ACTIVE' });
+        await this.updateAdSet(adSet.id, { status: 'ACTIVE' });
+        await this.updateCampaign(campaign.id, { status: 'ACTIVE' });
+      }
+
+      return {
+        success: true,
+        status: input.activate ? 'ACTIVE' : 'PAUSED',
+        campaignId: campaign.id,
+        adSetId: adSet.id,
+        creativeId: creative.id,
+        adId: ad.id,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        failedStep: step,
+        error: formatErrorForLogging(error),
+        rolledBack: await this.rollbackLaunch(created),
+      };
+    }
+  }
+
+  /**
+   * Delete a failed launch's objects, newest first. When the tenant policy asks
+   * to archive instead of delete, the campaign, ad set and ad are archived. Runs
+   * without the caller's signal so a cancelled launch is still cleaned up.
+   */
+  private async rollbackLaunch(created: LaunchObject[]): Promise<LaunchRollbackResult[]> {
+    const unscoped = Object.create(this) as MetaAdsClientImpl;
+    unscoped.signal = undefined;
+    const results: LaunchRollbackResult[] = [];
+    for (const object of [...created].reverse()) {
+      try {
+        if (object.objectType === 'creative') {
+          await unscoped.deleteAdCreative(object.id);
+          results.push({ ...object, deleted: true });
+          continue;
+        }
+        if ((await unscoped.getPolicy())?.archiveInsteadOfDelete) {
+          const archived = { status: 'ARCHIVED' } as const;
+          if (object.objectType === 'campaign') await unscoped.updateCampaign(object.id, archived);
+          if (object.objectType === 'adset') await unscoped.updateAdSet(object.id, archived);
+          if (object.objectType === 'ad') await unscoped.updateAd(object.id, archived);
+          results.push({ ...object, deleted: false, archived: true });
+          continue;
+        }
+        if (object.objectType === 'campaign') await unscoped.deleteCampaign(object.id);
+        if (object.objectType === 'adset') await unscoped.deleteAdSet(object.id);
+        if (object.objectType === 'ad') await unscoped.deleteAd(object.id);
+        results.push({ ...object, deleted: true });
+      } catch (error) {
+        results.push({ ...object, deleted: false, error: formatErrorForLogging(error) });
+      }
+    }
+    return results;
+  }
+
+  // ===========================================================================
+  // Copies
+  // ===========================================================================
+
+  async copyCampaign(
+    campaignId: string,
+    input: CampaignCopyInput = {},
+    options?: CopyWaitOptions
+  ): Promise<CopyResult> {
+    await checkCopy(await this.getPolicy(), this, 'campaign', campaignId);
+    return this.copyObject(campaignId, 'campaign', toCopyParams(input), input.deep_copy, options);
+  }
+
+  async copyAdSet(
+    adSetId: string,
+    input: AdSetCopyInput = {},
+    options?: CopyWaitOptions
+  ): Promise<CopyResult> {
+    await checkCopy(await this.getPolicy(), this, 'adset', adSetId, input.campaign_id);
+    const params = { ...toCopyParams(input), campaign_id: input.campaign_id };
+    return this.copyObject(adSetId, 'adset', params, input.deep_copy, options);
+  }
+
+  async copyAd(adId: string, input: AdCopyInput = {}): Promise<CopyResult> {
+    await checkCopy(await this.getPolicy(), this, 'ad', adId, input.adset_id);
+    const params = { ...toCopyParams(input), adset_id: input.adset_id };
+    return this.copyObject(adId, 'ad', params, false);
+  }
+
+  async getAsyncRequestSet(requestSetId: string): Promise<AsyncRequestSet> {
+    return this.request<AsyncRequestSet>(`/${requestSetId}`, {}, {
+      fields:
+        'id,name,is_completed,total_count,in_progress_count,success_count,error_count,canceled_count',
+    });
+  }
+
+  async listAsyncRequests(
+    requestSetId: string,
+    params?: PaginationParams
+  ): Promise<PaginatedResponse<AsyncRequest>> {
+    return this.request<PaginatedResponse<AsyncRequest>>(`/${requestSetId}/requests`, {}, {
+      fields: 'id,status,result,input',
+      limit: params?.limit || 25,
+      after: params?.after,
+    });
+  }
+
+  /**
+   * Read the outcome of a copy that was submitted as an async request set
+   */
+  async getAsyncCopyResult(requestSetId: string): Promise<CopyResult | undefined> {
+    const set = await this.getAsyncRequestSet(requestSetId);
+    if (!set.is_completed) {
+      return undefined;
+    }
+
+    const { data } = await this.listAsyncRequests(requestSetId, { limit: 1 });
+    const request = data[0];
+    const result = typeof request?.result === 'string' ? JSON.parse(request.result) : request?.result;
+    if (request?.status !== 'SUCCESS' || !result) {
+      const error = (result as { error?: { message?: string } } | undefined)?.error;
+      throw new MetaAdsApiError(
+        `Copy in async request set ${requestSetId} failed: ${error?.message ?? request?.status ?? 'no result'}`,
+        undefined,
+        'COPY_FAILED'
+      );
+    }
+    return { ...parseCopyResult(result as Record<string, unknown>), async_request_set_id: requestSetId };
+  }
+
+  /**
+   * Copy an object through its /copies edge. Meta only deep-copies a few child
+   * objects synchronously, so larger deep copies are submitted as an async batch
+   * request set and polled until they finish.
+   */
+  private async copyObject(
+    sourceId: string,
+    type: 'campaign' | 'adset' | 'ad',
+    params: CopyParams,
+    deepCopy?: boolean,
+    options: CopyWaitOptions = {}
+  ): Promise<CopyResult> {
+    if (deepCopy && (await this.countCopyChildren(sourceId, type)) > MAX_SYNC_COPY_CHILDREN) {
+      const requestSetId = await this.submitAsyncCopy(sourceId, type, params);
+      const timeoutMs = options.timeoutMs ?? this.timeouts.upload;
+      return this.pollUntil(() => this.getAsyncCopyResult(requestSetId), {
+        timeoutMs,
+        intervalMs: 2000,
+        maxIntervalMs: 10_000,
+        onTimeout: () =>
+          new TimeoutError(
+            `Copy of ${type} ${sourceId} is still running after ${timeoutMs}ms as async request set ${requestSetId}; check it later with metaads_get_copy_status`,
+            timeoutMs
+          ),
+      });
+    }
+
+    const result = await this.request<Record<string, unknown>>(
+      `/${sourceId}/copies`,
+      { method: 'POST' },
+      params
+    );
+    return parseCopyResult(result);
+  }
+
+  /**
+   * Count the ad sets and ads a deep copy would duplicate, stopping once the
+   * synchronous limit is exceeded
+   */
+  private async countCopyChildren(sourceId: string, type: 'campaign' | 'adset' | 'ad'): Promise<number> {
+    const edges = type === 'campaign' ? ['adsets', 'ads'] : type === 'adset' ? ['ads'] : [];
+    let count = 0;
+    for (const edge of edges) {
+      const page = await this.request<PaginatedResponse<{ id: string }>>(`/${sourceId}/${edge}`, {}, {
+        fields: 'id',
+        limit: MAX_SYNC_COPY_CHILDREN + 1,
+      });
+      count += page.data.length;
+      if (count > MAX_SYNC_COPY_CHILDREN) break;
+    }
+    return count;
+  }
+
+  private async submitAsyncCopy(
+    sourceId: string,
+    type: 'campaign' | 'adset' | 'ad',
+    params: CopyParams
+  ): Promise<string> {
+    const source = await this.request<{ account_id: string }>(`/${sourceId}`, {}, {
+      fields: 'account_id',
+    });
+    const { id } = await this.request<{ id: string }>(
+      `/act_${source.account_id}/async_batch_requests`,
+      { method: 'POST' },
+      {
+        name: `Copy ${type} ${sourceId}`,
+        adbatch: JSON.stringify([
+          {
+            name: `copy_${sourceId}`,
+            relative_url: `${sourceId}/copies`,
+            body: toSearchParams(params).toString(),
+          },
+        ]),
+      }
+    );
+    return id;
+  }
+
+  // ===========================================================================
+  // Bulk Updates
+  // ===========================================================================
+
+  /**
+   * Apply the same patch to many campaigns, ad sets or ads through batch
+   * requests. Each object succeeds or fails on its own; a percentage budget
+   * change reads the current budgets first. With validateOnly, Meta checks
+   * each update and returns recommendations without applying it.
+   */
+  async bulkUpdate(
+    type: BulkUpdateObjectType,
+    ids: string[],
+    patch: BulkUpdatePatch,
+    options: { validateOnly?: boolean } = {}
+  ): Promise<BulkUpdateResult[]> {
+    const params = toBulkUpdateParams(type, patch);
+    const executionOptions = options.validateOnly
+      ? { execution_options: VALIDATE_ONLY_EXECUTION_OPTIONS }
+      : {};
+    const results: BulkUpdateResult[] = [];
+
+    for (let i = 0; i < ids.length; i += MAX_BATCH_SIZE) {
+      const chunk = ids.slice(i, i + MAX_BATCH_SIZE);
+      const planned: BulkUpdateResult[] = chunk.map((id) => ({ id, success: false, params }));
+
+      if (patch.budget_scale_percent !== undefined) {
+        const factor = 1 + patch.budget_scale_percent / 100;
+        const current = await this.batch<{ daily_budget?: string; lifetime_budget?: string }>(
+          chunk.map((id) => ({
+            method: 'GET',
+            relativeUrl: id,
+            params: { fields: 'id,daily_budget,lifetime_budget' },
+          }))
+        );
+        planned.forEach((item, index) => {
+          const { data, error } = current[index];
+          const key = Number(data?.daily_budget) > 0 ? 'daily_budget' : 'lifetime_budget';
+          const budget = Number(data?.[key]);
+          if (!data || !(budget > 0)) {
+            item.params = undefined;
+            item.error =
+              error ?? new ValidationError(`${type} ${item.id} has no budget of its own to scale`);
+            return;
+          }
+          item.previous = { daily_budget: data.daily_budget, lifetime_budget: data.lifetime_budget };
+          item.params = { ...params, [key]: Math.max(1, Math.round(budget * factor)) };
+        });
+      }
+
+      const pending = planned.filter((item) => item.params);
+      if (pending.length > 0) {
+        const responses = await this.updateObjects<DryRunResult>(
+          pending.map((item) => ({
+            objectType: type,
+            id: item.id,
+            params: { ...item.params, ...executionOptions },
+          }))
+        );
+        pending.forEach((item, index) => {
+          item.success = responses[index].success;
+          item.error = responses[index].error;
+          if (options.validateOnly) item.recommendations = responses[index].data?.recommendations ?? [];
+        });
+      }
+      results.push(...planned);
+    }
+    return results;
+  }
+
+  /**
+   * Send updates to campaigns, ad sets and ads in one batch, each checked
+   * against the tenant policy first. Each update succeeds or fails on its own,
+   * and one the policy refuses is never sent.
+   */
+  async updateObjects<T = unknown>(updates: ObjectUpdate[]): Promise<BatchResult<T>[]> {
+    const policy = await this.getPolicy();
+    const refusals = await Promise.all(
+      updates.map(({ objectType, id, params }) =>
+        checkObjectUpdate(policy, this, objectType, id, params).then(
+          () => undefined,
+          (error: unknown) =>
+            error instanceof MetaAdsApiError ? error : new MetaAdsApiError(String(error))
+        )
+      )
+    );
+
+    const allowed = updates.filter((_, index) => !refusals[index]);
+    const responses =
+      allowed.length > 0
+        ? await this.sendBatch<T>(
+            allowed.map(({ id, params }) => ({ method: 'POST', relativeUrl: id, params }))
+          )
+        : [];
+    let sent = 0;
+    return updates.map((_, index): BatchResult<T> => {
+      const refusal = refusals[index];
+      return refusal
+        ? { index, status: null, success: false, error: refusal }
+        : { ...responses[sent++], index };
+    });
+  }
+
   // ===========================================================================
   // Ad Creatives
   // ===========================================================================
@@ -690,11 +2275,11 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.use_page_actor_override !== undefined) params.use_page_actor_override = input.use_page_actor_override;
     if (input.authorization_category) params.authorization_category = input.authorization_category;
 
-    const result = await this.request<{ id: string }>(`/${id}/adcreatives`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
+    return this.mutateAndFetch<AdCreative>(`/${id}/adcreatives`, params, DEFAULT_CREATIVE_FIELDS);
+  }
 
-    return this.getAdCreative(result.id);
+  async deleteAdCreative(creativeId: string): Promise<void> {
+    await this.request(`/${creativeId}`, { method: 'DELETE' });
   }
 
   // ===========================================================================
@@ -726,6 +2311,32 @@ class MetaAdsClientImpl implements MetaAdsClient {
     return images[0];
   }
 
+  /**
+   * Upload several images as named file parts. The result maps each name to its
+   * uploaded image, like the Graph response. Large batches are split across
+   * requests so each stays within the upload timeout.
+   */
+  async uploadAdImages(
+    accountId: string,
+    images: Array<{ name: string; bytes: Uint8Array }>
+  ): Promise<Record<string, AdImage>> {
+    const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+    const uploaded: Record<string, AdImage> = {};
+
+    for (let i = 0; i < images.length; i += MAX_IMAGES_PER_UPLOAD) {
+      const formData = new FormData();
+      for (const image of images.slice(i, i + MAX_IMAGES_PER_UPLOAD)) {
+        formData.append(image.name, new Blob([image.bytes.slice()]), image.name);
+      }
+      const result = await this.postForm<{ images: Record<string, AdImage> }>(
+        `/${id}/adimages`,
+        formData
+      );
+      Object.assign(uploaded, result.images);
+    }
+    return uploaded;
+  }
+
   // ===========================================================================
   // Ad Videos
   // ===========================================================================
@@ -749,6 +2360,126 @@ class MetaAdsClientImpl implements MetaAdsClient {
     });
   }
 
+  /**
+   * Upload a video with the chunked protocol: a start phase opens a session,
+   * transfer phases send the byte ranges Meta asks for, and a finish phase
+   * publishes the video. A failed chunk is resent from its offset; when retries
+   * run out an UploadInterruptedError reports where to resume.
+   */
+  async uploadAdVideo(
+    accountId: string,
+    data: Uint8Array,
+    options: VideoUploadOptions = {}
+  ): Promise<AdVideo> {
+    if (data.byteLength === 0) {
+      throw new ValidationError('Video file is empty');
+    }
+    const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+    const endpoint = `/${id}/advideos`;
+
+    let uploadSessionId: string;
+    let videoId: string;
+    let startOffset: number;
+    let endOffset: number;
+    if (options.resume) {
+      ({ uploadSessionId, videoId, startOffset } = options.resume);
+      endOffset = Math.min(startOffset + VIDEO_RESUME_CHUNK_BYTES, data.byteLength);
+    } else {
+      const session = await this.postForm<VideoUploadSession & { video_id: string }>(
+        endpoint,
+        toFormData({ upload_phase: 'start', file_size: data.byteLength })
+      );
+      uploadSessionId = session.upload_session_id;
+      videoId = session.video_id;
+      startOffset = Number(session.start_offset);
+      endOffset = Number(session.end_offset);
+    }
+
+    while (startOffset < endOffset) {
+      const chunk = new Blob([data.slice(startOffset, endOffset)]);
+      const transfer = () => {
+        const form = toFormData({
+          upload_phase: 'transfer',
+          upload_session_id: uploadSessionId,
+          start_offset: startOffset,
+        });
+        form.append('video_file_chunk', chunk);
+        return this.postForm<VideoUploadSession>(endpoint, form);
+      };
+
+      try {
+        // Chunks are addressed by offset, so resending one after a transient error is safe
+        const next = await withRetry(
+          transfer,
+          {
+            policy: this.retryPolicy,
+            budget: this.retryBudget,
+            shouldRetry: (error) => !this.signal?.aborted && isRetryableError(error),
+            sleep: (ms) => this.wait(ms),
+          }
+        );
+        startOffset = Number(next.start_offset);
+        endOffset = Number(next.end_offset);
+      } catch (error) {
+        if (this.signal?.aborted) {
+          throw error;
+        }
+        throw new UploadInterruptedError(error, { uploadSessionId, videoId, startOffset });
+      }
+    }
+
+    await this.postForm<{ success: boolean }>(
+      endpoint,
+      toFormData({
+        upload_phase: 'finish',
+        upload_session_id: uploadSessionId,
+        title: options.title,
+        description: options.description,
+      })
+    );
+
+    if (options.waitForReady === false) {
+      return this.getAdVideo(videoId);
+    }
+    return this.waitForAdVideo(videoId, { timeoutMs: options.timeoutMs });
+  }
+
+  /**
+   * Poll a video until status.video_status is 'ready'. Polling backs off from
+   * 2s to 10s and gives up after the upload timeout unless another limit is given.
+   */
+  async waitForAdVideo(
+    videoId: string,
+    options: VideoProcessingWaitOptions = {}
+  ): Promise<AdVideo> {
+    const timeoutMs = options.timeoutMs ?? this.timeouts.upload;
+    let video: AdVideo | undefined;
+
+    return this.pollUntil(
+      async () => {
+        video = await this.getAdVideo(videoId);
+        if (video.status?.video_status === 'error') {
+          throw new MetaAdsApiError(
+            `Video ${videoId} failed processing`,
+            undefined,
+            'VIDEO_PROCESSING_FAILED'
+          );
+        }
+        return video.status?.video_status === 'ready' ? video : undefined;
+      },
+      {
+        timeoutMs,
+        intervalMs: options.pollIntervalMs ?? 2000,
+        maxIntervalMs: 10_000,
+        onTimeout: () =>
+          new TimeoutError(
+            `Video ${videoId} is still processing after ${timeoutMs}ms (${video?.status?.processing_progress ?? 0}% complete); check it later with metaads_get_video`,
+            timeoutMs
+          ),
+      }
+    );
+  }
+
   // ===========================================================================
   // Insights
   // ===========================================================================
@@ -774,39 +2505,109 @@ class MetaAdsClientImpl implements MetaAdsClient {
 
   async getAccountInsights(accountId: string, params?: InsightsParams): Promise<Insights[]> {
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
-    const result = await this.request<PaginatedResponse<Insights>>(
-      `/${id}/insights`,
-      {},
-      this.buildInsightsParams(params)
-    );
-    return result.data;
+    return this.queryInsights(id, 'account', params);
   }
 
   async getCampaignInsights(campaignId: string, params?: InsightsParams): Promise<Insights[]> {
-    const result = await this.request<PaginatedResponse<Insights>>(
-      `/${campaignId}/insights`,
-      {},
-      this.buildInsightsParams(params)
-    );
-    return result.data;
+    return this.queryInsights(campaignId, 'campaign', params);
   }
 
   async getAdSetInsights(adSetId: string, params?: InsightsParams): Promise<Insights[]> {
-    const result = await this.request<PaginatedResponse<Insights>>(
-      `/${adSetId}/insights`,
-      {},
-      this.buildInsightsParams(params)
-    );
-    return result.data;
+    return this.queryInsights(adSetId, 'adset', params);
   }
 
   async getAdInsights(adId: string, params?: InsightsParams): Promise<Insights[]> {
-    const result = await this.request<PaginatedResponse<Insights>>(
-      `/${adId}/insights`,
-      {},
+    return this.queryInsights(adId, 'ad', params);
+  }
+
+  /**
+   * Query insights synchronously, or through an async report run when the query
+   * is large enough that a synchronous GET would time out or be truncated.
+   */
+  private async queryInsights(
+    objectId: string,
+    nodeLevel: NonNullable<InsightsParams['level']>,
+    params?: InsightsParams
+  ): Promise<Insights[]> {
+    if (!isLargeInsightsQuery(params ?? {}, nodeLevel)) {
+      const result = await this.request<PaginatedResponse<Insights>>(
+        `/${objectId}/insights`,
+        {},
+        this.buildInsightsParams(params)
+      );
+      return result.data;
+    }
+
+    const { limit, ...reportParams } = params ?? {};
+    const run = await this.startInsightsReport(objectId, reportParams);
+    await this.waitForInsightsReport(run.id);
+    const results = await listAll((page) => this.getInsightsReportResults(run.id, page), {
+      pageSize: ASYNC_INSIGHTS_PAGE_SIZE,
+      maxItems: limit ?? MAX_ASYNC_INSIGHTS_ROWS,
+    });
+    return results.data;
+  }
+
+  async startInsightsReport(objectId: string, params?: InsightsParams): Promise<InsightsReportRun> {
+    const { report_run_id } = await this.request<{ report_run_id: string }>(
+      `/${objectId}/insights`,
+      { method: 'POST' },
       this.buildInsightsParams(params)
     );
-    return result.data;
+    return this.getInsightsReportStatus(report_run_id);
+  }
+
+  async getInsightsReportStatus(reportRunId: string): Promise<InsightsReportRun> {
+    return this.request<InsightsReportRun>(`/${reportRunId}`, {}, {
+      fields:
+        'id,account_id,async_status,async_percent_completion,date_start,date_stop,time_ref,time_completed,is_running',
+    });
+  }
+
+  async getInsightsReportResults(
+    reportRunId: string,
+    params?: PaginationParams
+  ): Promise<PaginatedResponse<Insights>> {
+    return this.request<PaginatedResponse<Insights>>(`/${reportRunId}/insights`, {}, {
+      limit: params?.limit || ASYNC_INSIGHTS_PAGE_SIZE,
+      after: params?.after,
+    });
+  }
+
+  /**
+   * Poll a report run until it completes. Polling backs off from 1s to 5s and
+   * gives up after the insights timeout unless another limit is given.
+   */
+  async waitForInsightsReport(
+    reportRunId: string,
+    options: InsightsReportWaitOptions = {}
+  ): Promise<InsightsReportRun> {
+    const timeoutMs = options.timeoutMs ?? this.timeouts.insights;
+    let run: InsightsReportRun | undefined;
+
+    return this.pollUntil(
+      async () => {
+        run = await this.getInsightsReportStatus(reportRunId);
+        if (run.async_status === 'Job Failed' || run.async_status === 'Job Skipped') {
+          throw new MetaAdsApiError(
+            `Insights report ${reportRunId} ended with status '${run.async_status}'`,
+            undefined,
+            'REPORT_FAILED'
+          );
+        }
+        return run.async_status === 'Job Completed' ? run : undefined;
+      },
+      {
+        timeoutMs,
+        intervalMs: options.pollIntervalMs ?? 1000,
+        maxIntervalMs: 5000,
+        onTimeout: () =>
+          new TimeoutError(
+            `Insights report ${reportRunId} is still running after ${timeoutMs}ms (${run?.async_percent_completion ?? 0}% complete); check it later with its report run ID`,
+            timeoutMs
+          ),
+      }
+    );
   }
 
   // ===========================================================================
@@ -847,28 +2648,28 @@ class MetaAdsClientImpl implements MetaAdsClient {
     if (input.retention_days) params.retention_days = input.retention_days;
     if (input.lookalike_spec) params.lookalike_spec = JSON.stringify(input.lookalike_spec);
 
-    const result = await this.request<{ id: string }>(`/${id}/customaudiences`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getCustomAudience(result.id);
+    return this.mutateAndFetch<CustomAudience>(
+      `/${id}/customaudiences`,
+      params,
+      DEFAULT_AUDIENCE_FIELDS
+    );
   }
 
-  async updateCustomAudience(audienceId: string, input: CustomAudienceUpdateInput): Promise<CustomAudience> {
+  async updateCustomAudience(
+    audienceId: string,
+    input: CustomAudienceUpdateInput
+  ): Promise<UpdateResult<CustomAudience>> {
     const params: Record<string, unknown> = {};
 
     if (input.name !== undefined) params.name = input.name;
     if (input.description !== undefined) params.description = input.description;
     if (input.opt_out_link !== undefined) params.opt_out_link = input.opt_out_link;
 
-    await this.request(`/${audienceId}`, {
-      method: 'POST',
-    }, params as Record<string, string | number | boolean | undefined>);
-
-    return this.getCustomAudience(audienceId);
+    return this.updateAndDiff<CustomAudience>(audienceId, params, DEFAULT_AUDIENCE_FIELDS);
   }
 
   async deleteCustomAudience(audienceId: string): Promise<void> {
+    await checkDelete(await this.getPolicy(), this, 'audience', audienceId);
     await this.request(`/${audienceId}`, { method: 'DELETE' });
   }
 
@@ -902,21 +2703,99 @@ class MetaAdsClientImpl implements MetaAdsClient {
     });
   }
 
+  // ===========================================================================
+  // Ad Rules
+  // ===========================================================================
+
+  async listAdRules(
+    accountId: string,
+    params?: PaginationParams & { fields?: string }
+  ): Promise<PaginatedResponse<AdRule>> {
+    const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+    return this.request<PaginatedResponse<AdRule>>(`/${id}/adrules_library`, {}, {
+      fields: params?.fields || DEFAULT_AD_RULE_FIELDS,
+      limit: params?.limit || 25,
+      after: params?.after,
+      before: params?.before,
+    });
+  }
+
+  async getAdRule(ruleId: string, fields?: string): Promise<AdRule> {
+    return this.request<AdRule>(`/${ruleId}`, {}, {
+      fields: fields || DEFAULT_AD_RULE_FIELDS,
+    });
+  }
+
+  async createAdRule(accountId: string, input: AdRuleCreateInput): Promise<AdRule> {
+    const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
+    const params: Record<string, unknown> = {
+      name: input.name,
+      evaluation_spec: JSON.stringify(input.evaluation_spec),
+      execution_spec: JSON.stringify(input.execution_spec),
+    };
+
+    if (input.schedule_spec) params.schedule_spec = JSON.stringify(input.schedule_spec);
+    if (input.status) params.status = input.status;
+
+    return this.mutateAndFetch<AdRule>(`/${id}/adrules_library`, params, DEFAULT_AD_RULE_FIELDS);
+  }
+
+  async updateAdRule(ruleId: string, input: AdRuleUpdateInput): Promise<UpdateResult<AdRule>> {
+    const params: Record<string, unknown> = {};
+
+    if (input.name !== undefined) params.name = input.name;
+    if (input.status !== undefined) params.status = input.status;
+    for (const field of ['evaluation_spec', 'execution_spec', 'schedule_spec'] as const) {
+      if (input[field] !== undefined) params[field] = JSON.stringify(input[field]);
+    }
+
+    return this.updateAndDiff<AdRule>(ruleId, params, DEFAULT_AD_RULE_FIELDS);
+  }
+
+  async deleteAdRule(ruleId: string): Promise<void> {
+    await this.request(`/${ruleId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * The objects a rule's filters match right now; nothing is changed
+   */
+  async previewAdRule(ruleId: string): Promise<AdRulePreview> {
+    return this.request<AdRulePreview>(`/${ruleId}/preview`, { method: 'POST' });
+  }
+
+  async listAdRuleHistory(
+    ruleId: string,
+    params?: PaginationParams & AdRuleHistoryFilters & { fields?: string }
+  ): Promise<PaginatedResponse<AdRuleHistory>> {
+    return this.request<PaginatedResponse<AdRuleHistory>>(`/${ruleId}/history`, {}, {
+      fields: params?.fields || DEFAULT_AD_RULE_HISTORY_FIELDS,
+      limit: params?.limit || 25,
+      after: params?.after,
+      before: params?.before,
+      action: params?.action,
+      object_id: params?.objectId,
+      hide_no_changes: params?.hideNoChanges,
+    });
+  }
+
   // ===========================================================================
   // Pixels
   // ===========================================================================
 
   async listPixels(
     accountId: string,
-    params?: PaginationParams & { fields?: string }
+    params?: PaginationParams & CacheOptions & { fields?: string }
   ): Promise<PaginatedResponse<Pixel>> {
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
-    return this.request<PaginatedResponse<Pixel>>(`/${id}/adspixels`, {}, {
+    const query = {
       fields: params?.fields || DEFAULT_PIXEL_FIELDS,
       limit: params?.limit || 25,
       after: params?.after,
       before: params?.before,
-    });
+    };
+    return this.cached('pixels', id, query, params, () =>
+      this.request<PaginatedResponse<Pixel>>(`/${id}/adspixels`, {}, query)
+    );
   }
 
   async getPixel(pixelId: string, fields?: string): Promise<Pixel> {
@@ -927,13 +2806,24 @@ class MetaAdsClientImpl implements MetaAdsClient {
 
   async createPixel(accountId: string, input: PixelCreateInput): Promise<Pixel> {
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
-    const result = await this.request<{ id: string }>(`/${id}/adspixels`, {
-      method: 'POST',
-    }, {
-      name: input.name,
-    });
+    return this.mutateAndFetch<Pixel>(`/${id}/adspixels`, { name: input.name }, DEFAULT_PIXEL_FIELDS);
+  }
+
+  async updatePixel(pixelId: string, input: PixelUpdateInput): Promise<UpdateResult<Pixel>> {
+    const params: Record<string, unknown> = {};
+
+    if (input.name !== undefined) params.name = input.name;
+    if (input.enable_automatic_matching !== undefined) {
+      params.enable_automatic_matching = input.enable_automatic_matching;
+    }
 
-    return this.getPixel(result.id);
+    const result = await this.updateAndDiff<Pixel>(pixelId, params, DEFAULT_PIXEL_FIELDS);
+    // The write only drops the pixel's own entry; the owning account caches the pixel list
+    const ownerId = result.after?.owner_ad_account?.id;
+    if (ownerId) {
+      await this.invalidateCache(ownerId.startsWith('act_') ? ownerId : `act_${ownerId}`);
+    }
+    return result;
   }
 
   // ===========================================================================
@@ -942,14 +2832,17 @@ class MetaAdsClientImpl implements MetaAdsClient {
 
   async listProductCatalogs(
     businessId: string,
-    params?: PaginationParams & { fields?: string }
+    params?: PaginationParams & CacheOptions & { fields?: string }
   ): Promise<PaginatedResponse<ProductCatalog>> {
-    return this.request<PaginatedResponse<ProductCatalog>>(`/${businessId}/owned_product_catalogs`, {}, {
+    const query = {
       fields: params?.fields || DEFAULT_CATALOG_FIELDS,
       limit: params?.limit || 25,
       after: params?.after,
       before: params?.before,
-    });
+    };
+    return this.cached('productCatalogs', businessId, query, params, () =>
+      this.request<PaginatedResponse<ProductCatalog>>(`/${businessId}/owned_product_catalogs`, {}, query)
+    );
   }
 
   async getProductCatalog(catalogId: string, fields?: string): Promise<ProductCatalog> {
@@ -1025,10 +2918,13 @@ class MetaAdsClientImpl implements MetaAdsClient {
     });
   }
 
-  async getBusiness(businessId: string): Promise<Business> {
-    return this.request<Business>(`/${businessId}`, {}, {
+  async getBusiness(businessId: string, options?: CacheOptions): Promise<Business> {
+    const query = {
       fields: 'id,name,created_by,created_time,link,primary_page,profile_picture_uri,timezone_id,verification_status,vertical',
-    });
+    };
+    return this.cached('business', businessId, query, options, () =>
+      this.request<Business>(`/${businessId}`, {}, query)
+    );
   }
 
   async listBusinessAdAccounts(
@@ -1062,13 +2958,16 @@ class MetaAdsClientImpl implements MetaAdsClient {
 
   async getTargetingCategories(
     accountId: string,
-    type: string
+    type: string,
+    options?: CacheOptions
   ): Promise<Array<{ id: string; name: string; type: string }>> {
     const id = accountId.startsWith('act_') ? accountId : `act_${accountId}`;
-    const result = await this.request<PaginatedResponse<{ id: string; name: string; type: string }>>(`/${id}/targetingbrowse`, {}, {
-      type,
+    return this.cached('targetingCategories', id, { type }, options, async () => {
+      const result = await this.request<PaginatedResponse<{ id: string; name: string; type: string }>>(`/${id}/targetingbrowse`, {}, {
+        type,
+      });
+      return result.data;
     });
-    return result.data;
   }
 }
 
@@ -1083,10 +2982,17 @@ class MetaAdsClientImpl implements MetaAdsClient {
  * allowing a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Transport overrides (base URL, fetch, sleep)
  */
-export function createMetaAdsClient(credentials: TenantCredentials): MetaAdsClient {
+export function createMetaAdsClient(
+  credentials: TenantCredentials,
+  options?: MetaAdsClientOptions
+): MetaAdsClient {
   if (!credentials.accessToken) {
     throw new AuthenticationError('Access token is required');
   }
-  return new MetaAdsClientImpl(credentials);
+  if (credentials.requireAppSecretProof && !credentials.appSecret) {
+    throw new AuthenticationError('App secret is required when appsecret_proof is mandatory');
+  }
+  return new MetaAdsClientImpl(credentials, options);
 }
@@ -16,32 +16,54 @@
  * - X-Meta-Ad-Account-Id: Default ad account ID (act_XXXX format)
  * - X-Meta-Business-Id: Business Manager ID
  * - X-Meta-App-Id: App ID (for app-scoped tokens)
- * - X-Meta-App-Secret: App secret (for server-to-server auth)
+ * - X-Meta-App-Secret: App secret (signs every call with appsecret_proof)
+ * - X-Meta-Require-App-Secret-Proof: 'true' to reject requests without an app secret
  * - X-Meta-Api-Version: API version override (default: v21.0)
+ * - X-Meta-Retry-Max-Attempts: Maximum attempts per Graph API call (default: 4)
+ * - X-Meta-Retry-Max-Wait-Ms: Total backoff budget in milliseconds (default: 30000)
+ * - X-Meta-Policy: Guardrail policy as JSON, used when none is stored for the tenant
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
 import { createMetaAdsClient } from './client.js';
+import type { ToolContext } from './tools/context.js';
 import {
   registerAccountTools,
+  registerAdRuleTools,
   registerAdSetTools,
   registerAdTools,
   registerAudienceTools,
+  registerAuditTools,
+  registerAutomationTools,
+  registerBatchTools,
+  registerBulkTools,
   registerBusinessTools,
   registerCampaignTools,
   registerCatalogTools,
+  registerCopyTools,
   registerCreativeTools,
+  registerDocumentTools,
   registerInsightsTools,
+  registerLaunchTools,
   registerPixelTools,
+  registerSnapshotTools,
   registerTargetingTools,
 } from './tools/index.js';
 import {
   type Env,
-  type TenantCredentials,
+  getRequestTimeouts,
+  isAutomationSimulateOnly,
   parseTenantCredentials,
+  type TenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { D1AuditLog, runInToolScope, traceToolCalls } from './utils/audit.js';
+import { D1AutomationRuleStore, runDueAutomationRules } from './utils/automation.js';
+import { KvReadCache } from './utils/cache.js';
+import { D1PolicyStore, parseTenantPolicy, type TenantPolicy } from './utils/policy.js';
+import { redactText } from './utils/redact.js';
+import { D1SnapshotStore } from './utils/snapshots.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -88,37 +110,71 @@ export class MetaAdsMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param env - Worker environment (vars and bindings)
+ * @param policy - Guardrail policy from the X-Meta-Policy header, used when none is stored
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(
+  credentials: TenantCredentials,
+  env: Env,
+  policy: TenantPolicy | undefined
+): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
+  // Attribute each Graph API call to the tool that made it, for the audit log
+  traceToolCalls(server);
+
+  const audit = env.DB ? new D1AuditLog(env.DB) : undefined;
 
   // Create client with tenant-specific credentials
-  const client = createMetaAdsClient(credentials);
+  const client = createMetaAdsClient(credentials, {
+    timeouts: getRequestTimeouts(env),
+    cache: env.CACHE_KV ? new KvReadCache(env.CACHE_KV) : undefined,
+    audit,
+    policy,
+    policies: env.DB ? new D1PolicyStore(env.DB) : undefined,
+  });
+
+  // Shared dependencies for tools that need more than the client
+  const context: ToolContext = {
+    env,
+    audit,
+    snapshots: env.DB ? new D1SnapshotStore(env.DB) : undefined,
+    automationRules: createAutomationRuleStore(env),
+    credentials,
+  };
 
   // Register all tools
-  registerAccountTools(server, client);
-  registerCampaignTools(server, client);
-  registerAdSetTools(server, client);
-  registerAdTools(server, client);
-  registerCreativeTools(server, client);
-  registerInsightsTools(server, client);
-  registerAudienceTools(server, client);
-  registerPixelTools(server, client);
-  registerCatalogTools(server, client);
+  registerAccountTools(server, client, context);
+  registerCampaignTools(server, client, context);
+  registerAdSetTools(server, client, context);
+  registerAdTools(server, client, context);
+  registerCreativeTools(server, client, context);
+  registerInsightsTools(server, client, context);
+  registerAudienceTools(server, client, context);
+  registerAdRuleTools(server, client, context);
+  registerPixelTools(server, client, context);
+  registerCatalogTools(server, client, context);
   registerTargetingTools(server, client);
-  registerBusinessTools(server, client);
+  registerBusinessTools(server, client, context);
+  registerBatchTools(server, client);
+  registerCopyTools(server, client);
+  registerBulkTools(server, client, context);
+  registerAuditTools(server, client, context);
+  registerSnapshotTools(server, client, context);
+  registerDocumentTools(server, client);
+  registerLaunchTools(server, client);
+  registerAutomationTools(server, client, context);
 
   // Test connection tool
   server.tool(
     'metaads_test_connection',
     'Test the connection to the Meta Marketing API. Verifies that the access token is valid and returns the authenticated user info.',
     {},
-    async () => {
+    async (_args, { signal }) => {
       try {
-        const result = await client.testConnection();
+        const result = await client.withSignal(signal).testConnection();
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -127,7 +183,7 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
           content: [
             {
               type: 'text',
-              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: `Connection failed: ${error instanceof Error ? redactText(error.message) : 'Unknown error'}`,
             },
           ],
           isError: true,
@@ -139,6 +195,48 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
   return server;
 }
 
+/**
+ * Automation rules need a database and a key to encrypt the stored credentials
+ */
+function createAutomationRuleStore(env: Env): D1AutomationRuleStore | undefined {
+  return env.DB && env.AUTOMATION_ENCRYPTION_KEY
+    ? new D1AutomationRuleStore(env.DB, env.AUTOMATION_ENCRYPTION_KEY)
+    : undefined;
+}
+
+// =============================================================================
+// Scheduled Automation Rules (Cron Trigger)
+// =============================================================================
+
+/**
+ * Run every automation rule whose interval has passed, each with a client built
+ * from the credentials stored with it and held to the tenant's stored policy, or
+ * else the policy header sent when the rule was saved. Their updates are audited
+ * under 'automation_rules'.
+ */
+async function runScheduledAutomationRules(env: Env): Promise<void> {
+  const store = createAutomationRuleStore(env);
+  if (!store) {
+    return;
+  }
+  const audit = env.DB ? new D1AuditLog(env.DB) : undefined;
+  const cache = env.CACHE_KV ? new KvReadCache(env.CACHE_KV) : undefined;
+  await runInToolScope('automation_rules', () =>
+    runDueAutomationRules(
+      store,
+      (credentials) =>
+        createMetaAdsClient(credentials, {
+          timeouts: getRequestTimeouts(env),
+          cache,
+          audit,
+          policy: credentials.policy ? parseTenantPolicy(credentials.policy) : undefined,
+          policies: env.DB ? new D1PolicyStore(env.DB) : undefined,
+        }),
+      { simulate: isAutomationSimulateOnly(env) }
+    )
+  );
+}
+
 // =============================================================================
 // Worker Export
 // =============================================================================
@@ -152,9 +250,12 @@ export default {
 
     // Health check endpoint
     if (url.pathname === '/health') {
-      return new Response(JSON.stringify({ status: 'ok', server: SERVER_NAME, version: SERVER_VERSION }), {
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return new Response(
+        JSON.stringify({ status: 'ok', server: SERVER_NAME, version: SERVER_VERSION }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
     }
 
     // ==========================================================================
@@ -172,7 +273,9 @@ export default {
           JSON.stringify({
             error: 'Unauthorized',
             message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: ['X-Meta-Access-Token'],
+            required_headers: credentials.requireAppSecretProof
+              ? ['X-Meta-Access-Token', 'X-Meta-App-Secret']
+              : ['X-Meta-Access-Token'],
           }),
           {
             status: 401,
@@ -181,8 +284,25 @@ export default {
         );
       }
 
+      // A malformed policy is the caller's mistake, not a missing credential
+      let policy: TenantPolicy | undefined;
+      try {
+        policy = credentials.policy ? parseTenantPolicy(credentials.policy) : undefined;
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: 'Bad Request',
+            message: `Invalid X-Meta-Policy header. ${error instanceof Error ? error.message : ''}`.trim(),
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, env, policy);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -216,8 +336,12 @@ export default {
             'X-Meta-Ad-Account-Id': 'Default ad account ID (act_XXXX format)',
             'X-Meta-Business-Id': 'Business Manager ID',
             'X-Meta-App-Id': 'App ID (for app-scoped tokens)',
-            'X-Meta-App-Secret': 'App secret (for server-to-server auth)',
+            'X-Meta-App-Secret': 'App secret (signs every call with appsecret_proof)',
+            'X-Meta-Require-App-Secret-Proof': "'true' to reject requests without an app secret",
             'X-Meta-Api-Version': 'API version override (default: v21.0)',
+            'X-Meta-Retry-Max-Attempts': 'Maximum attempts per Graph API call (default: 4)',
+            'X-Meta-Retry-Max-Wait-Ms': 'Total backoff budget in milliseconds (default: 30000)',
+            'X-Meta-Policy': 'Guardrail policy as JSON (budget limits, protected campaigns, ...)',
           },
         },
         tools: [
@@ -225,6 +349,8 @@ export default {
           'metaads_test_connection',
           'metaads_list_ad_accounts',
           'metaads_get_ad_account',
+          'metaads_get_account_activity',
+          'metaads_get_rate_limit_status',
           // Campaigns
           'metaads_list_campaigns',
           'metaads_get_campaign',
@@ -249,13 +375,18 @@ export default {
           'metaads_create_creative',
           'metaads_list_images',
           'metaads_upload_image',
+          'metaads_upload_images',
           'metaads_list_videos',
           'metaads_get_video',
+          'metaads_upload_video',
           // Insights
           'metaads_get_account_insights',
           'metaads_get_campaign_insights',
           'metaads_get_adset_insights',
           'metaads_get_ad_insights',
+          'metaads_start_insights_report',
+          'metaads_get_report_status',
+          'metaads_get_report_results',
           // Audiences
           'metaads_list_audiences',
           'metaads_get_audience',
@@ -264,6 +395,14 @@ export default {
           'metaads_delete_audience',
           'metaads_add_users_to_audience',
           'metaads_remove_users_from_audience',
+          // Ad Rules
+          'metaads_list_ad_rules',
+          'metaads_get_ad_rule',
+          'metaads_create_ad_rule',
+          'metaads_update_ad_rule',
+          'metaads_delete_ad_rule',
+          'metaads_preview_ad_rule',
+          'metaads_get_ad_rule_history',
           // Pixels
           'metaads_list_pixels',
           'metaads_get_pixel',
@@ -282,6 +421,35 @@ export default {
           'metaads_list_businesses',
           'metaads_get_business',
           'metaads_list_business_ad_accounts',
+          // Batch
+          'metaads_batch',
+          // Copies
+          'metaads_copy_campaign',
+          'metaads_copy_adset',
+          'metaads_copy_ad',
+          'metaads_get_copy_status',
+          'metaads_clone_to_account',
+          // Bulk Updates
+          'metaads_bulk_update',
+          // Audit Log
+          'metaads_get_audit_log',
+          // Snapshots
+          'metaads_snapshot_campaign',
+          'metaads_list_snapshots',
+          'metaads_rollback',
+          // Campaign Documents
+          'metaads_export_campaign',
+          'metaads_plan_campaign',
+          'metaads_apply_campaign',
+          // Launches
+          'metaads_launch',
+          // Automation Rules
+          'metaads_create_automation_rule',
+          'metaads_list_automation_rules',
+          'metaads_update_automation_rule',
+          'metaads_delete_automation_rule',
+          'metaads_run_automation_rule',
+          'metaads_get_automation_rule_runs',
         ],
       }),
       {
@@ -289,4 +457,11 @@ export default {
       }
     );
   },
+
+  /**
+   * Cron Trigger handler: evaluates due automation rules
+   */
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(runScheduledAutomationRules(env));
+  },
 };
@@ -0,0 +1,2669 @@
+/**
+ * Graph API Simulator
+ *
+ * In-memory stand-in for the Meta Graph API that covers ad accounts, campaigns,
+ * ad sets, ads, ad creatives, ad images, ad videos (chunked uploads), custom
+ * audiences, insights (including async report runs), account activity history,
+ * automated rules and batch requests, with
+ * cursor paging and Graph-shaped error bodies (codes 100, 190, 200 and 17).
+ *
+ * Plug it into the client to exercise tools without network access:
+ *
+ *   const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+ *   const client = simulator.createClient();
+ *   registerCampaignTools(server, client, context);
+ */
+
+import { createMetaAdsClient, type MetaAdsClient, type MetaAdsClientOptions } from '../client.js';
+import type { TenantCredentials } from '../types/env.js';
+import { hmacSha256Hex } from '../utils/crypto.js';
+import { decodeBase64, encodeBase64, inspectImage } from '../utils/media.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const SIMULATOR_BASE_URL = 'https://graph.simulator.test';
+
+export type SimulatedObjectType =
+  | 'campaign'
+  | 'adset'
+  | 'ad'
+  | 'creative'
+  | 'audience'
+  | 'video'
+  | 'rule';
+
+/** Error codes the simulator can raise on demand */
+export type SimulatedErrorCode = 100 | 190 | 200 | 17 | 2;
+
+export interface GraphSimulatorOptions {
+  /** The only access token accepted (default: 'simulator-access-token') */
+  accessToken?: string;
+  /** When set, every call must carry a matching appsecret_proof */
+  appSecret?: string;
+  /** Ad accounts the token can access, as IDs or account fields */
+  accounts?: Array<string | ({ id: string } & Record<string, unknown>)>;
+  /** User returned by /me */
+  user?: { id: string; name: string };
+  /** Answer with error 17 once more than maxCalls requests have been made */
+  rateLimit?: { maxCalls: number };
+  /** Clock used for timestamps and insights date ranges */
+  now?: () => Date;
+  /** Status checks an async insights report run takes to complete (default: 2) */
+  reportRunPolls?: number;
+  /** Bytes requested per chunk during chunked video uploads (default: 1 MiB) */
+  videoChunkBytes?: number;
+  /** Status checks a finished video upload takes to become ready (default: 2) */
+  videoProcessingPolls?: number;
+  /** Status checks an async batch request set takes to complete (default: 2) */
+  asyncRequestSetPolls?: number;
+}
+
+export interface SimulatedErrorOptions {
+  /** Only fail requests with this method */
+  method?: 'GET' | 'POST' | 'DELETE';
+  /** Only fail requests whose path (without the version) matches */
+  path?: string | RegExp;
+  /** Number of matching requests to fail (default: 1) */
+  times?: number;
+}
+
+/** A request received by the simulator, for assertions */
+export interface SimulatedRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+}
+
+interface StoredObject {
+  id: string;
+  type: SimulatedObjectType;
+  accountId: string;
+  fields: Record<string, unknown>;
+}
+
+interface StoredActivity {
+  accountId: string;
+  category: string;
+  fields: Record<string, unknown>;
+}
+
+interface VideoUploadSession {
+  id: string;
+  accountId: string;
+  videoId: string;
+  fileSize: number;
+  received: number;
+}
+
+interface ReportRun {
+  id: string;
+  accountId: string;
+  rows: Record<string, unknown>[];
+  dateStart: string;
+  dateStop: string;
+  createdAt: number;
+  polls: number;
+  failed: boolean;
+}
+
+interface AsyncRequestSet {
+  id: string;
+  accountId: string;
+  name: string;
+  polls: number;
+  requests: Array<{ id: string; input: Record<string, unknown>; result: RouteResult }>;
+}
+
+interface InjectedError {
+  code: SimulatedErrorCode;
+  options: SimulatedErrorOptions;
+  remaining: number;
+}
+
+interface RuleFilter {
+  field: string;
+  operator: string;
+  value: unknown;
+}
+
+interface InsightsScope {
+  accountId?: string;
+  campaignId?: string;
+  adsetId?: string;
+  adId?: string;
+}
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+interface GraphErrorBody {
+  message: string;
+  type: string;
+  code: number;
+  error_subcode?: number;
+  error_user_title?: string;
+  error_user_msg?: string;
+  is_transient?: boolean;
+}
+
+/**
+ * Thrown by route handlers and turned into a Graph error response
+ */
+class SimulatedGraphError extends Error {
+  constructor(
+    public status: number,
+    public body: GraphErrorBody
+  ) {
+    super(body.message);
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_ACCESS_TOKEN = 'simulator-access-token';
+const DEFAULT_ACCOUNT_ID = 'act_1000000000';
+const DEFAULT_PAGE_LIMIT = 25;
+const MAX_PAGE_LIMIT = 500;
+const MAX_BATCH_SIZE = 50;
+
+const CAMPAIGN_OBJECTIVES = [
+  'OUTCOME_AWARENESS',
+  'OUTCOME_ENGAGEMENT',
+  'OUTCOME_LEADS',
+  'OUTCOME_SALES',
+  'OUTCOME_TRAFFIC',
+  'OUTCOME_APP_PROMOTION',
+];
+
+const AUDIENCE_SUBTYPES = [
+  'CUSTOM',
+  'WEBSITE',
+  'APP',
+  'OFFLINE_CONVERSION',
+  'CLAIM',
+  'PARTNER',
+  'MANAGED',
+  'VIDEO',
+  'LOOKALIKE',
+  'ENGAGEMENT',
+];
+
+const STATUSES = ['ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED'];
+
+const COPY_STATUS_OPTIONS = ['ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE'];
+
+/** Child objects Meta deep-copies synchronously before requiring an async request set */
+const MAX_SYNC_COPY_OBJECTS = 3;
+
+/** ad_object_type reported for each copied object */
+const COPY_OBJECT_TYPES: Partial<Record<SimulatedObjectType, string>> = {
+  campaign: 'campaign',
+  adset: 'ad_set',
+  ad: 'ad',
+};
+
+/** How changes to each object type appear in account activity */
+const ACTIVITY_OBJECTS: Partial<
+  Record<SimulatedObjectType, { event: string; label: string; category: string }>
+> = {
+  campaign: { event: 'campaign_group', label: 'campaign', category: 'CAMPAIGN' },
+  adset: { event: 'ad_set', label: 'ad set', category: 'AD_SET' },
+  ad: { event: 'ad', label: 'ad', category: 'AD' },
+};
+
+/** Account edges and the object type each one lists or creates */
+const ACCOUNT_EDGES: Record<string, SimulatedObjectType> = {
+  campaigns: 'campaign',
+  adsets: 'adset',
+  ads: 'ad',
+  adcreatives: 'creative',
+  customaudiences: 'audience',
+  advideos: 'video',
+  adrules_library: 'rule',
+};
+
+const RULE_STATUSES = ['ENABLED', 'DISABLED', 'DELETED'];
+
+const RULE_EXECUTION_TYPES = ['PAUSE', 'UNPAUSE', 'CHANGE_BUDGET', 'NOTIFICATION'];
+
+/** Rule entity_type filter values and the object type each one matches */
+const RULE_ENTITY_TYPES: Record<string, SimulatedObjectType> = {
+  CAMPAIGN: 'campaign',
+  ADSET: 'adset',
+  AD: 'ad',
+};
+
+/** Rule time_preset filter values and the insights date preset each one reads */
+const RULE_TIME_PRESETS: Record<string, string> = {
+  LIFETIME: 'maximum',
+  TODAY: 'today',
+  YESTERDAY: 'yesterday',
+  LAST_3_DAYS: 'last_3d',
+  LAST_7_DAYS: 'last_7d',
+  LAST_14_DAYS: 'last_14d',
+  LAST_28_DAYS: 'last_28d',
+  LAST_30_DAYS: 'last_30d',
+  THIS_MONTH: 'this_month',
+  LAST_MONTH: 'last_month',
+};
+
+/** Rule filters read from insights; money is in cents, as rules express it */
+const RULE_METRICS: Record<string, (row: Record<string, unknown>) => number> = {
+  spent: (row) => Math.round(Number(row.spend ?? 0) * 100),
+  impressions: (row) => Number(row.impressions ?? 0),
+  clicks: (row) => Number(row.clicks ?? 0),
+  reach: (row) => Number(row.reach ?? 0),
+  ctr: (row) => Number(row.ctr ?? 0),
+  cpc: (row) => Math.round(Number(row.cpc ?? 0) * 100),
+  cpm: (row) => Math.round(Number(row.cpm ?? 0) * 100),
+};
+
+const DATE_PRESETS = [
+  'today',
+  'yesterday',
+  'last_3d',
+  'last_7d',
+  'last_14d',
+  'last_28d',
+  'last_30d',
+  'last_90d',
+  'this_month',
+  'last_month',
+  'maximum',
+];
+
+const INSIGHTS_LEVELS = ['account', 'campaign', 'adset', 'ad'];
+
+/** Supported breakdowns, each with its values and share of delivery */
+const BREAKDOWNS: Record<string, Array<[string, number]>> = {
+  age: [
+    ['18-24', 0.18],
+    ['25-34', 0.3],
+    ['35-44', 0.22],
+    ['45-54', 0.15],
+    ['55-64', 0.1],
+    ['65+', 0.05],
+  ],
+  gender: [
+    ['female', 0.52],
+    ['male', 0.45],
+    ['unknown', 0.03],
+  ],
+  country: [
+    ['US', 0.6],
+    ['GB', 0.25],
+    ['CA', 0.15],
+  ],
+  publisher_platform: [
+    ['facebook', 0.55],
+    ['instagram', 0.35],
+    ['audience_network', 0.06],
+    ['messenger', 0.04],
+  ],
+  device_platform: [
+    ['mobile', 0.85],
+    ['desktop', 0.15],
+  ],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Params of an /adimages upload that are not image files
+const IMAGE_UPLOAD_PARAMS = new Set(['name', 'access_token', 'appsecret_proof']);
+
+// =============================================================================
+// Simulator
+// =============================================================================
+
+export class GraphApiSimulator {
+  readonly baseUrl = SIMULATOR_BASE_URL;
+  /** Every request received, in order */
+  readonly requests: SimulatedRequest[] = [];
+
+  private accessToken: string;
+  private appSecret?: string;
+  private user: { id: string; name: string };
+  private rateLimit?: { maxCalls: number };
+  private now: () => Date;
+  private accounts = new Map<string, Record<string, unknown>>();
+  private revokedAccounts = new Set<string>();
+  private objects = new Map<string, StoredObject>();
+  private activities: StoredActivity[] = [];
+  private ruleHistory = new Map<string, Record<string, unknown>[]>();
+  private reportRuns = new Map<string, ReportRun>();
+  private reportRunPolls: number;
+  private images = new Map<string, Record<string, unknown>>();
+  private uploadSessions = new Map<string, VideoUploadSession>();
+  private processingVideos = new Map<string, number>();
+  private videoChunkBytes: number;
+  private videoProcessingPolls: number;
+  private asyncRequestSets = new Map<string, AsyncRequestSet>();
+  private asyncRequestSetPolls: number;
+  private injectedErrors: InjectedError[] = [];
+  private cannedResponses = new Map<string, unknown>();
+  private tokenExpired = false;
+  private calls = 0;
+  private nextId = 120210000000000000n;
+  private nextTraceId = 1;
+
+  constructor(options: GraphSimulatorOptions = {}) {
+    this.accessToken = options.accessToken ?? DEFAULT_ACCESS_TOKEN;
+    this.appSecret = options.appSecret;
+    this.user = options.user ?? { id: '10000000000001', name: 'Simulator User' };
+    this.rateLimit = options.rateLimit;
+    this.now = options.now ?? (() => new Date());
+    this.reportRunPolls = options.reportRunPolls ?? 2;
+    this.videoChunkBytes = options.videoChunkBytes ?? 1024 * 1024;
+    this.videoProcessingPolls = options.videoProcessingPolls ?? 2;
+    this.asyncRequestSetPolls = options.asyncRequestSetPolls ?? 2;
+
+    for (const account of options.accounts ?? [DEFAULT_ACCOUNT_ID]) {
+      this.addAccount(typeof account === 'string' ? { id: account } : account);
+    }
+  }
+
+  /**
+   * fetch implementation to hand to the client
+   */
+  readonly fetch: typeof fetch = async (input, init) => this.handle(new Request(input, init));
+
+  /**
+   * Client options that route every call to this simulator without real delays
+   */
+  clientOptions(): MetaAdsClientOptions {
+    return { baseUrl: this.baseUrl, fetch: this.fetch, sleep: async () => {} };
+  }
+
+  /**
+   * Create a client wired to this simulator, with any further client options
+   * (e.g. a tenant policy)
+   */
+  createClient(
+    credentials: Partial<TenantCredentials> = {},
+    options: MetaAdsClientOptions = {}
+  ): MetaAdsClient {
+    return createMetaAdsClient(
+      { accessToken: this.accessToken, ...credentials },
+      { ...this.clientOptions(), ...options }
+    );
+  }
+
+  // ===========================================================================
+  // Seeding and Fault Injection
+  // ===========================================================================
+
+  /**
+   * Add an ad account the token can access
+   */
+  addAccount(account: { id: string } & Record<string, unknown>): void {
+    const id = normalizeAccountId(account.id);
+    this.accounts.set(id, {
+      account_id: id.slice(4),
+      name: `Simulated Account ${id.slice(4)}`,
+      account_status: 1,
+      currency: 'USD',
+      timezone_name: 'America/Los_Angeles',
+      amount_spent: '0',
+      balance: '0',
+      created_time: this.timestamp(),
+      ...account,
+      id,
+    });
+  }
+
+  /**
+   * Insert an object directly, skipping validation. Returns its ID.
+   * Use `created_time` to give ads insights history before today.
+   */
+  seed(type: SimulatedObjectType, accountId: string, fields: Record<string, unknown>): string {
+    const account = normalizeAccountId(accountId);
+    const id = typeof fields.id === 'string' ? fields.id : this.generateId();
+    const now = this.timestamp();
+    this.objects.set(id, {
+      id,
+      type,
+      accountId: account,
+      fields: {
+        account_id: account.slice(4),
+        created_time: now,
+        updated_time: now,
+        ...(type !== 'creative' && type !== 'audience' && type !== 'video' && { status: 'PAUSED' }),
+        ...fields,
+        id,
+      },
+    });
+    return id;
+  }
+
+  /**
+   * Stored fields of an object, or undefined if it does not exist
+   */
+  get(id: string): Record<string, unknown> | undefined {
+    const account = this.accounts.get(id);
+    if (account) {
+      return structuredClone(account);
+    }
+    const object = this.objects.get(id);
+    return object && structuredClone(object.fields);
+  }
+
+  /**
+   * Fail the next matching request(s) with a Graph error
+   */
+  failNext(code: SimulatedErrorCode, options: SimulatedErrorOptions = {}): void {
+    this.injectedErrors.push({ code, options, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Answer a request the simulator does not model (pixels, businesses, catalogs,
+   * targeting) with a fixed body, directly or inside a batch. The path is given
+   * without the version, e.g. 'act_1000/adspixels'.
+   */
+  cannedResponse(method: 'GET' | 'POST', path: string, body: unknown): void {
+    this.cannedResponses.set(`${method} ${path}`, body);
+  }
+
+  /**
+   * Make the access token behave as expired (error 190, subcode 463)
+   */
+  expireToken(): void {
+    this.tokenExpired = true;
+  }
+
+  /**
+   * Make an async insights report run end with 'Job Failed'
+   */
+  failReportRun(reportRunId: string): void {
+    const run = this.reportRuns.get(reportRunId);
+    if (run) run.failed = true;
+  }
+
+  /**
+   * Make an uploaded video end processing with video_status 'error'
+   */
+  failVideoProcessing(videoId: string): void {
+    const video = this.objects.get(videoId);
+    if (video?.type === 'video') {
+      this.processingVideos.delete(videoId);
+      video.fields.status = { video_status: 'error', processing_progress: 0 };
+    }
+  }
+
+  /**
+   * Add an entry to an account's activity history, e.g. a change made in Ads Manager
+   */
+  addActivity(
+    accountId: string,
+    activity: { event_type: string; category: string } & Record<string, unknown>
+  ): void {
+    const { category, ...fields } = activity;
+    this.activities.push({
+      accountId: normalizeAccountId(accountId),
+      category,
+      fields: { event_time: this.timestamp(), ...fields },
+    });
+  }
+
+  /**
+   * Add a run to an automated rule's execution history, newest last
+   */
+  addRuleHistory(ruleId: string, run: Record<string, unknown>): void {
+    const runs = this.ruleHistory.get(ruleId) ?? [];
+    runs.push({ timestamp: this.timestamp(), is_manual: false, results: [], ...run });
+    this.ruleHistory.set(ruleId, runs);
+  }
+
+  /**
+   * Withdraw access to an ad account (error 200 on every call touching it)
+   */
+  revokeAccount(accountId: string): void {
+    this.revokedAccounts.add(normalizeAccountId(accountId));
+  }
+
+  /**
+   * Clear the call counter used by the rate limit
+   */
+  resetRateLimit(): void {
+    this.calls = 0;
+  }
+
+  // ===========================================================================
+  // Request Handling
+  // ===========================================================================
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const { version, path } = splitVersion(url.pathname);
+    const params = await readParams(request, url);
+    this.requests.push({ method, path, params });
+
+    try {
+      this.authenticate(request);
+      await this.verifyAppSecretProof(params);
+      this.checkRateLimit();
+      this.throwInjectedError(method, path);
+
+      const canned = this.cannedResponses.get(`${method} ${path}`);
+      if (canned !== undefined) {
+        return this.respond(200, structuredClone(canned));
+      }
+      if (method === 'POST' && path === '' && params.batch !== undefined) {
+        return this.respond(200, this.runBatch(params, version));
+      }
+      const result = this.route(method, path, params, version);
+      return this.respond(result.status, result.body);
+    } catch (error) {
+      if (error instanceof SimulatedGraphError) {
+        return this.respond(error.status, { error: this.withTraceId(error.body) });
+      }
+      throw error;
+    }
+  }
+
+  private respond(status: number, body: unknown): Response {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.rateLimit) {
+      const used = Math.min(100, Math.round((this.calls / this.rateLimit.maxCalls) * 100));
+      headers['X-App-Usage'] = JSON.stringify({
+        call_count: used,
+        total_cputime: Math.round(used / 2),
+        total_time: Math.round(used / 2),
+      });
+    }
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  private withTraceId(body: GraphErrorBody): GraphErrorBody & { fbtrace_id: string } {
+    return { ...body, fbtrace_id: `SimTrace${String(this.nextTraceId++).padStart(6, '0')}` };
+  }
+
+  private authenticate(request: Request): void {
+    const header = request.headers.get('Authorization') ?? '';
+    const token = header.replace(/^(Bearer|OAuth)\s+/i, '');
+    if (!token || token !== this.accessToken) {
+      throw new SimulatedGraphError(400, {
+        message: 'Invalid OAuth access token - Cannot parse access token',
+        type: 'OAuthException',
+        code: 190,
+      });
+    }
+    if (this.tokenExpired) {
+      throw new SimulatedGraphError(400, {
+        message: `Error validating access token: Session has expired on ${this.now().toUTCString()}.`,
+        type: 'OAuthException',
+        code: 190,
+        error_subcode: 463,
+      });
+    }
+  }
+
+  private async verifyAppSecretProof(params: Record<string, string>): Promise<void> {
+    if (!this.appSecret) {
+      return;
+    }
+    const expected = await hmacSha256Hex(this.appSecret, this.accessToken);
+    if (params.appsecret_proof !== expected) {
+      throw new SimulatedGraphError(400, {
+        message: 'Invalid appsecret_proof provided in the API argument',
+        type: 'GraphMethodException',
+        code: 100,
+      });
+    }
+  }
+
+  private checkRateLimit(): void {
+    this.calls++;
+    if (this.rateLimit && this.calls > this.rateLimit.maxCalls) {
+      throw rateLimitError();
+    }
+  }
+
+  private throwInjectedError(method: string, path: string): void {
+    const injected = this.injectedErrors.find(
+      ({ options }) =>
+        (!options.method || options.method === method) &&
+        (!options.path ||
+          (typeof options.path === 'string' ? options.path === path : options.path.test(path)))
+    );
+    if (!injected) {
+      return;
+    }
+
+    injected.remaining--;
+    if (injected.remaining <= 0) {
+      this.injectedErrors.splice(this.injectedErrors.indexOf(injected), 1);
+    }
+
+    switch (injected.code) {
+      case 17:
+        throw rateLimitError();
+      case 190:
+        throw new SimulatedGraphError(400, {
+          message: 'Error validating access token: The session has been invalidated.',
+          type: 'OAuthException',
+          code: 190,
+          error_subcode: 466,
+        });
+      case 200:
+        throw permissionError();
+      case 2:
+        throw new SimulatedGraphError(503, {
+          message: 'An unexpected error has occurred. Please retry your request later.',
+          type: 'OAuthException',
+          code: 2,
+          is_transient: true,
+        });
+      default:
+        throw invalidParameter('Invalid parameter');
+    }
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  private route(
+    method: string,
+    path: string,
+    params: Record<string, string>,
+    version: string
+  ): RouteResult {
+    const [node, edge, ...rest] = path.split('/').filter(Boolean);
+    if (!node || rest.length > 0) {
+      throw unsupportedRequest(method, path);
+    }
+
+    if (method === 'POST' && params.execution_options?.includes('validate_only')) {
+      return this.validateOnly(path, params, version);
+    }
+
+    if (node === 'me') {
+      return this.routeMe(method, edge, params, version);
+    }
+
+    if (node.startsWith('act_')) {
+      const accountId = normalizeAccountId(node);
+      const account = this.requireAccount(method, accountId);
+      if (!edge) {
+        if (method !== 'GET') throw unsupportedRequest(method, node);
+        return ok(selectFields(account, params.fields));
+      }
+      if (edge === 'insights' && method === 'GET') {
+        return ok(this.insights({ accountId }, 'account', params, `${node}/${edge}`, version));
+      }
+      if (edge === 'insights' && method === 'POST') {
+        return ok(this.startReportRun({ accountId }, 'account', accountId, params));
+      }
+      if (edge === 'advideos' && method === 'POST') {
+        return ok(this.uploadVideo(accountId, params));
+      }
+      if (edge === 'activities' && method === 'GET') {
+        return ok(this.listActivities(accountId, params, `${node}/${edge}`, version));
+      }
+      if (edge === 'async_batch_requests' && method === 'POST') {
+        return ok(this.submitAsyncRequestSet(accountId, params, version));
+      }
+      if (edge === 'adimages' && (method === 'GET' || method === 'POST')) {
+        return ok(
+          method === 'POST'
+            ? this.uploadImages(accountId, params)
+            : this.listImages(accountId, params, `${node}/${edge}`, version)
+        );
+      }
+      const type = ACCOUNT_EDGES[edge];
+      if (!type) throw nonexistingField(edge, 'AdAccount');
+      if (method === 'GET') {
+        const items = this.list((object) => object.accountId === accountId && object.type === type);
+        return ok(this.listResponse(items, params, `${node}/${edge}`, version));
+      }
+      if (method === 'POST') {
+        return ok({ id: this.create(type, accountId, params) });
+      }
+      throw unsupportedRequest(method, path);
+    }
+
+    const reportRun = this.reportRuns.get(node);
+    if (reportRun) {
+      return this.routeReportRun(method, reportRun, edge, params, version);
+    }
+
+    const requestSet = this.asyncRequestSets.get(node);
+    if (requestSet) {
+      return this.routeAsyncRequestSet(method, requestSet, edge, params, version);
+    }
+
+    const object = this.requireObject(method, node);
+    if (!edge) {
+      switch (method) {
+        case 'GET':
+          if (object.type === 'video') this.advanceVideoProcessing(object);
+          return ok(selectFields(this.view(object), params.fields));
+        case 'POST':
+          this.update(object, params);
+          return ok({ success: true });
+        case 'DELETE':
+          this.remove(object);
+          return ok({ success: true });
+        default:
+          throw unsupportedRequest(method, node);
+      }
+    }
+
+    return this.routeObjectEdge(method, object, edge, params, version);
+  }
+
+  private routeMe(
+    method: string,
+    edge: string | undefined,
+    params: Record<string, string>,
+    version: string
+  ): RouteResult {
+    if (method !== 'GET') {
+      throw unsupportedRequest(method, 'me');
+    }
+    if (!edge) {
+      return ok(selectFields(this.user, params.fields ?? 'id,name'));
+    }
+    if (edge === 'adaccounts') {
+      const accounts = [...this.accounts.values()]
+        .filter((account) => !this.revokedAccounts.has(account.id as string))
+        .map((account) => selectFields(account, params.fields));
+      return ok(paginateItems(accounts, params, 'me/adaccounts', version));
+    }
+    throw nonexistingField(edge, 'User');
+  }
+
+  private routeObjectEdge(
+    method: string,
+    object: StoredObject,
+    edge: string,
+    params: Record<string, string>,
+    version: string
+  ): RouteResult {
+    const path = `${object.id}/${edge}`;
+
+    if (edge === 'insights' && method === 'GET' && object.type !== 'creative') {
+      if (object.type === 'audience' || object.type === 'rule') {
+        throw nonexistingField(edge, nodeTypeName(object.type));
+      }
+      return ok(
+        this.insights({ [`${object.type}Id`]: object.id }, object.type, params, path, version)
+      );
+    }
+
+    if (
+      edge === 'insights' &&
+      method === 'POST' &&
+      object.type !== 'creative' &&
+      object.type !== 'audience' &&
+      object.type !== 'rule'
+    ) {
+      return ok(
+        this.startReportRun(
+          { [`${object.type}Id`]: object.id },
+          object.type,
+          object.accountId,
+          params
+        )
+      );
+    }
+
+    if (
+      edge === 'copies' &&
+      method === 'POST' &&
+      (object.type === 'campaign' || object.type === 'adset' || object.type === 'ad')
+    ) {
+      return ok(this.copy(object, params, false));
+    }
+
+    if (
+      edge === 'users' &&
+      object.type === 'audience' &&
+      (method === 'POST' || method === 'DELETE')
+    ) {
+      return ok(this.updateAudienceUsers(object, params, method === 'POST'));
+    }
+
+    if (edge === 'preview' && method === 'POST' && object.type === 'rule') {
+      return ok(this.previewRule(object));
+    }
+
+    if (edge === 'history' && method === 'GET' && object.type === 'rule') {
+      const runs = [...(this.ruleHistory.get(object.id) ?? [])]
+        .reverse()
+        .filter((run) => params.hide_no_changes !== 'true' || (run.results as unknown[]).length > 0)
+        .map((run) => selectFields(run, params.fields));
+      return ok(paginateItems(runs, params, path, version));
+    }
+
+    if (method === 'GET') {
+      const parentKey = `${object.type}_id`;
+      if (edge === 'adsets' && object.type === 'campaign') {
+        const items = this.list((o) => o.type === 'adset' && o.fields.campaign_id === object.id);
+        return ok(this.listResponse(items, params, path, version));
+      }
+      if (edge === 'ads' && (object.type === 'campaign' || object.type === 'adset')) {
+        const items = this.list((o) => o.type === 'ad' && o.fields[parentKey] === object.id);
+        return ok(this.listResponse(items, params, path, version));
+      }
+      if (edge === 'adcreatives' && object.type === 'ad') {
+        const creativeId = (object.fields.creative as { id?: string } | undefined)?.id;
+        const items = this.list((o) => o.type === 'creative' && o.id === creativeId);
+        return ok(this.listResponse(items, params, path, version));
+      }
+    }
+
+    throw nonexistingField(edge, nodeTypeName(object.type));
+  }
+
+  /**
+   * Report runs move from 'Job Not Started' through 'Job Running' to
+   * 'Job Completed', one step per status check
+   */
+  private routeReportRun(
+    method: string,
+    run: ReportRun,
+    edge: string | undefined,
+    params: Record<string, string>,
+    version: string
+  ): RouteResult {
+    if (this.revokedAccounts.has(run.accountId)) {
+      throw permissionError();
+    }
+    if (method !== 'GET') {
+      throw unsupportedRequest(method, edge ? `${run.id}/${edge}` : run.id);
+    }
+
+    const completed = !run.failed && run.polls >= this.reportRunPolls;
+    if (!edge) {
+      const percent = run.failed
+        ? 0
+        : Math.min(100, Math.round((run.polls / this.reportRunPolls) * 100));
+      const status = run.failed
+        ? 'Job Failed'
+        : completed
+          ? 'Job Completed'
+          : run.polls === 0
+            ? 'Job Not Started'
+            : 'Job Running';
+      run.polls += 1;
+      return ok(
+        selectFields(
+          {
+            id: run.id,
+            account_id: run.accountId.slice(4),
+            async_status: status,
+            async_percent_completion: percent,
+            date_start: run.dateStart,
+            date_stop: run.dateStop,
+            time_ref: run.createdAt,
+            time_completed: completed ? run.createdAt : undefined,
+            is_running: !completed && !run.failed,
+          },
+          params.fields
+        )
+      );
+    }
+
+    if (edge !== 'insights') {
+      throw nonexistingField(edge, 'AdReportRun');
+    }
+    if (!completed) {
+      throw invalidParameter(
+        'Report is not ready',
+        'Report Not Ready',
+        'The report is still running. Try again once async_status is Job Completed.'
+      );
+    }
+    return ok(paginateItems(run.rows, params, `${run.id}/insights`, version));
+  }
+
+  private requireAccount(method: string, accountId: string): Record<string, unknown> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw unsupportedRequest(method, accountId);
+    }
+    if (this.revokedAccounts.has(accountId)) {
+      throw permissionError();
+    }
+    return account;
+  }
+
+  private requireObject(method: string, id: string): StoredObject {
+    const object = this.objects.get(id);
+    if (!object) {
+      throw unsupportedRequest(method, id);
+    }
+    if (this.revokedAccounts.has(object.accountId)) {
+      throw permissionError();
+    }
+    return object;
+  }
+
+  // ===========================================================================
+  // Objects
+  // ===========================================================================
+
+  private list(predicate: (object: StoredObject) => boolean): StoredObject[] {
+    // Graph lists newest objects first
+    return [...this.objects.values()].filter(predicate).reverse();
+  }
+
+  private listResponse(
+    objects: StoredObject[],
+    params: Record<string, string>,
+    path: string,
+    version: string
+  ): unknown {
+    const statuses = parseJsonParam<string[]>(params.effective_status, 'effective_status');
+    const filtering = parseJsonParam<Array<{ field: string; operator: string; value: unknown }>>(
+      params.filtering,
+      'filtering'
+    );
+
+    const items = objects
+      .map((object) => this.view(object))
+      .filter((view) => {
+        const status = view.effective_status as string | undefined;
+        // Deleted objects only show up when asked for explicitly
+        if (statuses) return status !== undefined && statuses.includes(status);
+        return status !== 'DELETED';
+      })
+      .filter((view) => (filtering ?? []).every((filter) => matchesFilter(view, filter)))
+      .map((view) => selectFields(view, params.fields));
+
+    return paginateItems(items, params, path, version);
+  }
+
+  /**
+   * Object fields as Graph returns them, including derived statuses
+   */
+  private view(object: StoredObject): Record<string, unknown> {
+    const fields = { ...object.fields };
+    if (object.type === 'campaign' || object.type === 'adset' || object.type === 'ad') {
+      fields.configured_status = fields.status;
+      fields.effective_status = this.effectiveStatus(object);
+    }
+    return fields;
+  }
+
+  private effectiveStatus(object: StoredObject): string {
+    const status = object.fields.status as string;
+    if (status !== 'ACTIVE') {
+      return status;
+    }
+    const parentId =
+      object.type === 'ad'
+        ? object.fields.adset_id
+        : object.type === 'adset'
+          ? object.fields.campaign_id
+          : undefined;
+    const parent = typeof parentId === 'string' ? this.objects.get(parentId) : undefined;
+    if (!parent) {
+      return status;
+    }
+    const parentStatus = this.effectiveStatus(parent);
+    if (parentStatus === 'ACTIVE') {
+      return status;
+    }
+    if (parentStatus === 'DELETED' || parentStatus === 'ARCHIVED') {
+      return parentStatus;
+    }
+    return parent.type === 'campaign' ? 'CAMPAIGN_PAUSED' : 'ADSET_PAUSED';
+  }
+
+  private create(
+    type: SimulatedObjectType,
+    accountId: string,
+    params: Record<string, string>
+  ): string {
+    const input = parseInput(params);
+    const activity = ACTIVITY_OBJECTS[type];
+    if (activity) {
+      const id = this.createObject(type, accountId, input);
+      this.recordActivity(this.requireObject('POST', id), {
+        event_type: `create_${activity.event}`,
+        translated_event_type: `Created ${activity.label}`,
+        category: activity.category,
+      });
+      return id;
+    }
+    return this.createObject(type, accountId, input);
+  }
+
+  private createObject(
+    type: SimulatedObjectType,
+    accountId: string,
+    input: Record<string, unknown>
+  ): string {
+    switch (type) {
+      case 'campaign':
+        return this.createCampaign(accountId, input);
+      case 'adset':
+        return this.createAdSet(accountId, input);
+      case 'ad':
+        return this.createAd(accountId, input);
+      case 'creative':
+        return this.createCreative(accountId, input);
+      case 'audience':
+        return this.createAudience(accountId, input);
+      case 'video':
+        throw invalidParameter('Videos must be uploaded with upload_phase');
+      case 'rule':
+        return this.createRule(accountId, input);
+    }
+  }
+
+  private createCampaign(accountId: string, input: Record<string, unknown>): string {
+    requireParams(input, ['name', 'objective', 'special_ad_categories']);
+    if (!CAMPAIGN_OBJECTIVES.includes(input.objective as string)) {
+      throw invalidParameter(
+        `Param objective must be one of {${CAMPAIGN_OBJECTIVES.join(', ')}}`,
+        'Invalid Objective',
+        `The objective ${String(input.objective)} is not supported. Choose one of the outcome-based objectives.`
+      );
+    }
+    validateStatus(input.status);
+    validateBudget(input);
+    return this.seed('campaign', accountId, {
+      buying_type: 'AUCTION',
+      status: 'ACTIVE',
+      ...input,
+      start_time: input.start_time ?? this.timestamp(),
+    });
+  }
+
+  private createAdSet(accountId: string, input: Record<string, unknown>): string {
+    requireParams(input, ['name', 'campaign_id', 'billing_event', 'targeting']);
+    const campaign = this.objects.get(input.campaign_id as string);
+    if (campaign?.type !== 'campaign' || campaign.accountId !== accountId) {
+      throw invalidParameter(
+        'Param campaign_id must be a valid campaign ID in this ad account',
+        'Invalid Campaign',
+        'The campaign you selected does not exist or belongs to another ad account.'
+      );
+    }
+    if (campaign.fields.status === 'DELETED') {
+      throw invalidParameter(
+        'Cannot create an ad set in a deleted campaign',
+        'Campaign Deleted',
+        'Choose a campaign that has not been deleted.'
+      );
+    }
+    validateStatus(input.status);
+    validateBudget(input);
+
+    const campaignBudget = campaign.fields.daily_budget ?? campaign.fields.lifetime_budget;
+    const adSetBudget = input.daily_budget ?? input.lifetime_budget;
+    if (campaignBudget === undefined && adSetBudget === undefined) {
+      throw invalidParameter(
+        'Either daily_budget or lifetime_budget must be set',
+        'Budget Required',
+        'Set a budget on the ad set or use a campaign budget.'
+      );
+    }
+    if (campaignBudget !== undefined && adSetBudget !== undefined) {
+      throw invalidParameter(
+        'Ad set budget cannot be set when the campaign uses a campaign budget',
+        'Campaign Budget In Use',
+        'Remove the ad set budget or turn off the campaign budget.'
+      );
+    }
+
+    return this.seed('adset', accountId, {
+      status: 'ACTIVE',
+      ...input,
+      start_time: input.start_time ?? this.timestamp(),
+    });
+  }
+
+  private createAd(accountId: string, input: Record<string, unknown>): string {
+    requireParams(input, ['name', 'adset_id', 'creative']);
+    const adSet = this.objects.get(input.adset_id as string);
+    if (adSet?.type !== 'adset' || adSet.accountId !== accountId) {
+      throw invalidParameter(
+        'Param adset_id must be a valid ad set ID in this ad account',
+        'Invalid Ad Set',
+        'The ad set you selected does not exist or belongs to another ad account.'
+      );
+    }
+    validateStatus(input.status);
+
+    return this.seed('ad', accountId, {
+      status: 'ACTIVE',
+      ...input,
+      campaign_id: adSet.fields.campaign_id,
+      creative: { id: this.resolveCreative(accountId, input.creative as Record<string, unknown>) },
+    });
+  }
+
+  /**
+   * An ad's creative param either references an existing creative or defines a new one
+   */
+  private resolveCreative(accountId: string, creative: Record<string, unknown>): string {
+    const creativeId = creative.creative_id as string | undefined;
+    if (!creativeId) {
+      return this.createCreative(accountId, creative);
+    }
+    if (this.objects.get(creativeId)?.type !== 'creative') {
+      throw invalidParameter(
+        `Creative ${creativeId} does not exist`,
+        'Invalid Creative',
+        'The creative you selected does not exist.'
+      );
+    }
+    return creativeId;
+  }
+
+  private createCreative(accountId: string, input: Record<string, unknown>): string {
+    if (!input.object_story_spec && !input.asset_feed_spec && !input.object_story_id) {
+      throw invalidParameter(
+        'The parameter object_story_spec is required',
+        'Missing Creative Content',
+        'A creative needs an object story spec, an asset feed spec or an existing post.'
+      );
+    }
+    return this.seed('creative', accountId, {
+      name: `Creative ${this.timestamp().slice(0, 10)}`,
+      status: 'ACTIVE',
+      ...input,
+    });
+  }
+
+  private createAudience(accountId: string, input: Record<string, unknown>): string {
+    requireParams(input, ['name', 'subtype']);
+    if (!AUDIENCE_SUBTYPES.includes(input.subtype as string)) {
+      throw invalidParameter(`Param subtype must be one of {${AUDIENCE_SUBTYPES.join(', ')}}`);
+    }
+    return this.seed('audience', accountId, {
+      approximate_count_lower_bound: 0,
+      approximate_count_upper_bound: 0,
+      delivery_status: { code: 300, description: 'This audience is too small to be used.' },
+      operation_status: { code: 200, description: 'Normal' },
+      time_created: Math.floor(this.now().getTime() / 1000),
+      ...input,
+    });
+  }
+
+  private createRule(accountId: string, input: Record<string, unknown>): string {
+    requireParams(input, ['name', 'evaluation_spec', 'execution_spec']);
+    validateRule(input);
+    return this.seed('rule', accountId, { status: 'ENABLED', ...input });
+  }
+
+  /**
+   * Run a mutation and roll it back, answering like Graph does for
+   * execution_options=validate_only
+   */
+  private validateOnly(path: string, params: Record<string, string>, version: string): RouteResult {
+    const { execution_options: executionOptions, ...input } = params;
+    const objects = structuredClone([...this.objects]);
+    const activities = this.activities.length;
+    const nextId = this.nextId;
+    try {
+      this.route('POST', path, input, version);
+    } finally {
+      this.objects = new Map(objects);
+      this.activities.length = activities;
+      this.nextId = nextId;
+    }
+    return ok({
+      success: true,
+      ...(executionOptions.includes('include_recommendations') && {
+        recommendations: recommendationsFor(parseInput(input)),
+      }),
+    });
+  }
+
+  // ===========================================================================
+  // Copies
+  // ===========================================================================
+
+  /**
+   * Duplicate an object, and its children when deep_copy is set. Copies are
+   * PAUSED unless status_option says otherwise, and the top-level copy gets a
+   * " - Copy" suffix unless rename_options says otherwise.
+   */
+  private copy(source: StoredObject, params: Record<string, string>, async: boolean): unknown {
+    const input = parseInput(params);
+    const statusOption = (input.status_option as string | undefined) ?? 'PAUSED';
+    if (!COPY_STATUS_OPTIONS.includes(statusOption)) {
+      throw invalidParameter(
+        `Param status_option must be one of {${COPY_STATUS_OPTIONS.join(', ')}}`
+      );
+    }
+
+    const deep = input.deep_copy === true;
+    const children = deep ? this.copyChildren(source) : [];
+    const descendants =
+      children.length + children.flatMap((child) => this.copyChildren(child)).length;
+    if (!async && descendants > MAX_SYNC_COPY_OBJECTS) {
+      throw invalidParameter(
+        `Cannot deep copy more than ${MAX_SYNC_COPY_OBJECTS} child objects synchronously`,
+        'Too Many Objects To Copy',
+        'Copy this object with an asynchronous batch request instead.'
+      );
+    }
+
+    const parentKey = source.type === 'adset' ? 'campaign_id' : 'adset_id';
+    const parentId = input[parentKey] as string | undefined;
+    if (source.type !== 'campaign' && parentId !== undefined) {
+      const parent = this.objects.get(parentId);
+      if (
+        parent?.type !== (source.type === 'adset' ? 'campaign' : 'adset') ||
+        parent.accountId !== source.accountId
+      ) {
+        throw invalidParameter(
+          `Param ${parentKey} must be a valid ID in this ad account`,
+          'Invalid Copy Destination',
+          'The object you are copying into does not exist or belongs to another ad account.'
+        );
+      }
+    }
+
+    const rename = input.rename_options as
+      | { rename_strategy?: string; rename_prefix?: string; rename_suffix?: string }
+      | undefined;
+    const strategy = rename?.rename_strategy ?? 'ONLY_TOP_LEVEL_RENAME';
+    const prefix = rename ? (rename.rename_prefix ?? '') : '';
+    const suffix = rename ? (rename.rename_suffix ?? '') : ' - Copy';
+
+    const copied: Array<{ ad_object_type: string; source_id: string; copied_id: string }> = [];
+    const copyOne = (
+      object: StoredObject,
+      overrides: Record<string, unknown>,
+      topLevel: boolean
+    ) => {
+      const { id: _id, created_time: _created, updated_time: _updated, ...fields } = object.fields;
+      const renamed =
+        strategy === 'DEEP_RENAME' || (strategy === 'ONLY_TOP_LEVEL_RENAME' && topLevel);
+      const id = this.seed(object.type, object.accountId, {
+        ...fields,
+        ...(renamed && { name: `${prefix}${fields.name ?? ''}${suffix}` }),
+        status: statusOption === 'INHERITED_FROM_SOURCE' ? fields.status : statusOption,
+        ...(object.type === 'adset' &&
+          input.start_time !== undefined && { start_time: input.start_time }),
+        ...(object.type === 'adset' &&
+          input.end_time !== undefined && { end_time: input.end_time }),
+        ...overrides,
+      });
+      copied.push({
+        ad_object_type: COPY_OBJECT_TYPES[object.type] ?? object.type,
+        source_id: object.id,
+        copied_id: id,
+      });
+      if (deep) {
+        for (const child of this.copyChildren(object)) {
+          copyOne(
+            child,
+            child.type === 'adset'
+              ? { campaign_id: id }
+              : { adset_id: id, campaign_id: this.objects.get(id)?.fields.campaign_id },
+            false
+          );
+        }
+      }
+      return id;
+    };
+
+    const overrides: Record<string, unknown> = {};
+    if (source.type !== 'campaign' && parentId !== undefined) {
+      overrides[parentKey] = parentId;
+      if (source.type === 'ad') {
+        overrides.campaign_id = this.objects.get(parentId)?.fields.campaign_id;
+      }
+    }
+    const copiedId = copyOne(source, overrides, true);
+    return { [`copied_${source.type}_id`]: copiedId, ad_object_ids: copied };
+  }
+
+  private copyChildren(object: StoredObject): StoredObject[] {
+    const childType =
+      object.type === 'campaign' ? 'adset' : object.type === 'adset' ? 'ad' : undefined;
+    const parentKey = `${object.type}_id`;
+    return [...this.objects.values()].filter(
+      (o) =>
+        o.type === childType && o.fields[parentKey] === object.id && o.fields.status !== 'DELETED'
+    );
+  }
+
+  /**
+   * Run each request of an async batch immediately; the set reports itself
+   * complete after a few status checks
+   */
+  private submitAsyncRequestSet(
+    accountId: string,
+    params: Record<string, string>,
+    version: string
+  ): unknown {
+    const operations = parseJsonParam<Array<Record<string, unknown>>>(params.adbatch, 'adbatch');
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw invalidParameter('The parameter adbatch is required');
+    }
+
+    const id = this.generateId();
+    const requests = operations.map((op) => {
+      const body = Object.fromEntries(
+        new URLSearchParams(typeof op.body === 'string' ? op.body : '')
+      );
+      const path = `/${String(op.relative_url ?? '').replace(/^\/+/, '')}`;
+      let result: RouteResult;
+      try {
+        const [node, edge] = path.split('/').filter(Boolean);
+        const object = edge === 'copies' ? this.requireObject('POST', node) : undefined;
+        if (object && object.accountId !== accountId) throw permissionError();
+        result = object
+          ? ok(this.copy(object, body, true))
+          : this.route('POST', path, body, version);
+      } catch (error) {
+        if (!(error instanceof SimulatedGraphError)) throw error;
+        result = { status: error.status, body: { error: this.withTraceId(error.body) } };
+      }
+      return { id: this.generateId(), input: { ...op }, result };
+    });
+
+    this.asyncRequestSets.set(id, {
+      id,
+      accountId,
+      name: params.name ?? `Async request set ${id}`,
+      polls: 0,
+      requests,
+    });
+    return { id };
+  }
+
+  private routeAsyncRequestSet(
+    method: string,
+    set: AsyncRequestSet,
+    edge: string | undefined,
+    params: Record<string, string>,
+    version: string
+  ): RouteResult {
+    if (this.revokedAccounts.has(set.accountId)) {
+      throw permissionError();
+    }
+    if (method !== 'GET') {
+      throw unsupportedRequest(method, edge ? `${set.id}/${edge}` : set.id);
+    }
+
+    const completed = set.polls >= this.asyncRequestSetPolls;
+    if (!edge) {
+      set.polls += 1;
+      const succeeded = set.requests.filter((request) => request.result.status < 400).length;
+      return ok(
+        selectFields(
+          {
+            id: set.id,
+            name: set.name,
+            is_completed: completed,
+            total_count: set.requests.length,
+            in_progress_count: completed ? 0 : set.requests.length,
+            success_count: completed ? succeeded : 0,
+            error_count: completed ? set.requests.length - succeeded : 0,
+            canceled_count: 0,
+          },
+          params.fields
+        )
+      );
+    }
+
+    if (edge !== 'requests') {
+      throw nonexistingField(edge, 'AdAsyncRequestSet');
+    }
+    const items = set.requests.map((request) =>
+      selectFields(
+        {
+          id: request.id,
+          input: request.input,
+          status: !completed ? 'IN_PROGRESS' : request.result.status < 400 ? 'SUCCESS' : 'ERROR',
+          result: completed ? JSON.stringify(request.result.body) : undefined,
+        },
+        params.fields
+      )
+    );
+    return ok(paginateItems(items, params, `${set.id}/requests`, version));
+  }
+
+  // ===========================================================================
+  // Image Uploads
+  // ===========================================================================
+
+  /**
+   * Accepts a single base64 `bytes` param or any number of file parts, keyed by
+   * file name, and answers with the Graph map of name to hash and URL
+   */
+  private uploadImages(accountId: string, params: Record<string, string>): unknown {
+    const files: Array<[string, string]> = params.bytes
+      ? [[params.name ?? 'bytes', params.bytes]]
+      : Object.entries(params).filter(([key]) => !IMAGE_UPLOAD_PARAMS.has(key));
+    if (files.length === 0) {
+      throw invalidParameter('No image file was uploaded');
+    }
+
+    const images: Record<string, { hash: string; url: string; name: string }> = {};
+    for (const [name, data] of files) {
+      const info = inspectImage(decodeBase64(data));
+      if (!info) {
+        throw invalidParameter(
+          'Invalid image file',
+          'File Upload Failed',
+          `The file ${name} is not a supported image.`
+        );
+      }
+      const hash = contentHash(data);
+      const url = `https://scontent.simulator.test/${hash}.${info.format}`;
+      this.images.set(`${accountId}:${hash}`, {
+        id: `${accountId.slice(4)}:${hash}`,
+        account_id: accountId.slice(4),
+        hash,
+        name,
+        url,
+        permalink_url: url,
+        original_width: info.width,
+        original_height: info.height,
+        status: 'ACTIVE',
+        created_time: this.timestamp(),
+      });
+      images[name] = { hash, url, name };
+    }
+    return { images };
+  }
+
+  private listImages(
+    accountId: string,
+    params: Record<string, string>,
+    path: string,
+    version: string
+  ): unknown {
+    const hashes = parseJsonParam<string[]>(params.hashes, 'hashes');
+    const items = [...this.images.values()]
+      .filter((image) => image.account_id === accountId.slice(4))
+      .filter((image) => !hashes || hashes.includes(image.hash as string))
+      .reverse()
+      .map((image) => selectFields(image, params.fields));
+    return paginateItems(items, params, path, version);
+  }
+
+  // ===========================================================================
+  // Video Uploads
+  // ===========================================================================
+
+  /**
+   * Chunked upload protocol: start opens a session and names the first byte
+   * range, each transfer must send the range named by the previous response,
+   * and finish queues the video for processing.
+   */
+  private uploadVideo(accountId: string, params: Record<string, string>): unknown {
+    switch (params.upload_phase) {
+      case 'start': {
+        const fileSize = Number(params.file_size);
+        if (!Number.isInteger(fileSize) || fileSize <= 0) {
+          throw invalidParameter('file_size must be a positive integer');
+        }
+        const videoId = this.seed('video', accountId, {
+          status: {
+            video_status: 'upload_in_progress',
+            uploading_phase: { status: 'in_progress' },
+          },
+        });
+        const session = { id: this.generateId(), accountId, videoId, fileSize, received: 0 };
+        this.uploadSessions.set(session.id, session);
+        return {
+          upload_session_id: session.id,
+          video_id: videoId,
+          start_offset: '0',
+          end_offset: String(Math.min(this.videoChunkBytes, fileSize)),
+        };
+      }
+      case 'transfer': {
+        const session = this.requireUploadSession(accountId, params.upload_session_id);
+        if (Number(params.start_offset) !== session.received) {
+          throw invalidParameter(
+            `start_offset must be ${session.received}`,
+            'Invalid Start Offset',
+            'The chunk does not continue where the previous chunk ended. Resume from the last reported offset.'
+          );
+        }
+        const chunk = params.video_file_chunk ? atob(params.video_file_chunk).length : 0;
+        if (chunk === 0 || session.received + chunk > session.fileSize) {
+          throw invalidParameter('video_file_chunk is empty or past the end of the file');
+        }
+        session.received += chunk;
+        return {
+          start_offset: String(session.received),
+          end_offset: String(Math.min(session.received + this.videoChunkBytes, session.fileSize)),
+        };
+      }
+      case 'finish': {
+        const session = this.requireUploadSession(accountId, params.upload_session_id);
+        if (session.received !== session.fileSize) {
+          throw invalidParameter(
+            `Upload is incomplete: received ${session.received} of ${session.fileSize} bytes`
+          );
+        }
+        this.uploadSessions.delete(session.id);
+        const video = this.objects.get(session.videoId);
+        if (video) {
+          Object.assign(video.fields, {
+            title: params.title,
+            description: params.description,
+            length: Math.round(session.fileSize / 125_000),
+            status: { video_status: 'processing', processing_progress: 0 },
+            updated_time: this.timestamp(),
+          });
+          this.processingVideos.set(video.id, 0);
+        }
+        return { success: true };
+      }
+      default:
+        throw invalidParameter('upload_phase must be one of start, transfer, finish');
+    }
+  }
+
+  private requireUploadSession(accountId: string, id: string | undefined): VideoUploadSession {
+    const session = id ? this.uploadSessions.get(id) : undefined;
+    if (!session || session.accountId !== accountId) {
+      throw invalidParameter('Invalid upload_session_id');
+    }
+    return session;
+  }
+
+  private advanceVideoProcessing(video: StoredObject): void {
+    const polls = this.processingVideos.get(video.id);
+    if (polls === undefined) {
+      return;
+    }
+    if (polls + 1 >= this.videoProcessingPolls) {
+      this.processingVideos.delete(video.id);
+      video.fields.status = { video_status: 'ready', processing_progress: 100 };
+    } else {
+      this.processingVideos.set(video.id, polls + 1);
+      video.fields.status = {
+        video_status: 'processing',
+        processing_progress: Math.round(((polls + 1) / this.videoProcessingPolls) * 100),
+      };
+    }
+  }
+
+  private update(object: StoredObject, params: Record<string, string>): void {
+    const input = parseInput(params);
+    if (object.fields.status === 'DELETED') {
+      throw invalidParameter(
+        'Cannot edit a deleted object',
+        'Object Deleted',
+        'This object has been deleted and can no longer be edited.'
+      );
+    }
+    if (object.type === 'campaign' && input.objective !== undefined) {
+      throw invalidParameter(
+        'Objective cannot be changed after the campaign is created',
+        'Objective Cannot Be Changed',
+        'Create a new campaign to use a different objective.'
+      );
+    }
+    if (object.type === 'rule') {
+      validateRule(input);
+    } else {
+      validateStatus(input.status);
+    }
+    validateBudget({ ...object.fields, ...input });
+    if (object.type === 'ad' && input.creative !== undefined) {
+      input.creative = {
+        id: this.resolveCreative(object.accountId, input.creative as Record<string, unknown>),
+      };
+    }
+
+    if (object.type === 'audience') {
+      input.time_updated = Math.floor(this.now().getTime() / 1000);
+    } else {
+      input.updated_time = this.timestamp();
+    }
+    this.recordUpdateActivity(object, input);
+    Object.assign(object.fields, input);
+  }
+
+  // ===========================================================================
+  // Account Activity
+  // ===========================================================================
+
+  /**
+   * Record status, budget and name changes the way Graph's activity history does
+   */
+  private recordUpdateActivity(object: StoredObject, input: Record<string, unknown>): void {
+    const activity = ACTIVITY_OBJECTS[object.type];
+    if (!activity) return;
+
+    if (input.status !== undefined && input.status !== object.fields.status) {
+      this.recordActivity(object, {
+        event_type: `update_${activity.event}_run_status`,
+        translated_event_type: `Updated ${activity.label} status`,
+        category: 'STATUS',
+        extra_data: JSON.stringify({
+          old_value: titleCase(String(object.fields.status)),
+          new_value: titleCase(String(input.status)),
+        }),
+      });
+    }
+    for (const field of ['daily_budget', 'lifetime_budget']) {
+      if (input[field] === undefined || String(input[field]) === String(object.fields[field])) {
+        continue;
+      }
+      const currency = this.accounts.get(object.accountId)?.currency ?? 'USD';
+      this.recordActivity(object, {
+        event_type: `update_${activity.event}_budget`,
+        translated_event_type: `Updated ${activity.label} budget`,
+        category: 'BUDGET',
+        extra_data: JSON.stringify({
+          old_value: { old_value: Number(object.fields[field] ?? 0), currency },
+          new_value: { new_value: Number(input[field]), currency },
+          type: 'payment_amount',
+        }),
+      });
+    }
+    if (input.name !== undefined && input.name !== object.fields.name) {
+      this.recordActivity(object, {
+        event_type: `update_${activity.event}_name`,
+        translated_event_type: `Updated ${activity.label} name`,
+        category: activity.category,
+        extra_data: JSON.stringify({ old_value: object.fields.name, new_value: input.name }),
+      });
+    }
+  }
+
+  private recordActivity(
+    object: StoredObject,
+    activity: { event_type: string; category: string } & Record<string, unknown>
+  ): void {
+    this.addActivity(object.accountId, {
+      actor_id: this.user.id,
+      actor_name: this.user.name,
+      application_name: 'Marketing API',
+      object_id: object.id,
+      object_name: object.fields.name,
+      object_type: object.type.toUpperCase(),
+      ...activity,
+    });
+  }
+
+  private listActivities(
+    accountId: string,
+    params: Record<string, string>,
+    path: string,
+    version: string
+  ): unknown {
+    const since = parseActivityTime(params.since, 'since');
+    const until = parseActivityTime(params.until, 'until');
+    const items = this.activities
+      .filter((activity) => activity.accountId === accountId)
+      .filter((activity) => !params.category || activity.category === params.category)
+      .filter((activity) => !params.oid || activity.fields.object_id === params.oid)
+      .filter((activity) => {
+        const time = Date.parse(String(activity.fields.event_time).replace(/\+0000$/, 'Z'));
+        return (since === undefined || time >= since) && (until === undefined || time <= until);
+      })
+      // Graph lists the newest changes first
+      .reverse()
+      .map((activity) => selectFields(activity.fields, params.fields));
+    return paginateItems(items, params, path, version);
+  }
+
+  private remove(object: StoredObject): void {
+    if (
+      object.type === 'creative' ||
+      object.type === 'audience' ||
+      object.type === 'video' ||
+      object.type === 'rule'
+    ) {
+      this.objects.delete(object.id);
+      return;
+    }
+
+    // Deleting a parent deletes its children, as Graph does
+    object.fields.status = 'DELETED';
+    object.fields.updated_time = this.timestamp();
+    const parentKey = `${object.type}_id`;
+    for (const child of this.objects.values()) {
+      if (child.fields[parentKey] === object.id) {
+        child.fields.status = 'DELETED';
+        child.fields.updated_time = object.fields.updated_time;
+      }
+    }
+  }
+
+  private updateAudienceUsers(
+    audience: StoredObject,
+    params: Record<string, string>,
+    add: boolean
+  ): Record<string, unknown> {
+    const payload = parseJsonParam<{ schema?: unknown; data?: unknown }>(params.payload, 'payload');
+    if (!payload || !Array.isArray(payload.data)) {
+      throw invalidParameter('The parameter payload is required');
+    }
+    const schema = Array.isArray(payload.schema) ? payload.schema : [payload.schema];
+    const rows = payload.data as unknown[];
+    const invalid = rows.filter(
+      (row) => !Array.isArray(row) || row.length !== schema.length
+    ).length;
+    const valid = rows.length - invalid;
+
+    const lower = audience.fields.approximate_count_lower_bound as number;
+    const count = Math.max(0, lower + (add ? valid : -valid));
+    audience.fields.approximate_count_lower_bound = count;
+    audience.fields.approximate_count_upper_bound = Math.ceil(count * 1.2);
+    if (count >= 1000) {
+      audience.fields.delivery_status = {
+        code: 200,
+        description: 'This audience is ready for use.',
+      };
+    }
+
+    return {
+      audience_id: audience.id,
+      session_id: this.generateId(),
+      num_received: rows.length,
+      num_invalid_entries: invalid,
+      invalid_entry_samples: {},
+    };
+  }
+
+  // ===========================================================================
+  // Insights
+  // ===========================================================================
+
+  /**
+   * Deterministic synthetic delivery for every ad in scope, one data point per
+   * ad per day from the ad's created_time until today.
+   */
+  private insights(
+    scope: InsightsScope,
+    nodeLevel: string,
+    params: Record<string, string>,
+    path: string,
+    version: string
+  ): unknown {
+    return paginateItems(this.insightsRows(scope, nodeLevel, params), params, path, version);
+  }
+
+  /**
+   * Compute the report up front; the run only simulates the wait
+   */
+  private startReportRun(
+    scope: InsightsScope,
+    nodeLevel: string,
+    accountId: string,
+    params: Record<string, string>
+  ): { report_run_id: string } {
+    const rows = this.insightsRows(scope, nodeLevel, params);
+    const id = this.generateId();
+    this.reportRuns.set(id, {
+      id,
+      accountId,
+      rows,
+      dateStart: String(rows[0]?.date_start ?? toDateString(this.now())),
+      dateStop: String(rows.at(-1)?.date_stop ?? toDateString(this.now())),
+      createdAt: Math.floor(this.now().getTime() / 1000),
+      polls: 0,
+      failed: false,
+    });
+    return { report_run_id: id };
+  }
+
+  private insightsRows(
+    scope: InsightsScope,
+    nodeLevel: string,
+    params: Record<string, string>
+  ): Record<string, unknown>[] {
+    const level = params.level ?? nodeLevel;
+    if (!INSIGHTS_LEVELS.includes(level)) {
+      throw invalidParameter(
+        `level must be one of the following values: ${INSIGHTS_LEVELS.join(', ')}`
+      );
+    }
+    if (INSIGHTS_LEVELS.indexOf(level) < INSIGHTS_LEVELS.indexOf(nodeLevel)) {
+      throw invalidParameter(`Cannot request ${level} level insights from a ${nodeLevel}`);
+    }
+
+    const breakdowns = params.breakdowns ? params.breakdowns.split(',').filter(Boolean) : [];
+    breakdowns.forEach((breakdown, index) => {
+      if (!BREAKDOWNS[breakdown]) {
+        throw invalidParameter(
+          `breakdowns[${index}] must be one of the following values: ${Object.keys(BREAKDOWNS).join(', ')}`
+        );
+      }
+    });
+
+    const ads = this.list(
+      (o) =>
+        o.type === 'ad' &&
+        (!scope.accountId || o.accountId === scope.accountId) &&
+        (!scope.campaignId || o.fields.campaign_id === scope.campaignId) &&
+        (!scope.adsetId || o.fields.adset_id === scope.adsetId) &&
+        (!scope.adId || o.id === scope.adId)
+    ).reverse();
+
+    const [since, until] = this.resolveDateRange(params, ads);
+    const increment = params.time_increment ?? 'all_days';
+    if (increment !== 'all_days' && !/^\d+$/.test(increment)) {
+      throw invalidParameter(
+        'time_increment must be all_days or a number of days between 1 and 90'
+      );
+    }
+
+    const rows = new Map<string, InsightsRow>();
+    for (const ad of ads) {
+      const created = toDateString(new Date(String(ad.fields.created_time)));
+      for (let day = since; day <= until; day = addDays(day, 1)) {
+        if (day < created) continue;
+        const [bucketStart, bucketStop] = timeBucket(day, since, until, increment);
+        for (const [values, share] of breakdownCombinations(breakdowns)) {
+          const levelId = level === 'account' ? ad.accountId : this.levelObjectId(ad, level);
+          const key = [levelId, bucketStart, ...values].join('|');
+          let row = rows.get(key);
+          if (!row) {
+            row = {
+              ...this.levelNames(ad, level),
+              date_start: bucketStart,
+              date_stop: bucketStop,
+              breakdowns: Object.fromEntries(breakdowns.map((name, i) => [name, values[i]])),
+              impressions: 0,
+              reach: 0,
+              clicks: 0,
+              spend: 0,
+              purchases: 0,
+              purchase_value: 0,
+            };
+            rows.set(key, row);
+          }
+          addDelivery(row, ad.id, day, share);
+        }
+      }
+    }
+
+    const fields = params.fields ? params.fields.split(',').map((field) => field.trim()) : [];
+    return [...rows.values()].map((row) => formatInsightsRow(row, fields));
+  }
+
+  private resolveDateRange(params: Record<string, string>, ads: StoredObject[]): [string, string] {
+    const today = toDateString(this.now());
+    const timeRange = parseJsonParam<{ since?: string; until?: string }>(
+      params.time_range,
+      'time_range'
+    );
+    if (timeRange) {
+      if (!timeRange.since || !timeRange.until || timeRange.since > timeRange.until) {
+        throw invalidParameter('time_range must include since and until, with since <= until');
+      }
+      return [timeRange.since, timeRange.until < today ? timeRange.until : today];
+    }
+
+    const preset = params.date_preset ?? 'last_30d';
+    if (!DATE_PRESETS.includes(preset)) {
+      throw invalidParameter(
+        `date_preset must be one of the following values: ${DATE_PRESETS.join(', ')}`
+      );
+    }
+
+    const yesterday = addDays(today, -1);
+    const lastDays = /^last_(\d+)d$/.exec(preset);
+    if (lastDays) {
+      return [addDays(today, -Number(lastDays[1])), yesterday];
+    }
+    switch (preset) {
+      case 'today':
+        return [today, today];
+      case 'yesterday':
+        return [yesterday, yesterday];
+      case 'this_month':
+        return [`${today.slice(0, 8)}01`, today];
+      case 'last_month': {
+        const lastOfPrevious = addDays(`${today.slice(0, 8)}01`, -1);
+        return [`${lastOfPrevious.slice(0, 8)}01`, lastOfPrevious];
+      }
+      default: {
+        const earliest = ads
+          .map((ad) => toDateString(new Date(String(ad.fields.created_time))))
+          .sort()[0];
+        return [earliest ?? today, today];
+      }
+    }
+  }
+
+  private levelObjectId(ad: StoredObject, level: string): string {
+    return level === 'ad' ? ad.id : String(ad.fields[`${level}_id`]);
+  }
+
+  private levelNames(ad: StoredObject, level: string): Record<string, string> {
+    const account = this.accounts.get(ad.accountId);
+    const names: Record<string, string> = {
+      account_id: ad.accountId.slice(4),
+      account_name: String(account?.name ?? ''),
+    };
+    for (const parent of ['campaign', 'adset', 'ad'] as const) {
+      if (INSIGHTS_LEVELS.indexOf(parent) > INSIGHTS_LEVELS.indexOf(level)) break;
+      const id = parent === 'ad' ? ad.id : String(ad.fields[`${parent}_id`]);
+      names[`${parent}_id`] = id;
+      names[`${parent}_name`] = String(this.objects.get(id)?.fields.name ?? '');
+    }
+    return names;
+  }
+
+  // ===========================================================================
+  // Automated Rules
+  // ===========================================================================
+
+  /**
+   * The objects of the rule's entity_type whose fields and insights (over the
+   * rule's time_preset) pass every filter
+   */
+  private previewRule(rule: StoredObject): unknown {
+    const { filters = [] } = rule.fields.evaluation_spec as { filters?: RuleFilter[] };
+    const entityType = filters.find((filter) => filter.field === 'entity_type')?.value;
+    const type = RULE_ENTITY_TYPES[String(entityType)];
+    if (!type) {
+      throw invalidParameter('Rule filters must include entity_type (CAMPAIGN, ADSET or AD)');
+    }
+    const timePreset = filters.find((filter) => filter.field === 'time_preset')?.value;
+    const datePreset = RULE_TIME_PRESETS[String(timePreset ?? 'LIFETIME')];
+    if (!datePreset) {
+      throw invalidParameter(`time_preset ${String(timePreset)} is not supported`);
+    }
+
+    const conditions = filters.filter(
+      (filter) => filter.field !== 'entity_type' && filter.field !== 'time_preset'
+    );
+    const results = this.list(
+      (o) => o.type === type && o.accountId === rule.accountId && o.fields.status !== 'DELETED'
+    )
+      .filter((object) => {
+        const view = this.view(object);
+        const [row = {}] = conditions.some((filter) => RULE_METRICS[filter.field])
+          ? this.insightsRows({ [`${type}Id`]: object.id }, type, {
+              date_preset: datePreset,
+              fields: 'spend,impressions,clicks,reach,ctr,cpc,cpm',
+            })
+          : [];
+        return conditions.every((filter) => {
+          const metric = RULE_METRICS[filter.field];
+          return matchesRuleFilter(metric ? metric(row) : view[filterKey(filter.field)], filter);
+        });
+      })
+      .map((object) => ({ id: object.id, name: object.fields.name }));
+    return { results };
+  }
+
+  // ===========================================================================
+  // Batch Requests
+  // ===========================================================================
+
+  private runBatch(params: Record<string, string>, version: string): unknown[] {
+    const operations = parseJsonParam<Array<Record<string, unknown>>>(params.batch, 'batch');
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw invalidParameter('The parameter batch is required');
+    }
+    if (operations.length > MAX_BATCH_SIZE) {
+      throw invalidParameter(
+        `Too many requests in batch message. Maximum batch size is ${MAX_BATCH_SIZE}`
+      );
+    }
+
+    const results = new Map<string, { ok: boolean; body: unknown }>();
+    const requests = operations.map((op) => {
+      const [path, query = ''] = String(op.relative_url ?? '').split('?');
+      return {
+        method: String(op.method ?? 'GET').toUpperCase(),
+        path: `/${path.replace(/^\/+/, '')}`,
+        params: {
+          ...Object.fromEntries(new URLSearchParams(query)),
+          ...Object.fromEntries(new URLSearchParams(typeof op.body === 'string' ? op.body : '')),
+        },
+      };
+    });
+    const referenced = new Set(
+      operations.flatMap((op, index) => [
+        ...(typeof op.depends_on === 'string' ? [op.depends_on] : []),
+        ...[...JSON.stringify(requests[index]).matchAll(/\{result=([^:}]+):/g)].map(
+          (match) => match[1]
+        ),
+      ])
+    );
+
+    return operations.map((op, index) => {
+      const name = typeof op.name === 'string' ? op.name : undefined;
+      const dependsOn = typeof op.depends_on === 'string' ? op.depends_on : undefined;
+      if (dependsOn && !results.get(dependsOn)?.ok) {
+        if (name) results.set(name, { ok: false, body: undefined });
+        return null;
+      }
+
+      let result: RouteResult;
+      try {
+        const { method, ...request } = requests[index];
+        const { path } = splitVersion(resolveReferences(request.path, results));
+        const subParams = Object.fromEntries(
+          Object.entries(request.params).map(([key, value]) => [
+            key,
+            resolveReferences(value, results),
+          ])
+        );
+        this.requests.push({ method, path, params: subParams });
+        this.throwInjectedError(method, path);
+        const canned = this.cannedResponses.get(`${method} ${path}`);
+        result =
+          canned !== undefined
+            ? ok(structuredClone(canned))
+            : this.route(method, path, subParams, version);
+      } catch (error) {
+        if (!(error instanceof SimulatedGraphError)) throw error;
+        result = { status: error.status, body: { error: this.withTraceId(error.body) } };
+      }
+
+      const succeeded = result.status < 400;
+      if (name) results.set(name, { ok: succeeded, body: result.body });
+
+      // Responses that other requests depend on are omitted unless asked for
+      if (succeeded && name && referenced.has(name) && op.omit_response_on_success !== false) {
+        return null;
+      }
+      return {
+        code: result.status,
+        ...(params.include_headers !== 'false' && {
+          headers: [{ name: 'Content-Type', value: 'application/json' }],
+        }),
+        body: JSON.stringify(result.body),
+      };
+    });
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private generateId(): string {
+    this.nextId += 1n;
+    return this.nextId.toString();
+  }
+
+  private timestamp(): string {
+    return this.now()
+      .toISOString()
+      .replace(/\.\d{3}Z$/, '+0000');
+  }
+}
+
+// =============================================================================
+// Error Bodies
+// =============================================================================
+
+function ok(body: unknown): RouteResult {
+  return { status: 200, body };
+}
+
+function invalidParameter(
+  message: string,
+  userTitle?: string,
+  userMessage?: string
+): SimulatedGraphError {
+  return new SimulatedGraphError(400, {
+    message: `(#100) ${message}`,
+    type: 'OAuthException',
+    code: 100,
+    ...(userTitle && { error_subcode: 1487390, error_user_title: userTitle }),
+    ...(userMessage && { error_user_msg: userMessage }),
+  });
+}
+
+function unsupportedRequest(method: string, id: string): SimulatedGraphError {
+  return new SimulatedGraphError(400, {
+    message:
+      `Unsupported ${method.toLowerCase()} request. Object with ID '${id}' does not exist, ` +
+      'cannot be loaded due to missing permissions, or does not support this operation.',
+    type: 'GraphMethodException',
+    code: 100,
+    error_subcode: 33,
+  });
+}
+
+function nonexistingField(field: string, nodeType: string): SimulatedGraphError {
+  return new SimulatedGraphError(400, {
+    message: `(#100) Tried accessing nonexisting field (${field}) on node type (${nodeType})`,
+    type: 'OAuthException',
+    code: 100,
+  });
+}
+
+function permissionError(): SimulatedGraphError {
+  return new SimulatedGraphError(403, {
+    message: '(#200) Ad account owner has NOT grant ads_management or ads_read permission',
+    type: 'OAuthException',
+    code: 200,
+  });
+}
+
+function rateLimitError(): SimulatedGraphError {
+  return new SimulatedGraphError(400, {
+    message: '(#17) User request limit reached',
+    type: 'OAuthException',
+    code: 17,
+    error_subcode: 2446079,
+    is_transient: true,
+    error_user_title: 'Ad Account Has Too Many API Calls',
+    error_user_msg:
+      'There have been too many calls from this ad account. Please wait a bit and try again.',
+  });
+}
+
+// =============================================================================
+// Request Parsing
+// =============================================================================
+
+function splitVersion(pathname: string): { version: string; path: string } {
+  const match = /^\/(v\d+\.\d+)(?=\/|$)/.exec(pathname);
+  const path = (match ? pathname.slice(match[0].length) : pathname).replace(/^\/+|\/+$/g, '');
+  return { version: match?.[1] ?? 'v21.0', path };
+}
+
+async function readParams(request: Request, url: URL): Promise<Record<string, string>> {
+  const params: Record<string, string> = Object.fromEntries(url.searchParams);
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (
+    request.method.toUpperCase() !== 'GET' &&
+    (contentType.includes('application/x-www-form-urlencoded') ||
+      contentType.includes('multipart/form-data'))
+  ) {
+    const form = await request.formData();
+    for (const [key, value] of form) {
+      // Binary parts such as video chunks are kept as base64
+      params[key] =
+        typeof value === 'string'
+          ? value
+          : encodeBase64(new Uint8Array(await (value as Blob).arrayBuffer()));
+    }
+  }
+  return params;
+}
+
+/**
+ * Stable 32-character hex digest standing in for Meta's image hash
+ */
+function contentHash(data: string): string {
+  let hash = '';
+  for (let seed = 0; seed < 4; seed++) {
+    let h = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < data.length; i++) {
+      h = Math.imul(h ^ data.charCodeAt(i), 0x01000193);
+    }
+    hash += (h >>> 0).toString(16).padStart(8, '0');
+  }
+  return hash;
+}
+
+function normalizeAccountId(id: string): string {
+  return id.startsWith('act_') ? id : `act_${id}`;
+}
+
+function nodeTypeName(type: SimulatedObjectType): string {
+  const names: Record<SimulatedObjectType, string> = {
+    campaign: 'Campaign',
+    adset: 'AdSet',
+    ad: 'Ad',
+    creative: 'AdCreative',
+    audience: 'CustomAudience',
+    video: 'AdVideo',
+    rule: 'AdRule',
+  };
+  return names[type];
+}
+
+function parseJsonParam<T>(value: string | undefined, name: string): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw invalidParameter(`Param ${name} must be a JSON encoded value`);
+  }
+}
+
+/**
+ * Decode form parameters: JSON values are parsed, everything else stays a string
+ */
+/**
+ * Activity time filters accept Unix timestamps or anything Date.parse understands
+ */
+function parseActivityTime(value: string | undefined, name: string): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw invalidParameter(`Param ${name} must be a valid date or Unix timestamp`);
+  }
+  return time;
+}
+
+function titleCase(value: string): string {
+  return value.charAt(0) + value.slice(1).toLowerCase();
+}
+
+function parseInput(params: Record<string, string>): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (key === 'appsecret_proof' || key === 'fields' || key === 'execution_options') continue;
+    if (value === 'true' || value === 'false') {
+      input[key] = value === 'true';
+    } else if (/^[[{]/.test(value)) {
+      input[key] = parseJsonParam(value, key);
+    } else {
+      input[key] = value;
+    }
+  }
+  return input;
+}
+
+function requireParams(input: Record<string, unknown>, names: string[]): void {
+  for (const name of names) {
+    if (input[name] === undefined || input[name] === '') {
+      throw invalidParameter(`The parameter ${name} is required`);
+    }
+  }
+}
+
+function validateStatus(status: unknown): void {
+  if (status !== undefined && !STATUSES.includes(status as string)) {
+    throw invalidParameter(`Param status must be one of {${STATUSES.join(', ')}}`);
+  }
+}
+
+function validateBudget(input: Record<string, unknown>): void {
+  if (input.daily_budget !== undefined && input.lifetime_budget !== undefined) {
+    throw invalidParameter(
+      'Only one of daily_budget and lifetime_budget can be set',
+      'Conflicting Budgets',
+      'Choose either a daily budget or a lifetime budget.'
+    );
+  }
+}
+
+/**
+ * Recommendations for a validated mutation: a low daily budget and a narrow
+ * age range
+ */
+function recommendationsFor(input: Record<string, unknown>): Array<Record<string, unknown>> {
+  const recommendations: Array<Record<string, unknown>> = [];
+  if (input.daily_budget !== undefined && Number(input.daily_budget) < 500) {
+    recommendations.push({
+      code: 1885650,
+      title: 'Low Budget',
+      message: 'A daily budget below $5.00 may limit delivery. Consider raising it.',
+      importance: 'HIGH',
+      confidence: 'MEDIUM',
+      blame_field: 'daily_budget',
+    });
+  }
+  const targeting = input.targeting as { age_min?: number; age_max?: number } | undefined;
+  if (targeting?.age_min !== undefined && targeting.age_max !== undefined) {
+    if (targeting.age_max - targeting.age_min < 10) {
+      recommendations.push({
+        code: 1885651,
+        title: 'Narrow Audience',
+        message: 'Your age range is narrow. A broader audience usually lowers costs.',
+        importance: 'MEDIUM',
+        confidence: 'LOW',
+        blame_field: 'targeting',
+      });
+    }
+  }
+  return recommendations;
+}
+
+/**
+ * The view field a filter reads: "campaign.id" filters on campaign_id, "adset.id"
+ * on adset_id
+ */
+function filterKey(field: string): string {
+  return field.endsWith('.id') ? `${field.slice(0, -3)}_id` : field;
+}
+
+function matchesFilter(
+  view: Record<string, unknown>,
+  filter: { field: string; operator: string; value: unknown }
+): boolean {
+  const actual = view[filterKey(filter.field)];
+  const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+  switch (filter.operator) {
+    case 'EQUAL':
+      return String(actual) === String(filter.value);
+    case 'NOT_EQUAL':
+      return String(actual) !== String(filter.value);
+    case 'IN':
+      return values.map(String).includes(String(actual));
+    case 'NOT_IN':
+      return !values.map(String).includes(String(actual));
+    case 'CONTAIN':
+      return String(actual).includes(String(filter.value));
+    default:
+      throw invalidParameter(`Filtering operator ${filter.operator} is not supported`);
+  }
+}
+
+/**
+ * Rule filters add numeric comparisons to the filtering operators
+ */
+function matchesRuleFilter(actual: unknown, filter: RuleFilter): boolean {
+  const value = Number(actual);
+  const [low, high] = Array.isArray(filter.value) ? filter.value.map(Number) : [];
+  switch (filter.operator) {
+    case 'GREATER_THAN':
+      return value > Number(filter.value);
+    case 'LESS_THAN':
+      return value < Number(filter.value);
+    case 'IN_RANGE':
+      return value >= Number(low) && value <= Number(high);
+    case 'NOT_IN_RANGE':
+      return value < Number(low) || value > Number(high);
+    default:
+      return matchesFilter({ value: actual }, { ...filter, field: 'value' });
+  }
+}
+
+function validateRule(input: Record<string, unknown>): void {
+  if (input.status !== undefined && !RULE_STATUSES.includes(input.status as string)) {
+    throw invalidParameter(`Param status must be one of {${RULE_STATUSES.join(', ')}}`);
+  }
+  const evaluation = input.evaluation_spec as { evaluation_type?: string } | undefined;
+  if (evaluation && !['SCHEDULE', 'TRIGGER'].includes(String(evaluation.evaluation_type))) {
+    throw invalidParameter('evaluation_spec.evaluation_type must be SCHEDULE or TRIGGER');
+  }
+  const execution = input.execution_spec as { execution_type?: string } | undefined;
+  if (execution && !RULE_EXECUTION_TYPES.includes(String(execution.execution_type))) {
+    throw invalidParameter(
+      `execution_spec.execution_type must be one of {${RULE_EXECUTION_TYPES.join(', ')}}`
+    );
+  }
+}
+
+// =============================================================================
+// Responses
+// =============================================================================
+
+/**
+ * Keep the requested fields (plus id). Nested selections such as
+ * "targeting{geo_locations}" and modifiers such as "insights.limit(5)" select
+ * the whole top-level field. Without a fields parameter Graph returns id and name.
+ */
+function selectFields(
+  record: Record<string, unknown>,
+  fields: string | undefined
+): Record<string, unknown> {
+  const names = fields ? topLevelFields(fields) : ['name'];
+  const result: Record<string, unknown> = { id: record.id };
+  for (const name of names) {
+    if (record[name] !== undefined && record[name] !== null) {
+      result[name] = structuredClone(record[name]);
+    }
+  }
+  return result;
+}
+
+function topLevelFields(fields: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of fields) {
+    if (char === '{' || char === '(') depth++;
+    if (char === '}' || char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      names.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+  return names.map((name) => name.trim().split(/[{.]/)[0]).filter(Boolean);
+}
+
+function encodeCursor(index: number): string {
+  return btoa(`simulator:${index}`).replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): number {
+  const match = /^simulator:(\d+)$/.exec(atob(cursor));
+  if (!match) {
+    throw invalidParameter('Invalid cursor');
+  }
+  return Number(match[1]);
+}
+
+/**
+ * Page a list the way Graph does: opaque before/after cursors plus next and
+ * previous URLs (which never carry the access token)
+ */
+function paginateItems(
+  items: unknown[],
+  params: Record<string, string>,
+  path: string,
+  version: string
+): { data: unknown[]; paging?: Record<string, unknown> } {
+  const limit = Math.min(Math.max(Number(params.limit) || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT);
+
+  let start = 0;
+  let end = Math.min(items.length, limit);
+  if (params.after) {
+    start = decodeCursor(params.after) + 1;
+    end = Math.min(items.length, start + limit);
+  } else if (params.before) {
+    end = decodeCursor(params.before);
+    start = Math.max(0, end - limit);
+  }
+
+  const data = items.slice(start, end);
+  if (data.length === 0) {
+    return { data };
+  }
+
+  const pageUrl = (cursor: 'after' | 'before', index: number) => {
+    const query = new URLSearchParams(params);
+    query.delete('after');
+    query.delete('before');
+    query.delete('appsecret_proof');
+    query.set('limit', String(limit));
+    query.set(cursor, encodeCursor(index));
+    return `${SIMULATOR_BASE_URL}/${version}/${path}?${query}`;
+  };
+
+  return {
+    data,
+    paging: {
+      cursors: { before: encodeCursor(start), after: encodeCursor(end - 1) },
+      ...(end < items.length && { next: pageUrl('after', end - 1) }),
+      ...(start > 0 && { previous: pageUrl('before', start) }),
+    },
+  };
+}
+
+// =============================================================================
+// Batch References
+// =============================================================================
+
+/**
+ * Replace "{result=name:$.path}" references with values from earlier responses
+ */
+function resolveReferences(
+  text: string,
+  results: Map<string, { ok: boolean; body: unknown }>
+): string {
+  return text.replace(/\{result=([^:}]+):([^}]+)\}/g, (_match, name: string, path: string) => {
+    const result = results.get(name);
+    if (!result?.ok) {
+      throw invalidParameter(`Batch reference to ${name} could not be resolved`);
+    }
+    const value = evaluateJsonPath(result.body, path);
+    if (value === undefined) {
+      throw invalidParameter(`JSONPath ${path} matched nothing in the response to ${name}`);
+    }
+    return Array.isArray(value) ? value.join(',') : String(value);
+  });
+}
+
+/**
+ * Minimal JSONPath: "$.a.b", "$.data.0.id" and "$.data.*.id"
+ */
+function evaluateJsonPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .filter(Boolean);
+  let current: unknown[] = [value];
+  let wildcard = false;
+  for (const segment of segments) {
+    if (segment === '*') {
+      wildcard = true;
+      current = current.flatMap((item) => (Array.isArray(item) ? item : []));
+      continue;
+    }
+    current = current
+      .map((item) =>
+        item !== null && typeof item === 'object'
+          ? (item as Record<string, unknown>)[segment]
+          : undefined
+      )
+      .filter((item) => item !== undefined);
+  }
+  return wildcard ? current : current[0];
+}
+
+// =============================================================================
+// Insights Generation
+// =============================================================================
+
+interface InsightsRow {
+  [field: string]: unknown;
+  date_start: string;
+  date_stop: string;
+  breakdowns: Record<string, string>;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  spend: number;
+  purchases: number;
+  purchase_value: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return toDateString(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function timeBucket(
+  day: string,
+  since: string,
+  until: string,
+  increment: string
+): [string, string] {
+  if (increment === 'all_days') {
+    return [since, until];
+  }
+  const size = Math.max(1, Number(increment));
+  const start = addDays(since, Math.floor(daysBetween(since, day) / size) * size);
+  const stop = addDays(start, size - 1);
+  return [start, stop < until ? stop : until];
+}
+
+function breakdownCombinations(breakdowns: string[]): Array<[string[], number]> {
+  let combinations: Array<[string[], number]> = [[[], 1]];
+  for (const breakdown of breakdowns) {
+    combinations = combinations.flatMap(([values, share]) =>
+      BREAKDOWNS[breakdown].map(([value, weight]): [string[], number] => [
+        [...values, value],
+        share * weight,
+      ])
+    );
+  }
+  return combinations;
+}
+
+/** FNV-1a hash, used to derive stable pseudo-random delivery */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function addDelivery(row: InsightsRow, adId: string, day: string, share: number): void {
+  const seed = hash(`${adId}:${day}`);
+  const impressions = 1000 + (seed % 4000);
+  const ctr = 0.005 + ((seed >>> 12) % 30) / 1000;
+  const cpm = 5 + ((seed >>> 20) % 10);
+
+  row.impressions += Math.round(impressions * share);
+  row.reach += Math.round(impressions * 0.8 * share);
+  row.clicks += Math.round(impressions * ctr * share);
+  row.spend += ((impressions * cpm) / 1000) * share;
+
+  // 0-7% of clicks convert, at an order value of 20-79
+  const purchases = impressions * ctr * (((seed >>> 8) % 8) / 100) * share;
+  row.purchases += purchases;
+  row.purchase_value += purchases * (20 + ((seed >>> 16) % 60));
+}
+
+function formatInsightsRow(row: InsightsRow, fields: string[]): Record<string, unknown> {
+  const { impressions, reach, clicks, spend } = row;
+  const purchases = Math.round(row.purchases);
+  const purchaseValue = purchases ? row.purchase_value.toFixed(2) : undefined;
+  const metrics: Record<string, unknown> = {
+    ...row,
+    impressions: String(impressions),
+    reach: String(reach),
+    clicks: String(clicks),
+    spend: spend.toFixed(2),
+    ctr: impressions ? ((clicks / impressions) * 100).toFixed(6) : '0',
+    cpc: clicks ? (spend / clicks).toFixed(6) : undefined,
+    cpm: impressions ? ((spend / impressions) * 1000).toFixed(6) : '0',
+    frequency: reach ? (impressions / reach).toFixed(6) : '0',
+    actions: clicks
+      ? [
+          { action_type: 'link_click', value: String(clicks) },
+          ...(purchases ? [{ action_type: 'purchase', value: String(purchases) }] : []),
+        ]
+      : undefined,
+    action_values: purchaseValue ? [{ action_type: 'purchase', value: purchaseValue }] : undefined,
+    purchase_roas:
+      purchaseValue && spend
+        ? [{ action_type: 'purchase', value: (row.purchase_value / spend).toFixed(6) }]
+        : undefined,
+    cost_per_action_type: clicks
+      ? [{ action_type: 'link_click', value: (spend / clicks).toFixed(6) }]
+      : undefined,
+  };
+
+  // Graph returns the requested fields plus the date range and breakdown columns
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field !== 'breakdowns' && metrics[field] !== undefined) {
+      result[field] = metrics[field];
+    }
+  }
+  return {
+    ...result,
+    ...row.breakdowns,
+    date_start: row.date_start,
+    date_stop: row.date_stop,
+  };
+}
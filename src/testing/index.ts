@@ -0,0 +1 @@
+export * from './graph-simulator.js';
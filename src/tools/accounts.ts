@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 /**
  * Register all ad account-related tools
  */
-export function registerAccountTools(server: McpServer, client: MetaAdsClient): void {
+export function registerAccountTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Ad Accounts
   // ===========================================================================
@@ -25,6 +31,8 @@ Returns a paginated list of ad accounts with their status, currency, and timezon
 Args:
   - limit: Number of accounts to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - fields: Comma-separated list of fields to return
   - format: Response format ('json' or 'markdown')
 
@@ -33,12 +41,19 @@ Returns:
     {
       limit: z.number().int().min(1).max(100).default(25).describe('Number of accounts to return'),
       after: z.string().optional().describe('Pagination cursor from previous response'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       fields: z.string().optional().describe('Comma-separated list of fields to return'),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ limit, after, fields, format }) => {
+    async ({ limit, after, fields, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listAdAccounts({ limit, after, fields });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listAdAccounts({ ...page, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAdAccounts({ limit, after, fields });
         return formatResponse(result, format, 'ad_accounts');
       } catch (error) {
         return formatError(error);
@@ -56,6 +71,7 @@ Returns:
 Args:
   - accountId: The ad account ID (with or without 'act_' prefix)
   - fields: Comma-separated list of fields to return
+  - noCache: Bypass the cache and fetch fresh data
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -63,15 +79,123 @@ Returns:
     {
       accountId: z.string().describe('Ad account ID (e.g., "act_123456789" or "123456789")'),
       fields: z.string().optional().describe('Comma-separated list of fields to return'),
+      noCache: z.boolean().optional().describe('Bypass the cache and fetch fresh data'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, fields, format }) => {
+    async ({ accountId, fields, noCache, format }, { signal }) => {
       try {
-        const account = await client.getAdAccount(accountId, fields);
+        const account = await client
+          .withSignal(signal)
+          .getAdAccount(accountId, fields, { noCache });
         return formatResponse(account, format, 'ad_account');
       } catch (error) {
         return formatError(error);
       }
     }
   );
+
+  // ===========================================================================
+  // Get Account Activity
+  // ===========================================================================
+  server.tool(
+    'metaads_get_account_activity',
+    `Get the change history of an ad account: who paused a campaign, changed a budget,
+edited targeting, etc., including changes made in Ads Manager or by other apps.
+
+Follows cursors through the whole time range by default (bounded by server limits).
+
+Args:
+  - accountId: The ad account ID (required)
+  - since: Start of the time range (ISO 8601 or Unix timestamp)
+  - until: End of the time range (ISO 8601 or Unix timestamp)
+  - category: Only this kind of change ('ACCOUNT', 'AD', 'AD_SET', 'AUDIENCE', 'BID',
+    'BUDGET', 'CAMPAIGN', 'DATE', 'STATUS', 'TARGETING')
+  - objectId: Only changes to this campaign, ad set or ad
+  - fetchAll: Follow cursors and return every page (default: true)
+  - limit: Number of entries per page when fetchAll is false (1-100, default: 25)
+  - after: Pagination cursor for next page
+  - maxItems: Maximum number of entries to return when fetchAll is set
+  - format: Response format ('json' or 'markdown'; markdown is a timeline with old and new values)
+
+Returns:
+  Activity entries with actor_name, event_type, translated_event_type, object_id,
+  object_name, event_time and extra_data (old and new values).`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      since: z.string().optional().describe('Start of the time range'),
+      until: z.string().optional().describe('End of the time range'),
+      category: z
+        .enum([
+          'ACCOUNT',
+          'AD',
+          'AD_SET',
+          'AUDIENCE',
+          'BID',
+          'BUDGET',
+          'CAMPAIGN',
+          'DATE',
+          'STATUS',
+          'TARGETING',
+        ])
+        .optional()
+        .describe('Kind of change'),
+      objectId: z.string().optional().describe('Only changes to this object'),
+      fetchAll: z.boolean().default(true).describe('Fetch all pages'),
+      limit: z.number().int().min(1).max(100).default(25).describe('Number of entries per page'),
+      after: z.string().optional().describe('Pagination cursor'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async (
+      { accountId, since, until, category, objectId, fetchAll, limit, after, maxItems, format },
+      { signal }
+    ) => {
+      try {
+        const filters = { since, until, category, oid: objectId };
+        const scoped = client.withSignal(signal);
+        const result = fetchAll
+          ? await scoped.listAllAccountActivities(
+              accountId,
+              filters,
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await scoped.listAccountActivities(accountId, { ...filters, limit, after });
+        return formatResponse(result, format, 'activities');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Rate Limit Status
+  // ===========================================================================
+  server.tool(
+    'metaads_get_rate_limit_status',
+    `Get the current Marketing API rate limit usage.
+
+Reads Meta's throttling headers (X-App-Usage, X-Ad-Account-Usage,
+X-Business-Use-Case-Usage) from a lightweight API call. Values are percentages
+of the limit; estimated_time_to_regain_access is in minutes.
+
+Args:
+  - accountId: Ad account ID to check (optional; reports app and business usage only when omitted)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Usage per app, ad account and business with call_count, total_cputime, total_time
+  and estimated_time_to_regain_access.`,
+    {
+      accountId: z.string().optional().describe('Ad account ID to check'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ accountId, format }, { signal }) => {
+      try {
+        const status = await client.withSignal(signal).getRateLimitStatus(accountId);
+        return formatResponse(status, format, 'rate_limit_status');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
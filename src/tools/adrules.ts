@@ -0,0 +1,460 @@
+/**
+ * Ad Rule Tools
+ *
+ * MCP tools for Meta's automated rules (the ad account's rules library): stop-loss,
+ * scaling and alert rules that Meta evaluates and runs itself.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type {
+  AdRuleEvaluationSpec,
+  AdRuleExecutionSpec,
+  AdRuleScheduleSpec,
+} from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse, formatUpdateResult } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
+
+const RuleStatusEnum = z.enum(['ENABLED', 'DISABLED']);
+
+const RuleOperatorEnum = z.enum([
+  'GREATER_THAN',
+  'LESS_THAN',
+  'EQUAL',
+  'NOT_EQUAL',
+  'IN_RANGE',
+  'NOT_IN_RANGE',
+  'IN',
+  'NOT_IN',
+  'CONTAIN',
+  'NOT_CONTAIN',
+  'ANY',
+  'ALL',
+  'NONE',
+]);
+
+const RuleFilterSchema = z.object({
+  field: z
+    .string()
+    .min(1)
+    .describe('e.g. entity_type, time_preset, spent, cost_per_link_click, campaign.id'),
+  operator: RuleOperatorEnum,
+  value: z.unknown().describe('Money values are in cents; IN_RANGE takes [low, high]'),
+});
+
+const EvaluationSpecSchema = z
+  .object({
+    evaluation_type: z.enum(['SCHEDULE', 'TRIGGER']),
+    filters: z.array(RuleFilterSchema).min(1),
+    trigger: z
+      .object({
+        type: z.enum([
+          'METADATA_CREATION',
+          'METADATA_UPDATE',
+          'STATS_MILESTONE',
+          'STATS_CHANGE',
+          'DELIVERY_INSIGHTS_CHANGE',
+        ]),
+        field: z.string().optional(),
+        operator: RuleOperatorEnum.optional(),
+        value: z.unknown().optional(),
+      })
+      .optional(),
+  })
+  .refine((spec) => spec.filters.some((filter) => filter.field === 'entity_type'), {
+    message: 'filters must include entity_type (CAMPAIGN, ADSET or AD)',
+    path: ['filters'],
+  })
+  .refine((spec) => spec.evaluation_type !== 'TRIGGER' || spec.trigger !== undefined, {
+    message: 'TRIGGER rules need a trigger',
+    path: ['trigger'],
+  });
+
+const ExecutionOptionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('change_spec'),
+    operator: z.literal('EQUAL'),
+    value: z.object({
+      amount: z.number().describe('Percentage or cents; negative to decrease'),
+      unit: z.enum(['PERCENTAGE', 'ACCOUNT_CURRENCY']),
+      limit: z.number().int().positive().optional().describe('Budget limit in cents'),
+    }),
+  }),
+  z.object({
+    field: z.literal('user_ids'),
+    operator: z.literal('EQUAL'),
+    value: z.array(z.string()).min(1).describe('Users to notify'),
+  }),
+  z.object({
+    field: z.literal('action_frequency'),
+    operator: z.literal('EQUAL'),
+    value: z.number().int().positive().describe('Minutes before acting on an object again'),
+  }),
+]);
+
+const ExecutionSpecSchema = z
+  .object({
+    execution_type: z.enum(['PAUSE', 'UNPAUSE', 'CHANGE_BUDGET', 'NOTIFICATION']),
+    execution_options: z.array(ExecutionOptionSchema).optional(),
+  })
+  .refine(
+    (spec) =>
+      spec.execution_type !== 'CHANGE_BUDGET' ||
+      spec.execution_options?.some((option) => option.field === 'change_spec'),
+    { message: 'CHANGE_BUDGET rules need a change_spec option', path: ['execution_options'] }
+  );
+
+const ScheduleSpecSchema = z
+  .object({
+    schedule_type: z.enum(['DAILY', 'HOURLY', 'SEMI_HOURLY', 'CUSTOM']),
+    schedule: z
+      .array(
+        z.object({
+          days: z.array(z.number().int().min(0).max(6)).min(1).describe('0 = Sunday'),
+          start_minute: z.number().int().min(0).max(1439).optional(),
+          end_minute: z.number().int().min(0).max(1439).optional(),
+        })
+      )
+      .optional(),
+  })
+  .refine((spec) => spec.schedule_type !== 'CUSTOM' || (spec.schedule?.length ?? 0) > 0, {
+    message: 'CUSTOM schedules need at least one schedule entry',
+    path: ['schedule'],
+  });
+
+const RULE_SPEC_HELP = `Specs use Graph's field names:
+  evaluationSpec:
+    evaluation_type: SCHEDULE (checked on scheduleSpec) or TRIGGER (checked on an event)
+    filters: [{ field, operator, value }], e.g.
+      { field: 'entity_type', operator: 'EQUAL', value: 'AD' }          (required)
+      { field: 'time_preset', operator: 'EQUAL', value: 'LIFETIME' }
+      { field: 'spent', operator: 'GREATER_THAN', value: 5000 }         ($50.00)
+      { field: 'cost_per_link_click', operator: 'GREATER_THAN', value: 200 }
+    trigger: { type, field?, operator?, value? } (TRIGGER rules only)
+  executionSpec:
+    execution_type: PAUSE, UNPAUSE, CHANGE_BUDGET or NOTIFICATION
+    execution_options:
+      { field: 'change_spec', operator: 'EQUAL', value: { amount: 20, unit: 'PERCENTAGE', limit } }
+      { field: 'user_ids', operator: 'EQUAL', value: ['<user id>'] }
+      { field: 'action_frequency', operator: 'EQUAL', value: 1440 }
+  scheduleSpec:
+    schedule_type: DAILY, HOURLY, SEMI_HOURLY or CUSTOM
+    schedule: [{ days: [1, 2, 3, 4, 5], start_minute: 540, end_minute: 1020 }] (CUSTOM only)
+Money values are in cents.`;
+
+/**
+ * Register all ad rule tools
+ */
+export function registerAdRuleTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // List Ad Rules
+  // ===========================================================================
+  server.tool(
+    'metaads_list_ad_rules',
+    `List the automated rules in an ad account's rules library.
+
+Args:
+  - accountId: The ad account ID (required)
+  - limit: Number of rules to return (1-100, default: 25)
+  - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
+  - fields: Comma-separated list of fields to return
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  List of rules with id, name, status and evaluation, execution and schedule specs.`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      limit: z.number().int().min(1).max(100).default(25).describe('Number of rules to return'),
+      after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
+      fields: z.string().optional().describe('Comma-separated list of fields'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ accountId, limit, after, fetchAll, maxItems, fields, format }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const result = fetchAll
+          ? await listAll(
+              (page) => scoped.listAdRules(accountId, { ...page, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await scoped.listAdRules(accountId, { limit, after, fields });
+        return formatResponse(result, format, 'ad_rules');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Ad Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_get_ad_rule',
+    `Get an automated rule.
+
+Args:
+  - ruleId: The rule ID (required)
+  - fields: Comma-separated list of fields to return
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The rule with its evaluation, execution and schedule specs.`,
+    {
+      ruleId: z.string().describe('Rule ID'),
+      fields: z.string().optional().describe('Comma-separated list of fields'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ ruleId, fields, format }, { signal }) => {
+      try {
+        const rule = await client.withSignal(signal).getAdRule(ruleId, fields);
+        return formatResponse(rule, format, 'ad_rule');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Create Ad Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_create_ad_rule',
+    `Create an automated rule that Meta evaluates and runs, e.g. pause ads that spent
+over $50 with a cost per click above $2.
+
+${RULE_SPEC_HELP}
+
+Use metaads_preview_ad_rule after creating a rule to see which objects it matches.
+
+Args:
+  - accountId: The ad account ID (required)
+  - name: Rule name (required)
+  - evaluationSpec: What the rule checks (required)
+  - executionSpec: What the rule does to matching objects (required)
+  - scheduleSpec: When the rule runs (required for SCHEDULE rules)
+  - status: 'ENABLED' or 'DISABLED' (default: ENABLED)
+
+Returns:
+  The created rule.`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      name: z.string().min(1).describe('Rule name'),
+      evaluationSpec: EvaluationSpecSchema.describe('What the rule checks'),
+      executionSpec: ExecutionSpecSchema.describe('What the rule does'),
+      scheduleSpec: ScheduleSpecSchema.optional().describe('When the rule runs'),
+      status: RuleStatusEnum.optional().describe('Initial status (default: ENABLED)'),
+    },
+    async (
+      { accountId, name, evaluationSpec, executionSpec, scheduleSpec, status },
+      { signal }
+    ) => {
+      try {
+        if (evaluationSpec.evaluation_type === 'SCHEDULE' && !scheduleSpec) {
+          throw new ValidationError('SCHEDULE rules need a scheduleSpec', {
+            scheduleSpec: ['Required when evaluationSpec.evaluation_type is SCHEDULE'],
+          });
+        }
+        const rule = await client.withSignal(signal).createAdRule(accountId, {
+          name,
+          evaluation_spec: evaluationSpec as AdRuleEvaluationSpec,
+          execution_spec: executionSpec as AdRuleExecutionSpec,
+          schedule_spec: scheduleSpec as AdRuleScheduleSpec | undefined,
+          status,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, message: 'Ad rule created', rule }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Update Ad Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_update_ad_rule',
+    `Update an automated rule: rename it, enable or disable it, or replace its specs.
+
+Specs are replaced whole, not merged. ${RULE_SPEC_HELP}
+
+Args:
+  - ruleId: The rule ID (required)
+  - name: New rule name
+  - status: 'ENABLED' or 'DISABLED'
+  - evaluationSpec: New evaluation spec
+  - executionSpec: New execution spec
+  - scheduleSpec: New schedule spec
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The updated rule and the fields that changed, each with its value before and
+  after the update. In markdown format the changes are a table.`,
+    {
+      ruleId: z.string().describe('Rule ID'),
+      name: z.string().min(1).optional().describe('New rule name'),
+      status: RuleStatusEnum.optional().describe('New status'),
+      evaluationSpec: EvaluationSpecSchema.optional().describe('New evaluation spec'),
+      executionSpec: ExecutionSpecSchema.optional().describe('New execution spec'),
+      scheduleSpec: ScheduleSpecSchema.optional().describe('New schedule spec'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async (
+      { ruleId, name, status, evaluationSpec, executionSpec, scheduleSpec, format },
+      { signal }
+    ) => {
+      try {
+        const result = await client.withSignal(signal).updateAdRule(ruleId, {
+          name,
+          status,
+          evaluation_spec: evaluationSpec as AdRuleEvaluationSpec | undefined,
+          execution_spec: executionSpec as AdRuleExecutionSpec | undefined,
+          schedule_spec: scheduleSpec as AdRuleScheduleSpec | undefined,
+        });
+        return formatUpdateResult(result, format, 'ad rule', 'rule');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Delete Ad Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_delete_ad_rule',
+    `Delete an automated rule. Disable it with metaads_update_ad_rule instead to keep it
+for later.
+
+Args:
+  - ruleId: The rule ID (required)
+
+Returns:
+  Confirmation of deletion.`,
+    {
+      ruleId: z.string().describe('Rule ID to delete'),
+    },
+    async ({ ruleId }, { signal }) => {
+      try {
+        await client.withSignal(signal).deleteAdRule(ruleId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: `Ad rule ${ruleId} deleted` },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Preview Ad Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_preview_ad_rule',
+    `Show which campaigns, ad sets or ads an automated rule's filters match right now.
+Nothing is changed.
+
+Args:
+  - ruleId: The rule ID (required)
+
+Returns:
+  The matching objects with id and name.`,
+    {
+      ruleId: z.string().describe('Rule ID to preview'),
+    },
+    async ({ ruleId }, { signal }) => {
+      try {
+        const preview = await client.withSignal(signal).previewAdRule(ruleId);
+        const matches = preview.results ?? [];
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Rule matches ${matches.length} objects`,
+                  matches,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Ad Rule History
+  // ===========================================================================
+  server.tool(
+    'metaads_get_ad_rule_history',
+    `Get an automated rule's execution history, newest first: when it ran, which objects
+it matched and what it did to each (e.g. a budget's old and new value).
+
+Args:
+  - ruleId: The rule ID (required)
+  - action: Only runs that took this action (e.g. PAUSE, CHANGE_BUDGET)
+  - objectId: Only runs that acted on this campaign, ad set or ad
+  - hideNoChanges: Leave out runs that matched no objects (default: false)
+  - limit: Number of runs to return (1-100, default: 25)
+  - after: Pagination cursor for next page
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Runs with timestamp, is_manual, any exception and per-object results.`,
+    {
+      ruleId: z.string().describe('Rule ID'),
+      action: z.string().optional().describe('Only runs that took this action'),
+      objectId: z.string().optional().describe('Only runs that acted on this object'),
+      hideNoChanges: z.boolean().default(false).describe('Leave out runs that changed nothing'),
+      limit: z.number().int().min(1).max(100).default(25).describe('Number of runs to return'),
+      after: z.string().optional().describe('Pagination cursor'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ ruleId, action, objectId, hideNoChanges, limit, after, format }, { signal }) => {
+      try {
+        const history = await client.withSignal(signal).listAdRuleHistory(ruleId, {
+          action,
+          objectId,
+          hideNoChanges: hideNoChanges || undefined,
+          limit,
+          after,
+        });
+        return formatResponse(history, format, 'ad_rule_history');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -8,14 +8,25 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import type { AdStatus, AdCreativeInput } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  formatDryRun,
+  formatError,
+  formatResponse,
+  formatUpdateResult,
+} from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 const AdStatusEnum = z.enum(['ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED']);
 
 /**
  * Register all ad-related tools
  */
-export function registerAdTools(server: McpServer, client: MetaAdsClient): void {
+export function registerAdTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Ads
   // ===========================================================================
@@ -29,6 +40,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of ads to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - adSetId: Filter by ad set ID
   - effectiveStatus: Filter by effective status (array of statuses)
   - fields: Comma-separated list of fields to return
@@ -40,20 +53,33 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of ads to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       adSetId: z.string().optional().describe('Filter by ad set ID'),
       effectiveStatus: z.array(z.string()).optional().describe('Filter by effective status'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, adSetId, effectiveStatus, fields, format }) => {
+    async (
+      { accountId, limit, after, adSetId, effectiveStatus, fields, fetchAll, maxItems, format },
+      { signal }
+    ) => {
       try {
-        const result = await client.listAds(accountId, {
-          limit,
-          after,
-          adSetId,
-          effectiveStatus,
-          fields,
-        });
+        const result = fetchAll
+          ? await listAll(
+              (page) =>
+                client
+                  .withSignal(signal)
+                  .listAds(accountId, { ...page, adSetId, effectiveStatus, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAds(accountId, {
+              limit,
+              after,
+              adSetId,
+              effectiveStatus,
+              fields,
+            });
         return formatResponse(result, format, 'ads');
       } catch (error) {
         return formatError(error);
@@ -80,9 +106,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ adId, fields, format }) => {
+    async ({ adId, fields, format }, { signal }) => {
       try {
-        const ad = await client.getAd(adId, fields);
+        const ad = await client.withSignal(signal).getAd(adId, fields);
         return formatResponse(ad, format, 'ad');
       } catch (error) {
         return formatError(error);
@@ -108,6 +134,7 @@ Args:
     - For new creative: { name: 'Creative Name', object_story_spec: { page_id: '...', link_data: { ... } } }
     - For existing creative: { creative_id: 'existing_creative_id' }
   - status: Initial status (default: PAUSED)
+  - dryRun: Only validate with Meta and return its recommendations; nothing is created
 
 Returns:
   The created ad with all fields.`,
@@ -117,15 +144,21 @@ Returns:
       name: z.string().describe('Ad name'),
       creative: z.record(z.string(), z.unknown()).describe('Creative specification as JSON object'),
       status: AdStatusEnum.optional().describe('Initial status (default: PAUSED)'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is created'),
     },
-    async ({ accountId, adSetId, name, creative, status }) => {
+    async ({ accountId, adSetId, name, creative, status, dryRun }, { signal }) => {
       try {
-        const ad = await client.createAd(accountId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           adset_id: adSetId,
           name,
           creative: creative as AdCreativeInput,
           status: status as AdStatus | undefined,
-        });
+        };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('createAd', accountId, input), 'Ad creation');
+        }
+        const ad = await scoped.createAd(accountId, input);
         return {
           content: [
             {
@@ -154,30 +187,33 @@ Args:
   - name: New ad name
   - status: New status (ACTIVE, PAUSED, DELETED, ARCHIVED)
   - creative: New creative specification
+  - dryRun: Only validate with Meta and return its recommendations; nothing is changed
+  - format: Response format ('json' or 'markdown')
 
 Returns:
-  The updated ad with all fields.`,
+  The updated ad and the fields that changed, each with its value
+  before and after the update. In markdown format the changes are a table.`,
     {
       adId: z.string().describe('Ad ID to update'),
       name: z.string().optional().describe('New ad name'),
       status: AdStatusEnum.optional().describe('New status'),
       creative: z.record(z.string(), z.unknown()).optional().describe('New creative specification'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is changed'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ adId, name, status, creative }) => {
+    async ({ adId, name, status, creative, dryRun, format }, { signal }) => {
       try {
-        const ad = await client.updateAd(adId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           name,
           status: status as AdStatus | undefined,
           creative: creative as AdCreativeInput | undefined,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, message: 'Ad updated', ad }, null, 2),
-            },
-          ],
         };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('updateAd', adId, input), 'Ad update');
+        }
+        const result = await scoped.updateAd(adId, input);
+        return formatUpdateResult(result, format, 'ad', 'ad');
       } catch (error) {
         return formatError(error);
       }
@@ -192,18 +228,39 @@ Returns:
     `Delete an ad.
 
 This permanently deletes the ad. Use update with status='ARCHIVED' for soft delete.
+When the tenant policy says to archive instead of delete, the ad is archived.
 
 Args:
   - adId: Ad ID to delete (required)
 
 Returns:
-  Confirmation of deletion.`,
+  Confirmation of deletion, or of archiving when the tenant policy requires it.`,
     {
       adId: z.string().describe('Ad ID to delete'),
     },
-    async ({ adId }) => {
+    async ({ adId }, { signal }) => {
       try {
-        await client.deleteAd(adId);
+        const scoped = client.withSignal(signal);
+        if ((await scoped.getPolicy())?.archiveInsteadOfDelete) {
+          await scoped.updateAd(adId, { status: 'ARCHIVED' });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    archived: true,
+                    message: `Ad ${adId} archived instead of deleted (tenant policy)`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+        await scoped.deleteAd(adId);
         return {
           content: [
             {
@@ -14,7 +14,14 @@ import type {
   OptimizationGoal,
   Targeting,
 } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  formatDryRun,
+  formatError,
+  formatResponse,
+  formatUpdateResult,
+} from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 const AdSetStatusEnum = z.enum(['ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED']);
 
@@ -67,7 +74,11 @@ const BidStrategyEnum = z.enum([
 /**
  * Register all ad set-related tools
  */
-export function registerAdSetTools(server: McpServer, client: MetaAdsClient): void {
+export function registerAdSetTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Ad Sets
   // ===========================================================================
@@ -81,6 +92,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of ad sets to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - campaignId: Filter by campaign ID
   - effectiveStatus: Filter by effective status (array of statuses)
   - fields: Comma-separated list of fields to return
@@ -92,20 +105,38 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of ad sets to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       campaignId: z.string().optional().describe('Filter by campaign ID'),
       effectiveStatus: z.array(z.string()).optional().describe('Filter by effective status'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, campaignId, effectiveStatus, fields, format }) => {
+    async ({
+      accountId,
+      limit,
+      after,
+      campaignId,
+      effectiveStatus,
+      fields,
+      fetchAll,
+      maxItems,
+      format,
+    }, { signal }) => {
       try {
-        const result = await client.listAdSets(accountId, {
-          limit,
-          after,
-          campaignId,
-          effectiveStatus,
-          fields,
-        });
+        const result = fetchAll
+          ? await listAll(
+              (page) =>
+                client.withSignal(signal).listAdSets(accountId, { ...page, campaignId, effectiveStatus, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAdSets(accountId, {
+              limit,
+              after,
+              campaignId,
+              effectiveStatus,
+              fields,
+            });
         return formatResponse(result, format, 'adsets');
       } catch (error) {
         return formatError(error);
@@ -132,9 +163,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ adSetId, fields, format }) => {
+    async ({ adSetId, fields, format }, { signal }) => {
       try {
-        const adSet = await client.getAdSet(adSetId, fields);
+        const adSet = await client.withSignal(signal).getAdSet(adSetId, fields);
         return formatResponse(adSet, format, 'adset');
       } catch (error) {
         return formatError(error);
@@ -173,6 +204,7 @@ Args:
   - bidStrategy: Bid strategy
   - startTime: Start time (ISO 8601)
   - endTime: End time (ISO 8601)
+  - dryRun: Only validate with Meta and return its recommendations; nothing is created
 
 Returns:
   The created ad set with all fields.`,
@@ -190,6 +222,7 @@ Returns:
       bidStrategy: BidStrategyEnum.optional().describe('Bid strategy'),
       startTime: z.string().optional().describe('Start time (ISO 8601)'),
       endTime: z.string().optional().describe('End time (ISO 8601)'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is created'),
     },
     async ({
       accountId,
@@ -205,9 +238,11 @@ Returns:
       bidStrategy,
       startTime,
       endTime,
-    }) => {
+      dryRun,
+    }, { signal }) => {
       try {
-        const adSet = await client.createAdSet(accountId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           campaign_id: campaignId,
           name,
           billing_event: billingEvent as BillingEvent,
@@ -220,7 +255,11 @@ Returns:
           bid_strategy: bidStrategy as BidStrategy | undefined,
           start_time: startTime,
           end_time: endTime,
-        });
+        };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('createAdSet', accountId, input), 'Ad set creation');
+        }
+        const adSet = await scoped.createAdSet(accountId, input);
         return {
           content: [
             {
@@ -257,9 +296,12 @@ Args:
   - billingEvent: New billing event
   - startTime: New start time (ISO 8601)
   - endTime: New end time (ISO 8601)
+  - dryRun: Only validate with Meta and return its recommendations; nothing is changed
+  - format: Response format ('json' or 'markdown')
 
 Returns:
-  The updated ad set with all fields.`,
+  The updated ad set and the fields that changed, each with its value
+  before and after the update. In markdown format the changes are a table.`,
     {
       adSetId: z.string().describe('Ad set ID to update'),
       name: z.string().optional().describe('New ad set name'),
@@ -273,6 +315,8 @@ Returns:
       billingEvent: BillingEventEnum.optional().describe('New billing event'),
       startTime: z.string().optional().describe('New start time (ISO 8601)'),
       endTime: z.string().optional().describe('New end time (ISO 8601)'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is changed'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({
       adSetId,
@@ -287,9 +331,12 @@ Returns:
       billingEvent,
       startTime,
       endTime,
-    }) => {
+      dryRun,
+      format,
+    }, { signal }) => {
       try {
-        const adSet = await client.updateAdSet(adSetId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           name,
           status: status as AdSetStatus | undefined,
           targeting: targeting as Targeting | undefined,
@@ -301,15 +348,12 @@ Returns:
           billing_event: billingEvent as BillingEvent | undefined,
           start_time: startTime,
           end_time: endTime,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, message: 'Ad set updated', adSet }, null, 2),
-            },
-          ],
         };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('updateAdSet', adSetId, input), 'Ad set update');
+        }
+        const result = await scoped.updateAdSet(adSetId, input);
+        return formatUpdateResult(result, format, 'ad set', 'adSet');
       } catch (error) {
         return formatError(error);
       }
@@ -324,18 +368,39 @@ Returns:
     `Delete an ad set.
 
 This permanently deletes the ad set. Use update with status='ARCHIVED' for soft delete.
+When the tenant policy says to archive instead of delete, the ad set is archived.
 
 Args:
   - adSetId: Ad set ID to delete (required)
 
 Returns:
-  Confirmation of deletion.`,
+  Confirmation of deletion, or of archiving when the tenant policy requires it.`,
     {
       adSetId: z.string().describe('Ad set ID to delete'),
     },
-    async ({ adSetId }) => {
+    async ({ adSetId }, { signal }) => {
       try {
-        await client.deleteAdSet(adSetId);
+        const scoped = client.withSignal(signal);
+        if ((await scoped.getPolicy())?.archiveInsteadOfDelete) {
+          await scoped.updateAdSet(adSetId, { status: 'ARCHIVED' });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    archived: true,
+                    message: `Ad set ${adSetId} archived instead of deleted (tenant policy)`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+        await scoped.deleteAdSet(adSetId);
         return {
           content: [
             {
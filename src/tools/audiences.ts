@@ -8,7 +8,14 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import type { CustomAudienceSubtype } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  formatDryRun,
+  formatError,
+  formatResponse,
+  formatUpdateResult,
+} from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 const CustomAudienceSubtypeEnum = z.enum([
   'CUSTOM',
@@ -29,7 +36,11 @@ const CustomAudienceSubtypeEnum = z.enum([
 /**
  * Register all audience-related tools
  */
-export function registerAudienceTools(server: McpServer, client: MetaAdsClient): void {
+export function registerAudienceTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Custom Audiences
   // ===========================================================================
@@ -43,6 +54,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of audiences to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - fields: Comma-separated list of fields to return
   - format: Response format ('json' or 'markdown')
 
@@ -52,12 +65,19 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of audiences to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, fields, format }) => {
+    async ({ accountId, limit, after, fields, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listCustomAudiences(accountId, { limit, after, fields });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listCustomAudiences(accountId, { ...page, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listCustomAudiences(accountId, { limit, after, fields });
         return formatResponse(result, format, 'audiences');
       } catch (error) {
         return formatError(error);
@@ -84,9 +104,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ audienceId, fields, format }) => {
+    async ({ audienceId, fields, format }, { signal }) => {
       try {
-        const audience = await client.getCustomAudience(audienceId, fields);
+        const audience = await client.withSignal(signal).getCustomAudience(audienceId, fields);
         return formatResponse(audience, format, 'audience');
       } catch (error) {
         return formatError(error);
@@ -155,9 +175,9 @@ Returns:
       prefill,
       retentionDays,
       lookalikeSpec,
-    }) => {
+    }, { signal }) => {
       try {
-        const audience = await client.createCustomAudience(accountId, {
+        const audience = await client.withSignal(signal).createCustomAudience(accountId, {
           name,
           subtype: subtype as CustomAudienceSubtype,
           description,
@@ -194,30 +214,36 @@ Args:
   - name: New audience name
   - description: New description
   - optOutLink: Privacy opt-out link
+  - dryRun: Only validate with Meta and return its recommendations; nothing is changed
+  - format: Response format ('json' or 'markdown')
 
 Returns:
-  The updated audience with all fields.`,
+  The updated audience and the fields that changed, each with its value
+  before and after the update. In markdown format the changes are a table.`,
     {
       audienceId: z.string().describe('Audience ID to update'),
       name: z.string().optional().describe('New audience name'),
       description: z.string().optional().describe('New description'),
       optOutLink: z.string().optional().describe('Privacy opt-out link'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is changed'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ audienceId, name, description, optOutLink }) => {
+    async ({ audienceId, name, description, optOutLink, dryRun, format }, { signal }) => {
       try {
-        const audience = await client.updateCustomAudience(audienceId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           name,
           description,
           opt_out_link: optOutLink,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, message: 'Audience updated', audience }, null, 2),
-            },
-          ],
         };
+        if (dryRun) {
+          return formatDryRun(
+            await scoped.dryRun('updateCustomAudience', audienceId, input),
+            'Audience update'
+          );
+        }
+        const result = await scoped.updateCustomAudience(audienceId, input);
+        return formatUpdateResult(result, format, 'audience', 'audience');
       } catch (error) {
         return formatError(error);
       }
@@ -231,7 +257,8 @@ Returns:
     'metaads_delete_audience',
     `Delete a custom audience.
 
-This permanently deletes the audience.
+This permanently deletes the audience. Audiences cannot be archived, so a tenant
+policy that archives instead of deleting refuses this.
 
 Args:
   - audienceId: Audience ID to delete (required)
@@ -241,9 +268,10 @@ Returns:
     {
       audienceId: z.string().describe('Audience ID to delete'),
     },
-    async ({ audienceId }) => {
+    async ({ audienceId }, { signal }) => {
       try {
-        await client.deleteCustomAudience(audienceId);
+        const scoped = client.withSignal(signal);
+        await scoped.deleteCustomAudience(audienceId);
         return {
           content: [
             {
@@ -291,9 +319,9 @@ Returns:
       schema: z.array(z.string()).describe('Array of identifier types'),
       data: z.array(z.array(z.string())).describe('Array of user data arrays'),
     },
-    async ({ audienceId, schema, data }) => {
+    async ({ audienceId, schema, data }, { signal }) => {
       try {
-        const result = await client.addUsersToAudience(audienceId, schema, data);
+        const result = await client.withSignal(signal).addUsersToAudience(audienceId, schema, data);
         return {
           content: [
             {
@@ -329,9 +357,9 @@ Returns:
       schema: z.array(z.string()).describe('Array of identifier types'),
       data: z.array(z.array(z.string())).describe('Array of user data arrays'),
     },
-    async ({ audienceId, schema, data }) => {
+    async ({ audienceId, schema, data }, { signal }) => {
       try {
-        const result = await client.removeUsersFromAudience(audienceId, schema, data);
+        const result = await client.withSignal(signal).removeUsersFromAudience(audienceId, schema, data);
         return {
           content: [
             {
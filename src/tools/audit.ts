@@ -0,0 +1,108 @@
+/**
+ * Audit Log Tools
+ *
+ * MCP tools for reading the record of mutations made through this server.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type { PaginatedResponse } from '../types/entities.js';
+import type { AuditEntry } from '../utils/audit.js';
+import { MetaAdsApiError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+
+/** Most entries a single audit log read may return */
+const MAX_AUDIT_LOG_LIMIT = 500;
+
+/**
+ * Register all audit log tools
+ */
+export function registerAuditTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Get Audit Log
+  // ===========================================================================
+  server.tool(
+    'metaads_get_audit_log',
+    `Read the audit log of creates, updates, deletes and audience membership changes
+made through this server with the current access token's user, newest first.
+
+Each entry records the tool, the target object, the request parameters (secrets and
+customer data redacted), the result or error and Meta's fbtrace_id.
+
+Args:
+  - objectId: Only entries for this object (the new object's ID for creates)
+  - tool: Only entries made by this tool, e.g. 'metaads_update_campaign'
+  - since: Only entries at or after this time (ISO 8601)
+  - until: Only entries before this time (ISO 8601)
+  - limit: Number of entries to return (1-${MAX_AUDIT_LOG_LIMIT}, default: 50)
+  - after: Pagination cursor from a previous call
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Audit entries with tool, method, endpoint, objectId, params, success, result or
+  error, fbTraceId and timestamp.`,
+    {
+      objectId: z.string().optional().describe('Object ID to filter by'),
+      tool: z.string().optional().describe('Tool name to filter by'),
+      since: z.string().optional().describe('Start of the time range (ISO 8601)'),
+      until: z.string().optional().describe('End of the time range (ISO 8601)'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_AUDIT_LOG_LIMIT)
+        .default(50)
+        .describe('Number of entries to return'),
+      after: z.string().optional().describe('Pagination cursor'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ objectId, tool, since, until, limit, after, format }, { signal }) => {
+      try {
+        if (!context.audit) {
+          throw new MetaAdsApiError(
+            'Audit log is not configured; bind a D1 database as DB to enable it',
+            undefined,
+            'AUDIT_LOG_UNAVAILABLE'
+          );
+        }
+        const entries = await context.audit.query({
+          tenant: await client.withSignal(signal).getTenantId(),
+          objectId,
+          tool,
+          since: toTimestamp('since', since),
+          until: toTimestamp('until', until),
+          after,
+          limit: limit + 1,
+        });
+
+        const result: PaginatedResponse<AuditEntry> = { data: entries.slice(0, limit) };
+        if (entries.length > limit) {
+          result.paging = { cursors: { after: entries[limit - 1].id } };
+        }
+        return formatResponse(result, format, 'audit_log');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Normalize a time filter to the ISO 8601 form entries are stored in
+ */
+function toTimestamp(name: string, value?: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${name} must be an ISO 8601 date or time`);
+  }
+  return new Date(time).toISOString();
+}
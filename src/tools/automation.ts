@@ -0,0 +1,439 @@
+/**
+ * Automation Rule Tools
+ *
+ * MCP tools for rules this server evaluates on its cron trigger against ad set and
+ * ad insights: stop-loss and scaling rules with conditions Meta's own rules cannot
+ * express, such as comparing an ad's CPA with its ad set's.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type { AutomationRule, AutomationRuleInput } from '../types/entities.js';
+import { isAutomationSimulateOnly } from '../types/env.js';
+import {
+  type AutomationCredentials,
+  type AutomationRuleStore,
+  runAutomationRule,
+} from '../utils/automation.js';
+import { diffFields } from '../utils/diff.js';
+import { MetaAdsApiError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse, formatUpdateResult } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+
+const LevelEnum = z.enum(['adset', 'ad']);
+
+const DatePresetEnum = z.enum([
+  'today',
+  'yesterday',
+  'last_3d',
+  'last_7d',
+  'last_14d',
+  'last_28d',
+  'last_30d',
+]);
+
+const ConditionSchema = z.object({
+  metric: z.enum([
+    'spend',
+    'impressions',
+    'clicks',
+    'conversions',
+    'ctr',
+    'cpc',
+    'cpm',
+    'cpa',
+    'roas',
+  ]),
+  operator: z.enum(['gt', 'gte', 'lt', 'lte']),
+  value: z.number().describe('Threshold (money in cents), or a multiplier with relativeTo'),
+  relativeTo: z
+    .literal('adset')
+    .optional()
+    .describe("Compare with value × the ad set's own metric (ad-level rules)"),
+});
+
+const ActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('pause') }),
+  z.object({
+    type: z.literal('change_budget'),
+    percent: z
+      .number()
+      .gt(-100)
+      .max(1000)
+      .refine((percent) => percent !== 0, 'percent cannot be 0')
+      .describe('Percentage to change the ad set budget by; negative to lower it'),
+    maxBudget: z.number().int().positive().optional().describe('Budget ceiling in cents'),
+    minBudget: z.number().int().positive().optional().describe('Budget floor in cents'),
+  }),
+]);
+
+const RULE_HELP = `Conditions are ANDed. Metrics: spend, impressions, clicks, conversions, ctr (%),
+cpc, cpm, cpa and roas; money is in cents. Conversions, cpa and roas count the
+conversionEvent action (default 'purchase'); an object with spend but no
+conversions has a cpa equal to its spend. With relativeTo 'adset' (ad-level rules
+only) the threshold is value × the ad set's metric, e.g. cpa gt 2 relative to the
+ad set means "CPA above twice the ad set's CPA".
+
+Actions: 'pause' pauses the matching ad set or ad; 'change_budget' (ad set rules
+only) changes the ad set's daily or lifetime budget by percent, within maxBudget
+and minBudget.`;
+
+/**
+ * Register all automation rule tools
+ */
+export function registerAutomationTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Create Automation Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_create_automation_rule',
+    `Create a rule that this server evaluates on its schedule against the last
+datePreset of insights, taking the action on every active ad set or ad that meets
+all conditions. Each run is logged (see metaads_get_automation_rule_runs).
+
+${RULE_HELP}
+
+The request's access token is stored encrypted with the rule so scheduled runs can
+call the API; updating the rule refreshes it. When the server runs in simulate-only
+mode, actions are logged but never applied.
+
+Examples:
+  - Stop-loss: level 'ad', conditions [spend gte 5000, cpa gt 2 relativeTo 'adset'],
+    action pause
+  - Scaling: level 'adset', datePreset 'last_3d', conditions [roas gt 3],
+    action change_budget percent 20
+
+Args:
+  - name: Rule name (required)
+  - accountId: Ad account the rule watches (required)
+  - level: 'adset' or 'ad' (required)
+  - conditions: Conditions that must all hold (required)
+  - action: What to do with matching objects (required)
+  - campaignIds: Only watch these campaigns
+  - datePreset: Insights window (default: last_7d)
+  - conversionEvent: Action type counted as a conversion (default: purchase)
+  - intervalHours: Minimum hours between scheduled runs (1-168, default: 24)
+  - enabled: Whether scheduled runs evaluate the rule (default: true)
+
+Returns:
+  The created rule with its ID.`,
+    {
+      name: z.string().min(1).max(200).describe('Rule name'),
+      accountId: z.string().describe('Ad account ID (act_XXX or XXX)'),
+      level: LevelEnum.describe('Objects the rule evaluates'),
+      conditions: z.array(ConditionSchema).min(1).max(10).describe('Conditions (ANDed)'),
+      action: ActionSchema.describe('Action for matching objects'),
+      campaignIds: z.array(z.string()).min(1).optional().describe('Campaigns to watch'),
+      datePreset: DatePresetEnum.default('last_7d').describe('Insights window'),
+      conversionEvent: z.string().min(1).default('purchase').describe('Conversion action type'),
+      intervalHours: z.number().int().min(1).max(168).default(24).describe('Hours between runs'),
+      enabled: z.boolean().default(true).describe('Run on the schedule'),
+    },
+    async ({ accountId, ...input }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const now = new Date().toISOString();
+        const rule: AutomationRule = {
+          id: crypto.randomUUID(),
+          ...input,
+          accountId: accountId.startsWith('act_') ? accountId : `act_${accountId}`,
+          createdAt: now,
+          updatedAt: now,
+        };
+        validateRule(rule);
+        await store.save(
+          await client.withSignal(signal).getTenantId(),
+          rule,
+          storedCredentials(context)
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Automation rule created', rule },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Automation Rules
+  // ===========================================================================
+  server.tool(
+    'metaads_list_automation_rules',
+    `List the automation rules this server evaluates for you, oldest first.
+
+Args:
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Rules with id, name, accountId, level, conditions, action, datePreset,
+  intervalHours, enabled and lastRunAt.`,
+    {
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ format }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const rules = await store.list(await client.withSignal(signal).getTenantId());
+        return formatResponse({ data: rules }, format, 'automation_rules');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Update Automation Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_update_automation_rule',
+    `Update an automation rule: rename it, enable or disable it, or change what it
+watches and does. Conditions and the action are replaced whole, not merged. The
+stored access token is replaced with the one making this request.
+
+${RULE_HELP}
+
+Args:
+  - ruleId: The rule ID (required)
+  - name, level, conditions, action, campaignIds, datePreset, conversionEvent,
+    intervalHours, enabled: New values (see metaads_create_automation_rule)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The updated rule and the fields that changed, each with its value before and
+  after the update. In markdown format the changes are a table.`,
+    {
+      ruleId: z.string().describe('Rule ID'),
+      name: z.string().min(1).max(200).optional().describe('New rule name'),
+      level: LevelEnum.optional().describe('New level'),
+      conditions: z.array(ConditionSchema).min(1).max(10).optional().describe('New conditions'),
+      action: ActionSchema.optional().describe('New action'),
+      campaignIds: z.array(z.string()).min(1).optional().describe('New campaigns to watch'),
+      datePreset: DatePresetEnum.optional().describe('New insights window'),
+      conversionEvent: z.string().min(1).optional().describe('New conversion action type'),
+      intervalHours: z.number().int().min(1).max(168).optional().describe('New interval'),
+      enabled: z.boolean().optional().describe('Run on the schedule'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ ruleId, format, ...input }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const tenant = await client.withSignal(signal).getTenantId();
+        const before = await store.get(tenant, ruleId);
+        if (!before) {
+          throw new NotFoundError('Automation rule', ruleId);
+        }
+        const updates = Object.fromEntries(
+          Object.entries(input).filter(([, value]) => value !== undefined)
+        ) as Partial<AutomationRuleInput>;
+        const after: AutomationRule = {
+          ...before,
+          ...updates,
+          updatedAt: new Date().toISOString(),
+        };
+        validateRule(after);
+        await store.save(tenant, after, storedCredentials(context));
+        const changes = diffFields(before, after, { ignore: ['updatedAt'] });
+        return formatUpdateResult({ before, after, changes }, format, 'automation rule', 'rule');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Delete Automation Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_delete_automation_rule',
+    `Delete an automation rule and its stored access token. Its run log is kept.
+Disable it with metaads_update_automation_rule instead to keep it for later.
+
+Args:
+  - ruleId: The rule ID (required)
+
+Returns:
+  Confirmation of deletion.`,
+    {
+      ruleId: z.string().describe('Rule ID to delete'),
+    },
+    async ({ ruleId }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const tenant = await client.withSignal(signal).getTenantId();
+        if (!(await store.delete(tenant, ruleId))) {
+          throw new NotFoundError('Automation rule', ruleId);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: `Automation rule ${ruleId} deleted` },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Run Automation Rule
+  // ===========================================================================
+  server.tool(
+    'metaads_run_automation_rule',
+    `Evaluate an automation rule now, disabled or not, and log the run.
+
+With simulate, or when the server runs in simulate-only mode, the actions the rule
+would take are logged but not applied. A run that applies actions restarts the
+rule's schedule interval.
+
+Args:
+  - ruleId: The rule ID (required)
+  - simulate: Only log the actions; nothing is changed (default: false)
+
+Returns:
+  The run: every object evaluated with its metrics and each condition's threshold,
+  actual value and result, and every action taken (or simulated) with the update
+  sent, the fields it changed and any error.`,
+    {
+      ruleId: z.string().describe('Rule ID to run'),
+      simulate: z.boolean().default(false).describe('Log actions without applying them'),
+    },
+    async ({ ruleId, simulate }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const scoped = client.withSignal(signal);
+        const tenant = await scoped.getTenantId();
+        const rule = await store.get(tenant, ruleId);
+        if (!rule) {
+          throw new NotFoundError('Automation rule', ruleId);
+        }
+
+        const run = await runAutomationRule(scoped, rule, {
+          trigger: 'manual',
+          simulate: simulate || isAutomationSimulateOnly(context.env),
+        });
+        await store.recordRun(tenant, run);
+        if (!run.simulated) {
+          await store.markRun(tenant, rule.id, run.startedAt);
+        }
+
+        const matched = run.evaluations.filter((evaluation) => evaluation.matched).length;
+        const verb = run.simulated ? 'simulated' : 'taken';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: !run.error,
+                  message: `Evaluated ${run.evaluations.length} objects, ${matched} matched; ${run.actions.length} actions ${verb}`,
+                  run,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Automation Rule Runs
+  // ===========================================================================
+  server.tool(
+    'metaads_get_automation_rule_runs',
+    `Get the run log of your automation rules, newest first: scheduled and manual
+runs with every condition evaluated and every action taken or simulated.
+
+Args:
+  - ruleId: Only runs of this rule
+  - limit: Number of runs to return (1-50, default: 10)
+  - format: Response format ('json' or 'markdown'; markdown summarizes each run)
+
+Returns:
+  Runs with id, ruleId, trigger ('schedule' or 'manual'), simulated, startedAt,
+  finishedAt, evaluations, actions and error.`,
+    {
+      ruleId: z.string().optional().describe('Rule ID to filter by'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Number of runs'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ ruleId, limit, format }, { signal }) => {
+      try {
+        const store = requireAutomationRuleStore(context);
+        const runs = await store.listRuns({
+          tenant: await client.withSignal(signal).getTenantId(),
+          ruleId,
+          limit,
+        });
+        return formatResponse({ data: runs }, format, 'automation_rule_runs');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+function requireAutomationRuleStore(context: ToolContext): AutomationRuleStore {
+  if (!context.automationRules) {
+    throw new MetaAdsApiError(
+      'Automation rules are not configured; bind a D1 database as DB and set the AUTOMATION_ENCRYPTION_KEY secret to enable them',
+      undefined,
+      'AUTOMATION_RULES_UNAVAILABLE'
+    );
+  }
+  return context.automationRules;
+}
+
+function storedCredentials(context: ToolContext): AutomationCredentials {
+  if (!context.credentials) {
+    throw new MetaAdsApiError(
+      'No request credentials to store with the rule',
+      undefined,
+      'AUTOMATION_RULES_UNAVAILABLE'
+    );
+  }
+  const { accessToken, appId, appSecret, apiVersion, policy } = context.credentials;
+  return { accessToken, appId, appSecret, apiVersion, policy };
+}
+
+/**
+ * Checks that span several fields, which the argument schemas cannot express
+ */
+function validateRule(rule: AutomationRuleInput): void {
+  if (rule.action.type === 'change_budget' && rule.level !== 'adset') {
+    throw new ValidationError('change_budget actions need an ad set level rule', {
+      action: ["Only ad sets have budgets; use level 'adset' or a pause action"],
+    });
+  }
+  if (rule.level !== 'ad' && rule.conditions.some((condition) => condition.relativeTo)) {
+    throw new ValidationError("relativeTo 'adset' conditions need an ad level rule", {
+      conditions: ['Ad set level rules cannot compare an ad set with itself'],
+    });
+  }
+}
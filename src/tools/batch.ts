@@ -0,0 +1,89 @@
+/**
+ * Batch Tools
+ *
+ * MCP tools for running several Graph API requests in one round trip.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { MAX_BATCH_SIZE, type MetaAdsClient } from '../client.js';
+import { formatErrorForLogging } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+
+/**
+ * Register all batch-related tools
+ */
+export function registerBatchTools(server: McpServer, client: MetaAdsClient): void {
+  // ===========================================================================
+  // Batch
+  // ===========================================================================
+  server.tool(
+    'metaads_batch',
+    `Run up to ${MAX_BATCH_SIZE} Graph API requests in a single call.
+
+Each request is executed by Meta independently and reports its own status, so one
+failure does not abort the others. Requests can depend on earlier ones by name and
+reference their results with JSONPath, e.g. "{result=create-campaign:$.id}".
+
+When a tenant policy applies, only GET requests are allowed; make changes with the
+dedicated tools, which the policy checks.
+
+Args:
+  - requests: Array of requests (1-${MAX_BATCH_SIZE}), each with:
+    - method: 'GET', 'POST' or 'DELETE'
+    - relativeUrl: Path without the API version, e.g. "act_123/campaigns" or "120210000000"
+    - params: Query parameters (GET/DELETE) or body parameters (POST)
+    - name: Name other requests can reference
+    - dependsOn: Name of a request that must complete first
+    - omitResponseOnSuccess: Drop the response body on success
+
+Example:
+  [
+    { "method": "POST", "relativeUrl": "120210000000", "params": { "status": "PAUSED" } },
+    { "method": "GET", "relativeUrl": "120210000000", "params": { "fields": "id,status" } }
+  ]
+
+Returns:
+  Per-request results with index, name, status, success, data and parsed error details.`,
+    {
+      requests: z
+        .array(
+          z.object({
+            method: z.enum(['GET', 'POST', 'DELETE']),
+            relativeUrl: z.string().describe('Path relative to the API version'),
+            params: z.record(z.string(), z.unknown()).optional().describe('Request parameters'),
+            name: z.string().optional().describe('Name for JSONPath references'),
+            dependsOn: z.string().optional().describe('Request that must complete first'),
+            omitResponseOnSuccess: z.boolean().optional().describe('Drop body on success'),
+          })
+        )
+        .min(1)
+        .max(MAX_BATCH_SIZE)
+        .describe('Requests to run'),
+    },
+    async ({ requests }, { signal }) => {
+      try {
+        const results = await client.withSignal(signal).batch(requests);
+        const items = results.map(({ error, ...result }) => ({
+          ...result,
+          ...(error && { error: formatErrorForLogging(error) }),
+        }));
+        const failed = items.filter((item) => !item.success).length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: failed === 0, succeeded: items.length - failed, failed, results: items },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Bulk Update Tools
+ *
+ * MCP tools for changing status, budgets, bids and end times across many objects.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type {
+  BulkUpdateObjectType,
+  PaginatedResponse,
+  PaginationParams,
+} from '../types/entities.js';
+import { formatErrorForLogging, ValidationError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+import { paginateItems } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
+
+/** Most objects a single bulk update may touch */
+const MAX_BULK_UPDATE_OBJECTS = 500;
+
+const BulkStatusEnum = z.enum(['ACTIVE', 'PAUSED', 'ARCHIVED']);
+
+interface BulkUpdateFilter {
+  accountId: string;
+  campaignId?: string;
+  adSetId?: string;
+  effectiveStatus?: string[];
+  nameContains?: string;
+}
+
+/**
+ * Register all bulk update tools
+ */
+export function registerBulkTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Bulk Update
+  // ===========================================================================
+  server.tool(
+    'metaads_bulk_update',
+    `Apply one change to many campaigns, ad sets or ads at once.
+
+Target objects either by ID or by a filter, e.g. all ACTIVE ad sets in a campaign
+whose name contains "retargeting". Updates run as batch requests and each object
+succeeds or fails on its own.
+
+Args:
+  - objectType: 'campaign', 'adset' or 'ad' (required)
+  - ids: Object IDs to update (use ids or filter)
+  - filter: Select objects instead of listing IDs:
+    - accountId: Ad account ID (required)
+    - campaignId: Only objects in this campaign (ad sets and ads)
+    - adSetId: Only ads in this ad set
+    - effectiveStatus: Only objects with these effective statuses, e.g. ["ACTIVE"]
+    - nameContains: Only objects whose name contains this text (case-insensitive)
+  - patch: The change to apply (at least one field):
+    - status: 'ACTIVE', 'PAUSED' or 'ARCHIVED'
+    - dailyBudget: New daily budget in cents (campaigns and ad sets)
+    - budgetScalePercent: Scale each object's current budget, e.g. 20 for +20% or -15 for -15%
+    - bidAmount: Bid amount in cents (ad sets)
+    - endTime: End time in ISO 8601 (campaigns and ad sets)
+  - dryRun: Only validate each update with Meta and return its recommendations; nothing is changed
+  - maxObjects: Refuse to run if more objects match (default: 100, max: ${MAX_BULK_UPDATE_OBJECTS})
+
+Returns:
+  Counts of updated and failed objects and, per object, the parameters sent, the
+  budgets before a percentage change and parsed error details.`,
+    {
+      objectType: z.enum(['campaign', 'adset', 'ad']).describe('Type of object to update'),
+      ids: z
+        .array(z.string())
+        .min(1)
+        .max(MAX_BULK_UPDATE_OBJECTS)
+        .optional()
+        .describe('Object IDs to update'),
+      filter: z
+        .object({
+          accountId: z.string().describe('Ad account ID'),
+          campaignId: z.string().optional().describe('Only objects in this campaign'),
+          adSetId: z.string().optional().describe('Only ads in this ad set'),
+          effectiveStatus: z.array(z.string()).optional().describe('Effective statuses to match'),
+          nameContains: z.string().optional().describe('Text the name must contain'),
+        })
+        .optional()
+        .describe('Select objects by filter instead of IDs'),
+      patch: z
+        .object({
+          status: BulkStatusEnum.optional().describe('New status'),
+          dailyBudget: z.number().int().positive().optional().describe('Daily budget in cents'),
+          budgetScalePercent: z
+            .number()
+            .gt(-100)
+            .optional()
+            .describe('Percentage change to current budgets'),
+          bidAmount: z.number().int().positive().optional().describe('Bid amount in cents'),
+          endTime: z.string().optional().describe('End time (ISO 8601)'),
+        })
+        .describe('Change to apply'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is changed'),
+      maxObjects: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_BULK_UPDATE_OBJECTS)
+        .default(100)
+        .describe('Maximum number of objects to update'),
+    },
+    async ({ objectType, ids, filter, patch, dryRun, maxObjects }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        if ((ids === undefined) === (filter === undefined)) {
+          throw new ValidationError('Provide either ids or filter');
+        }
+
+        const targets = filter
+          ? await findTargets(scoped, context, objectType, filter, maxObjects)
+          : (ids ?? []);
+        if (targets.length > maxObjects) {
+          throw new ValidationError(
+            `More than ${maxObjects} objects match; narrow the selection or raise maxObjects`
+          );
+        }
+        if (targets.length === 0) {
+          throw new ValidationError('No objects match the filter');
+        }
+
+        const results = await scoped.bulkUpdate(
+          objectType,
+          targets,
+          {
+            status: patch.status,
+            daily_budget: patch.dailyBudget,
+            budget_scale_percent: patch.budgetScalePercent,
+            bid_amount: patch.bidAmount,
+            end_time: patch.endTime,
+          },
+          { validateOnly: dryRun }
+        );
+        const items = results.map(({ error, ...result }) => ({
+          ...result,
+          ...(error && { error: formatErrorForLogging(error) }),
+        }));
+        const failed = items.filter((item) => !item.success).length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: failed === 0,
+                  message: dryRun
+                    ? `${items.length - failed} of ${items.length} ${objectType} updates passed validation; nothing was changed`
+                    : `Updated ${items.length - failed} of ${items.length} ${objectType}s`,
+                  ...(dryRun && { dryRun: true }),
+                  updated: items.length - failed,
+                  failed,
+                  results: items,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Resolve a filter to object IDs, reading one object past the cap so an
+ * over-broad filter is reported instead of silently truncated
+ */
+async function findTargets(
+  client: MetaAdsClient,
+  context: ToolContext,
+  type: BulkUpdateObjectType,
+  filter: BulkUpdateFilter,
+  maxObjects: number
+): Promise<string[]> {
+  if (filter.campaignId && type === 'campaign') {
+    throw new ValidationError('filter.campaignId only applies to ad sets and ads');
+  }
+  if (filter.adSetId && type !== 'ad') {
+    throw new ValidationError('filter.adSetId only applies to ads');
+  }
+
+  const fields = 'id,name,campaign_id';
+  const query = { fields, effectiveStatus: filter.effectiveStatus };
+  const fetchPage = (
+    page: PaginationParams
+  ): Promise<PaginatedResponse<{ id: string; name?: string; campaign_id?: string }>> =>
+    type === 'campaign'
+      ? client.listCampaigns(filter.accountId, { ...page, ...query })
+      : type === 'adset'
+        ? client.listAdSets(filter.accountId, { ...page, ...query, campaignId: filter.campaignId })
+        : client.listAds(filter.accountId, { ...page, ...query, adSetId: filter.adSetId });
+
+  const needle = filter.nameContains?.toLowerCase();
+  const ids: string[] = [];
+  for await (const item of paginateItems(fetchPage, getFetchAllOptions(context, {}))) {
+    if (needle !== undefined && !item.name?.toLowerCase().includes(needle)) continue;
+    // listAds can only filter by ad set, so campaign scoping of ads happens here
+    if (type === 'ad' && filter.campaignId && item.campaign_id !== filter.campaignId) continue;
+    ids.push(item.id);
+    if (ids.length > maxObjects) break;
+  }
+  return ids;
+}
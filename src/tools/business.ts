@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 /**
  * Register all business-related tools
  */
-export function registerBusinessTools(server: McpServer, client: MetaAdsClient): void {
+export function registerBusinessTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Businesses
   // ===========================================================================
@@ -25,6 +31,8 @@ Returns a paginated list of Business Manager accounts.
 Args:
   - limit: Number of businesses to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -32,11 +40,18 @@ Returns:
     {
       limit: z.number().int().min(1).max(100).default(25).describe('Number of businesses to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ limit, after, format }) => {
+    async ({ limit, after, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.getBusinesses({ limit, after });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).getBusinesses(page),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).getBusinesses({ limit, after });
         return formatResponse(result, format, 'businesses');
       } catch (error) {
         return formatError(error);
@@ -53,17 +68,19 @@ Returns:
 
 Args:
   - businessId: The business ID (required)
+  - noCache: Bypass the cache and fetch fresh data
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Business details including name, created_time, verification_status, primary_page, etc.`,
     {
       businessId: z.string().describe('Business ID'),
+      noCache: z.boolean().optional().describe('Bypass the cache and fetch fresh data'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ businessId, format }) => {
+    async ({ businessId, noCache, format }, { signal }) => {
       try {
-        const business = await client.getBusiness(businessId);
+        const business = await client.withSignal(signal).getBusiness(businessId, { noCache });
         return formatResponse(business, format, 'business');
       } catch (error) {
         return formatError(error);
@@ -84,6 +101,8 @@ Args:
   - businessId: The business ID (required)
   - limit: Number of ad accounts to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -92,11 +111,18 @@ Returns:
       businessId: z.string().describe('Business ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of ad accounts to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ businessId, limit, after, format }) => {
+    async ({ businessId, limit, after, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listBusinessAdAccounts(businessId, { limit, after });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listBusinessAdAccounts(businessId, page),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listBusinessAdAccounts(businessId, { limit, after });
         return formatResponse(result, format, 'ad_accounts');
       } catch (error) {
         return formatError(error);
@@ -8,7 +8,14 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import type { CampaignObjective, CampaignStatus, BidStrategy, SpecialAdCategory } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  formatDryRun,
+  formatError,
+  formatResponse,
+  formatUpdateResult,
+} from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 const CampaignObjectiveEnum = z.enum([
   'OUTCOME_AWARENESS',
@@ -51,7 +58,11 @@ const SpecialAdCategoryEnum = z.enum([
 /**
  * Register all campaign-related tools
  */
-export function registerCampaignTools(server: McpServer, client: MetaAdsClient): void {
+export function registerCampaignTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Campaigns
   // ===========================================================================
@@ -65,6 +76,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of campaigns to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - effectiveStatus: Filter by effective status (array of statuses)
   - fields: Comma-separated list of fields to return
   - format: Response format ('json' or 'markdown')
@@ -75,18 +88,25 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of campaigns to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       effectiveStatus: z.array(z.string()).optional().describe('Filter by effective status'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, effectiveStatus, fields, format }) => {
+    async ({ accountId, limit, after, effectiveStatus, fields, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listCampaigns(accountId, {
-          limit,
-          after,
-          effectiveStatus,
-          fields,
-        });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listCampaigns(accountId, { ...page, effectiveStatus, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listCampaigns(accountId, {
+              limit,
+              after,
+              effectiveStatus,
+              fields,
+            });
         return formatResponse(result, format, 'campaigns');
       } catch (error) {
         return formatError(error);
@@ -113,9 +133,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ campaignId, fields, format }) => {
+    async ({ campaignId, fields, format }, { signal }) => {
       try {
-        const campaign = await client.getCampaign(campaignId, fields);
+        const campaign = await client.withSignal(signal).getCampaign(campaignId, fields);
         return formatResponse(campaign, format, 'campaign');
       } catch (error) {
         return formatError(error);
@@ -148,6 +168,7 @@ Args:
   - buyingType: 'AUCTION' or 'RESERVED' (default: AUCTION)
   - startTime: Campaign start time (ISO 8601 format)
   - stopTime: Campaign stop time (ISO 8601 format)
+  - dryRun: Only validate with Meta and return its recommendations; nothing is created
 
 Returns:
   The created campaign with all fields.`,
@@ -164,6 +185,7 @@ Returns:
       buyingType: z.enum(['AUCTION', 'RESERVED']).optional().describe('Buying type'),
       startTime: z.string().optional().describe('Start time (ISO 8601)'),
       stopTime: z.string().optional().describe('Stop time (ISO 8601)'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is created'),
     },
     async ({
       accountId,
@@ -178,9 +200,11 @@ Returns:
       buyingType,
       startTime,
       stopTime,
-    }) => {
+      dryRun,
+    }, { signal }) => {
       try {
-        const campaign = await client.createCampaign(accountId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           name,
           objective: objective as CampaignObjective,
           status: status as CampaignStatus | undefined,
@@ -192,7 +216,11 @@ Returns:
           buying_type: buyingType,
           start_time: startTime,
           stop_time: stopTime,
-        });
+        };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('createCampaign', accountId, input), 'Campaign creation');
+        }
+        const campaign = await scoped.createCampaign(accountId, input);
         return {
           content: [
             {
@@ -226,9 +254,12 @@ Args:
   - spendCap: New spend cap in cents
   - startTime: New start time (ISO 8601)
   - stopTime: New stop time (ISO 8601)
+  - dryRun: Only validate with Meta and return its recommendations; nothing is changed
+  - format: Response format ('json' or 'markdown')
 
 Returns:
-  The updated campaign with all fields.`,
+  The updated campaign and the fields that changed, each with its value
+  before and after the update. In markdown format the changes are a table.`,
     {
       campaignId: z.string().describe('Campaign ID to update'),
       name: z.string().optional().describe('New campaign name'),
@@ -239,6 +270,8 @@ Returns:
       spendCap: z.number().int().optional().describe('New spend cap in cents'),
       startTime: z.string().optional().describe('New start time (ISO 8601)'),
       stopTime: z.string().optional().describe('New stop time (ISO 8601)'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is changed'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({
       campaignId,
@@ -250,9 +283,12 @@ Returns:
       spendCap,
       startTime,
       stopTime,
-    }) => {
+      dryRun,
+      format,
+    }, { signal }) => {
       try {
-        const campaign = await client.updateCampaign(campaignId, {
+        const scoped = client.withSignal(signal);
+        const input = {
           name,
           status: status as CampaignStatus | undefined,
           daily_budget: dailyBudget,
@@ -261,15 +297,12 @@ Returns:
           spend_cap: spendCap,
           start_time: startTime,
           stop_time: stopTime,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, message: 'Campaign updated', campaign }, null, 2),
-            },
-          ],
         };
+        if (dryRun) {
+          return formatDryRun(await scoped.dryRun('updateCampaign', campaignId, input), 'Campaign update');
+        }
+        const result = await scoped.updateCampaign(campaignId, input);
+        return formatUpdateResult(result, format, 'campaign', 'campaign');
       } catch (error) {
         return formatError(error);
       }
@@ -284,18 +317,39 @@ Returns:
     `Delete a campaign.
 
 This permanently deletes the campaign. Use update with status='ARCHIVED' for soft delete.
+When the tenant policy says to archive instead of delete, the campaign is archived.
 
 Args:
   - campaignId: Campaign ID to delete (required)
 
 Returns:
-  Confirmation of deletion.`,
+  Confirmation of deletion, or of archiving when the tenant policy requires it.`,
     {
       campaignId: z.string().describe('Campaign ID to delete'),
     },
-    async ({ campaignId }) => {
+    async ({ campaignId }, { signal }) => {
       try {
-        await client.deleteCampaign(campaignId);
+        const scoped = client.withSignal(signal);
+        if ((await scoped.getPolicy())?.archiveInsteadOfDelete) {
+          await scoped.updateCampaign(campaignId, { status: 'ARCHIVED' });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    archived: true,
+                    message: `Campaign ${campaignId} archived instead of deleted (tenant policy)`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+        await scoped.deleteCampaign(campaignId);
         return {
           content: [
             {
@@ -8,11 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 /**
  * Register all catalog-related tools
  */
-export function registerCatalogTools(server: McpServer, client: MetaAdsClient): void {
+export function registerCatalogTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Product Catalogs
   // ===========================================================================
@@ -26,7 +32,10 @@ Args:
   - businessId: The business ID (required)
   - limit: Number of catalogs to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - fields: Comma-separated list of fields to return
+  - noCache: Bypass the cache and fetch fresh data
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -35,12 +44,20 @@ Returns:
       businessId: z.string().describe('Business ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of catalogs to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
+      noCache: z.boolean().optional().describe('Bypass the cache and fetch fresh data'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ businessId, limit, after, fields, format }) => {
+    async ({ businessId, limit, after, fields, fetchAll, maxItems, noCache, format }, { signal }) => {
       try {
-        const result = await client.listProductCatalogs(businessId, { limit, after, fields });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listProductCatalogs(businessId, { ...page, fields, noCache }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listProductCatalogs(businessId, { limit, after, fields, noCache });
         return formatResponse(result, format, 'catalogs');
       } catch (error) {
         return formatError(error);
@@ -67,9 +84,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ catalogId, fields, format }) => {
+    async ({ catalogId, fields, format }, { signal }) => {
       try {
-        const catalog = await client.getProductCatalog(catalogId, fields);
+        const catalog = await client.withSignal(signal).getProductCatalog(catalogId, fields);
         return formatResponse(catalog, format, 'catalog');
       } catch (error) {
         return formatError(error);
@@ -90,6 +107,8 @@ Args:
   - catalogId: The catalog ID (required)
   - limit: Number of product sets to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -98,11 +117,18 @@ Returns:
       catalogId: z.string().describe('Catalog ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of product sets to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ catalogId, limit, after, format }) => {
+    async ({ catalogId, limit, after, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listProductSets(catalogId, { limit, after });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listProductSets(catalogId, page),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listProductSets(catalogId, { limit, after });
         return formatResponse(result, format, 'product_sets');
       } catch (error) {
         return formatError(error);
@@ -0,0 +1,45 @@
+/**
+ * Tool Context
+ *
+ * Per-request dependencies shared by tool modules that need more than the client.
+ */
+
+import {
+  type Env,
+  getCharacterLimit,
+  getMaxPageSize,
+  type TenantCredentials,
+} from '../types/env.js';
+import type { AuditLog } from '../utils/audit.js';
+import type { AutomationRuleStore } from '../utils/automation.js';
+import type { PaginateOptions } from '../utils/pagination.js';
+import type { SnapshotStore } from '../utils/snapshots.js';
+
+export interface ToolContext {
+  /** Worker environment (vars and bindings) */
+  env: Env;
+  /** Record of mutations made through the server (unset when no database is bound) */
+  audit?: AuditLog;
+  /** Saved campaign snapshots (unset when no database is bound) */
+  snapshots?: SnapshotStore;
+  /** Automation rules and their runs (unset without a database and encryption key) */
+  automationRules?: AutomationRuleStore;
+  /** Credentials of the request, stored with automation rules for scheduled runs */
+  credentials?: TenantCredentials;
+}
+
+/**
+ * Pagination options for list tools called with `fetchAll`.
+ * Pages use MAX_PAGE_SIZE and collection stops before CHARACTER_LIMIT is exceeded.
+ */
+export function getFetchAllOptions(
+  context: ToolContext,
+  options: { after?: string; maxItems?: number }
+): PaginateOptions {
+  return {
+    pageSize: getMaxPageSize(context.env),
+    after: options.after,
+    maxItems: options.maxItems,
+    maxCharacters: getCharacterLimit(context.env),
+  };
+}
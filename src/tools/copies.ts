@@ -0,0 +1,565 @@
+/**
+ * Copy Tools
+ *
+ * MCP tools for duplicating campaigns, ad sets and ads through Meta's /copies edges.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { MAX_BATCH_SIZE, type MetaAdsClient } from '../client.js';
+import type {
+  AdCreative,
+  CampaignTree,
+  CopyRenameOptions,
+  CopyResult,
+  CopyStatusOption,
+} from '../types/entities.js';
+import { collectImageHashes, remapAssets, toCloneDocument } from '../utils/clone.js';
+import {
+  CREATIVE_DOCUMENT_FIELDS,
+  checkPlanIssues,
+  planCampaignDocument,
+  toCampaignDocument,
+} from '../utils/documents.js';
+import { MetaAdsApiError, ValidationError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+import { fetchMedia, MAX_IMAGE_UPLOAD_BYTES } from '../utils/media.js';
+import { listAll } from '../utils/pagination.js';
+
+const StatusOptionEnum = z.enum(['ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE']);
+
+const RenameStrategyEnum = z.enum(['DEEP_RENAME', 'ONLY_TOP_LEVEL_RENAME', 'NO_RENAME']);
+
+/** Images requested per page when looking up hashes in an image library */
+const MAX_IMAGE_PAGE_SIZE = 100;
+
+/** A copied object and the copies underneath it */
+interface CopyTreeNode {
+  id: string;
+  type: string;
+  name?: string;
+  status?: string;
+  effective_status?: string;
+  error?: string;
+  children?: CopyTreeNode[];
+}
+
+/**
+ * Register all copy-related tools
+ */
+export function registerCopyTools(server: McpServer, client: MetaAdsClient): void {
+  // ===========================================================================
+  // Copy Campaign
+  // ===========================================================================
+  server.tool(
+    'metaads_copy_campaign',
+    `Copy a campaign, optionally with all of its ad sets and ads.
+
+Large deep copies run asynchronously at Meta; the tool waits for them to finish. If
+waiting times out, the error names an async request set ID to check with
+metaads_get_copy_status.
+
+Args:
+  - campaignId: The campaign to copy (required)
+  - deepCopy: Also copy ad sets and ads (default: false)
+  - statusOption: Status of the copies ('ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE'; default: 'PAUSED')
+  - renamePrefix: Text prepended to copied names
+  - renameSuffix: Text appended to copied names
+  - renameStrategy: 'DEEP_RENAME', 'ONLY_TOP_LEVEL_RENAME' (default) or 'NO_RENAME'
+  - startTime: Start time for the copied ad sets (ISO 8601)
+  - endTime: End time for the copied ad sets (ISO 8601)
+
+Returns:
+  The copy result (copied_id and source/copy ID pairs) and the tree of new objects
+  with their names and statuses.`,
+    {
+      campaignId: z.string().describe('Campaign ID to copy'),
+      deepCopy: z.boolean().default(false).describe('Also copy ad sets and ads'),
+      statusOption: StatusOptionEnum.default('PAUSED').describe('Status of the copies'),
+      renamePrefix: z.string().optional().describe('Prefix for copied names'),
+      renameSuffix: z.string().optional().describe('Suffix for copied names'),
+      renameStrategy: RenameStrategyEnum.optional().describe('Which copies are renamed'),
+      startTime: z.string().optional().describe('Start time for copied ad sets'),
+      endTime: z.string().optional().describe('End time for copied ad sets'),
+    },
+    async (
+      {
+        campaignId,
+        deepCopy,
+        statusOption,
+        renamePrefix,
+        renameSuffix,
+        renameStrategy,
+        startTime,
+        endTime,
+      },
+      { signal }
+    ) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const result = await scoped.copyCampaign(campaignId, {
+          deep_copy: deepCopy,
+          status_option: statusOption as CopyStatusOption,
+          rename_options: toRenameOptions(renamePrefix, renameSuffix, renameStrategy),
+          start_time: startTime,
+          end_time: endTime,
+        });
+        return copyResponse('Campaign copied', result, await fetchCopyTree(scoped, result));
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Copy Ad Set
+  // ===========================================================================
+  server.tool(
+    'metaads_copy_adset',
+    `Copy an ad set, optionally with all of its ads, into the same or another campaign.
+
+Args:
+  - adSetId: The ad set to copy (required)
+  - campaignId: Campaign to copy into (default: the source ad set's campaign)
+  - deepCopy: Also copy ads (default: false)
+  - statusOption: Status of the copies ('ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE'; default: 'PAUSED')
+  - renamePrefix: Text prepended to copied names
+  - renameSuffix: Text appended to copied names
+  - renameStrategy: 'DEEP_RENAME', 'ONLY_TOP_LEVEL_RENAME' (default) or 'NO_RENAME'
+  - startTime: Start time for the copied ad set (ISO 8601)
+  - endTime: End time for the copied ad set (ISO 8601)
+
+Returns:
+  The copy result and the tree of new objects with their names and statuses.`,
+    {
+      adSetId: z.string().describe('Ad set ID to copy'),
+      campaignId: z.string().optional().describe('Campaign to copy into'),
+      deepCopy: z.boolean().default(false).describe('Also copy ads'),
+      statusOption: StatusOptionEnum.default('PAUSED').describe('Status of the copies'),
+      renamePrefix: z.string().optional().describe('Prefix for copied names'),
+      renameSuffix: z.string().optional().describe('Suffix for copied names'),
+      renameStrategy: RenameStrategyEnum.optional().describe('Which copies are renamed'),
+      startTime: z.string().optional().describe('Start time for the copied ad set'),
+      endTime: z.string().optional().describe('End time for the copied ad set'),
+    },
+    async (
+      {
+        adSetId,
+        campaignId,
+        deepCopy,
+        statusOption,
+        renamePrefix,
+        renameSuffix,
+        renameStrategy,
+        startTime,
+        endTime,
+      },
+      { signal }
+    ) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const result = await scoped.copyAdSet(adSetId, {
+          campaign_id: campaignId,
+          deep_copy: deepCopy,
+          status_option: statusOption as CopyStatusOption,
+          rename_options: toRenameOptions(renamePrefix, renameSuffix, renameStrategy),
+          start_time: startTime,
+          end_time: endTime,
+        });
+        return copyResponse('Ad set copied', result, await fetchCopyTree(scoped, result));
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Copy Ad
+  // ===========================================================================
+  server.tool(
+    'metaads_copy_ad',
+    `Copy an ad into the same or another ad set.
+
+Args:
+  - adId: The ad to copy (required)
+  - adSetId: Ad set to copy into (default: the source ad's ad set)
+  - statusOption: Status of the copy ('ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE'; default: 'PAUSED')
+  - renamePrefix: Text prepended to the copied name
+  - renameSuffix: Text appended to the copied name
+
+Returns:
+  The copy result and the new ad with its name and status.`,
+    {
+      adId: z.string().describe('Ad ID to copy'),
+      adSetId: z.string().optional().describe('Ad set to copy into'),
+      statusOption: StatusOptionEnum.default('PAUSED').describe('Status of the copy'),
+      renamePrefix: z.string().optional().describe('Prefix for the copied name'),
+      renameSuffix: z.string().optional().describe('Suffix for the copied name'),
+    },
+    async ({ adId, adSetId, statusOption, renamePrefix, renameSuffix }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const result = await scoped.copyAd(adId, {
+          adset_id: adSetId,
+          status_option: statusOption as CopyStatusOption,
+          rename_options: toRenameOptions(renamePrefix, renameSuffix),
+        });
+        return copyResponse('Ad copied', result, await fetchCopyTree(scoped, result));
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Copy Status
+  // ===========================================================================
+  server.tool(
+    'metaads_get_copy_status',
+    `Check a deep copy that Meta is running asynchronously.
+
+Args:
+  - asyncRequestSetId: The async request set ID reported by a copy tool (required)
+
+Returns:
+  The request set progress while it runs; once complete, the copy result and the
+  tree of new objects.`,
+    {
+      asyncRequestSetId: z.string().describe('Async request set ID'),
+    },
+    async ({ asyncRequestSetId }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const result = await scoped.getAsyncCopyResult(asyncRequestSetId);
+        if (!result) {
+          const requestSet = await scoped.getAsyncRequestSet(asyncRequestSetId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  { success: true, message: 'Copy is still running', requestSet },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+        return copyResponse('Copy completed', result, await fetchCopyTree(scoped, result));
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Clone to Account
+  // ===========================================================================
+  server.tool(
+    'metaads_clone_to_account',
+    `Rebuild a campaign with its ad sets, ads and creatives in another ad account,
+which Meta's copy endpoints cannot do.
+
+Pixels, pages and custom audiences belong to an account or business, so their IDs
+are translated through the maps given. Images are re-uploaded to the target account
+and their hashes replaced. Any ID that cannot be translated (including videos and
+creatives that could not be read) is reported; nothing is created while such IDs
+remain unless allowUnmapped is set, which keeps them as they are (for assets shared
+with the target account).
+
+A clone whose plan has issues is refused with the issues listed by document path,
+before any image is uploaded or object created.
+
+Objects are created one at a time, each after its parent; a failure stops the
+clone and the objects already created are kept.
+
+Args:
+  - campaignId: The campaign to clone (required)
+  - targetAccountId: The ad account to clone into, e.g. 'act_123' (required)
+  - pixelMap: Source → target pixel IDs
+  - pageMap: Source → target Facebook page and Instagram account IDs
+  - audienceMap: Source → target custom audience IDs
+  - name: Name of the new campaign (default: the source name)
+  - statusOption: Status of the new objects ('ACTIVE', 'PAUSED', 'INHERITED_FROM_SOURCE'; default: 'PAUSED')
+  - allowUnmapped: Create even when some IDs have no mapping (default: false)
+  - dryRun: Only report what would be mapped; nothing is uploaded or created (default: false)
+
+Returns:
+  The new campaign ID, each object created with its ID, the image hashes that were
+  re-uploaded, and the unmapped asset IDs with where they are used.`,
+    {
+      campaignId: z.string().describe('Campaign ID to clone'),
+      targetAccountId: z.string().describe('Ad account to clone into'),
+      pixelMap: z.record(z.string(), z.string()).default({}).describe('Source → target pixel IDs'),
+      pageMap: z
+        .record(z.string(), z.string())
+        .default({})
+        .describe('Source → target page and Instagram account IDs'),
+      audienceMap: z
+        .record(z.string(), z.string())
+        .default({})
+        .describe('Source → target custom audience IDs'),
+      name: z.string().optional().describe('Name of the new campaign'),
+      statusOption: StatusOptionEnum.default('PAUSED').describe('Status of the new objects'),
+      allowUnmapped: z.boolean().default(false).describe('Create even with unmapped IDs'),
+      dryRun: z.boolean().default(false).describe('Report the mapping only'),
+    },
+    async (
+      {
+        campaignId,
+        targetAccountId,
+        pixelMap,
+        pageMap,
+        audienceMap,
+        name,
+        statusOption,
+        allowUnmapped,
+        dryRun,
+      },
+      { signal }
+    ) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const tree = await scoped.getCampaignTree(campaignId);
+        const sourceAccountId = `act_${tree.campaign.account_id.replace(/^act_/, '')}`;
+        const document = toCloneDocument(
+          toCampaignDocument(tree, await readCreatives(scoped, tree)),
+          {
+            targetAccountId,
+            name,
+            status: statusOption === 'INHERITED_FROM_SOURCE' ? undefined : statusOption,
+          }
+        );
+        if (document.account_id === sourceAccountId) {
+          throw new ValidationError(
+            'The target account is the source account; use metaads_copy_campaign instead'
+          );
+        }
+        // Checked before any image is uploaded, so a refused clone changes nothing.
+        // The plan is made again below, once the image hashes are remapped.
+        checkPlanIssues(
+          planCampaignDocument(document, undefined, new Map()),
+          'fix the source campaign before cloning it'
+        );
+
+        const maps = { pixels: pixelMap, pages: pageMap, audiences: audienceMap };
+        const imageHashes = collectImageHashes(document);
+        const unmapped = remapAssets(structuredClone(document), maps).filter(
+          (asset) => asset.assetType !== 'image'
+        );
+        if (dryRun || (unmapped.length > 0 && !allowUnmapped)) {
+          return cloneResponse({
+            success: dryRun,
+            ...(dryRun && { dryRun }),
+            message: dryRun
+              ? `${unmapped.length} asset IDs have no mapping and ${imageHashes.length} images would be re-uploaded; nothing was changed`
+              : `${unmapped.length} asset IDs have no mapping; add them to the maps or set allowUnmapped. Nothing was created`,
+            unmapped,
+            imagesToUpload: imageHashes,
+          });
+        }
+
+        const images = await reuploadImages(
+          scoped,
+          sourceAccountId,
+          document.account_id,
+          imageHashes
+        );
+        const remaining = remapAssets(document, { ...maps, images: images.hashes }, images.errors);
+        if (remaining.some((asset) => asset.assetType === 'image') && !allowUnmapped) {
+          return cloneResponse({
+            success: false,
+            message: 'Some images could not be re-uploaded; nothing was created',
+            unmapped: remaining,
+            images: images.hashes,
+          });
+        }
+
+        const plan = planCampaignDocument(document, undefined, new Map());
+        const results = await scoped.applyCampaignPlan(plan);
+        const failed = results.find((result) => !result.success);
+        return cloneResponse({
+          success: !failed,
+          message: failed
+            ? `Created ${results.length - 1} of ${plan.steps.length} objects before ${failed.objectType} "${failed.name}" failed; the objects created were kept`
+            : `Cloned ${results.length} objects into ${document.account_id}`,
+          campaignId: results.find((result) => result.objectType === 'campaign' && result.success)
+            ?.id,
+          created: results.map(({ objectType, path, name, id, success, error }) => ({
+            objectType,
+            path,
+            name,
+            id,
+            success,
+            ...(error && { error }),
+          })),
+          images: images.hashes,
+          unmapped: remaining,
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+function toRenameOptions(
+  prefix?: string,
+  suffix?: string,
+  strategy?: CopyRenameOptions['rename_strategy']
+): CopyRenameOptions | undefined {
+  if (prefix === undefined && suffix === undefined && strategy === undefined) {
+    return undefined;
+  }
+  return { rename_strategy: strategy, rename_prefix: prefix, rename_suffix: suffix };
+}
+
+function copyResponse(message: string, copy: CopyResult, tree: CopyTreeNode | CopyTreeNode[]) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ success: true, message, copy, tree }, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Read every copied object in batches and nest ads under ad sets under campaigns
+ */
+async function fetchCopyTree(
+  client: MetaAdsClient,
+  result: CopyResult
+): Promise<CopyTreeNode | CopyTreeNode[]> {
+  const copies = result.ad_object_ids.length
+    ? result.ad_object_ids
+    : [{ ad_object_type: 'unknown', source_id: '', copied_id: result.copied_id }];
+
+  const nodes = new Map<string, CopyTreeNode>();
+  const parents = new Map<string, string>();
+  for (let i = 0; i < copies.length; i += MAX_BATCH_SIZE) {
+    const chunk = copies.slice(i, i + MAX_BATCH_SIZE);
+    const responses = await client.batch<Record<string, string | undefined>>(
+      chunk.map((copy) => ({
+        method: 'GET',
+        relativeUrl: copy.copied_id,
+        params: { fields: 'id,name,status,effective_status,campaign_id,adset_id' },
+      }))
+    );
+    chunk.forEach((copy, index) => {
+      const response = responses[index];
+      const data = response?.data;
+      nodes.set(copy.copied_id, {
+        id: copy.copied_id,
+        type: copy.ad_object_type,
+        name: data?.name,
+        status: data?.status,
+        effective_status: data?.effective_status,
+        error: response?.success ? undefined : response?.error?.message,
+      });
+      const parentId =
+        copy.ad_object_type === 'ad'
+          ? data?.adset_id
+          : copy.ad_object_type === 'ad_set'
+            ? data?.campaign_id
+            : undefined;
+      if (parentId) parents.set(copy.copied_id, parentId);
+    });
+  }
+
+  const roots: CopyTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = nodes.get(parents.get(node.id) ?? '');
+    if (parent) {
+      parent.children = [...(parent.children ?? []), node];
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots.length === 1 ? roots[0] : roots;
+}
+
+function cloneResponse(body: Record<string, unknown>) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body, null, 2) }],
+  };
+}
+
+/**
+ * Read the creative of every ad in the tree; creatives that cannot be read are
+ * left out and reported as unmapped
+ */
+async function readCreatives(
+  client: MetaAdsClient,
+  tree: CampaignTree
+): Promise<Map<string, AdCreative>> {
+  const ids = new Set(
+    tree.adSets.flatMap((adSet) => adSet.ads.flatMap((ad) => (ad.creative ? [ad.creative.id] : [])))
+  );
+  const fields = ['id', ...CREATIVE_DOCUMENT_FIELDS].join(',');
+
+  const creatives = new Map<string, AdCreative>();
+  for (const id of ids) {
+    try {
+      creatives.set(id, await client.getAdCreative(id, fields));
+    } catch (error) {
+      if (!(error instanceof MetaAdsApiError)) throw error;
+    }
+  }
+  return creatives;
+}
+
+/**
+ * Download images from the source account's library and upload them to the
+ * target account. Returns source → target hashes, and why each image that was not
+ * copied failed.
+ */
+async function reuploadImages(
+  client: MetaAdsClient,
+  sourceAccountId: string,
+  targetAccountId: string,
+  hashes: string[]
+): Promise<{ hashes: Record<string, string>; errors: Map<string, string> }> {
+  const copied: Record<string, string> = {};
+  const errors = new Map<string, string>();
+  if (hashes.length === 0) {
+    return { hashes: copied, errors };
+  }
+
+  const library = await listAll(
+    (page) => client.listAdImages(sourceAccountId, { ...page, hashes }),
+    { pageSize: MAX_IMAGE_PAGE_SIZE }
+  );
+  const files: Array<{ name: string; bytes: Uint8Array }> = [];
+  for (const hash of hashes) {
+    const image = library.data.find((item) => item.hash === hash);
+    if (!image?.url) {
+      errors.set(hash, "Not found in the source account's image library");
+      continue;
+    }
+    try {
+      const file = await fetchMedia(image.url, { maxBytes: MAX_IMAGE_UPLOAD_BYTES });
+      files.push({ name: hash, bytes: file.bytes });
+    } catch (error) {
+      errors.set(hash, error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (files.length === 0) {
+    return { hashes: copied, errors };
+  }
+
+  try {
+    const uploaded = await client.uploadAdImages(targetAccountId, files);
+    for (const file of files) {
+      const image = uploaded[file.name];
+      if (image) copied[file.name] = image.hash;
+      else errors.set(file.name, 'Missing from the upload response');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    for (const file of files) errors.set(file.name, `Upload failed: ${message}`);
+  }
+  return { hashes: copied, errors };
+}
@@ -8,12 +8,27 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
 import type { AdCreativeInput } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatDryRun, formatError, formatResponse } from '../utils/formatters.js';
+import {
+  decodeBase64,
+  encodeBase64,
+  fetchMedia,
+  MAX_IMAGE_UPLOAD_BYTES,
+  MAX_VIDEO_UPLOAD_BYTES,
+  validateImage,
+} from '../utils/media.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 /**
  * Register all creative-related tools
  */
-export function registerCreativeTools(server: McpServer, client: MetaAdsClient): void {
+export function registerCreativeTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Ad Creatives
   // ===========================================================================
@@ -27,6 +42,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of creatives to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - fields: Comma-separated list of fields to return
   - format: Response format ('json' or 'markdown')
 
@@ -36,12 +53,19 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of creatives to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, fields, format }) => {
+    async ({ accountId, limit, after, fields, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listAdCreatives(accountId, { limit, after, fields });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listAdCreatives(accountId, { ...page, fields }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAdCreatives(accountId, { limit, after, fields });
         return formatResponse(result, format, 'creatives');
       } catch (error) {
         return formatError(error);
@@ -68,9 +92,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ creativeId, fields, format }) => {
+    async ({ creativeId, fields, format }, { signal }) => {
       try {
-        const creative = await client.getAdCreative(creativeId, fields);
+        const creative = await client.withSignal(signal).getAdCreative(creativeId, fields);
         return formatResponse(creative, format, 'creative');
       } catch (error) {
         return formatError(error);
@@ -106,6 +130,7 @@ Args:
   - assetFeedSpec: Asset feed specification (for dynamic creative)
   - urlTags: URL parameters to append to links
   - usePageActorOverride: Use page as actor
+  - dryRun: Only validate with Meta and return its recommendations; nothing is created
 
 Returns:
   The created creative with all fields.`,
@@ -116,8 +141,9 @@ Returns:
       assetFeedSpec: z.record(z.string(), z.unknown()).optional().describe('Asset feed specification'),
       urlTags: z.string().optional().describe('URL parameters to append'),
       usePageActorOverride: z.boolean().optional().describe('Use page as actor'),
+      dryRun: z.boolean().optional().describe('Validate only; nothing is created'),
     },
-    async ({ accountId, name, objectStorySpec, assetFeedSpec, urlTags, usePageActorOverride }) => {
+    async ({ accountId, name, objectStorySpec, assetFeedSpec, urlTags, usePageActorOverride, dryRun }, { signal }) => {
       try {
         const input: AdCreativeInput = {};
         if (name) input.name = name;
@@ -126,7 +152,14 @@ Returns:
         if (urlTags) input.url_tags = urlTags;
         if (usePageActorOverride !== undefined) input.use_page_actor_override = usePageActorOverride;
 
-        const creative = await client.createAdCreative(accountId, input);
+        const scoped = client.withSignal(signal);
+        if (dryRun) {
+          return formatDryRun(
+            await scoped.dryRun('createAdCreative', accountId, input),
+            'Creative creation'
+          );
+        }
+        const creative = await scoped.createAdCreative(accountId, input);
         return {
           content: [
             {
@@ -154,6 +187,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of images to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - hashes: Filter by specific image hashes (array)
   - format: Response format ('json' or 'markdown')
 
@@ -163,12 +198,19 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of images to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       hashes: z.array(z.string()).optional().describe('Filter by image hashes'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, hashes, format }) => {
+    async ({ accountId, limit, after, hashes, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listAdImages(accountId, { limit, after, hashes });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listAdImages(accountId, { ...page, hashes }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAdImages(accountId, { limit, after, hashes });
         return formatResponse(result, format, 'images');
       } catch (error) {
         return formatError(error);
@@ -186,26 +228,125 @@ Returns:
 Uploads an image to the ad account's image library.
 The returned hash can be used when creating ad creatives.
 
+The image is checked before upload: it must be a JPEG, PNG or GIF of at most 30 MB.
+Placements the image is too small or the wrong shape for are returned as warnings.
+
 Args:
   - accountId: The ad account ID (required)
-  - imageData: Base64 encoded image data (required)
+  - imageData: Base64 encoded image data (provide imageData or imageUrl)
+  - imageUrl: HTTP(S) URL to download the image from (provide imageData or imageUrl)
   - name: Image name
 
 Returns:
-  The uploaded image with hash, url, dimensions, etc.`,
+  The uploaded image with hash, url, dimensions, etc., plus the detected format,
+  dimensions, aspect ratio and placement warnings.`,
     {
       accountId: z.string().describe('Ad account ID'),
-      imageData: z.string().describe('Base64 encoded image data'),
+      imageData: z.string().optional().describe('Base64 encoded image data'),
+      imageUrl: z.string().url().optional().describe('URL to download the image from'),
       name: z.string().optional().describe('Image name'),
     },
-    async ({ accountId, imageData, name }) => {
+    async ({ accountId, imageData, imageUrl, name }, { signal }) => {
       try {
-        const image = await client.uploadAdImage(accountId, imageData, name);
+        const bytes = await loadImage({ imageData, imageUrl }, signal);
+        const { info, warnings } = validateImage(bytes);
+        const image = await client
+          .withSignal(signal)
+          .uploadAdImage(accountId, encodeBase64(bytes), name);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Image uploaded', image }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Image uploaded', image, validation: { ...info, warnings } },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Upload Ad Images (Batch)
+  // ===========================================================================
+  server.tool(
+    'metaads_upload_images',
+    `Upload several ad images in one call.
+
+Each image is downloaded or decoded and validated first (JPEG, PNG or GIF, at most
+30 MB); images that fail validation are reported and skipped, the rest are uploaded.
+
+Args:
+  - accountId: The ad account ID (required)
+  - images: Array of { imageData or imageUrl, name } (1-50 images)
+
+Returns:
+  images: map of image name to uploaded image (hash, url, ...), like the Graph response
+  errors: map of image name to the reason it was not uploaded
+  warnings: map of image name to placement warnings`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      images: z
+        .array(
+          z.object({
+            imageData: z.string().optional().describe('Base64 encoded image data'),
+            imageUrl: z.string().url().optional().describe('URL to download the image from'),
+            name: z.string().optional().describe('Image name (must be unique in the batch)'),
+          })
+        )
+        .min(1)
+        .max(50)
+        .describe('Images to upload'),
+    },
+    async ({ accountId, images }, { signal }) => {
+      try {
+        const valid: Array<{ name: string; bytes: Uint8Array }> = [];
+        const errors: Record<string, string> = {};
+        const warnings: Record<string, string[]> = {};
+        const names = new Set<string>();
+
+        for (const [index, source] of images.entries()) {
+          const baseName =
+            source.name ?? imageNameFromUrl(source.imageUrl) ?? `image_${index + 1}`;
+          let name = baseName;
+          for (let n = 2; names.has(name); n++) {
+            name = `${baseName}_${n}`;
+          }
+          names.add(name);
+
+          try {
+            const bytes = await loadImage(source, signal);
+            const result = validateImage(bytes);
+            if (result.warnings.length > 0) warnings[name] = result.warnings;
+            valid.push({ name, bytes });
+          } catch (error) {
+            if (signal.aborted) throw error;
+            errors[name] = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        const uploaded =
+          valid.length > 0 ? await client.withSignal(signal).uploadAdImages(accountId, valid) : {};
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: Object.keys(errors).length === 0,
+                  message: `${Object.keys(uploaded).length} of ${images.length} images uploaded`,
+                  images: uploaded,
+                  errors,
+                  warnings,
+                },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -228,6 +369,8 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of videos to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -236,11 +379,18 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of videos to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, format }) => {
+    async ({ accountId, limit, after, fetchAll, maxItems, format }, { signal }) => {
       try {
-        const result = await client.listAdVideos(accountId, { limit, after });
+        const result = fetchAll
+          ? await listAll(
+              (page) => client.withSignal(signal).listAdVideos(accountId, page),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client.withSignal(signal).listAdVideos(accountId, { limit, after });
         return formatResponse(result, format, 'videos');
       } catch (error) {
         return formatError(error);
@@ -265,13 +415,117 @@ Returns:
       videoId: z.string().describe('Video ID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ videoId, format }) => {
+    async ({ videoId, format }, { signal }) => {
       try {
-        const video = await client.getAdVideo(videoId);
+        const video = await client.withSignal(signal).getAdVideo(videoId);
         return formatResponse(video, format, 'video');
       } catch (error) {
         return formatError(error);
       }
     }
   );
+
+  // ===========================================================================
+  // Upload Ad Video
+  // ===========================================================================
+  server.tool(
+    'metaads_upload_video',
+    `Upload an ad video.
+
+Uploads a video to the ad account's video library in chunks, then waits until Meta
+has processed it (status.video_status is 'ready') so it can be used in a creative.
+If the upload is interrupted, the error includes a resume point; call the tool again
+with the same video and that resume object to continue from the last byte received.
+
+Args:
+  - accountId: The ad account ID (required)
+  - videoData: Base64 encoded video data (provide videoData or videoUrl)
+  - videoUrl: HTTP(S) URL to download the video from (provide videoData or videoUrl)
+  - title: Video title
+  - description: Video description
+  - waitForReady: Wait for processing to finish (default: true)
+  - resume: { uploadSessionId, videoId, startOffset } from an interrupted upload
+
+Returns:
+  The uploaded video with id, status, length, etc.`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      videoData: z.string().optional().describe('Base64 encoded video data'),
+      videoUrl: z.string().url().optional().describe('URL to download the video from'),
+      title: z.string().optional().describe('Video title'),
+      description: z.string().optional().describe('Video description'),
+      waitForReady: z.boolean().default(true).describe('Wait for processing to finish'),
+      resume: z
+        .object({
+          uploadSessionId: z.string(),
+          videoId: z.string(),
+          startOffset: z.number().int().min(0),
+        })
+        .optional()
+        .describe('Resume point from an interrupted upload'),
+    },
+    async ({ accountId, videoData, videoUrl, title, description, waitForReady, resume }, { signal }) => {
+      try {
+        if (Boolean(videoData) === Boolean(videoUrl)) {
+          throw new ValidationError('Provide exactly one of videoData or videoUrl');
+        }
+
+        const data = videoData
+          ? decodeBase64(videoData)
+          : (await fetchMedia(videoUrl as string, { maxBytes: MAX_VIDEO_UPLOAD_BYTES, signal })).bytes;
+        if (data.byteLength > MAX_VIDEO_UPLOAD_BYTES) {
+          throw new ValidationError(
+            `Video is ${data.byteLength} bytes, larger than the ${MAX_VIDEO_UPLOAD_BYTES} byte limit`
+          );
+        }
+
+        const video = await client
+          .withSignal(signal)
+          .uploadAdVideo(accountId, data, { title, description, waitForReady, resume });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, message: 'Video uploaded', video }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Read an image from base64 data or a URL
+ */
+async function loadImage(
+  source: { imageData?: string; imageUrl?: string },
+  signal: AbortSignal
+): Promise<Uint8Array> {
+  if (Boolean(source.imageData) === Boolean(source.imageUrl)) {
+    throw new ValidationError('Provide exactly one of imageData or imageUrl');
+  }
+  if (source.imageData) {
+    return decodeBase64(source.imageData);
+  }
+  const file = await fetchMedia(source.imageUrl as string, {
+    maxBytes: MAX_IMAGE_UPLOAD_BYTES,
+    signal,
+  });
+  return file.bytes;
+}
+
+/**
+ * Last path segment of an image URL, used as its name in batch uploads
+ */
+function imageNameFromUrl(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    const segment = new URL(url).pathname.split('/').pop();
+    return segment ? decodeURIComponent(segment) : undefined;
+  } catch {
+    return undefined;
+  }
 }
@@ -0,0 +1,324 @@
+/**
+ * Campaign Document Tools
+ *
+ * MCP tools for managing a campaign as code: export a campaign as a JSON or YAML
+ * document, plan the changes a document makes and apply them.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { MAX_BATCH_SIZE, type MetaAdsClient } from '../client.js';
+import type {
+  AdCreative,
+  CampaignDocument,
+  CampaignPlan,
+  CampaignTree,
+} from '../types/entities.js';
+import {
+  CAMPAIGN_DOCUMENT_VERSION,
+  CREATIVE_DOCUMENT_FIELDS,
+  checkPlanIssues,
+  planCampaignDocument,
+  serializeCampaignDocument,
+  toCampaignDocument,
+} from '../utils/documents.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatCampaignPlan, formatError } from '../utils/formatters.js';
+
+const StatusEnum = z.enum(['ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED']);
+
+const JsonObject = z.record(z.string(), z.unknown());
+
+const Amount = z.number().int().positive();
+
+const AdDocumentSchema = z.strictObject({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  status: StatusEnum.optional(),
+  creative: z.union([
+    z.strictObject({ creative_id: z.string() }),
+    z.strictObject({
+      name: z.string().optional(),
+      object_story_spec: JsonObject.optional(),
+      asset_feed_spec: JsonObject.optional(),
+      degrees_of_freedom_spec: JsonObject.optional(),
+      url_tags: z.string().optional(),
+      use_page_actor_override: z.boolean().optional(),
+      authorization_category: z.string().optional(),
+    }),
+  ]),
+  tracking_specs: z.array(JsonObject).optional(),
+  conversion_specs: z.array(JsonObject).optional(),
+});
+
+const AdSetDocumentSchema = z.strictObject({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  status: StatusEnum.optional(),
+  billing_event: z.string(),
+  optimization_goal: z.string(),
+  daily_budget: Amount.optional(),
+  lifetime_budget: Amount.optional(),
+  bid_amount: Amount.optional(),
+  bid_strategy: z.string().optional(),
+  start_time: z.string().optional(),
+  end_time: z.string().optional(),
+  targeting: JsonObject,
+  promoted_object: JsonObject.optional(),
+  destination_type: z.string().optional(),
+  attribution_spec: z.array(JsonObject).optional(),
+  is_dynamic_creative: z.boolean().optional(),
+  pacing_type: z.array(z.string()).optional(),
+  ads: z.array(AdDocumentSchema).optional(),
+});
+
+const CampaignDocumentSchema = z.strictObject({
+  version: z.literal(CAMPAIGN_DOCUMENT_VERSION),
+  account_id: z.string(),
+  campaign: z.strictObject({
+    id: z.string().optional(),
+    name: z.string().min(1),
+    objective: z.string(),
+    status: StatusEnum.optional(),
+    special_ad_categories: z.array(z.string()).optional(),
+    buying_type: z.enum(['AUCTION', 'RESERVED']).optional(),
+    daily_budget: Amount.optional(),
+    lifetime_budget: Amount.optional(),
+    spend_cap: Amount.optional(),
+    bid_strategy: z.string().optional(),
+    start_time: z.string().optional(),
+    stop_time: z.string().optional(),
+    promoted_object: JsonObject.optional(),
+    ad_sets: z.array(AdSetDocumentSchema).optional(),
+  }),
+});
+
+const DOCUMENT_FORMAT_HELP = `Document format (JSON or YAML):
+  version: 1
+  account_id: act_123
+  campaign:                      # CampaignCreateInput fields, plus:
+    id: "120..."                 # optional; set to manage an existing campaign
+    ad_sets:                     # AdSetCreateInput fields (without campaign_id), plus:
+      - id: "120..."             # optional; otherwise matched by name
+        ads:                     # AdCreateInput fields (without adset_id), plus:
+          - id: "120..."         # optional; otherwise matched by name
+            creative: { object_story_spec: {...} }   # or { creative_id: "..." }
+Budgets and bid amounts are in cents.`;
+
+/**
+ * Register all campaign document tools
+ */
+export function registerDocumentTools(server: McpServer, client: MetaAdsClient): void {
+  // ===========================================================================
+  // Export Campaign
+  // ===========================================================================
+  server.tool(
+    'metaads_export_campaign',
+    `Export a campaign with its ad sets, ads and creatives as a campaign document, ready to
+commit to version control and later change with metaads_plan_campaign and
+metaads_apply_campaign.
+
+Deleted ad sets and ads are left out. Every object carries its ID, so the document
+manages the existing campaign when applied.
+
+Args:
+  - campaignId: The campaign to export (required)
+  - format: Document format ('yaml' or 'json', default: 'yaml')
+
+Returns:
+  The document text.`,
+    {
+      campaignId: z.string().describe('Campaign ID to export'),
+      format: z.enum(['yaml', 'json']).default('yaml').describe('Document format'),
+    },
+    async ({ campaignId, format }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const tree = await scoped.getCampaignTree(campaignId);
+        const document = toCampaignDocument(tree, await readCreatives(scoped, tree));
+        return {
+          content: [{ type: 'text', text: serializeCampaignDocument(document, format) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Plan Campaign
+  // ===========================================================================
+  server.tool(
+    'metaads_plan_campaign',
+    `Compare a campaign document with the live account and list what applying it would
+create, update or pause, with field-level changes. Nothing is changed.
+
+Objects are matched by id, or by name within their parent when the document gives
+no id. Only fields the document sets are compared; removing a field from the document
+leaves the live value alone. Live ad sets and ads the document does not list are
+paused. Fields that cannot change once an object exists (e.g. objective) are reported
+as issues.
+
+${DOCUMENT_FORMAT_HELP}
+
+Args:
+  - document: The campaign document as JSON or YAML text (required)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The steps in the order they would run (each object after its parent) and any
+  issues.`,
+    {
+      document: z.string().describe('Campaign document (JSON or YAML)'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ document, format }, { signal }) => {
+      try {
+        const plan = await planDocument(client.withSignal(signal), readDocument(document));
+        return formatCampaignPlan(plan, format);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Apply Campaign
+  // ===========================================================================
+  server.tool(
+    'metaads_apply_campaign',
+    `Apply a campaign document: plan it against the live account (see
+metaads_plan_campaign) and run the steps in dependency order, so each new ad set is
+created after its campaign and each new ad after its ad set.
+
+Nothing is changed while the plan has issues (e.g. an ambiguous name match); fix the
+document first. Steps run one at a time and stop at the first failure; completed steps
+are not undone and are listed in the response. Export the campaign afterwards to record
+the new object IDs in the document.
+
+${DOCUMENT_FORMAT_HELP}
+
+Args:
+  - document: The campaign document as JSON or YAML text (required)
+
+Returns:
+  The campaign ID, the completed steps with their object IDs, and after a failure the
+  failed step with its error and the steps not run.`,
+    {
+      document: z.string().describe('Campaign document (JSON or YAML)'),
+    },
+    async ({ document }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const plan = await planDocument(scoped, readDocument(document));
+        checkPlanIssues(plan, 'fix the document before applying it');
+
+        const results = await scoped.applyCampaignPlan(plan);
+        const completed = results.filter((result) => result.success);
+        const failed = results.find((result) => !result.success);
+        const campaignId =
+          plan.campaignId ?? completed.find((result) => result.objectType === 'campaign')?.id;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: !failed,
+                  message: failed
+                    ? `Step ${results.length} of ${plan.steps.length} (${failed.objectType} "${failed.name}") failed after ${completed.length} steps completed; the completed steps were kept and the remaining steps were not run`
+                    : `Applied ${completed.length} steps`,
+                  campaignId,
+                  completed,
+                  ...(failed && { failed, notRun: plan.steps.slice(results.length) }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Parse a JSON or YAML campaign document and check it against the document format
+ */
+function readDocument(text: string): CampaignDocument {
+  let value: unknown;
+  try {
+    value = parse(text);
+  } catch (error) {
+    throw new ValidationError(
+      `Document is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = CampaignDocumentSchema.safeParse(value);
+  if (!result.success) {
+    const details: Record<string, string[]> = {};
+    for (const issue of result.error.issues) {
+      const path = issue.path.join('.') || '(document)';
+      details[path] = [...(details[path] ?? []), issue.message];
+    }
+    throw new ValidationError(
+      `Document does not match the campaign document format: ${Object.keys(details).join(', ')}`,
+      details
+    );
+  }
+  return result.data as unknown as CampaignDocument;
+}
+
+async function planDocument(
+  client: MetaAdsClient,
+  document: CampaignDocument
+): Promise<CampaignPlan> {
+  if (!document.campaign.id) {
+    return planCampaignDocument(document, undefined, new Map());
+  }
+  const live = await client.getCampaignTree(document.campaign.id);
+  const accountId = live.campaign.account_id.replace(/^act_/, '');
+  if (accountId !== document.account_id.replace(/^act_/, '')) {
+    throw new ValidationError(
+      `Campaign ${live.campaign.id} belongs to act_${accountId}, not ${document.account_id}`
+    );
+  }
+  return planCampaignDocument(document, live, await readCreatives(client, live));
+}
+
+/**
+ * Read the creatives of every ad in the tree; creatives that cannot be read are left out
+ */
+async function readCreatives(
+  client: MetaAdsClient,
+  tree: CampaignTree
+): Promise<Map<string, AdCreative>> {
+  const ids = [
+    ...new Set(
+      tree.adSets.flatMap((adSet) =>
+        adSet.ads.flatMap((ad) => (ad.creative ? [ad.creative.id] : []))
+      )
+    ),
+  ];
+  const fields = ['id', ...CREATIVE_DOCUMENT_FIELDS].join(',');
+
+  const creatives = new Map<string, AdCreative>();
+  for (let i = 0; i < ids.length; i += MAX_BATCH_SIZE) {
+    const responses = await client.batch<AdCreative>(
+      ids.slice(i, i + MAX_BATCH_SIZE).map((id) => ({
+        method: 'GET' as const,
+        relativeUrl: id,
+        params: { fields },
+      }))
+    );
+    for (const response of responses) {
+      if (response.success && response.data) creatives.set(response.data.id, response.data);
+    }
+  }
+  return creatives;
+}
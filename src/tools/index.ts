@@ -1,11 +1,20 @@
 export { registerAccountTools } from './accounts.js';
+export { registerAdRuleTools } from './adrules.js';
 export { registerAdTools } from './ads.js';
 export { registerAdSetTools } from './adsets.js';
 export { registerAudienceTools } from './audiences.js';
+export { registerAuditTools } from './audit.js';
+export { registerAutomationTools } from './automation.js';
+export { registerBatchTools } from './batch.js';
+export { registerBulkTools } from './bulk.js';
 export { registerBusinessTools } from './business.js';
 export { registerCampaignTools } from './campaigns.js';
 export { registerCatalogTools } from './catalogs.js';
+export { registerCopyTools } from './copies.js';
 export { registerCreativeTools } from './creatives.js';
+export { registerDocumentTools } from './documents.js';
 export { registerInsightsTools } from './insights.js';
+export { registerLaunchTools } from './launch.js';
 export { registerPixelTools } from './pixels.js';
+export { registerSnapshotTools } from './snapshots.js';
 export { registerTargetingTools } from './targeting.js';
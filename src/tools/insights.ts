@@ -15,7 +15,10 @@ import type {
   AttributionWindow,
   InsightsParams,
 } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 const DatePresetEnum = z.enum([
   'today',
@@ -144,7 +147,11 @@ const AttributionWindowEnum = z.enum([
 /**
  * Register all insights-related tools
  */
-export function registerInsightsTools(server: McpServer, client: MetaAdsClient): void {
+export function registerInsightsTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Account Insights
   // ===========================================================================
@@ -167,6 +174,10 @@ Args:
   - limit: Maximum number of results
   - format: Response format ('json' or 'markdown')
 
+Large queries (long ranges with daily rows, breakdowns or ad-level rows) run as an
+async report and wait for it to finish; use metaads_start_insights_report to run them
+in the background instead.
+
 Returns:
   Array of insights with requested metrics and breakdowns.`,
     {
@@ -197,7 +208,7 @@ Returns:
       level,
       limit,
       format,
-    }) => {
+    }, { signal }) => {
       try {
         const params: InsightsParams = {};
         if (datePreset) params.date_preset = datePreset as DatePreset;
@@ -210,7 +221,7 @@ Returns:
         if (level) params.level = level;
         if (limit) params.limit = limit;
 
-        const insights = await client.getAccountInsights(accountId, params);
+        const insights = await client.withSignal(signal).getAccountInsights(accountId, params);
         return formatResponse({ data: insights }, format, 'insights');
       } catch (error) {
         return formatError(error);
@@ -248,7 +259,7 @@ Returns:
       breakdowns: z.array(BreakdownEnum).optional().describe('Breakdowns'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ campaignId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }) => {
+    async ({ campaignId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }, { signal }) => {
       try {
         const params: InsightsParams = {};
         if (datePreset) params.date_preset = datePreset as DatePreset;
@@ -257,7 +268,7 @@ Returns:
         if (fields) params.fields = fields as InsightsField[];
         if (breakdowns) params.breakdowns = breakdowns as InsightsBreakdown[];
 
-        const insights = await client.getCampaignInsights(campaignId, params);
+        const insights = await client.withSignal(signal).getCampaignInsights(campaignId, params);
         return formatResponse({ data: insights }, format, 'insights');
       } catch (error) {
         return formatError(error);
@@ -295,7 +306,7 @@ Returns:
       breakdowns: z.array(BreakdownEnum).optional().describe('Breakdowns'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ adSetId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }) => {
+    async ({ adSetId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }, { signal }) => {
       try {
         const params: InsightsParams = {};
         if (datePreset) params.date_preset = datePreset as DatePreset;
@@ -304,7 +315,7 @@ Returns:
         if (fields) params.fields = fields as InsightsField[];
         if (breakdowns) params.breakdowns = breakdowns as InsightsBreakdown[];
 
-        const insights = await client.getAdSetInsights(adSetId, params);
+        const insights = await client.withSignal(signal).getAdSetInsights(adSetId, params);
         return formatResponse({ data: insights }, format, 'insights');
       } catch (error) {
         return formatError(error);
@@ -342,7 +353,7 @@ Returns:
       breakdowns: z.array(BreakdownEnum).optional().describe('Breakdowns'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ adId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }) => {
+    async ({ adId, datePreset, timeRange, timeIncrement, fields, breakdowns, format }, { signal }) => {
       try {
         const params: InsightsParams = {};
         if (datePreset) params.date_preset = datePreset as DatePreset;
@@ -351,11 +362,164 @@ Returns:
         if (fields) params.fields = fields as InsightsField[];
         if (breakdowns) params.breakdowns = breakdowns as InsightsBreakdown[];
 
-        const insights = await client.getAdInsights(adId, params);
+        const insights = await client.withSignal(signal).getAdInsights(adId, params);
         return formatResponse({ data: insights }, format, 'insights');
       } catch (error) {
         return formatError(error);
       }
     }
   );
+
+  // ===========================================================================
+  // Start Insights Report
+  // ===========================================================================
+  server.tool(
+    'metaads_start_insights_report',
+    `Start an asynchronous insights report run.
+
+Use for queries too large for the synchronous insights tools, such as ad-level rows
+with breakdowns over long date ranges. Poll with metaads_get_report_status and read
+rows with metaads_get_report_results once the job completes.
+
+Args:
+  - objectId: Ad account ('act_' prefix), campaign, ad set or ad ID (required)
+  - datePreset: Date range preset (e.g., 'last_7d', 'last_90d', 'maximum')
+  - timeRange: Custom time range { since: 'YYYY-MM-DD', until: 'YYYY-MM-DD' }
+  - timeIncrement: Break down by time period ('1', '7', '28', 'monthly', 'all_days')
+  - fields: Array of metrics to return
+  - breakdowns: Array of dimensions to break down by
+  - actionBreakdowns: Array of action breakdowns
+  - attributionWindows: Attribution windows (1d_click, 7d_click, etc.)
+  - level: Aggregation level ('account', 'campaign', 'adset', 'ad')
+
+Returns:
+  The report run with its id (report_run_id), async_status and async_percent_completion.`,
+    {
+      objectId: z.string().describe('Ad account, campaign, ad set or ad ID'),
+      datePreset: DatePresetEnum.optional().describe('Date range preset'),
+      timeRange: z.object({
+        since: z.string(),
+        until: z.string(),
+      }).optional().describe('Custom time range'),
+      timeIncrement: z.string().optional().describe('Time increment for breakdown'),
+      fields: z.array(InsightsFieldEnum).optional().describe('Metrics to return'),
+      breakdowns: z.array(BreakdownEnum).optional().describe('Dimensions to break down by'),
+      actionBreakdowns: z.array(ActionBreakdownEnum).optional().describe('Action breakdowns'),
+      attributionWindows: z.array(AttributionWindowEnum).optional().describe('Attribution windows'),
+      level: z.enum(['account', 'campaign', 'adset', 'ad']).optional().describe('Aggregation level'),
+    },
+    async ({
+      objectId,
+      datePreset,
+      timeRange,
+      timeIncrement,
+      fields,
+      breakdowns,
+      actionBreakdowns,
+      attributionWindows,
+      level,
+    }, { signal }) => {
+      try {
+        const params: InsightsParams = {};
+        if (datePreset) params.date_preset = datePreset as DatePreset;
+        if (timeRange) params.time_range = timeRange;
+        if (timeIncrement) params.time_increment = timeIncrement;
+        if (fields) params.fields = fields as InsightsField[];
+        if (breakdowns) params.breakdowns = breakdowns as InsightsBreakdown[];
+        if (actionBreakdowns) params.action_breakdowns = actionBreakdowns as ActionBreakdown[];
+        if (attributionWindows) params.action_attribution_windows = attributionWindows as AttributionWindow[];
+        if (level) params.level = level;
+
+        const report = await client.withSignal(signal).startInsightsReport(objectId, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, message: 'Insights report started', report }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Report Status
+  // ===========================================================================
+  server.tool(
+    'metaads_get_report_status',
+    `Get the status of an asynchronous insights report run.
+
+Args:
+  - reportRunId: The report run ID returned by metaads_start_insights_report (required)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The report run with async_status ('Job Not Started', 'Job Started', 'Job Running',
+  'Job Completed', 'Job Failed', 'Job Skipped') and async_percent_completion.`,
+    {
+      reportRunId: z.string().describe('Report run ID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ reportRunId, format }, { signal }) => {
+      try {
+        const report = await client.withSignal(signal).getInsightsReportStatus(reportRunId);
+        return formatResponse(report, format, 'insights_report');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Report Results
+  // ===========================================================================
+  server.tool(
+    'metaads_get_report_results',
+    `Get the rows of a completed asynchronous insights report run.
+
+Args:
+  - reportRunId: The report run ID (required)
+  - limit: Number of rows to return (1-1000, default: 100)
+  - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of rows to return when fetchAll is set
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Paginated insights rows. Fails with a validation error while the job is still running.`,
+    {
+      reportRunId: z.string().describe('Report run ID'),
+      limit: z.number().int().min(1).max(1000).default(100).describe('Number of rows to return'),
+      after: z.string().optional().describe('Pagination cursor from previous response'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ reportRunId, limit, after, fetchAll, maxItems, format }, { signal }) => {
+      try {
+        const scoped = client.withSignal(signal);
+        const report = await scoped.getInsightsReportStatus(reportRunId);
+        if (report.async_status !== 'Job Completed') {
+          return formatError(
+            new ValidationError(
+              `Report ${reportRunId} is not complete (status: '${report.async_status}', ${report.async_percent_completion}% done)`
+            )
+          );
+        }
+
+        const result = fetchAll
+          ? await listAll(
+              (page) => scoped.getInsightsReportResults(reportRunId, page),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await scoped.getInsightsReportResults(reportRunId, { limit, after });
+        return formatResponse(result, format, 'insights');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
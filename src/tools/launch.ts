@@ -0,0 +1,243 @@
+/**
+ * Launch Tools
+ *
+ * MCP tool for launching a campaign, ad set, creative and ad in one call.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type {
+  AdCreativeInput,
+  BidStrategy,
+  BillingEvent,
+  CampaignObjective,
+  OptimizationGoal,
+  SpecialAdCategory,
+  Targeting,
+} from '../types/entities.js';
+import { formatError } from '../utils/formatters.js';
+
+const CampaignObjectiveEnum = z.enum([
+  'OUTCOME_AWARENESS',
+  'OUTCOME_ENGAGEMENT',
+  'OUTCOME_LEADS',
+  'OUTCOME_SALES',
+  'OUTCOME_TRAFFIC',
+  'OUTCOME_APP_PROMOTION',
+]);
+
+const SpecialAdCategoryEnum = z.enum([
+  'NONE',
+  'EMPLOYMENT',
+  'HOUSING',
+  'CREDIT',
+  'ISSUES_ELECTIONS_POLITICS',
+  'ONLINE_GAMBLING_AND_GAMING',
+]);
+
+const BidStrategyEnum = z.enum([
+  'LOWEST_COST_WITHOUT_CAP',
+  'LOWEST_COST_WITH_BID_CAP',
+  'COST_CAP',
+  'LOWEST_COST_WITH_MIN_ROAS',
+]);
+
+const BillingEventEnum = z.enum([
+  'APP_INSTALLS',
+  'IMPRESSIONS',
+  'LINK_CLICKS',
+  'OFFER_CLAIMS',
+  'PAGE_LIKES',
+  'POST_ENGAGEMENT',
+  'THRUPLAY',
+  'PURCHASE',
+  'LISTING_INTERACTION',
+]);
+
+const OptimizationGoalEnum = z.enum([
+  'NONE',
+  'APP_INSTALLS',
+  'AD_RECALL_LIFT',
+  'ENGAGED_USERS',
+  'EVENT_RESPONSES',
+  'IMPRESSIONS',
+  'LEAD_GENERATION',
+  'QUALITY_LEAD',
+  'LINK_CLICKS',
+  'OFFSITE_CONVERSIONS',
+  'PAGE_LIKES',
+  'POST_ENGAGEMENT',
+  'QUALITY_CALL',
+  'REACH',
+  'LANDING_PAGE_VIEWS',
+  'VISIT_INSTAGRAM_PROFILE',
+  'VALUE',
+  'THRUPLAY',
+  'DERIVED_EVENTS',
+  'APP_INSTALLS_AND_OFFSITE_CONVERSIONS',
+  'CONVERSATIONS',
+  'IN_APP_VALUE',
+  'MESSAGING_PURCHASE_CONVERSION',
+  'MESSAGING_APPOINTMENT_CONVERSION',
+]);
+
+/**
+ * Register the launch tool
+ */
+export function registerLaunchTools(server: McpServer, client: MetaAdsClient): void {
+  // ===========================================================================
+  // Launch
+  // ===========================================================================
+  server.tool(
+    'metaads_launch',
+    `Launch a new ad in one call: create a campaign, an ad set in it, a creative and an
+ad using that creative, in that order.
+
+Everything is created PAUSED. If any step fails, the objects already created are
+deleted again (newest first), so a failed launch leaves no orphans behind; when the
+tenant policy says to archive instead of delete, they are archived instead. With
+activate, the ad, ad set and campaign are set ACTIVE once all of them exist; a
+failed activation is rolled back the same way.
+
+Args:
+  - accountId: The ad account ID (required)
+  - campaign: (required)
+    - name, objective (required)
+    - specialAdCategories (default: ['NONE']), dailyBudget, lifetimeBudget,
+      bidStrategy, spendCap, startTime, stopTime
+  - adSet: (required)
+    - name, billingEvent, optimizationGoal, targeting (required)
+    - dailyBudget, lifetimeBudget, bidAmount, bidStrategy, startTime, endTime,
+      promotedObject
+  - creative: (required)
+    - name, objectStorySpec, assetFeedSpec, urlTags, usePageActorOverride
+  - ad: (required)
+    - name (required), trackingSpecs
+  - activate: Set the whole tree ACTIVE at the end (default: false)
+
+Budgets and bid amounts are in cents; times are ISO 8601.
+
+Returns:
+  The IDs of the new campaign, ad set, creative and ad and their status, or the step
+  that failed, its error and the objects deleted or archived in the rollback.`,
+    {
+      accountId: z.string().describe('Ad account ID'),
+      campaign: z
+        .object({
+          name: z.string().describe('Campaign name'),
+          objective: CampaignObjectiveEnum.describe('Campaign objective'),
+          specialAdCategories: z
+            .array(SpecialAdCategoryEnum)
+            .optional()
+            .describe('Special ad categories'),
+          dailyBudget: z.number().int().optional().describe('Daily budget in cents'),
+          lifetimeBudget: z.number().int().optional().describe('Lifetime budget in cents'),
+          bidStrategy: BidStrategyEnum.optional().describe('Bid strategy'),
+          spendCap: z.number().int().optional().describe('Spend cap in cents'),
+          startTime: z.string().optional().describe('Start time (ISO 8601)'),
+          stopTime: z.string().optional().describe('Stop time (ISO 8601)'),
+        })
+        .describe('Campaign to create'),
+      adSet: z
+        .object({
+          name: z.string().describe('Ad set name'),
+          billingEvent: BillingEventEnum.describe('Billing event'),
+          optimizationGoal: OptimizationGoalEnum.describe('Optimization goal'),
+          targeting: z.record(z.string(), z.unknown()).describe('Targeting specification'),
+          dailyBudget: z.number().int().optional().describe('Daily budget in cents'),
+          lifetimeBudget: z.number().int().optional().describe('Lifetime budget in cents'),
+          bidAmount: z.number().int().optional().describe('Bid amount in cents'),
+          bidStrategy: BidStrategyEnum.optional().describe('Bid strategy'),
+          startTime: z.string().optional().describe('Start time (ISO 8601)'),
+          endTime: z.string().optional().describe('End time (ISO 8601)'),
+          promotedObject: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe('Promoted object, e.g. { pixel_id, custom_event_type }'),
+        })
+        .describe('Ad set to create in the campaign'),
+      creative: z
+        .object({
+          name: z.string().optional().describe('Creative name'),
+          objectStorySpec: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe('Object story specification'),
+          assetFeedSpec: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe('Asset feed specification'),
+          urlTags: z.string().optional().describe('URL parameters to append'),
+          usePageActorOverride: z.boolean().optional().describe('Use page as actor'),
+        })
+        .describe('Creative to create for the ad'),
+      ad: z
+        .object({
+          name: z.string().describe('Ad name'),
+          trackingSpecs: z
+            .array(z.record(z.string(), z.unknown()))
+            .optional()
+            .describe('Tracking specifications'),
+        })
+        .describe('Ad to create in the ad set'),
+      activate: z.boolean().default(false).describe('Set the whole tree ACTIVE at the end'),
+    },
+    async ({ accountId, campaign, adSet, creative, ad, activate }, { signal }) => {
+      try {
+        const result = await client.withSignal(signal).launch(accountId, {
+          campaign: {
+            name: campaign.name,
+            objective: campaign.objective as CampaignObjective,
+            special_ad_categories: campaign.specialAdCategories as SpecialAdCategory[] | undefined,
+            daily_budget: campaign.dailyBudget,
+            lifetime_budget: campaign.lifetimeBudget,
+            bid_strategy: campaign.bidStrategy as BidStrategy | undefined,
+            spend_cap: campaign.spendCap,
+            start_time: campaign.startTime,
+            stop_time: campaign.stopTime,
+          },
+          adSet: {
+            name: adSet.name,
+            billing_event: adSet.billingEvent as BillingEvent,
+            optimization_goal: adSet.optimizationGoal as OptimizationGoal,
+            targeting: adSet.targeting as Targeting,
+            daily_budget: adSet.dailyBudget,
+            lifetime_budget: adSet.lifetimeBudget,
+            bid_amount: adSet.bidAmount,
+            bid_strategy: adSet.bidStrategy as BidStrategy | undefined,
+            start_time: adSet.startTime,
+            end_time: adSet.endTime,
+            promoted_object: adSet.promotedObject,
+          },
+          creative: {
+            name: creative.name,
+            object_story_spec: creative.objectStorySpec as AdCreativeInput['object_story_spec'],
+            asset_feed_spec: creative.assetFeedSpec as AdCreativeInput['asset_feed_spec'],
+            url_tags: creative.urlTags,
+            use_page_actor_override: creative.usePageActorOverride,
+          },
+          ad: { name: ad.name, tracking_specs: ad.trackingSpecs },
+          activate,
+        });
+
+        const { success, ...summary } = result;
+        const message = success
+          ? `Launched campaign ${result.campaignId} (${result.status})`
+          : `Launch failed at the ${result.failedStep} step; ${
+              result.rolledBack?.filter((object) => object.deleted || object.archived).length ?? 0
+            } of ${result.rolledBack?.length ?? 0} created objects were deleted or archived`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success, message, ...summary }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
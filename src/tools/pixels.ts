@@ -7,12 +7,18 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MetaAdsClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { formatError, formatResponse, formatUpdateResult } from '../utils/formatters.js';
+import { listAll } from '../utils/pagination.js';
+import { getFetchAllOptions, type ToolContext } from './context.js';
 
 /**
  * Register all pixel-related tools
  */
-export function registerPixelTools(server: McpServer, client: MetaAdsClient): void {
+export function registerPixelTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Pixels
   // ===========================================================================
@@ -26,7 +32,10 @@ Args:
   - accountId: The ad account ID (required)
   - limit: Number of pixels to return (1-100, default: 25)
   - after: Pagination cursor for next page
+  - fetchAll: Follow cursors and return every page (bounded by server limits)
+  - maxItems: Maximum number of items to return when fetchAll is set
   - fields: Comma-separated list of fields to return
+  - noCache: Bypass the cache and fetch fresh data
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -35,12 +44,26 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       limit: z.number().int().min(1).max(100).default(25).describe('Number of pixels to return'),
       after: z.string().optional().describe('Pagination cursor'),
+      fetchAll: z.boolean().optional().describe('Fetch all pages'),
+      maxItems: z.number().int().min(1).optional().describe('Maximum items when fetchAll is set'),
       fields: z.string().optional().describe('Comma-separated list of fields'),
+      noCache: z.boolean().optional().describe('Bypass the cache and fetch fresh data'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, limit, after, fields, format }) => {
+    async (
+      { accountId, limit, after, fields, fetchAll, maxItems, noCache, format },
+      { signal }
+    ) => {
       try {
-        const result = await client.listPixels(accountId, { limit, after, fields });
+        const result = fetchAll
+          ? await listAll(
+              (page) =>
+                client.withSignal(signal).listPixels(accountId, { ...page, fields, noCache }),
+              getFetchAllOptions(context, { after, maxItems })
+            )
+          : await client
+              .withSignal(signal)
+              .listPixels(accountId, { limit, after, fields, noCache });
         return formatResponse(result, format, 'pixels');
       } catch (error) {
         return formatError(error);
@@ -67,9 +90,9 @@ Returns:
       fields: z.string().optional().describe('Comma-separated list of fields'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ pixelId, fields, format }) => {
+    async ({ pixelId, fields, format }, { signal }) => {
       try {
-        const pixel = await client.getPixel(pixelId, fields);
+        const pixel = await client.withSignal(signal).getPixel(pixelId, fields);
         return formatResponse(pixel, format, 'pixel');
       } catch (error) {
         return formatError(error);
@@ -96,9 +119,9 @@ Returns:
       accountId: z.string().describe('Ad account ID'),
       name: z.string().describe('Pixel name'),
     },
-    async ({ accountId, name }) => {
+    async ({ accountId, name }, { signal }) => {
       try {
-        const pixel = await client.createPixel(accountId, { name });
+        const pixel = await client.withSignal(signal).createPixel(accountId, { name });
         return {
           content: [
             {
@@ -112,4 +135,41 @@ Returns:
       }
     }
   );
+  // ===========================================================================
+  // Update Pixel
+  // ===========================================================================
+  server.tool(
+    'metaads_update_pixel',
+    `Update an existing Meta Pixel.
+
+Args:
+  - pixelId: Pixel ID to update (required)
+  - name: New pixel name
+  - enableAutomaticMatching: Turn automatic advanced matching on or off
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The updated pixel and the fields that changed, each with its value before
+  and after the update. In markdown format the changes are a table.`,
+    {
+      pixelId: z.string().describe('Pixel ID to update'),
+      name: z.string().optional().describe('New pixel name'),
+      enableAutomaticMatching: z
+        .boolean()
+        .optional()
+        .describe('Turn automatic advanced matching on or off'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ pixelId, name, enableAutomaticMatching, format }, { signal }) => {
+      try {
+        const result = await client.withSignal(signal).updatePixel(pixelId, {
+          name,
+          enable_automatic_matching: enableAutomaticMatching,
+        });
+        return formatUpdateResult(result, format, 'pixel', 'pixel');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
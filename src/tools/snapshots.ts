@@ -0,0 +1,261 @@
+/**
+ * Snapshot Tools
+ *
+ * MCP tools for snapshotting campaign trees and rolling campaigns back to them.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { MAX_BATCH_SIZE, type MetaAdsClient } from '../client.js';
+import type { CampaignSnapshot, CampaignTree, RollbackAction } from '../types/entities.js';
+import { formatErrorForLogging, MetaAdsApiError, NotFoundError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { planRollback, type SnapshotStore, summarizeSnapshot } from '../utils/snapshots.js';
+import type { ToolContext } from './context.js';
+
+/**
+ * Register all snapshot tools
+ */
+export function registerSnapshotTools(
+  server: McpServer,
+  client: MetaAdsClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Snapshot Campaign
+  // ===========================================================================
+  server.tool(
+    'metaads_snapshot_campaign',
+    `Save the full state of a campaign so it can be restored with metaads_rollback.
+
+The snapshot holds the campaign, every ad set (status, budgets, schedule, bids and
+targeting) and every ad with its creative reference. Deleted objects are left out.
+
+Args:
+  - campaignId: The campaign to snapshot (required)
+  - label: Note to recognize the snapshot by, e.g. "before budget test"
+
+Returns:
+  The snapshot ID, campaign name and number of ad sets and ads captured.`,
+    {
+      campaignId: z.string().describe('Campaign ID to snapshot'),
+      label: z.string().max(200).optional().describe('Note to recognize the snapshot by'),
+    },
+    async ({ campaignId, label }, { signal }) => {
+      try {
+        const store = requireSnapshotStore(context);
+        const scoped = client.withSignal(signal);
+        const snapshot = toSnapshot(await scoped.getCampaignTree(campaignId), label);
+        await store.save(await scoped.getTenantId(), snapshot);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Snapshot saved', snapshot: summarizeSnapshot(snapshot) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Snapshots
+  // ===========================================================================
+  server.tool(
+    'metaads_list_snapshots',
+    `List saved campaign snapshots, newest first.
+
+Args:
+  - campaignId: Only snapshots of this campaign
+  - limit: Number of snapshots to return (1-100, default: 25)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Snapshots with id, campaignId, accountId, campaignName, label, adSetCount,
+  adCount and createdAt.`,
+    {
+      campaignId: z.string().optional().describe('Campaign ID to filter by'),
+      limit: z.number().int().min(1).max(100).default(25).describe('Number of snapshots'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ campaignId, limit, format }, { signal }) => {
+      try {
+        const store = requireSnapshotStore(context);
+        const snapshots = await store.list({
+          tenant: await client.withSignal(signal).getTenantId(),
+          campaignId,
+          limit,
+        });
+        return formatResponse({ data: snapshots }, format, 'snapshots');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Rollback
+  // ===========================================================================
+  server.tool(
+    'metaads_rollback',
+    `Restore a campaign to a saved snapshot.
+
+Compares the snapshot with the live campaign and updates whatever differs:
+statuses, budgets, bid amounts and strategies, schedules, targeting and ad
+creatives. Ad sets and ads created after the snapshot are paused. The live state
+is snapshotted first, so a rollback can itself be undone.
+
+Deleted objects, creatives that no longer exist and fields that were set after the
+snapshot (and cannot be cleared) are reported as issues instead of being skipped
+silently.
+
+Args:
+  - snapshotId: The snapshot to restore (required)
+  - dryRun: Only report the planned updates and issues; nothing is changed (default: false)
+  - pauseNewObjects: Pause ad sets and ads created after the snapshot (default: true)
+
+Returns:
+  Per object, the fields restored (live value as before, snapshot value as after) and
+  whether the update succeeded; the issues that could not be restored; and the ID of
+  the snapshot taken before rolling back.`,
+    {
+      snapshotId: z.string().describe('Snapshot ID to restore'),
+      dryRun: z.boolean().default(false).describe('Plan only; nothing is changed'),
+      pauseNewObjects: z
+        .boolean()
+        .default(true)
+        .describe('Pause ad sets and ads created after the snapshot'),
+    },
+    async ({ snapshotId, dryRun, pauseNewObjects }, { signal }) => {
+      try {
+        const store = requireSnapshotStore(context);
+        const scoped = client.withSignal(signal);
+        const tenant = await scoped.getTenantId();
+        const snapshot = await store.get(tenant, snapshotId);
+        if (!snapshot) {
+          throw new NotFoundError('Snapshot', snapshotId);
+        }
+
+        const live = await scoped.getCampaignTree(snapshot.campaignId);
+        const plan = planRollback(snapshot.tree, live, {
+          pauseNewObjects,
+          missingCreatives: await findMissingCreatives(scoped, snapshot.tree, live),
+        });
+
+        if (dryRun) {
+          return rollbackResponse({
+            success: true,
+            dryRun: true,
+            message: `${plan.actions.length} updates planned and ${plan.issues.length} issues found; nothing was changed`,
+            actions: plan.actions,
+            issues: plan.issues,
+          });
+        }
+
+        const backup = toSnapshot(live, `Before rollback to ${snapshot.id}`);
+        await store.save(tenant, backup);
+        const results = await applyRollback(scoped, plan.actions);
+        const failed = results.filter((result) => !result.success).length;
+        return rollbackResponse({
+          success: failed === 0,
+          message: `Restored ${results.length - failed} of ${results.length} objects`,
+          preRollbackSnapshotId: backup.id,
+          results,
+          issues: plan.issues,
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+function requireSnapshotStore(context: ToolContext): SnapshotStore {
+  if (!context.snapshots) {
+    throw new MetaAdsApiError(
+      'Snapshots are not configured; bind a D1 database as DB to enable them',
+      undefined,
+      'SNAPSHOTS_UNAVAILABLE'
+    );
+  }
+  return context.snapshots;
+}
+
+function toSnapshot(tree: CampaignTree, label?: string): CampaignSnapshot {
+  const accountId = tree.campaign.account_id;
+  return {
+    id: crypto.randomUUID(),
+    campaignId: tree.campaign.id,
+    accountId: accountId.startsWith('act_') ? accountId : `act_${accountId}`,
+    label,
+    createdAt: new Date().toISOString(),
+    tree,
+  };
+}
+
+function rollbackResponse(body: Record<string, unknown>) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body, null, 2) }],
+  };
+}
+
+/**
+ * Check which snapshot creatives a rollback would switch ads back to no longer exist
+ */
+async function findMissingCreatives(
+  client: MetaAdsClient,
+  snapshot: CampaignTree,
+  live: CampaignTree
+): Promise<Set<string>> {
+  const liveCreatives = new Map(
+    live.adSets.flatMap((adSet) => adSet.ads).map((ad) => [ad.id, ad.creative?.id])
+  );
+  const candidates = [
+    ...new Set(
+      snapshot.adSets
+        .flatMap((adSet) => adSet.ads)
+        .filter((ad) => liveCreatives.has(ad.id) && ad.creative?.id !== liveCreatives.get(ad.id))
+        .flatMap((ad) => (ad.creative?.id ? [ad.creative.id] : []))
+    ),
+  ];
+
+  const missing = new Set<string>();
+  for (let i = 0; i < candidates.length; i += MAX_BATCH_SIZE) {
+    const chunk = candidates.slice(i, i + MAX_BATCH_SIZE);
+    const responses = await client.batch(
+      chunk.map((id) => ({ method: 'GET' as const, relativeUrl: id, params: { fields: 'id' } }))
+    );
+    chunk.forEach((id, index) => {
+      if (!responses[index]?.success) missing.add(id);
+    });
+  }
+  return missing;
+}
+
+/**
+ * Send the planned updates in batches; each object succeeds or fails on its own,
+ * and the tenant policy checks each one
+ */
+async function applyRollback(client: MetaAdsClient, actions: RollbackAction[]) {
+  const results: Array<RollbackAction & { success: boolean; error?: Record<string, unknown> }> = [];
+  for (let i = 0; i < actions.length; i += MAX_BATCH_SIZE) {
+    const chunk = actions.slice(i, i + MAX_BATCH_SIZE);
+    const responses = await client.updateObjects(chunk);
+    chunk.forEach((action, index) => {
+      const response = responses[index];
+      results.push({
+        ...action,
+        success: response?.success ?? false,
+        ...(response?.error && { error: formatErrorForLogging(response.error) }),
+      });
+    });
+  }
+  return results;
+}
@@ -62,9 +62,9 @@ Returns:
       query: z.string().describe('Search query'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, type, query, format }) => {
+    async ({ accountId, type, query, format }, { signal }) => {
       try {
-        const results = await client.searchTargeting(accountId, type, query);
+        const results = await client.withSignal(signal).searchTargeting(accountId, type, query);
         return formatResponse({ data: results }, format, 'targeting');
       } catch (error) {
         return formatError(error);
@@ -84,6 +84,7 @@ Get a list of available targeting categories for a given type.
 Args:
   - accountId: The ad account ID (required)
   - type: Type of targeting categories (required)
+  - noCache: Bypass the cache and fetch fresh data
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -91,11 +92,14 @@ Returns:
     {
       accountId: z.string().describe('Ad account ID'),
       type: TargetingTypeEnum.describe('Type of targeting categories'),
+      noCache: z.boolean().optional().describe('Bypass the cache and fetch fresh data'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, type, format }) => {
+    async ({ accountId, type, noCache, format }, { signal }) => {
       try {
-        const results = await client.getTargetingCategories(accountId, type);
+        const results = await client
+          .withSignal(signal)
+          .getTargetingCategories(accountId, type, { noCache });
         return formatResponse({ data: results }, format, 'targeting_categories');
       } catch (error) {
         return formatError(error);
@@ -132,13 +136,11 @@ Returns:
       optimizationGoal: z.string().describe('Optimization goal'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, targeting, optimizationGoal, format }) => {
+    async ({ accountId, targeting, optimizationGoal, format }, { signal }) => {
       try {
-        const estimate = await client.getDeliveryEstimate(
-          accountId,
-          targeting as Targeting,
-          optimizationGoal
-        );
+        const estimate = await client
+          .withSignal(signal)
+          .getDeliveryEstimate(accountId, targeting as Targeting, optimizationGoal);
         return formatResponse(estimate, format, 'delivery_estimate');
       } catch (error) {
         return formatError(error);
@@ -167,9 +169,11 @@ Returns:
       predictionId: z.string().describe('Prediction ID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ accountId, predictionId, format }) => {
+    async ({ accountId, predictionId, format }, { signal }) => {
       try {
-        const prediction = await client.getReachFrequencyPrediction(accountId, predictionId);
+        const prediction = await client
+          .withSignal(signal)
+          .getReachFrequencyPrediction(accountId, predictionId);
         return formatResponse(prediction, format, 'reach_frequency_prediction');
       } catch (error) {
         return formatError(error);
@@ -211,17 +215,20 @@ Returns:
       frequencyCap: z.number().int().optional().describe('Frequency cap'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({
-      accountId,
-      targetSpec,
-      startTime,
-      stopTime,
-      objective,
-      budget,
-      reach,
-      frequencyCap,
-      format,
-    }) => {
+    async (
+      {
+        accountId,
+        targetSpec,
+        startTime,
+        stopTime,
+        objective,
+        budget,
+        reach,
+        frequencyCap,
+        format,
+      },
+      { signal }
+    ) => {
       try {
         const params: Record<string, unknown> = {
           target_spec: JSON.stringify(targetSpec),
@@ -234,7 +241,9 @@ Returns:
         if (reach) params.reach = reach;
         if (frequencyCap) params.frequency_cap = frequencyCap;
 
-        const prediction = await client.createReachFrequencyPrediction(accountId, params);
+        const prediction = await client
+          .withSignal(signal)
+          .createReachFrequencyPrediction(accountId, params);
         return formatResponse(prediction, format, 'reach_frequency_prediction');
       } catch (error) {
         return formatError(error);
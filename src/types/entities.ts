@@ -14,6 +14,8 @@
  * - Insights/Reporting
  */
 
+import type { MetaAdsApiError } from '../utils/errors.js';
+
 // =============================================================================
 // Pagination
 // =============================================================================
@@ -90,6 +92,51 @@ export type AdAccountStatus = 1 | 2 | 3 | 7 | 8 | 9 | 100 | 101 | 201 | 202;
 // 1=ACTIVE, 2=DISABLED, 3=UNSETTLED, 7=PENDING_RISK_REVIEW, 8=PENDING_SETTLEMENT
 // 9=IN_GRACE_PERIOD, 100=PENDING_CLOSURE, 101=CLOSED, 201=ANY_ACTIVE, 202=ANY_CLOSED
 
+// =============================================================================
+// Account Activity
+// =============================================================================
+
+/**
+ * A change recorded in an ad account's activity history, whoever made it
+ */
+export interface AccountActivity {
+  actor_id?: string;
+  actor_name?: string;
+  application_id?: string;
+  application_name?: string;
+  date_time_in_timezone?: string;
+  event_time: string;
+  event_type: string;
+  /** JSON string, usually holding old_value and new_value */
+  extra_data?: string;
+  object_id?: string;
+  object_name?: string;
+  object_type?: string;
+  translated_event_type?: string;
+}
+
+export type AccountActivityCategory =
+  | 'ACCOUNT'
+  | 'AD'
+  | 'AD_SET'
+  | 'AUDIENCE'
+  | 'BID'
+  | 'BUDGET'
+  | 'CAMPAIGN'
+  | 'DATE'
+  | 'STATUS'
+  | 'TARGETING';
+
+export interface AccountActivityFilters {
+  /** Start of the time range (ISO 8601 or Unix timestamp) */
+  since?: string;
+  /** End of the time range (ISO 8601 or Unix timestamp) */
+  until?: string;
+  category?: AccountActivityCategory;
+  /** Only activity on this object */
+  oid?: string;
+}
+
 // =============================================================================
 // Campaign
 // =============================================================================
@@ -589,10 +636,15 @@ export interface AdRecommendation {
   title?: string;
 }
 
+/** An existing creative, referenced by ID instead of a new creative spec */
+export interface AdCreativeReference {
+  creative_id: string;
+}
+
 export interface AdCreateInput {
   adset_id: string;
   name: string;
-  creative: AdCreativeInput;
+  creative: AdCreativeInput | AdCreativeReference;
   status?: AdStatus;
   tracking_specs?: TrackingSpec[];
   conversion_specs?: ConversionSpec[];
@@ -601,7 +653,7 @@ export interface AdCreateInput {
 export interface AdUpdateInput {
   name?: string;
   status?: AdStatus;
-  creative?: AdCreativeInput;
+  creative?: AdCreativeInput | AdCreativeReference;
   tracking_specs?: TrackingSpec[];
 }
 
@@ -836,6 +888,13 @@ export interface AdVideo {
   updated_time?: string;
 }
 
+/** Byte range Meta expects next during a chunked video upload */
+export interface VideoUploadSession {
+  upload_session_id: string;
+  start_offset: string;
+  end_offset: string;
+}
+
 // =============================================================================
 // Custom Audience
 // =============================================================================
@@ -945,6 +1004,285 @@ export interface CustomAudienceUpdateInput {
   opt_out_link?: string;
 }
 
+// =============================================================================
+// Ad Rules
+// =============================================================================
+
+export type AdRuleStatus = 'ENABLED' | 'DISABLED' | 'DELETED';
+
+export type AdRuleEvaluationType = 'SCHEDULE' | 'TRIGGER';
+
+export type AdRuleExecutionType = 'PAUSE' | 'UNPAUSE' | 'CHANGE_BUDGET' | 'NOTIFICATION';
+
+export type AdRuleOperator =
+  | 'GREATER_THAN'
+  | 'LESS_THAN'
+  | 'EQUAL'
+  | 'NOT_EQUAL'
+  | 'IN_RANGE'
+  | 'NOT_IN_RANGE'
+  | 'IN'
+  | 'NOT_IN'
+  | 'CONTAIN'
+  | 'NOT_CONTAIN'
+  | 'ANY'
+  | 'ALL'
+  | 'NONE';
+
+/**
+ * A condition a rule checks, e.g. { field: 'spent', operator: 'GREATER_THAN', value: 5000 }.
+ * Money values are in cents.
+ */
+export interface AdRuleFilter {
+  field: string;
+  operator: AdRuleOperator;
+  value: unknown;
+}
+
+export interface AdRuleTrigger {
+  type:
+    | 'METADATA_CREATION'
+    | 'METADATA_UPDATE'
+    | 'STATS_MILESTONE'
+    | 'STATS_CHANGE'
+    | 'DELIVERY_INSIGHTS_CHANGE';
+  field?: string;
+  operator?: AdRuleOperator;
+  value?: unknown;
+}
+
+/** What a rule checks, and when */
+export interface AdRuleEvaluationSpec {
+  evaluation_type: AdRuleEvaluationType;
+  filters: AdRuleFilter[];
+  /** The event that makes a TRIGGER rule check its filters */
+  trigger?: AdRuleTrigger;
+}
+
+/** How CHANGE_BUDGET changes a budget */
+export interface AdRuleChangeSpec {
+  /** Percentage or amount in cents; negative to decrease */
+  amount: number;
+  unit: 'PERCENTAGE' | 'ACCOUNT_CURRENCY';
+  /** Budget never goes past this amount, in cents */
+  limit?: number;
+}
+
+export interface AdRuleExecutionOption {
+  /** e.g. change_spec (CHANGE_BUDGET), user_ids (NOTIFICATION), action_frequency (minutes) */
+  field: string;
+  operator: 'EQUAL' | 'IN';
+  value: unknown;
+}
+
+/** What a rule does to the objects its filters match */
+export interface AdRuleExecutionSpec {
+  execution_type: AdRuleExecutionType;
+  execution_options?: AdRuleExecutionOption[];
+}
+
+/** When a SCHEDULE rule runs */
+export interface AdRuleScheduleSpec {
+  schedule_type: 'DAILY' | 'HOURLY' | 'SEMI_HOURLY' | 'CUSTOM';
+  /** CUSTOM only: days (0 = Sunday) and minutes of the day in the account's time zone */
+  schedule?: Array<{ days: number[]; start_minute?: number; end_minute?: number }>;
+}
+
+/**
+ * A Meta automated rule from an ad account's rules library
+ */
+export interface AdRule {
+  id: string;
+  account_id?: string;
+  name: string;
+  status: AdRuleStatus;
+  evaluation_spec: AdRuleEvaluationSpec;
+  execution_spec: AdRuleExecutionSpec;
+  schedule_spec?: AdRuleScheduleSpec;
+  created_by?: {
+    id: string;
+    name: string;
+  };
+  created_time?: string;
+  updated_time?: string;
+}
+
+export interface AdRuleCreateInput {
+  name: string;
+  evaluation_spec: AdRuleEvaluationSpec;
+  execution_spec: AdRuleExecutionSpec;
+  schedule_spec?: AdRuleScheduleSpec;
+  status?: Exclude<AdRuleStatus, 'DELETED'>;
+}
+
+export type AdRuleUpdateInput = Partial<AdRuleCreateInput>;
+
+/** Objects a rule's filters match right now */
+export interface AdRulePreview {
+  results?: Array<{ id: string; name?: string } & Record<string, unknown>>;
+}
+
+/** One run of a rule, with what it did to each object it matched */
+export interface AdRuleHistory {
+  timestamp: string;
+  /** Whether the run was started by hand rather than by the schedule or trigger */
+  is_manual?: boolean;
+  evaluation_spec?: AdRuleEvaluationSpec;
+  execution_spec?: AdRuleExecutionSpec;
+  schedule_spec?: AdRuleScheduleSpec;
+  exception_code?: number;
+  exception_message?: string;
+  results?: Array<{
+    object_id: string;
+    object_type: string;
+    actions?: Array<{
+      action: string;
+      field?: string;
+      old_value?: string;
+      new_value?: string;
+      error_code?: number;
+      error_message?: string;
+    }>;
+  }>;
+}
+
+export interface AdRuleHistoryFilters {
+  /** Only runs that took this action, e.g. PAUSE */
+  action?: string;
+  /** Only runs that acted on this object */
+  objectId?: string;
+  /** Leave out runs that matched no objects */
+  hideNoChanges?: boolean;
+}
+
+// =============================================================================
+// Automation Rules (evaluated by this server on a schedule)
+// =============================================================================
+
+export type AutomationRuleLevel = 'adset' | 'ad';
+
+/**
+ * Metrics a rule can test. Money (spend, cpc, cpm, cpa) is in cents, ctr is a
+ * percentage and roas is conversion value divided by spend.
+ */
+export type AutomationMetric =
+  | 'spend'
+  | 'impressions'
+  | 'clicks'
+  | 'conversions'
+  | 'ctr'
+  | 'cpc'
+  | 'cpm'
+  | 'cpa'
+  | 'roas';
+
+export type AutomationOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+export type AutomationDatePreset =
+  | 'today'
+  | 'yesterday'
+  | 'last_3d'
+  | 'last_7d'
+  | 'last_14d'
+  | 'last_28d'
+  | 'last_30d';
+
+export interface AutomationCondition {
+  metric: AutomationMetric;
+  operator: AutomationOperator;
+  /** Threshold, or a multiplier of the ad set's value when relativeTo is 'adset' */
+  value: number;
+  /** Compare each ad with its ad set's value of the same metric (ad-level rules) */
+  relativeTo?: 'adset';
+}
+
+export type AutomationAction =
+  | { type: 'pause' }
+  | {
+      type: 'change_budget';
+      /** Percentage to raise (or, when negative, lower) the ad set budget by */
+      percent: number;
+      /** Never raise the budget above this many cents */
+      maxBudget?: number;
+      /** Never lower the budget below this many cents */
+      minBudget?: number;
+    };
+
+export interface AutomationRuleInput {
+  name: string;
+  accountId: string;
+  level: AutomationRuleLevel;
+  /** Only evaluate ad sets and ads in these campaigns */
+  campaignIds?: string[];
+  /** Insights window the conditions are evaluated over */
+  datePreset: AutomationDatePreset;
+  /** Action type counted as a conversion for conversions, cpa and roas */
+  conversionEvent: string;
+  /** Every condition must hold for the action to be taken */
+  conditions: AutomationCondition[];
+  action: AutomationAction;
+  /** Minimum hours between scheduled runs */
+  intervalHours: number;
+  enabled: boolean;
+}
+
+export interface AutomationRule extends AutomationRuleInput {
+  id: string;
+  /** ISO 8601 time of the last run that could take actions */
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AutomationMetrics = Partial<Record<AutomationMetric, number>>;
+
+export interface AutomationConditionResult extends AutomationCondition {
+  /** Value the metric was compared with; null when the ad set has no value */
+  threshold: number | null;
+  /** The object's value; null when it has none (e.g. roas without spend) */
+  actual: number | null;
+  met: boolean;
+}
+
+export interface AutomationEvaluation {
+  objectType: AutomationRuleLevel;
+  id: string;
+  name: string;
+  adSetId: string;
+  metrics: AutomationMetrics;
+  conditions: AutomationConditionResult[];
+  matched: boolean;
+}
+
+export interface AutomationActionResult {
+  objectType: AutomationRuleLevel;
+  id: string;
+  name: string;
+  action: AutomationAction['type'];
+  /** The update sent, or that would have been sent in simulate-only runs */
+  params: Record<string, unknown>;
+  simulated: boolean;
+  success: boolean;
+  changes?: FieldChange[];
+  /** Why no update was sent, e.g. the ad set has no budget of its own */
+  skipped?: string;
+  error?: Record<string, unknown>;
+}
+
+export interface AutomationRun {
+  id: string;
+  ruleId: string;
+  trigger: 'schedule' | 'manual';
+  /** Actions were logged but not applied */
+  simulated: boolean;
+  startedAt: string;
+  finishedAt: string;
+  evaluations: AutomationEvaluation[];
+  actions: AutomationActionResult[];
+  /** Set when the run stopped early, e.g. the stored access token expired */
+  error?: Record<string, unknown>;
+}
+
 // =============================================================================
 // Pixel
 // =============================================================================
@@ -978,6 +1316,11 @@ export interface PixelCreateInput {
   name: string;
 }
 
+export interface PixelUpdateInput {
+  name?: string;
+  enable_automatic_matching?: boolean;
+}
+
 // =============================================================================
 // Product Catalog
 // =============================================================================
@@ -1164,6 +1507,26 @@ export interface InsightsFilter {
   value: string | number | string[] | number[];
 }
 
+export type AsyncReportStatus =
+  | 'Job Not Started'
+  | 'Job Started'
+  | 'Job Running'
+  | 'Job Completed'
+  | 'Job Failed'
+  | 'Job Skipped';
+
+export interface InsightsReportRun {
+  id: string;
+  account_id?: string;
+  async_status: AsyncReportStatus;
+  async_percent_completion: number;
+  date_start?: string;
+  date_stop?: string;
+  time_ref?: number;
+  time_completed?: number;
+  is_running?: boolean;
+}
+
 export interface Insights {
   account_currency?: string;
   account_id?: string;
@@ -1339,6 +1702,458 @@ export interface Business {
   vertical_id?: number;
 }
 
+// =============================================================================
+// Batch Requests
+// =============================================================================
+
+/** A single sub-request of a Graph API batch call */
+export interface BatchOperation {
+  method: 'GET' | 'POST' | 'DELETE';
+  /** Path relative to the API version, e.g. "act_123/campaigns" or "{result=create:$.id}" */
+  relativeUrl: string;
+  /** Query parameters (GET/DELETE) or body parameters (POST) */
+  params?: Record<string, unknown>;
+  /** Name other operations can reference through JSONPath, e.g. {result=name:$.id} */
+  name?: string;
+  /** Name of an operation that must complete first */
+  dependsOn?: string;
+  /** Drop the response body when the operation succeeds */
+  omitResponseOnSuccess?: boolean;
+}
+
+/** Outcome of a single batch sub-request */
+export interface BatchResult<T = unknown> {
+  index: number;
+  name?: string;
+  /** HTTP status of the sub-request, or null when Meta did not run it */
+  status: number | null;
+  success: boolean;
+  data?: T;
+  error?: MetaAdsApiError;
+}
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+/** One field that differs between two versions of an object */
+export interface FieldChange {
+  /** Dotted path, e.g. "daily_budget" or "targeting.geo_locations.countries" */
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/** An object before and after an update, with the fields that changed */
+export interface UpdateResult<T> {
+  /** Unset when the object could not be read before the update */
+  before?: T;
+  after: T;
+  changes: FieldChange[];
+}
+
+// =============================================================================
+// Dry Runs
+// =============================================================================
+
+/** A suggestion Meta returns with execution_options=include_recommendations */
+export interface MutationRecommendation {
+  code?: number;
+  title?: string;
+  message?: string;
+  importance?: string;
+  confidence?: string;
+  /** Field the recommendation is about */
+  blame_field?: string;
+}
+
+/** Outcome of a create or update sent with execution_options=validate_only */
+export interface DryRunResult {
+  success: boolean;
+  recommendations?: MutationRecommendation[];
+}
+
+// =============================================================================
+// Copies
+// =============================================================================
+
+export type CopyStatusOption = 'ACTIVE' | 'PAUSED' | 'INHERITED_FROM_SOURCE';
+
+export interface CopyRenameOptions {
+  /** Which copied objects get the prefix/suffix (default: ONLY_TOP_LEVEL_RENAME) */
+  rename_strategy?: 'DEEP_RENAME' | 'ONLY_TOP_LEVEL_RENAME' | 'NO_RENAME';
+  rename_prefix?: string;
+  rename_suffix?: string;
+}
+
+export interface CampaignCopyInput {
+  /** Also copy the ad sets and ads underneath */
+  deep_copy?: boolean;
+  status_option?: CopyStatusOption;
+  rename_options?: CopyRenameOptions;
+  /** Schedule overrides applied to the copied ad sets */
+  start_time?: string;
+  end_time?: string;
+}
+
+export interface AdSetCopyInput extends CampaignCopyInput {
+  /** Campaign to copy into (default: the source ad set's campaign) */
+  campaign_id?: string;
+}
+
+export interface AdCopyInput {
+  /** Ad set to copy into (default: the source ad's ad set) */
+  adset_id?: string;
+  status_option?: CopyStatusOption;
+  rename_options?: CopyRenameOptions;
+}
+
+/** A source object and its copy */
+export interface CopiedObjectId {
+  ad_object_type: 'campaign' | 'ad_set' | 'ad' | string;
+  source_id: string;
+  copied_id: string;
+}
+
+export interface CopyResult {
+  /** ID of the top-level copy */
+  copied_id: string;
+  /** Every object created by the copy, including the top-level one */
+  ad_object_ids: CopiedObjectId[];
+  /** Set when the copy was too large to run synchronously */
+  async_request_set_id?: string;
+}
+
+/** Graph async batch request set (act_{id}/async_batch_requests) */
+export interface AsyncRequestSet {
+  id: string;
+  name?: string;
+  is_completed: boolean;
+  total_count?: number;
+  in_progress_count?: number;
+  success_count?: number;
+  error_count?: number;
+  canceled_count?: number;
+}
+
+/** One request of an async batch request set */
+export interface AsyncRequest {
+  id: string;
+  status: 'INITIAL' | 'IN_PROGRESS' | 'SUCCESS' | 'ERROR' | 'CANCELED' | 'PENDING_DEPENDENCY' | string;
+  result?: Record<string, unknown> | string;
+  input?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Bulk Updates
+// =============================================================================
+
+export type BulkUpdateObjectType = 'campaign' | 'adset' | 'ad';
+
+/** Changes applied to every object of a bulk update */
+export interface BulkUpdatePatch {
+  status?: 'ACTIVE' | 'PAUSED' | 'ARCHIVED';
+  /** New daily budget in cents (campaigns and ad sets) */
+  daily_budget?: number;
+  /** Scale each object's current daily or lifetime budget, e.g. 20 for +20% or -10 for -10% */
+  budget_scale_percent?: number;
+  /** Bid amount in cents (ad sets only) */
+  bid_amount?: number;
+  /** End time, sent as stop_time for campaigns (campaigns and ad sets) */
+  end_time?: string;
+}
+
+/** New parameters for one campaign, ad set or ad, sent in a batch */
+export interface ObjectUpdate {
+  objectType: BulkUpdateObjectType;
+  id: string;
+  params: Record<string, unknown>;
+}
+
+/** Outcome of one object of a bulk update */
+export interface BulkUpdateResult {
+  id: string;
+  success: boolean;
+  /** Parameters sent for this object */
+  params?: Record<string, string | number>;
+  /** Budgets before a percentage change */
+  previous?: { daily_budget?: string; lifetime_budget?: string };
+  /** Meta's suggestions when the update was only validated */
+  recommendations?: MutationRecommendation[];
+  error?: MetaAdsApiError;
+}
+
+// =============================================================================
+// Campaign Trees
+// =============================================================================
+
+export type TreeObjectType = 'campaign' | 'adset' | 'ad';
+
+/** An ad set together with its ads */
+export type AdSetWithAds = AdSet & { ads: Ad[] };
+
+/** A campaign with every ad set and ad under it (deleted objects excluded) */
+export interface CampaignTree {
+  campaign: Campaign;
+  adSets: AdSetWithAds[];
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+/** Stored copy of a campaign tree, for rolling back later changes */
+export interface CampaignSnapshot {
+  id: string;
+  campaignId: string;
+  accountId: string;
+  label?: string;
+  /** ISO 8601 time the snapshot was taken */
+  createdAt: string;
+  tree: CampaignTree;
+}
+
+/** A snapshot without its tree, as listed */
+export interface CampaignSnapshotSummary extends Omit<CampaignSnapshot, 'tree'> {
+  campaignName: string;
+  adSetCount: number;
+  adCount: number;
+}
+
+/** One update that moves a live object back to its snapshot state */
+export interface RollbackAction {
+  objectType: TreeObjectType;
+  id: string;
+  name: string;
+  /** Parameters sent to restore the object */
+  params: Record<string, unknown>;
+  /** Live value (before) and snapshot value (after) of each restored field */
+  changes: FieldChange[];
+  /** Set when the object is not part of the snapshot */
+  reason?: string;
+}
+
+/** Something a rollback cannot restore */
+export interface RollbackIssue {
+  objectType: TreeObjectType;
+  id: string;
+  name: string;
+  reason: string;
+}
+
+export interface RollbackPlan {
+  actions: RollbackAction[];
+  issues: RollbackIssue[];
+}
+
+// =============================================================================
+// Campaign Documents
+// =============================================================================
+
+/** An ad as written in a campaign document */
+export interface AdSpec extends Omit<AdCreateInput, 'adset_id'> {
+  /** Live ad this entry describes; matched by name within the ad set when unset */
+  id?: string;
+}
+
+/** An ad set as written in a campaign document */
+export interface AdSetSpec extends Omit<AdSetCreateInput, 'campaign_id'> {
+  /** Live ad set this entry describes; matched by name within the campaign when unset */
+  id?: string;
+  ads?: AdSpec[];
+}
+
+/** The campaign as written in a campaign document */
+export interface CampaignSpec extends CampaignCreateInput {
+  /** Live campaign this document describes; a new campaign is created when unset */
+  id?: string;
+  ad_sets?: AdSetSpec[];
+}
+
+/** Declarative campaign → ad sets → ads tree, written as JSON or YAML */
+export interface CampaignDocument {
+  version: 1;
+  account_id: string;
+  campaign: CampaignSpec;
+}
+
+export type PlanAction = 'create' | 'update' | 'pause';
+
+/** Fields every campaign document plan step has */
+interface PlanStepFields {
+  /** Location in the document, e.g. "campaign.ad_sets[0].ads[1]"; unset for pauses */
+  path?: string;
+  /** Live object ID (unset for creates) */
+  id?: string;
+  name: string;
+  /** Field-level changes; every field is "added" for creates */
+  changes: FieldChange[];
+}
+
+/**
+ * One change needed to bring the live account in line with a campaign document.
+ * `params` are sent to create or update the object; a new ad set or ad has no
+ * parent ID when its parent is created earlier in the plan.
+ */
+export type PlanStep = PlanStepFields &
+  (
+    | { action: 'create'; objectType: 'campaign'; params: CampaignCreateInput }
+    | {
+        action: 'create';
+        objectType: 'adset';
+        params: Omit<AdSetCreateInput, 'campaign_id'> & { campaign_id?: string };
+      }
+    | {
+        action: 'create';
+        objectType: 'ad';
+        params: Omit<AdCreateInput, 'adset_id'> & { adset_id?: string };
+      }
+    | { action: 'update' | 'pause'; objectType: 'campaign'; params: CampaignUpdateInput }
+    | { action: 'update' | 'pause'; objectType: 'adset'; params: AdSetUpdateInput }
+    | { action: 'update' | 'pause'; objectType: 'ad'; params: AdUpdateInput }
+  );
+
+/** A plan step after it ran; `id` is the new object's ID for creates */
+export type PlanStepResult = PlanStep & {
+  success: boolean;
+  error?: Record<string, unknown>;
+};
+
+/** A document field the plan cannot apply */
+export interface PlanIssue {
+  objectType: TreeObjectType;
+  path: string;
+  id?: string;
+  name: string;
+  reason: string;
+}
+
+/** Steps in dependency order, each object after its parent */
+export interface CampaignPlan {
+  accountId: string;
+  /** Unset when the campaign is created by the plan */
+  campaignId?: string;
+  steps: PlanStep[];
+  issues: PlanIssue[];
+}
+
+// =============================================================================
+// Cross-Account Clones
+// =============================================================================
+
+/** Account-scoped assets a campaign references by ID */
+export type CloneAssetType = 'pixel' | 'page' | 'audience' | 'image' | 'video' | 'creative';
+
+/** Source → target ID maps for the assets a clone cannot carry over by itself */
+export interface CloneAssetMaps {
+  pixels?: Record<string, string>;
+  /** Facebook page and Instagram account IDs */
+  pages?: Record<string, string>;
+  audiences?: Record<string, string>;
+  /** Source → target image hashes, filled in by re-uploading the images */
+  images?: Record<string, string>;
+}
+
+/** An asset ID the clone could not translate to the target account */
+export interface UnmappedAsset {
+  assetType: CloneAssetType;
+  /** Empty for an ad that has no creative */
+  id: string;
+  /** Document path of the field holding the ID, e.g. "campaign.ad_sets[0].promoted_object.pixel_id" */
+  path: string;
+  /** Name of the campaign, ad set or ad that references the asset */
+  name: string;
+  reason?: string;
+}
+
+// =============================================================================
+// Launches
+// =============================================================================
+
+/** A campaign with one ad set, creative and ad, created together */
+export interface LaunchInput {
+  campaign: Omit<CampaignCreateInput, 'status'>;
+  adSet: Omit<AdSetCreateInput, 'campaign_id' | 'status'>;
+  creative: AdCreativeInput;
+  ad: Omit<AdCreateInput, 'adset_id' | 'creative' | 'status'>;
+  /** Set the ad, ad set and campaign ACTIVE once all of them exist */
+  activate?: boolean;
+}
+
+/** Launch steps, in the order they run */
+export type LaunchStep = 'campaign' | 'adset' | 'creative' | 'ad' | 'activate';
+
+/** An object created by a launch, deleted again when a later step fails */
+export interface LaunchObject {
+  objectType: Exclude<LaunchStep, 'activate'>;
+  id: string;
+  name?: string;
+}
+
+export interface LaunchRollbackResult extends LaunchObject {
+  deleted: boolean;
+  /** Archived instead of deleted, because the tenant policy asks for it */
+  archived?: boolean;
+  error?: Record<string, unknown>;
+}
+
+export interface LaunchResult {
+  success: boolean;
+  /** Status of the launched objects: ACTIVE when activated, otherwise PAUSED */
+  status?: 'ACTIVE' | 'PAUSED';
+  campaignId?: string;
+  adSetId?: string;
+  creativeId?: string;
+  adId?: string;
+  /** The step that failed; every object created before it was rolled back */
+  failedStep?: LaunchStep;
+  error?: Record<string, unknown>;
+  rolledBack?: LaunchRollbackResult[];
+}
+
+// =============================================================================
+// Rate Limit Usage
+// =============================================================================
+
+/** Parsed X-App-Usage header (values are percentages of the app's limit) */
+export interface AppUsage {
+  call_count: number;
+  total_cputime: number;
+  total_time: number;
+}
+
+/** Parsed X-Ad-Account-Usage header */
+export interface AdAccountUsage {
+  /** Percentage of the ad account's call budget used */
+  acc_id_util_pct: number;
+  /** Seconds until the current throttling window resets */
+  reset_time_duration: number;
+  ads_api_access_tier?: string;
+}
+
+/** One use-case entry from the X-Business-Use-Case-Usage header */
+export interface BusinessUseCaseUsage {
+  type: string;
+  call_count: number;
+  total_cputime: number;
+  total_time: number;
+  /** Minutes until access is regained once throttled (0 when not throttled) */
+  estimated_time_to_regain_access: number;
+  ads_api_access_tier?: string;
+}
+
+/** Latest usage reported by Meta for the current tenant */
+export interface RateLimitStatus {
+  app?: AppUsage;
+  /** Keyed by ad account ID (act_XXXX) */
+  adAccounts: Record<string, AdAccountUsage>;
+  /** Keyed by business (or ad account) ID, as reported by Meta */
+  businesses: Record<string, BusinessUseCaseUsage[]>;
+  /** Time of the last response that carried usage headers */
+  updatedAt?: string;
+}
+
 // =============================================================================
 // Response Format
 // =============================================================================
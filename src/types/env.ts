@@ -13,9 +13,15 @@
  * - X-Meta-Ad-Account-Id: Default ad account ID (act_XXXX format)
  * - X-Meta-Business-Id: Business Manager ID
  * - X-Meta-App-Id: App ID (for app-scoped tokens)
- * - X-Meta-App-Secret: App secret (for server-to-server)
+ * - X-Meta-App-Secret: App secret (signs every call with appsecret_proof)
+ * - X-Meta-Require-App-Secret-Proof: 'true' to reject requests without an app secret
+ * - X-Meta-Retry-Max-Attempts: Maximum attempts per Graph API call (default: 4)
+ * - X-Meta-Retry-Max-Wait-Ms: Total backoff budget in milliseconds (default: 30000)
+ * - X-Meta-Policy: Guardrail policy as JSON (budget limits, protected campaigns, ...)
  */
 
+import { DEFAULT_REQUEST_TIMEOUTS, type RequestTimeouts } from '../client.js';
+
 // =============================================================================
 // Tenant Credentials (parsed from request headers)
 // =============================================================================
@@ -36,8 +42,20 @@ export interface TenantCredentials {
   /** App secret for server-to-server auth (from X-Meta-App-Secret header) */
   appSecret?: string;
 
+  /** Whether appsecret_proof is mandatory (from X-Meta-Require-App-Secret-Proof header) */
+  requireAppSecretProof?: boolean;
+
   /** API version override (from X-Meta-Api-Version header) */
   apiVersion?: string;
+
+  /** Maximum attempts per Graph API call (from X-Meta-Retry-Max-Attempts header) */
+  retryMaxAttempts?: number;
+
+  /** Total time the client may spend waiting between retries (from X-Meta-Retry-Max-Wait-Ms header) */
+  retryMaxWaitMs?: number;
+
+  /** Guardrail policy as JSON, parsed with parseTenantPolicy (from X-Meta-Policy header) */
+  policy?: string;
 }
 
 /**
@@ -52,10 +70,23 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
     businessId: headers.get('X-Meta-Business-Id') || undefined,
     appId: headers.get('X-Meta-App-Id') || undefined,
     appSecret: headers.get('X-Meta-App-Secret') || undefined,
+    requireAppSecretProof: headers.get('X-Meta-Require-App-Secret-Proof')?.toLowerCase() === 'true',
     apiVersion: headers.get('X-Meta-Api-Version') || undefined,
+    retryMaxAttempts: parseOptionalInt(headers.get('X-Meta-Retry-Max-Attempts')),
+    retryMaxWaitMs: parseOptionalInt(headers.get('X-Meta-Retry-Max-Wait-Ms')),
+    policy: headers.get('X-Meta-Policy') || undefined,
   };
 }
 
+/**
+ * Parse an optional integer header value
+ */
+function parseOptionalInt(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 /**
  * Validate that required credentials are present
  */
@@ -63,6 +94,11 @@ export function validateCredentials(credentials: TenantCredentials): void {
   if (!credentials.accessToken) {
     throw new Error('Missing credentials. Provide X-Meta-Access-Token header.');
   }
+  if (credentials.requireAppSecretProof && !credentials.appSecret) {
+    throw new Error(
+      'Missing app secret. Provide X-Meta-App-Secret header when appsecret_proof is required.'
+    );
+  }
 }
 
 // =============================================================================
@@ -86,6 +122,28 @@ export interface Env {
   /** Meta API version (e.g., v21.0) */
   META_API_VERSION: string;
 
+  /** Timeout in milliseconds for most Graph API calls */
+  REQUEST_TIMEOUT_MS?: string;
+
+  /** Timeout in milliseconds for insights queries */
+  INSIGHTS_TIMEOUT_MS?: string;
+
+  /** Timeout in milliseconds for image and video uploads */
+  UPLOAD_TIMEOUT_MS?: string;
+
+  /** Timeout in milliseconds for batch requests */
+  BATCH_TIMEOUT_MS?: string;
+
+  /** 'true' to log the actions automation rules would take without applying them */
+  AUTOMATION_SIMULATE_ONLY?: string;
+
+  // ===========================================================================
+  // Secrets (from wrangler secret put)
+  // ===========================================================================
+
+  /** Key that encrypts the credentials stored with automation rules (rules are off when unset) */
+  AUTOMATION_ENCRYPTION_KEY?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
@@ -93,6 +151,12 @@ export interface Env {
   /** KV namespace for OAuth token storage */
   OAUTH_KV?: KVNamespace;
 
+  /** KV namespace for cached Graph API reads (caching is off when unbound) */
+  CACHE_KV?: KVNamespace;
+
+  /** D1 database for the audit log, snapshots and automation rules (all off when unbound) */
+  DB?: D1Database;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
@@ -137,9 +201,28 @@ export function getMaxPageSize(env: Env): number {
   return getEnvNumber(env, 'MAX_PAGE_SIZE', 100);
 }
 
+/**
+ * Get per-call-type Graph API timeouts from environment
+ */
+export function getRequestTimeouts(env: Env): RequestTimeouts {
+  return {
+    default: getEnvNumber(env, 'REQUEST_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUTS.default),
+    insights: getEnvNumber(env, 'INSIGHTS_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUTS.insights),
+    upload: getEnvNumber(env, 'UPLOAD_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUTS.upload),
+    batch: getEnvNumber(env, 'BATCH_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUTS.batch),
+  };
+}
+
 /**
  * Get the Meta API version from environment
  */
 export function getMetaApiVersion(env: Env): string {
   return env.META_API_VERSION || 'v21.0';
 }
+
+/**
+ * Whether automation rules only log the actions they would take
+ */
+export function isAutomationSimulateOnly(env: Env): boolean {
+  return env.AUTOMATION_SIMULATE_ONLY?.toLowerCase() === 'true';
+}
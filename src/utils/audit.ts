@@ -0,0 +1,226 @@
+/**
+ * Audit Log Utilities for Meta Ads API
+ *
+ * Records every create, update, delete and audience-membership call made through
+ * the server so a tenant can trace a change back to the tool that made it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { redactValue } from './redact.js';
+
+/**
+ * One mutation sent to the Graph API
+ */
+export interface AuditEntry {
+  id: string;
+  /** `user:<id>` from /me, or `token:<hash>` when /me could not be read */
+  tenant: string;
+  /** Tool that made the call, or 'unknown' outside a tool call */
+  tool: string;
+  method: string;
+  endpoint: string;
+  /** The object that was changed, or the new object's ID for creates */
+  objectId: string;
+  /** Request parameters with secrets and PII redacted */
+  params: Record<string, unknown>;
+  success: boolean;
+  result?: unknown;
+  error?: Record<string, unknown>;
+  fbTraceId?: string;
+  /** ISO 8601 time the call completed */
+  timestamp: string;
+}
+
+/**
+ * Filters for reading a tenant's audit entries, newest first
+ */
+export interface AuditQuery {
+  tenant: string;
+  objectId?: string;
+  tool?: string;
+  /** Inclusive lower bound (ISO 8601) */
+  since?: string;
+  /** Exclusive upper bound (ISO 8601) */
+  until?: string;
+  /** Continue after this entry ID */
+  after?: string;
+  limit: number;
+}
+
+/**
+ * Storage for audit entries
+ */
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+// Results and params beyond this many characters are stored as a preview
+const MAX_STORED_JSON_LENGTH = 8000;
+
+interface AuditRow {
+  id: string;
+  tenant: string;
+  tool: string;
+  method: string;
+  endpoint: string;
+  object_id: string;
+  params: string;
+  success: number;
+  result: string | null;
+  error: string | null;
+  fb_trace_id: string | null;
+  created_at: string;
+}
+
+/**
+ * AuditLog backed by a D1 database (schema in migrations/0001_audit_log.sql)
+ */
+export class D1AuditLog implements AuditLog {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO audit_log
+           (id, tenant, tool, method, endpoint, object_id, params, success, result, error, fb_trace_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        entry.id,
+        entry.tenant,
+        entry.tool,
+        entry.method,
+        entry.endpoint,
+        entry.objectId,
+        toStoredJson(entry.params),
+        entry.success ? 1 : 0,
+        entry.result === undefined ? null : toStoredJson(entry.result),
+        entry.error ? toStoredJson(entry.error) : null,
+        entry.fbTraceId ?? null,
+        entry.timestamp
+      )
+      .run();
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const conditions = ['tenant = ?'];
+    const bindings: unknown[] = [query.tenant];
+    if (query.objectId) {
+      conditions.push('object_id = ?');
+      bindings.push(query.objectId);
+    }
+    if (query.tool) {
+      conditions.push('tool = ?');
+      bindings.push(query.tool);
+    }
+    if (query.since) {
+      conditions.push('created_at >= ?');
+      bindings.push(query.since);
+    }
+    if (query.until) {
+      conditions.push('created_at < ?');
+      bindings.push(query.until);
+    }
+    if (query.after) {
+      conditions.push(
+        '(created_at, id) < (SELECT created_at, id FROM audit_log WHERE id = ? AND tenant = ?)'
+      );
+      bindings.push(query.after, query.tenant);
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, id DESC LIMIT ?`
+      )
+      .bind(...bindings, query.limit)
+      .all<AuditRow>();
+    return results.map(fromRow);
+  }
+}
+
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    tenant: row.tenant,
+    tool: row.tool,
+    method: row.method,
+    endpoint: row.endpoint,
+    objectId: row.object_id,
+    params: JSON.parse(row.params) as Record<string, unknown>,
+    success: row.success === 1,
+    ...(row.result !== null && { result: JSON.parse(row.result) }),
+    ...(row.error !== null && { error: JSON.parse(row.error) as Record<string, unknown> }),
+    ...(row.fb_trace_id !== null && { fbTraceId: row.fb_trace_id }),
+    timestamp: row.created_at,
+  };
+}
+
+function toStoredJson(value: unknown): string {
+  const json = JSON.stringify(value) ?? 'null';
+  return json.length > MAX_STORED_JSON_LENGTH
+    ? JSON.stringify({ truncated: true, preview: json.slice(0, MAX_STORED_JSON_LENGTH) })
+    : json;
+}
+
+/**
+ * Redact request parameters for the audit log. Audience membership payloads are
+ * reduced to their schema and row count since the rows are hashed customer data.
+ */
+export function toAuditParams(params: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    result[key] = key === 'payload' && typeof value === 'string' ? summarizePayload(value) : value;
+  }
+  return redactValue(result);
+}
+
+function summarizePayload(payload: string): unknown {
+  try {
+    const { schema, data } = JSON.parse(payload) as { schema?: unknown; data?: unknown[] };
+    return { schema, rows: Array.isArray(data) ? data.length : 0 };
+  } catch {
+    return '[UNPARSEABLE_PAYLOAD]';
+  }
+}
+
+// =============================================================================
+// Tool Attribution
+// =============================================================================
+
+const toolScope = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with every Graph API call inside it attributed to a tool
+ */
+export function runInToolScope<T>(toolName: string, fn: () => T): T {
+  return toolScope.run(toolName, fn);
+}
+
+/**
+ * The tool whose handler is currently running, if any
+ */
+export function currentToolName(): string | undefined {
+  return toolScope.getStore();
+}
+
+/**
+ * Make every tool registered on the server run in its own tool scope, so audit
+ * entries name the tool that made each call
+ */
+export function traceToolCalls(server: McpServer): void {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const handler = rest.pop() as (...args: unknown[]) => unknown;
+    return register(name, ...rest, (...args: unknown[]) =>
+      runInToolScope(name, () => handler(...args))
+    );
+  }) as unknown as McpServer['tool'];
+}
@@ -0,0 +1,614 @@
+/**
+ * Automation Rule Utilities for Meta Ads API
+ *
+ * Stores rules that this server evaluates on a schedule (unlike Meta's own
+ * adrules_library rules), evaluates their conditions against ad set and ad
+ * insights, and pauses objects or changes budgets when every condition holds.
+ */
+
+import type { MetaAdsClient } from '../client.js';
+import type {
+  AdSet,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationConditionResult,
+  AutomationEvaluation,
+  AutomationMetrics,
+  AutomationOperator,
+  AutomationRule,
+  AutomationRun,
+  Insights,
+  InsightsField,
+} from '../types/entities.js';
+import type { TenantCredentials } from '../types/env.js';
+import { decryptText, encryptText } from './crypto.js';
+import { formatErrorForLogging, MetaAdsApiError } from './errors.js';
+import { paginateItems } from './pagination.js';
+
+/**
+ * Credentials stored with a rule so scheduled runs can call the API as the tenant,
+ * held to the same X-Meta-Policy header as the request that saved the rule
+ */
+export type AutomationCredentials = Pick<
+  TenantCredentials,
+  'accessToken' | 'appId' | 'appSecret' | 'apiVersion' | 'policy'
+>;
+
+/**
+ * An enabled rule whose interval has passed, with the tenant that owns it
+ */
+export interface DueAutomationRule {
+  tenant: string;
+  rule: AutomationRule;
+}
+
+/**
+ * Filters for listing a tenant's rule runs, newest first
+ */
+export interface AutomationRunQuery {
+  tenant: string;
+  ruleId?: string;
+  limit: number;
+}
+
+/**
+ * Storage for automation rules and their run logs
+ */
+export interface AutomationRuleStore {
+  /** Create or replace a rule, storing the credentials its scheduled runs use */
+  save(tenant: string, rule: AutomationRule, credentials: AutomationCredentials): Promise<void>;
+  get(tenant: string, id: string): Promise<AutomationRule | undefined>;
+  list(tenant: string): Promise<AutomationRule[]>;
+  delete(tenant: string, id: string): Promise<boolean>;
+  /** Enabled rules of every tenant that have not run within their interval */
+  listDue(now: Date): Promise<DueAutomationRule[]>;
+  getCredentials(tenant: string, id: string): Promise<AutomationCredentials | undefined>;
+  /** Set the time scheduling counts the rule's interval from */
+  markRun(tenant: string, id: string, time: string): Promise<void>;
+  recordRun(tenant: string, run: AutomationRun): Promise<void>;
+  listRuns(query: AutomationRunQuery): Promise<AutomationRun[]>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface AutomationRuleRow {
+  id: string;
+  tenant: string;
+  name: string;
+  enabled: number;
+  spec: string;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AutomationRunRow {
+  id: string;
+  rule_id: string;
+  trigger: AutomationRun['trigger'];
+  simulated: number;
+  evaluations: string;
+  actions: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+/**
+ * AutomationRuleStore backed by a D1 database (schema in
+ * migrations/0003_automation_rules.sql). Credentials are encrypted with the key.
+ */
+export class D1AutomationRuleStore implements AutomationRuleStore {
+  private db: D1Database;
+  private encryptionKey: string;
+
+  constructor(db: D1Database, encryptionKey: string) {
+    this.db = db;
+    this.encryptionKey = encryptionKey;
+  }
+
+  async save(
+    tenant: string,
+    rule: AutomationRule,
+    credentials: AutomationCredentials
+  ): Promise<void> {
+    const { id, name, enabled, lastRunAt, createdAt, updatedAt, ...spec } = rule;
+    await this.db
+      .prepare(
+        `INSERT OR REPLACE INTO automation_rules
+           (id, tenant, account_id, name, enabled, spec, credentials, last_run_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        tenant,
+        rule.accountId,
+        name,
+        enabled ? 1 : 0,
+        JSON.stringify(spec),
+        await encryptText(this.encryptionKey, JSON.stringify(credentials)),
+        lastRunAt ?? null,
+        createdAt,
+        updatedAt
+      )
+      .run();
+  }
+
+  async get(tenant: string, id: string): Promise<AutomationRule | undefined> {
+    const row = await this.db
+      .prepare('SELECT * FROM automation_rules WHERE tenant = ? AND id = ?')
+      .bind(tenant, id)
+      .first<AutomationRuleRow>();
+    return row ? fromRuleRow(row) : undefined;
+  }
+
+  async list(tenant: string): Promise<AutomationRule[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM automation_rules WHERE tenant = ? ORDER BY created_at, id')
+      .bind(tenant)
+      .all<AutomationRuleRow>();
+    return results.map(fromRuleRow);
+  }
+
+  async delete(tenant: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM automation_rules WHERE tenant = ? AND id = ?')
+      .bind(tenant, id)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  async listDue(now: Date): Promise<DueAutomationRule[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM automation_rules WHERE enabled = 1 ORDER BY created_at, id')
+      .all<AutomationRuleRow>();
+    return results
+      .map((row) => ({ tenant: row.tenant, rule: fromRuleRow(row) }))
+      .filter(({ rule }) => isDue(rule, now));
+  }
+
+  async getCredentials(tenant: string, id: string): Promise<AutomationCredentials | undefined> {
+    const row = await this.db
+      .prepare('SELECT credentials FROM automation_rules WHERE tenant = ? AND id = ?')
+      .bind(tenant, id)
+      .first<{ credentials: string }>();
+    if (!row) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(
+        await decryptText(this.encryptionKey, row.credentials)
+      ) as AutomationCredentials;
+    } catch {
+      throw new MetaAdsApiError(
+        'Stored credentials could not be decrypted (was AUTOMATION_ENCRYPTION_KEY changed?); update the rule to store them again',
+        undefined,
+        'AUTOMATION_CREDENTIALS_INVALID'
+      );
+    }
+  }
+
+  async markRun(tenant: string, id: string, time: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE automation_rules SET last_run_at = ? WHERE tenant = ? AND id = ?')
+      .bind(time, tenant, id)
+      .run();
+  }
+
+  async recordRun(tenant: string, run: AutomationRun): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO automation_rule_runs
+           (id, tenant, rule_id, trigger, simulated, evaluations, actions, error, started_at, finished_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        run.id,
+        tenant,
+        run.ruleId,
+        run.trigger,
+        run.simulated ? 1 : 0,
+        JSON.stringify(run.evaluations),
+        JSON.stringify(run.actions),
+        run.error ? JSON.stringify(run.error) : null,
+        run.startedAt,
+        run.finishedAt
+      )
+      .run();
+  }
+
+  async listRuns(query: AutomationRunQuery): Promise<AutomationRun[]> {
+    const conditions = ['tenant = ?'];
+    const bindings: unknown[] = [query.tenant];
+    if (query.ruleId) {
+      conditions.push('rule_id = ?');
+      bindings.push(query.ruleId);
+    }
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM automation_rule_runs WHERE ${conditions.join(' AND ')}
+         ORDER BY started_at DESC, id DESC LIMIT ?`
+      )
+      .bind(...bindings, query.limit)
+      .all<AutomationRunRow>();
+    return results.map(fromRunRow);
+  }
+}
+
+function fromRuleRow(row: AutomationRuleRow): AutomationRule {
+  const spec = JSON.parse(row.spec) as Omit<
+    AutomationRule,
+    'id' | 'name' | 'enabled' | 'lastRunAt' | 'createdAt' | 'updatedAt'
+  >;
+  return {
+    id: row.id,
+    name: row.name,
+    ...spec,
+    enabled: row.enabled === 1,
+    ...(row.last_run_at !== null && { lastRunAt: row.last_run_at }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function fromRunRow(row: AutomationRunRow): AutomationRun {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    trigger: row.trigger,
+    simulated: row.simulated === 1,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    evaluations: JSON.parse(row.evaluations) as AutomationRun['evaluations'],
+    actions: JSON.parse(row.actions) as AutomationRun['actions'],
+    ...(row.error !== null && { error: JSON.parse(row.error) as Record<string, unknown> }),
+  };
+}
+
+/**
+ * Whether a rule is enabled and its interval has passed since its last run
+ */
+export function isDue(rule: AutomationRule, now: Date): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+  return (
+    !rule.lastRunAt || Date.parse(rule.lastRunAt) + rule.intervalHours * HOUR_MS <= now.getTime()
+  );
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/** Insights fields every metric is derived from */
+const INSIGHTS_FIELDS: InsightsField[] = [
+  'ad_id',
+  'ad_name',
+  'spend',
+  'impressions',
+  'clicks',
+  'ctr',
+  'cpc',
+  'cpm',
+  'actions',
+  'action_values',
+];
+
+/**
+ * A rule's metrics from one insights row; an object without a row has spent nothing.
+ *
+ * With no conversions yet, cpa is the spend so far (the lowest the cost of the
+ * first conversion can be), so stop-loss rules still catch ads that never convert.
+ */
+export function toAutomationMetrics(
+  row: Insights | undefined,
+  conversionEvent: string
+): AutomationMetrics {
+  const spend = toCents(row?.spend) ?? 0;
+  const conversions = sumActions(row?.actions, conversionEvent);
+  const conversionValue = sumActions(row?.action_values, conversionEvent);
+  const metrics: AutomationMetrics = {
+    spend,
+    impressions: Number(row?.impressions ?? 0),
+    clicks: Number(row?.clicks ?? 0),
+    conversions,
+  };
+  if (row?.ctr !== undefined) metrics.ctr = Number(row.ctr);
+  if (row?.cpc !== undefined) metrics.cpc = toCents(row.cpc);
+  if (row?.cpm !== undefined) metrics.cpm = toCents(row.cpm);
+  if (spend > 0) {
+    metrics.cpa = Math.round(conversions > 0 ? spend / conversions : spend);
+    metrics.roas = Math.round((conversionValue / (spend / 100)) * 10000) / 10000;
+  }
+  return metrics;
+}
+
+/**
+ * Test each condition against an object's metrics. Conditions relative to the
+ * ad set multiply their value by the ad set's metric to get the threshold.
+ */
+export function evaluateConditions(
+  conditions: AutomationCondition[],
+  metrics: AutomationMetrics,
+  adSetMetrics?: AutomationMetrics
+): AutomationConditionResult[] {
+  return conditions.map((condition) => {
+    const base = condition.relativeTo === 'adset' ? adSetMetrics?.[condition.metric] : 1;
+    const threshold = base === undefined ? null : condition.value * base;
+    const actual = metrics[condition.metric] ?? null;
+    return {
+      ...condition,
+      threshold,
+      actual,
+      met: threshold !== null && actual !== null && compare(actual, condition.operator, threshold),
+    };
+  });
+}
+
+function compare(actual: number, operator: AutomationOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return actual > threshold;
+    case 'gte':
+      return actual >= threshold;
+    case 'lt':
+      return actual < threshold;
+    case 'lte':
+      return actual <= threshold;
+  }
+}
+
+function toCents(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(Number(value) * 100);
+}
+
+function sumActions(actions: Array<{ action_type: string; value: string }> = [], type: string) {
+  return actions
+    .filter((action) => action.action_type === type)
+    .reduce((total, action) => total + Number(action.value), 0);
+}
+
+// =============================================================================
+// Runs
+// =============================================================================
+
+export interface AutomationRunOptions {
+  trigger: AutomationRun['trigger'];
+  /** Log the actions without sending any updates */
+  simulate: boolean;
+}
+
+/**
+ * Evaluate a rule against every active ad set (or ad) in its scope and take its
+ * action on each object that meets every condition.
+ *
+ * Failures while reading insights stop the run and are recorded as its error;
+ * a failed update is recorded on its action and the run carries on.
+ */
+export async function runAutomationRule(
+  client: MetaAdsClient,
+  rule: AutomationRule,
+  options: AutomationRunOptions
+): Promise<AutomationRun> {
+  const run: AutomationRun = {
+    id: crypto.randomUUID(),
+    ruleId: rule.id,
+    trigger: options.trigger,
+    simulated: options.simulate,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    evaluations: [],
+    actions: [],
+  };
+
+  try {
+    for await (const adSet of listActiveAdSets(client, rule)) {
+      const evaluations = await evaluateAdSet(client, rule, adSet);
+      run.evaluations.push(...evaluations);
+      for (const evaluation of evaluations) {
+        if (evaluation.matched) {
+          run.actions.push(await takeAction(client, rule, evaluation, adSet, options.simulate));
+        }
+      }
+    }
+  } catch (error) {
+    run.error = formatErrorForLogging(error);
+  }
+
+  run.finishedAt = new Date().toISOString();
+  return run;
+}
+
+/**
+ * Run every due rule with the credentials stored for it, start the rule's next
+ * interval and record the run. Each rule succeeds or fails on its own: a rule
+ * whose credentials cannot be decrypted gets a run recording the error, and a
+ * run that cannot be saved carries that error instead of ending the pass.
+ */
+export async function runDueAutomationRules(
+  store: AutomationRuleStore,
+  createClient: (credentials: AutomationCredentials) => MetaAdsClient,
+  options: { simulate: boolean; now?: Date }
+): Promise<AutomationRun[]> {
+  const runs: AutomationRun[] = [];
+  for (const { tenant, rule } of await store.listDue(options.now ?? new Date())) {
+    const run = await runScheduledRule(store, tenant, rule, createClient, options.simulate);
+    if (!run) continue;
+    // The interval starts first so a run that cannot be logged is not repeated next hour
+    await recordStoreError(run, () => store.markRun(tenant, rule.id, run.startedAt));
+    await recordStoreError(run, () => store.recordRun(tenant, run));
+    runs.push(run);
+  }
+  return runs;
+}
+
+async function runScheduledRule(
+  store: AutomationRuleStore,
+  tenant: string,
+  rule: AutomationRule,
+  createClient: (credentials: AutomationCredentials) => MetaAdsClient,
+  simulate: boolean
+): Promise<AutomationRun | undefined> {
+  try {
+    const credentials = await store.getCredentials(tenant, rule.id);
+    if (!credentials) return undefined;
+    return await runAutomationRule(createClient(credentials), rule, {
+      trigger: 'schedule',
+      simulate,
+    });
+  } catch (error) {
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      ruleId: rule.id,
+      trigger: 'schedule',
+      simulated: simulate,
+      startedAt: now,
+      finishedAt: now,
+      evaluations: [],
+      actions: [],
+      error: formatErrorForLogging(error),
+    };
+  }
+}
+
+/**
+ * Keep a failed store call on the run (unless it already failed) and carry on
+ */
+async function recordStoreError(run: AutomationRun, call: () => Promise<void>): Promise<void> {
+  try {
+    await call();
+  } catch (error) {
+    run.error ??= formatErrorForLogging(error);
+  }
+}
+
+async function* listActiveAdSets(client: MetaAdsClient, rule: AutomationRule) {
+  const params = {
+    fields: 'id,name,campaign_id,daily_budget,lifetime_budget',
+    effectiveStatus: ['ACTIVE'],
+  };
+  for (const campaignId of rule.campaignIds ?? [undefined]) {
+    yield* paginateItems<AdSet>(
+      (page) => client.listAdSets(rule.accountId, { ...params, ...page, campaignId }),
+      { pageSize: 100 }
+    );
+  }
+}
+
+async function evaluateAdSet(
+  client: MetaAdsClient,
+  rule: AutomationRule,
+  adSet: AdSet
+): Promise<AutomationEvaluation[]> {
+  const params = { date_preset: rule.datePreset, fields: INSIGHTS_FIELDS };
+  const [adSetRow] = await client.getAdSetInsights(adSet.id, params);
+  const adSetMetrics = toAutomationMetrics(adSetRow, rule.conversionEvent);
+  if (rule.level === 'adset') {
+    const conditions = evaluateConditions(rule.conditions, adSetMetrics);
+    return [toEvaluation('adset', adSet, adSet.id, adSetMetrics, conditions)];
+  }
+
+  const rows = await client.getAdSetInsights(adSet.id, { ...params, level: 'ad' });
+  const rowsByAd = new Map(rows.map((row) => [row.ad_id, row]));
+  const evaluations: AutomationEvaluation[] = [];
+  for await (const ad of paginateItems(
+    (page) =>
+      client.listAds(rule.accountId, {
+        ...page,
+        fields: 'id,name',
+        adSetId: adSet.id,
+        effectiveStatus: ['ACTIVE'],
+      }),
+    { pageSize: 100 }
+  )) {
+    const metrics = toAutomationMetrics(rowsByAd.get(ad.id), rule.conversionEvent);
+    const conditions = evaluateConditions(rule.conditions, metrics, adSetMetrics);
+    evaluations.push(toEvaluation('ad', ad, adSet.id, metrics, conditions));
+  }
+  return evaluations;
+}
+
+function toEvaluation(
+  objectType: AutomationEvaluation['objectType'],
+  object: { id: string; name: string },
+  adSetId: string,
+  metrics: AutomationMetrics,
+  conditions: AutomationConditionResult[]
+): AutomationEvaluation {
+  return {
+    objectType,
+    id: object.id,
+    name: object.name,
+    adSetId,
+    metrics,
+    conditions,
+    matched: conditions.every((condition) => condition.met),
+  };
+}
+
+async function takeAction(
+  client: MetaAdsClient,
+  rule: AutomationRule,
+  evaluation: AutomationEvaluation,
+  adSet: AdSet,
+  simulate: boolean
+): Promise<AutomationActionResult> {
+  const result: AutomationActionResult = {
+    objectType: evaluation.objectType,
+    id: evaluation.id,
+    name: evaluation.name,
+    action: rule.action.type,
+    params: {},
+    simulated: simulate,
+    success: true,
+  };
+
+  if (rule.action.type === 'pause') {
+    result.params = { status: 'PAUSED' };
+  } else {
+    const field = adSet.daily_budget ? 'daily_budget' : adSet.lifetime_budget && 'lifetime_budget';
+    if (!field) {
+      result.skipped = 'The ad set has no budget of its own; its campaign sets the budget';
+      return result;
+    }
+    const current = Number(adSet[field]);
+    const budget = changeBudget(current, rule.action);
+    if (budget === current) {
+      result.skipped = `The ${field} is already at the rule's limit`;
+      return result;
+    }
+    result.params = { [field]: budget };
+  }
+
+  if (simulate) {
+    return result;
+  }
+  try {
+    const update =
+      evaluation.objectType === 'ad'
+        ? await client.updateAd(evaluation.id, result.params)
+        : await client.updateAdSet(evaluation.id, result.params);
+    result.changes = update.changes;
+  } catch (error) {
+    result.success = false;
+    result.error = formatErrorForLogging(error);
+  }
+  return result;
+}
+
+/**
+ * The budget after a percentage change, kept within the action's limits. A raise
+ * never lowers a budget already above maxBudget (and a cut never raises one).
+ */
+export function changeBudget(
+  current: number,
+  action: { percent: number; maxBudget?: number; minBudget?: number }
+): number {
+  const target = Math.round(current * (1 + action.percent / 100));
+  if (action.percent >= 0) {
+    return Math.max(current, Math.min(target, action.maxBudget ?? target));
+  }
+  return Math.min(current, Math.max(target, action.minBudget ?? target));
+}
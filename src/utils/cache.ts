@@ -0,0 +1,126 @@
+/**
+ * Read Cache Utilities for Meta Ads API
+ *
+ * Caches slow-changing Graph API reads in KV so repeated lookups within a
+ * conversation do not spend API quota.
+ */
+
+/**
+ * Kinds of reads that may be cached
+ */
+export type CacheEntity =
+  | 'adAccount'
+  | 'business'
+  | 'pixels'
+  | 'productCatalogs'
+  | 'targetingCategories';
+
+/** Seconds each kind of read stays cached */
+export const CACHE_TTL_SECONDS: Record<CacheEntity, number> = {
+  // Balance and amount spent move with delivery
+  adAccount: 300,
+  business: 3600,
+  pixels: 900,
+  productCatalogs: 900,
+  targetingCategories: 86_400,
+};
+
+/**
+ * Per-call cache controls
+ */
+export interface CacheOptions {
+  /** Skip the cached value and refresh it from the API */
+  noCache?: boolean;
+}
+
+/**
+ * Storage for cached reads.
+ *
+ * Entries are grouped by the object they describe so a write to that object can
+ * drop every cached read about it at once.
+ */
+export interface ReadCache {
+  get<T>(scope: string, objectId: string, variant: string): Promise<T | undefined>;
+  set<T>(
+    scope: string,
+    objectId: string,
+    variant: string,
+    value: T,
+    ttlSeconds: number
+  ): Promise<void>;
+  invalidate(scope: string, objectId: string): Promise<void>;
+}
+
+type CachedVariants = Record<string, { value: unknown; expiresAt: number }>;
+
+// KV rejects expiration TTLs below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * ReadCache backed by a KV namespace.
+ *
+ * One KV entry per scope and object holds every cached variant (fields, paging)
+ * with its own expiry. KV errors are treated as cache misses so a cache outage
+ * never fails a read.
+ */
+export class KvReadCache implements ReadCache {
+  private kv: KVNamespace;
+  private prefix: string;
+
+  constructor(kv: KVNamespace, prefix = 'metaads:cache') {
+    this.kv = kv;
+    this.prefix = prefix;
+  }
+
+  async get<T>(scope: string, objectId: string, variant: string): Promise<T | undefined> {
+    const entry = (await this.read(scope, objectId))[variant];
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(
+    scope: string,
+    objectId: string,
+    variant: string,
+    value: T,
+    ttlSeconds: number
+  ): Promise<void> {
+    const now = Date.now();
+    const variants = await this.read(scope, objectId);
+    for (const [key, entry] of Object.entries(variants)) {
+      if (entry.expiresAt <= now) delete variants[key];
+    }
+    variants[variant] = { value, expiresAt: now + ttlSeconds * 1000 };
+
+    const longest = Math.max(...Object.values(variants).map((entry) => entry.expiresAt));
+    try {
+      await this.kv.put(this.key(scope, objectId), JSON.stringify(variants), {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil((longest - now) / 1000)),
+      });
+    } catch {
+      // Caching is best effort
+    }
+  }
+
+  async invalidate(scope: string, objectId: string): Promise<void> {
+    try {
+      await this.kv.delete(this.key(scope, objectId));
+    } catch {
+      // A failed delete leaves the entry to expire on its own
+    }
+  }
+
+  private async read(scope: string, objectId: string): Promise<CachedVariants> {
+    try {
+      return (await this.kv.get<CachedVariants>(this.key(scope, objectId), 'json')) ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  private key(scope: string, objectId: string): string {
+    return `${this.prefix}:${scope}:${objectId}`;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Cross-Account Clone Utilities for Meta Ads API
+ *
+ * Rewrites a campaign document for another ad account: pixel, page, audience and
+ * image IDs are translated through source → target maps, and every ID without a
+ * mapping is reported.
+ */
+
+import type {
+  CampaignDocument,
+  CloneAssetMaps,
+  CloneAssetType,
+  UnmappedAsset,
+} from '../types/entities.js';
+
+/** One asset ID in a document, with a way to replace it */
+interface AssetReference {
+  assetType: CloneAssetType;
+  id: string;
+  path: string;
+  name: string;
+  replace(id: string): void;
+}
+
+const ASSET_MAPS: Partial<Record<CloneAssetType, keyof CloneAssetMaps>> = {
+  pixel: 'pixels',
+  page: 'pages',
+  audience: 'audiences',
+  image: 'images',
+};
+
+/** Why assets that have no map are never translated */
+const UNMAPPABLE_REASONS: Partial<Record<CloneAssetType, string>> = {
+  video: 'Videos are not copied; upload the video to the target account and use its ID',
+  creative: 'The creative could not be read, so it cannot be rebuilt in the target account',
+};
+
+export interface CloneDocumentOptions {
+  targetAccountId: string;
+  /** Name of the new campaign (default: the source name) */
+  name?: string;
+  /** Status of every new object; unset keeps the source statuses */
+  status?: 'ACTIVE' | 'PAUSED';
+}
+
+/**
+ * A copy of the document for the target account, without object IDs so applying
+ * it creates every object
+ */
+export function toCloneDocument(
+  document: CampaignDocument,
+  options: CloneDocumentOptions
+): CampaignDocument {
+  const { id, ad_sets: adSets = [], ...campaign } = structuredClone(document.campaign);
+  const status = options.status && { status: options.status };
+  return {
+    version: document.version,
+    account_id: options.targetAccountId.startsWith('act_')
+      ? options.targetAccountId
+      : `act_${options.targetAccountId}`,
+    campaign: {
+      ...campaign,
+      ...(options.name && { name: options.name }),
+      ...status,
+      ad_sets: adSets.map(({ id, ads = [], ...adSet }) => ({
+        ...adSet,
+        ...status,
+        ads: ads.map(({ id, ...ad }) => ({ ...ad, ...status })),
+      })),
+    },
+  };
+}
+
+/**
+ * Image hashes used by the document's creatives
+ */
+export function collectImageHashes(document: CampaignDocument): string[] {
+  const references = findAssetReferences(document);
+  return [...new Set(references.filter((ref) => ref.assetType === 'image').map((ref) => ref.id))];
+}
+
+/**
+ * Replace the document's asset IDs (in place) with their targets from the maps,
+ * and return the IDs that have none. `reasons` explains why particular IDs are
+ * missing from the maps.
+ */
+export function remapAssets(
+  document: CampaignDocument,
+  maps: CloneAssetMaps,
+  reasons: Map<string, string> = new Map()
+): UnmappedAsset[] {
+  const unmapped: UnmappedAsset[] = [];
+  for (const reference of findAssetReferences(document)) {
+    const map = ASSET_MAPS[reference.assetType];
+    const target = map && maps[map]?.[reference.id];
+    if (target) {
+      reference.replace(target);
+      continue;
+    }
+    const reason = UNMAPPABLE_REASONS[reference.assetType] ?? reasons.get(reference.id);
+    const { assetType, id, path, name } = reference;
+    unmapped.push({ assetType, id, path, name, ...(reason && { reason }) });
+  }
+  return unmapped;
+}
+
+/**
+ * Every account-scoped asset ID the document references: pixels and pages in
+ * promoted objects, custom audiences in targeting, and pages, Instagram accounts,
+ * images and videos in ad creatives
+ */
+function findAssetReferences(document: CampaignDocument): AssetReference[] {
+  const references: AssetReference[] = [];
+  const { campaign } = document;
+  const collect = (
+    assetType: CloneAssetType,
+    name: string,
+    path: string,
+    holder: unknown,
+    key: string
+  ): void => {
+    if (!isRecord(holder)) return;
+    const id = holder[key];
+    if (typeof id !== 'string' || id === '') return;
+    references.push({
+      assetType,
+      id,
+      path: `${path}.${key}`,
+      name,
+      replace: (target) => {
+        holder[key] = target;
+      },
+    });
+  };
+
+  const promotedObject = (name: string, path: string, holder: { promoted_object?: unknown }) => {
+    collect('pixel', name, `${path}.promoted_object`, holder.promoted_object, 'pixel_id');
+    collect('page', name, `${path}.promoted_object`, holder.promoted_object, 'page_id');
+  };
+
+  promotedObject(campaign.name, 'campaign', campaign);
+  (campaign.ad_sets ?? []).forEach((adSet, adSetIndex) => {
+    const adSetPath = `campaign.ad_sets[${adSetIndex}]`;
+    promotedObject(adSet.name, adSetPath, adSet);
+    for (const field of ['custom_audiences', 'excluded_custom_audiences']) {
+      const audiences = (adSet.targeting as Record<string, unknown> | undefined)?.[field];
+      forEachItem(audiences, (audience, index) =>
+        collect('audience', adSet.name, `${adSetPath}.targeting.${field}[${index}]`, audience, 'id')
+      );
+    }
+
+    (adSet.ads ?? []).forEach((ad, adIndex) => {
+      const path = `${adSetPath}.ads[${adIndex}].creative`;
+      const creative: unknown = ad.creative;
+      if (!isRecord(creative)) {
+        // Exported without a creative, so there is nothing to rebuild it from
+        references.push({ assetType: 'creative', id: '', path, name: ad.name, replace: () => {} });
+        return;
+      }
+      collect('creative', ad.name, path, creative, 'creative_id');
+
+      const story = creative.object_story_spec as Record<string, unknown> | undefined;
+      const storyPath = `${path}.object_story_spec`;
+      collect('page', ad.name, storyPath, story, 'page_id');
+      collect('page', ad.name, storyPath, story, 'instagram_actor_id');
+      collect('image', ad.name, `${storyPath}.link_data`, story?.link_data, 'image_hash');
+      collect('image', ad.name, `${storyPath}.photo_data`, story?.photo_data, 'image_hash');
+      collect('image', ad.name, `${storyPath}.video_data`, story?.video_data, 'image_hash');
+      collect('video', ad.name, `${storyPath}.video_data`, story?.video_data, 'video_id');
+      const attachments = (story?.link_data as Record<string, unknown> | undefined)
+        ?.child_attachments;
+      forEachItem(attachments, (attachment, index) => {
+        const attachmentPath = `${storyPath}.link_data.child_attachments[${index}]`;
+        collect('image', ad.name, attachmentPath, attachment, 'image_hash');
+        collect('video', ad.name, attachmentPath, attachment, 'video_id');
+      });
+
+      const feed = creative.asset_feed_spec as Record<string, unknown> | undefined;
+      forEachItem(feed?.images, (image, index) =>
+        collect('image', ad.name, `${path}.asset_feed_spec.images[${index}]`, image, 'hash')
+      );
+      forEachItem(feed?.videos, (video, index) => {
+        const videoPath = `${path}.asset_feed_spec.videos[${index}]`;
+        collect('video', ad.name, videoPath, video, 'video_id');
+        collect('image', ad.name, videoPath, video, 'thumbnail_hash');
+      });
+    });
+  });
+  return references;
+}
+
+function forEachItem(value: unknown, fn: (item: unknown, index: number) => void): void {
+  if (Array.isArray(value)) value.forEach(fn);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
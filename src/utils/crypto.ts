@@ -0,0 +1,81 @@
+/**
+ * Crypto Utilities
+ *
+ * Hashing and encryption helpers built on the Web Crypto API available in Workers.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// AES-GCM nonce length in bytes
+const IV_LENGTH = 12;
+
+/**
+ * HMAC-SHA256 of a message, hex encoded
+ */
+export async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return toHex(signature);
+}
+
+/**
+ * SHA-256 digest of a message, hex encoded
+ */
+export async function sha256Hex(message: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(message));
+  return toHex(digest);
+}
+
+/**
+ * Encrypt text with AES-GCM under a key derived from a secret.
+ * Returns the base64 nonce and ciphertext joined by a '.'.
+ */
+export async function encryptText(secret: string, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await deriveAesKey(secret),
+    encoder.encode(plaintext)
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt text produced by encryptText; throws when the secret does not match
+ */
+export async function decryptText(secret: string, encrypted: string): Promise<string> {
+  const [iv, ciphertext] = encrypted.split('.');
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await deriveAesKey(secret),
+    fromBase64(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+async function deriveAesKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(secret));
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,54 @@
+/**
+ * Object Diff Utilities
+ *
+ * Field-level comparison of an object before and after an update.
+ */
+
+import type { FieldChange } from '../types/entities.js';
+
+/**
+ * Compare two versions of an object. Nested objects are walked so a change is
+ * reported at the deepest field that differs (e.g. "targeting.age_max"); arrays
+ * and other values are compared as a whole.
+ */
+export function diffFields(
+  before: object,
+  after: object,
+  options: { ignore?: string[] } = {}
+): FieldChange[] {
+  const ignore = new Set(options.ignore);
+  const changes: FieldChange[] = [];
+
+  const walk = (previous: unknown, next: unknown, path: string): void => {
+    if (!isPlainObject(previous) || !isPlainObject(next)) {
+      if (!isEqual(previous, next)) {
+        changes.push({ field: path, change: 'changed', before: previous, after: next });
+      }
+      return;
+    }
+
+    const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+    for (const key of keys) {
+      const field = path ? `${path}.${key}` : key;
+      if (ignore.has(field)) continue;
+      if (previous[key] === undefined && next[key] !== undefined) {
+        changes.push({ field, change: 'added', after: next[key] });
+      } else if (previous[key] !== undefined && next[key] === undefined) {
+        changes.push({ field, change: 'removed', before: previous[key] });
+      } else {
+        walk(previous[key], next[key], field);
+      }
+    }
+  };
+
+  walk(before, after, '');
+  return changes;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
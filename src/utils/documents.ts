@@ -0,0 +1,451 @@
+/**
+ * Campaign Document Utilities for Meta Ads API
+ *
+ * Converts campaign trees to declarative documents and plans the creates, updates
+ * and pauses that bring a live campaign in line with a document.
+ */
+
+import { stringify } from 'yaml';
+import type {
+  AdCreative,
+  CampaignDocument,
+  CampaignPlan,
+  CampaignSpec,
+  CampaignTree,
+  FieldChange,
+  TreeObjectType,
+} from '../types/entities.js';
+import { diffFields } from './diff.js';
+import { ValidationError } from './errors.js';
+
+/** Current campaign document format version */
+export const CAMPAIGN_DOCUMENT_VERSION = 1;
+
+/** Fields a document holds for each type of object, in the order they are written */
+const DOCUMENT_FIELDS: Record<TreeObjectType, string[]> = {
+  campaign: [
+    'name',
+    'objective',
+    'status',
+    'special_ad_categories',
+    'buying_type',
+    'daily_budget',
+    'lifetime_budget',
+    'spend_cap',
+    'bid_strategy',
+    'start_time',
+    'stop_time',
+    'promoted_object',
+  ],
+  adset: [
+    'name',
+    'status',
+    'billing_event',
+    'optimization_goal',
+    'daily_budget',
+    'lifetime_budget',
+    'bid_amount',
+    'bid_strategy',
+    'start_time',
+    'end_time',
+    'targeting',
+    'promoted_object',
+    'destination_type',
+    'attribution_spec',
+    'is_dynamic_creative',
+    'pacing_type',
+  ],
+  ad: ['name', 'status', 'creative', 'tracking_specs', 'conversion_specs'],
+};
+
+/** Fields the update endpoints accept; the rest are fixed once an object exists */
+const UPDATABLE_FIELDS: Record<TreeObjectType, Set<string>> = {
+  campaign: new Set([
+    'name',
+    'status',
+    'daily_budget',
+    'lifetime_budget',
+    'bid_strategy',
+    'spend_cap',
+    'start_time',
+    'stop_time',
+  ]),
+  adset: new Set([
+    'name',
+    'status',
+    'targeting',
+    'bid_amount',
+    'bid_strategy',
+    'daily_budget',
+    'lifetime_budget',
+    'start_time',
+    'end_time',
+    'optimization_goal',
+    'billing_event',
+  ]),
+  ad: new Set(['name', 'status', 'creative', 'tracking_specs']),
+};
+
+/** Creative fields written into a document (the AdCreativeInput fields) */
+export const CREATIVE_DOCUMENT_FIELDS = [
+  'name',
+  'object_story_spec',
+  'asset_feed_spec',
+  'degrees_of_freedom_spec',
+  'url_tags',
+  'use_page_actor_override',
+  'authorization_category',
+];
+
+/** Amounts the Graph API returns as strings and documents hold as numbers */
+const AMOUNT_FIELDS = new Set(['daily_budget', 'lifetime_budget', 'spend_cap', 'bid_amount']);
+
+/** Statuses that already keep an object from delivering */
+const INACTIVE_STATUSES = new Set(['PAUSED', 'ARCHIVED', 'DELETED']);
+
+const OBJECT_LABELS: Record<TreeObjectType, string> = {
+  campaign: 'campaign',
+  adset: 'ad set',
+  ad: 'ad',
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Describe a live campaign tree as a document. Ads reference their creative by
+ * `creative_id` when the creative could not be read.
+ */
+export function toCampaignDocument(
+  tree: CampaignTree,
+  creatives: Map<string, AdCreative>
+): CampaignDocument {
+  const accountId = tree.campaign.account_id;
+  const campaign = {
+    id: tree.campaign.id,
+    ...toDocumentFields('campaign', tree.campaign, creatives),
+    ad_sets: tree.adSets.map((adSet) => ({
+      id: adSet.id,
+      ...toDocumentFields('adset', adSet, creatives),
+      ads: adSet.ads.map((ad) => ({ id: ad.id, ...toDocumentFields('ad', ad, creatives) })),
+    })),
+  } as CampaignSpec;
+
+  return {
+    version: CAMPAIGN_DOCUMENT_VERSION,
+    account_id: accountId.startsWith('act_') ? accountId : `act_${accountId}`,
+    campaign,
+  };
+}
+
+/**
+ * Write a document as YAML or pretty-printed JSON
+ */
+export function serializeCampaignDocument(
+  document: CampaignDocument,
+  format: 'yaml' | 'json'
+): string {
+  return format === 'yaml' ? stringify(document) : JSON.stringify(document, null, 2);
+}
+
+/**
+ * The document fields of a live object, with amounts as numbers and the ad
+ * creative as its spec
+ */
+function toDocumentFields(
+  objectType: TreeObjectType,
+  object: object,
+  creatives: Map<string, AdCreative>
+): Record<string, unknown> {
+  const record = object as Record<string, unknown>;
+  const fields: Record<string, unknown> = {};
+  for (const field of DOCUMENT_FIELDS[objectType]) {
+    const value = field === 'creative' ? toCreativeSpec(record, creatives) : record[field];
+    if (value === undefined || value === null) continue;
+    fields[field] = AMOUNT_FIELDS.has(field) ? Number(value) : value;
+  }
+  return fields;
+}
+
+function toCreativeSpec(
+  ad: Record<string, unknown>,
+  creatives: Map<string, AdCreative>
+): Record<string, unknown> | undefined {
+  const creativeId = (ad.creative as { id?: string } | undefined)?.id;
+  if (!creativeId) {
+    return undefined;
+  }
+  const creative = creatives.get(creativeId) as Record<string, unknown> | undefined;
+  if (!creative) {
+    return { creative_id: creativeId };
+  }
+  const spec: Record<string, unknown> = {};
+  for (const field of CREATIVE_DOCUMENT_FIELDS) {
+    if (creative[field] !== undefined && creative[field] !== null) spec[field] = creative[field];
+  }
+  return spec;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Work out the steps that bring the live campaign in line with the document.
+ *
+ * Objects are matched by `id`, or by name among their parent's live children when
+ * the document gives no ID. Only the fields a document sets are compared, so
+ * removing a field from a document leaves the live value alone. Live ad sets and
+ * ads the document does not list are paused, except those an entry matched
+ * ambiguously by name (reported as issues). `live` is unset when the document's
+ * campaign does not exist yet.
+ */
+export function planCampaignDocument(
+  document: CampaignDocument,
+  live: CampaignTree | undefined,
+  creatives: Map<string, AdCreative>
+): CampaignPlan {
+  const plan: CampaignPlan = {
+    accountId: document.account_id,
+    campaignId: live?.campaign.id,
+    steps: [],
+    issues: [],
+  };
+  const { id, ad_sets: adSets = [], ...campaignFields } = document.campaign;
+  if (live) {
+    const update = compareObject(
+      plan,
+      'campaign',
+      'campaign',
+      live.campaign,
+      campaignFields,
+      creatives
+    );
+    if (update) plan.steps.push({ ...update, objectType: 'campaign' });
+  } else {
+    plan.steps.push({ ...createStep('campaign', campaignFields), objectType: 'campaign' });
+  }
+
+  const claimedAdSets = new Set<string>();
+  const ambiguous = new Set<string>();
+  adSets.forEach((adSetSpec, adSetIndex) => {
+    const path = `campaign.ad_sets[${adSetIndex}]`;
+    const { id, ads = [], ...adSetFields } = adSetSpec;
+    const candidates = live?.adSets ?? [];
+    const adSet = matchLive(plan, 'adset', path, adSetSpec, candidates, claimedAdSets, ambiguous);
+    if (adSet === null) {
+      return;
+    }
+    if (adSet) {
+      const update = compareObject(plan, 'adset', path, adSet, adSetFields, creatives);
+      if (update) plan.steps.push({ ...update, objectType: 'adset' });
+    } else {
+      const parent = live && { campaign_id: live.campaign.id };
+      plan.steps.push({ ...createStep(path, adSetFields, parent), objectType: 'adset' });
+    }
+
+    const claimedAds = new Set<string>();
+    ads.forEach((adSpec, adIndex) => {
+      const adPath = `${path}.ads[${adIndex}]`;
+      const { id, ...adFields } = adSpec;
+      const ad = matchLive(plan, 'ad', adPath, adSpec, adSet?.ads ?? [], claimedAds, ambiguous);
+      if (ad) {
+        const update = compareObject(plan, 'ad', adPath, ad, adFields, creatives);
+        if (update) plan.steps.push({ ...update, objectType: 'ad' });
+      } else if (ad === undefined) {
+        const parent = adSet && { adset_id: adSet.id };
+        plan.steps.push({ ...createStep(adPath, adFields, parent), objectType: 'ad' });
+      }
+    });
+    for (const ad of adSet?.ads ?? []) {
+      if (!claimedAds.has(ad.id) && !ambiguous.has(ad.id)) pauseStep(plan, 'ad', ad);
+    }
+  });
+
+  for (const adSet of live?.adSets ?? []) {
+    if (!claimedAdSets.has(adSet.id) && !ambiguous.has(adSet.id)) pauseStep(plan, 'adset', adSet);
+  }
+  return plan;
+}
+
+/**
+ * Refuse a plan that has issues, listing each issue under its document path.
+ * `hint` says what to do about them.
+ */
+export function checkPlanIssues(plan: CampaignPlan, hint: string): void {
+  if (plan.issues.length === 0) {
+    return;
+  }
+  const details: Record<string, string[]> = {};
+  for (const issue of plan.issues) {
+    details[issue.path] = [...(details[issue.path] ?? []), issue.reason];
+  }
+  throw new ValidationError(
+    `The plan has ${plan.issues.length} issues; ${hint}. Nothing was changed`,
+    details
+  );
+}
+
+/**
+ * The document path of the object a create step's new object belongs to
+ */
+export function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('.'));
+}
+
+/**
+ * Find the live object a document entry describes. Returns undefined when it
+ * should be created and null when it cannot be matched (reported as an issue).
+ * Objects sharing an entry's name go into `ambiguous` so they are never paused
+ * as unlisted.
+ */
+function matchLive<T extends { id: string; name: string }>(
+  plan: CampaignPlan,
+  objectType: TreeObjectType,
+  path: string,
+  spec: { id?: string; name: string },
+  candidates: T[],
+  claimed: Set<string>,
+  ambiguous: Set<string>
+): T | undefined | null {
+  const label = OBJECT_LABELS[objectType];
+  let matches: T[];
+  if (spec.id) {
+    matches = candidates.filter((candidate) => candidate.id === spec.id);
+    if (matches.length === 0) {
+      plan.issues.push({
+        objectType,
+        path,
+        id: spec.id,
+        name: spec.name,
+        reason: `No ${label} with this ID under its parent; remove the id to create it`,
+      });
+      return null;
+    }
+  } else {
+    matches = candidates.filter(
+      (candidate) => candidate.name === spec.name && !claimed.has(candidate.id)
+    );
+    if (matches.length > 1) {
+      for (const match of matches) ambiguous.add(match.id);
+      plan.issues.push({
+        objectType,
+        path,
+        name: spec.name,
+        reason: `${matches.length} live ${label}s have this name; add the id of the one to use`,
+      });
+      return null;
+    }
+  }
+
+  const match = matches[0];
+  if (match) claimed.add(match.id);
+  return match;
+}
+
+/**
+ * The update step for the document fields that differ from the live object, or
+ * undefined when none do. Differing fields that cannot be updated are reported
+ * as issues.
+ */
+function compareObject<T extends Record<string, unknown>>(
+  plan: CampaignPlan,
+  objectType: TreeObjectType,
+  path: string,
+  live: { id: string; name: string },
+  fields: T,
+  creatives: Map<string, AdCreative>
+) {
+  const current = toDocumentFields(objectType, live, creatives);
+  const creative = fields.creative as Record<string, unknown> | undefined;
+  if (creative?.creative_id !== undefined) {
+    current.creative = { creative_id: (live as { creative?: { id?: string } }).creative?.id };
+  }
+
+  const params: Partial<T> = {};
+  const changes: FieldChange[] = [];
+  const fixed = new Set<string>();
+  for (const change of diffFields(alignToDocument(current, fields) as object, fields)) {
+    const field = change.field.split('.')[0];
+    if (UPDATABLE_FIELDS[objectType].has(field)) {
+      const key = field as keyof T;
+      params[key] = fields[key];
+      changes.push(change);
+    } else if (!fixed.has(field)) {
+      fixed.add(field);
+      plan.issues.push({
+        objectType,
+        path,
+        id: live.id,
+        name: live.name,
+        reason: `${field} cannot be changed once the ${OBJECT_LABELS[objectType]} exists`,
+      });
+    }
+  }
+
+  if (changes.length === 0) {
+    return undefined;
+  }
+  return { action: 'update' as const, path, id: live.id, name: live.name, params, changes };
+}
+
+/**
+ * A create step for a document entry, without its object type. `parent` holds
+ * the parent's ID when the parent already exists.
+ */
+function createStep<T extends { name: string }, P extends object>(
+  path: string,
+  fields: T,
+  parent?: P
+) {
+  return {
+    action: 'create' as const,
+    path,
+    name: fields.name,
+    params: { ...parent, ...fields },
+    changes: diffFields({}, fields),
+  };
+}
+
+function pauseStep(
+  plan: CampaignPlan,
+  objectType: TreeObjectType,
+  live: { id: string; name: string; status: string }
+): void {
+  if (INACTIVE_STATUSES.has(live.status)) {
+    return;
+  }
+  plan.steps.push({
+    action: 'pause',
+    objectType,
+    id: live.id,
+    name: live.name,
+    params: { status: 'PAUSED' },
+    changes: [{ field: 'status', change: 'changed', before: live.status, after: 'PAUSED' }],
+  });
+}
+
+/**
+ * Reduce a live value to the shape of the document value: nested objects keep only
+ * the keys the document sets, and numeric strings become numbers where the
+ * document has a number.
+ */
+function alignToDocument(live: unknown, document: unknown): unknown {
+  if (isPlainObject(live) && isPlainObject(document)) {
+    const aligned: Record<string, unknown> = {};
+    for (const key of Object.keys(document)) {
+      if (live[key] !== undefined) aligned[key] = alignToDocument(live[key], document[key]);
+    }
+    return aligned;
+  }
+  if (typeof document === 'number' && typeof live === 'string' && live.trim() !== '') {
+    const value = Number(live);
+    return Number.isFinite(value) ? value : live;
+  }
+  return live;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,6 +4,8 @@
  * Custom error classes and error handling helpers.
  */
 
+import { redactValue } from './redact.js';
+
 /**
  * Base Meta Ads API error
  */
@@ -46,6 +48,7 @@ export class MetaAdsApiError extends Error {
  * Rate limit exceeded error
  */
 export class RateLimitError extends MetaAdsApiError {
+  /** Seconds until Meta lets calls through again, or 0 when it did not say */
   public retryAfterSeconds: number;
 
   constructor(message: string, retryAfterSeconds: number, fbTraceId?: string) {
@@ -55,6 +58,19 @@ export class RateLimitError extends MetaAdsApiError {
   }
 }
 
+/**
+ * Request timed out before Meta responded
+ */
+export class TimeoutError extends MetaAdsApiError {
+  public timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, 408, 'REQUEST_TIMEOUT', true);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 /**
  * Authentication error
  */
@@ -91,17 +107,78 @@ export class NotFoundError extends MetaAdsApiError {
 export class ValidationError extends MetaAdsApiError {
   public details: Record<string, string[]>;
 
-  constructor(message: string, details: Record<string, string[]> = {}, fbTraceId?: string) {
-    super(message, 400, 'VALIDATION_ERROR', false, { fbTraceId });
+  constructor(
+    message: string,
+    details: Record<string, string[]> = {},
+    extra?: {
+      errorSubcode?: number;
+      errorUserTitle?: string;
+      errorUserMsg?: string;
+      fbTraceId?: string;
+    }
+  ) {
+    super(message, 400, 'VALIDATION_ERROR', false, extra);
     this.name = 'ValidationError';
     this.details = details;
   }
 }
 
+/**
+ * A tenant guardrail policy refused a change before it was sent to Meta
+ */
+export class PolicyViolationError extends MetaAdsApiError {
+  /** The policy setting that refused the change, e.g. maxDailyBudget */
+  public policy: string;
+
+  constructor(message: string, policy: string) {
+    super(message, 403, 'POLICY_VIOLATION', false);
+    this.name = 'PolicyViolationError';
+    this.policy = policy;
+  }
+}
+
+/**
+ * Chunked video upload stopped partway; it can be resumed from startOffset
+ */
+export class UploadInterruptedError extends MetaAdsApiError {
+  public uploadSessionId: string;
+  public videoId: string;
+  public startOffset: number;
+
+  constructor(
+    cause: unknown,
+    upload: { uploadSessionId: string; videoId: string; startOffset: number }
+  ) {
+    const base = cause instanceof MetaAdsApiError ? cause : undefined;
+    super(
+      `Video upload interrupted at byte ${upload.startOffset}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      base?.statusCode,
+      'UPLOAD_INTERRUPTED',
+      base?.retryable ?? true,
+      base && {
+        errorSubcode: base.errorSubcode,
+        errorUserTitle: base.errorUserTitle,
+        errorUserMsg: base.errorUserMsg,
+        fbTraceId: base.fbTraceId,
+      }
+    );
+    this.name = 'UploadInterruptedError';
+    this.uploadSessionId = upload.uploadSessionId;
+    this.videoId = upload.videoId;
+    this.startOffset = upload.startOffset;
+  }
+}
+
 /**
  * Parse Meta API error response
+ *
+ * @param retryAfterSeconds - Regain-access time derived from the usage headers, if known
  */
-export function parseMetaApiError(errorBody: Record<string, unknown>, statusCode: number): MetaAdsApiError {
+export function parseMetaApiError(
+  errorBody: Record<string, unknown>,
+  statusCode: number,
+  retryAfterSeconds?: number
+): MetaAdsApiError {
   const error = errorBody.error as Record<string, unknown> | undefined;
 
   if (!error) {
@@ -109,7 +186,7 @@ export function parseMetaApiError(errorBody: Record<string, unknown>, statusCode
       `API error: ${statusCode}`,
       statusCode,
       'UNKNOWN_ERROR',
-      false
+      statusCode >= 500
     );
   }
 
@@ -132,21 +209,28 @@ export function parseMetaApiError(errorBody: Record<string, unknown>, statusCode
 
   // Rate limit errors (code 4, 17, 32, 613)
   if (code === 4 || code === 17 || code === 32 || code === 613) {
-    // Default retry after 60 seconds
-    return new RateLimitError(message, 60, fbTraceId);
+    // 0 when Meta did not report a regain time, so retries fall back to backoff
+    return new RateLimitError(message, retryAfterSeconds ?? 0, fbTraceId);
   }
 
   // Validation errors (code 100)
   if (code === 100) {
-    return new ValidationError(message, {}, fbTraceId);
+    return new ValidationError(
+      message,
+      {},
+      { errorSubcode, errorUserTitle, errorUserMsg, fbTraceId }
+    );
   }
 
+  // Transient errors (codes 1 and 2, flagged is_transient, or any 5xx)
+  const transient = error.is_transient === true || code === 1 || code === 2 || statusCode >= 500;
+
   // Default error
   return new MetaAdsApiError(
     message,
     statusCode,
     code ? String(code) : 'UNKNOWN_ERROR',
-    false,
+    transient,
     { errorSubcode, errorUserTitle, errorUserMsg, fbTraceId }
   );
 }
@@ -170,9 +254,13 @@ export function isRetryableError(error: unknown): boolean {
 }
 
 /**
- * Format an error for logging
+ * Format an error for logging, with tokens, secrets and PII redacted
  */
 export function formatErrorForLogging(error: unknown): Record<string, unknown> {
+  return redactValue(describeError(error));
+}
+
+function describeError(error: unknown): Record<string, unknown> {
   if (error instanceof MetaAdsApiError) {
     return {
       name: error.name,
@@ -181,7 +269,16 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       statusCode: error.statusCode,
       retryable: error.retryable,
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
+      ...(error instanceof TimeoutError && { timeoutMs: error.timeoutMs }),
       ...(error instanceof ValidationError && { details: error.details }),
+      ...(error instanceof PolicyViolationError && { policy: error.policy }),
+      ...(error instanceof UploadInterruptedError && {
+        resume: {
+          uploadSessionId: error.uploadSessionId,
+          videoId: error.videoId,
+          startOffset: error.startOffset,
+        },
+      }),
       ...(error.errorSubcode && { errorSubcode: error.errorSubcode }),
       ...(error.errorUserTitle && { errorUserTitle: error.errorUserTitle }),
       ...(error.errorUserMsg && { errorUserMsg: error.errorUserMsg }),
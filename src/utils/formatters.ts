@@ -5,19 +5,29 @@
  */
 
 import type {
+  AccountActivity,
   Ad,
   AdAccount,
   AdCreative,
+  AdRule,
+  AdRuleHistory,
   AdSet,
+  AutomationRule,
+  AutomationRun,
   Campaign,
+  CampaignPlan,
   CustomAudience,
+  DryRunResult,
   Insights,
   PaginatedResponse,
   Pixel,
   ProductCatalog,
   ResponseFormat,
+  UpdateResult,
 } from '../types/entities.js';
+import type { AuditEntry } from './audit.js';
 import { MetaAdsApiError, formatErrorForLogging } from './errors.js';
+import { redactText } from './redact.js';
 
 /**
  * MCP tool response type
@@ -47,6 +57,103 @@ export function formatResponse(
   };
 }
 
+/**
+ * Format an update: the new state and its field-level changes as JSON, or the
+ * changes as a Markdown table
+ */
+export function formatUpdateResult(
+  result: UpdateResult<{ id?: string; name?: string }>,
+  format: ResponseFormat,
+  entityType: string,
+  key: string
+): ToolResponse {
+  const message = `${capitalize(entityType)} updated`;
+  const warning = result.before
+    ? undefined
+    : `The ${entityType} could not be read before the update, so its changes are unknown`;
+  if (format === 'markdown') {
+    return {
+      content: [{ type: 'text', text: formatChangesAsMarkdown(result, message, warning) }],
+    };
+  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          { success: true, message, warning, changes: result.changes, [key]: result.after },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Format the outcome of a create or update that was only validated
+ */
+export function formatDryRun(result: DryRunResult, action: string): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            success: result.success,
+            dryRun: true,
+            message: `${action} passed validation; nothing was changed`,
+            recommendations: result.recommendations ?? [],
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Format a campaign document plan: the steps and issues as JSON, or a step table
+ * followed by the issues as Markdown
+ */
+export function formatCampaignPlan(plan: CampaignPlan, format: ResponseFormat): ToolResponse {
+  const counts = (['create', 'update', 'pause'] as const).map(
+    (action) => `${plan.steps.filter((step) => step.action === action).length} to ${action}`
+  );
+  const summary = `${counts.join(', ')}; ${plan.issues.length} issues`;
+  if (format !== 'markdown') {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ summary, ...plan }, null, 2) }],
+    };
+  }
+
+  const lines: string[] = [];
+  lines.push(`## Plan: ${summary}`);
+  lines.push('');
+  if (plan.steps.length === 0) {
+    lines.push('_The live campaign matches the document._');
+  } else {
+    lines.push('| Action | Object | Name | ID | Fields |');
+    lines.push('|---|---|---|---|---|');
+    for (const step of plan.steps) {
+      const fields = step.changes.map((change) => change.field).join(', ');
+      lines.push(
+        `| ${step.action} | ${step.objectType} | ${step.name} | ${step.id ?? '(new)'} | ${fields} |`
+      );
+    }
+  }
+  if (plan.issues.length > 0) {
+    lines.push('');
+    lines.push('### Issues');
+    for (const issue of plan.issues) {
+      lines.push(`- ${issue.path} (${issue.name}): ${issue.reason}`);
+    }
+  }
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
 /**
  * Format an error response
  */
@@ -56,8 +163,9 @@ export function formatError(error: unknown): ToolResponse {
   let message: string;
   if (error instanceof MetaAdsApiError) {
     message = `Error: ${error.message}`;
-    if (error.errorUserMsg) {
-      message += ` - ${error.errorUserMsg}`;
+    // Meta's user-facing title and message usually say which field is wrong and why
+    if (error.errorUserTitle || error.errorUserMsg) {
+      message += ` - ${[error.errorUserTitle, error.errorUserMsg].filter(Boolean).join(': ')}`;
     }
     if (error.retryable) {
       message += ' (retryable)';
@@ -72,7 +180,7 @@ export function formatError(error: unknown): ToolResponse {
     content: [
       {
         type: 'text',
-        text: JSON.stringify({ error: message, details: errorInfo }, null, 2),
+        text: JSON.stringify({ error: redactText(message), details: errorInfo }, null, 2),
       },
     ],
     isError: true,
@@ -154,12 +262,30 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     case 'pixels':
       lines.push(formatPixelsTable(data.data as Pixel[]));
       break;
+    case 'ad_rules':
+      lines.push(formatAdRulesTable(data.data as AdRule[]));
+      break;
+    case 'ad_rule_history':
+      lines.push(formatAdRuleHistoryTable(data.data as AdRuleHistory[]));
+      break;
+    case 'automation_rules':
+      lines.push(formatAutomationRulesTable(data.data as AutomationRule[]));
+      break;
+    case 'automation_rule_runs':
+      lines.push(formatAutomationRunsTable(data.data as AutomationRun[]));
+      break;
     case 'catalogs':
       lines.push(formatCatalogsTable(data.data as ProductCatalog[]));
       break;
     case 'insights':
       lines.push(formatInsightsTable(data.data as Insights[]));
       break;
+    case 'audit_log':
+      lines.push(formatAuditLogTable(data.data as AuditEntry[]));
+      break;
+    case 'activities':
+      lines.push(formatActivityTimeline(data.data as AccountActivity[]));
+      break;
     default:
       lines.push(formatGenericTable(data.data));
   }
@@ -311,6 +437,105 @@ function formatPixelsTable(pixels: Pixel[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format automated rules as Markdown table
+ */
+function formatAdRulesTable(rules: AdRule[]): string {
+  const lines: string[] = [];
+  lines.push('| ID | Name | Status | Applies To | Action | Runs |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const rule of rules) {
+    const entityType = rule.evaluation_spec?.filters?.find(
+      (filter) => filter.field === 'entity_type'
+    )?.value;
+    const runs =
+      rule.evaluation_spec?.evaluation_type === 'TRIGGER'
+        ? `On ${rule.evaluation_spec.trigger?.type ?? 'trigger'}`
+        : (rule.schedule_spec?.schedule_type ?? '-');
+    lines.push(
+      `| ${rule.id} | ${rule.name} | ${rule.status} | ${entityType ?? '-'} | ${rule.execution_spec?.execution_type ?? '-'} | ${runs} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format automated rule runs as Markdown table
+ */
+function formatAdRuleHistoryTable(runs: AdRuleHistory[]): string {
+  const lines: string[] = [];
+  lines.push('| Time | Manual | Objects | Actions | Error |');
+  lines.push('|---|---|---|---|---|');
+
+  for (const run of runs) {
+    const actions = (run.results ?? []).flatMap((result) =>
+      (result.actions ?? []).map((action) => {
+        const change = action.field
+          ? ` ${action.field} ${action.old_value} → ${action.new_value}`
+          : '';
+        return `${action.action} ${result.object_id}${change}`;
+      })
+    );
+    lines.push(
+      `| ${run.timestamp} | ${run.is_manual ? 'Yes' : 'No'} | ${run.results?.length ?? 0} | ${actions.join('; ') || '-'} | ${run.exception_message?.replace(/\|/g, '\\|') ?? '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format server-side automation rules as Markdown table
+ */
+function formatAutomationRulesTable(rules: AutomationRule[]): string {
+  const lines: string[] = [];
+  lines.push('| ID | Name | Enabled | Level | Conditions | Action | Every | Last Run |');
+  lines.push('|---|---|---|---|---|---|---|---|');
+
+  for (const rule of rules) {
+    const conditions = rule.conditions
+      .map((condition) => {
+        const value = condition.relativeTo ? `${condition.value}× ad set` : condition.value;
+        return `${condition.metric} ${condition.operator} ${value}`;
+      })
+      .join(' and ');
+    const action =
+      rule.action.type === 'change_budget'
+        ? `budget ${rule.action.percent > 0 ? '+' : ''}${rule.action.percent}%`
+        : rule.action.type;
+    lines.push(
+      `| ${rule.id} | ${rule.name} | ${rule.enabled ? 'Yes' : 'No'} | ${rule.level} | ${conditions} | ${action} | ${rule.intervalHours}h | ${rule.lastRunAt ?? '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format automation rule runs as Markdown table
+ */
+function formatAutomationRunsTable(runs: AutomationRun[]): string {
+  const lines: string[] = [];
+  lines.push('| Started | Rule | Trigger | Simulated | Evaluated | Matched | Actions | Error |');
+  lines.push('|---|---|---|---|---|---|---|---|');
+
+  for (const run of runs) {
+    const matched = run.evaluations.filter((evaluation) => evaluation.matched).length;
+    const actions = run.actions.map((action) => {
+      const outcome = action.skipped ? 'skipped' : action.success ? 'ok' : 'failed';
+      return `${action.action} ${action.id} (${outcome})`;
+    });
+    const error = run.error?.message;
+    lines.push(
+      `| ${run.startedAt} | ${run.ruleId} | ${run.trigger} | ${run.simulated ? 'Yes' : 'No'} | ${run.evaluations.length} | ${matched} | ${actions.join('; ') || '-'} | ${typeof error === 'string' ? error.replace(/\|/g, '\\|') : '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format product catalogs as Markdown table
  */
@@ -349,6 +574,92 @@ function formatInsightsTable(insights: Insights[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format audit log entries as Markdown table
+ */
+function formatAuditLogTable(entries: AuditEntry[]): string {
+  const lines: string[] = [];
+  lines.push('| Time | Tool | Call | Object | Result | Trace ID |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const entry of entries) {
+    const result = entry.success
+      ? 'OK'
+      : `Failed: ${String(entry.error?.message ?? 'unknown error').replace(/\|/g, '\\|')}`;
+    lines.push(
+      `| ${entry.timestamp} | ${entry.tool} | ${entry.method} ${entry.endpoint} | ${entry.objectId} | ${result} | ${entry.fbTraceId ?? '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format account activity as a timeline, one line per change with who made it,
+ * what changed and the old and new values
+ */
+function formatActivityTimeline(activities: AccountActivity[]): string {
+  return activities
+    .map((activity) => {
+      const time = activity.event_time.replace('T', ' ').replace(/:\d{2}(\+\d{4}|Z)?$/, '');
+      const actor = [
+        activity.actor_name,
+        activity.application_name && `via ${activity.application_name}`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      const event = activity.translated_event_type
+        ? `${activity.translated_event_type} (\`${activity.event_type}\`)`
+        : `\`${activity.event_type}\``;
+      const objectId = activity.object_id ? ` (\`${activity.object_id}\`)` : '';
+      const object = activity.object_name ? ` on **${activity.object_name}**${objectId}` : '';
+      const change = describeActivityChange(activity.extra_data);
+      const suffix = change ? `: ${change}` : '';
+      return `- **${time}** ${actor || 'Unknown actor'}: ${event}${object}${suffix}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Read old and new values out of an activity's extra_data, e.g. "Active → Paused"
+ */
+function describeActivityChange(extraData?: string): string | undefined {
+  if (!extraData) return undefined;
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(extraData) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  if (typeof data !== 'object' || data === null || !('old_value' in data || 'new_value' in data)) {
+    return undefined;
+  }
+  const before = formatActivityValue(data.old_value, 'old_value');
+  const after = formatActivityValue(data.new_value, 'new_value');
+  return `${before} → ${after}`;
+}
+
+/**
+ * Budgets and spend caps arrive as { old_value: 5000, currency: 'USD' } in minor units
+ */
+function formatActivityValue(value: unknown, key: string): string {
+  if (value === undefined || value === null || value === '') return '_(none)_';
+  if (Array.isArray(value)) {
+    return value.map((item) => formatActivityValue(item, key)).join(', ');
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const amount = record[key] ?? record.value;
+    const isAmount = amount !== undefined && !Number.isNaN(Number(amount));
+    if (typeof record.currency === 'string' && isAmount) {
+      return `${(Number(amount) / 100).toFixed(2)} ${record.currency}`;
+    }
+    return amount !== undefined ? formatActivityValue(amount, key) : JSON.stringify(value);
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
 /**
  * Format a generic array as Markdown table
  */
@@ -402,6 +713,48 @@ function formatObjectAsMarkdown(data: Record<string, unknown>, entityType: strin
   return lines.join('\n');
 }
 
+/**
+ * Format the fields an update changed as a Before/After table
+ */
+function formatChangesAsMarkdown(
+  result: UpdateResult<{ id?: string; name?: string }>,
+  title: string,
+  warning?: string
+): string {
+  const lines: string[] = [];
+  const { id, name } = result.after;
+  lines.push(`## ${title}: ${name ?? id} (\`${id}\`)`);
+  lines.push('');
+
+  if (warning) {
+    lines.push(`_${warning}._`);
+    return lines.join('\n');
+  }
+
+  if (result.changes.length === 0) {
+    lines.push('_No fields changed._');
+    return lines.join('\n');
+  }
+
+  lines.push(`**Fields changed:** ${result.changes.length}`);
+  lines.push('');
+  lines.push('| Field | Before | After |');
+  lines.push('|-------|--------|-------|');
+  for (const change of result.changes) {
+    lines.push(
+      `| ${change.field} | ${formatChangeValue(change.before)} | ${formatChangeValue(change.after)} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) return '_(none)_';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
 /**
  * Capitalize first letter
  */
@@ -1,2 +1,17 @@
+export * from './audit.js';
+export * from './automation.js';
+export * from './cache.js';
+export * from './clone.js';
+export * from './crypto.js';
+export * from './diff.js';
+export * from './documents.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './insights.js';
+export * from './media.js';
+export * from './pagination.js';
+export * from './policy.js';
+export * from './redact.js';
+export * from './retry.js';
+export * from './snapshots.js';
+export * from './usage.js';
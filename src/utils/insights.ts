@@ -0,0 +1,106 @@
+/**
+ * Insights Query Utilities
+ *
+ * Sizing heuristics that decide when an insights query should run as an
+ * asynchronous report job instead of a synchronous GET.
+ */
+
+import type { DatePreset, InsightsParams } from '../types/entities.js';
+
+type InsightsLevel = NonNullable<InsightsParams['level']>;
+
+/** Queries estimated above this many rows run as async report jobs */
+export const ASYNC_INSIGHTS_ROW_THRESHOLD = 10_000;
+
+/** Days covered by each date preset (upper bound) */
+const DATE_PRESET_DAYS: Record<DatePreset, number> = {
+  today: 1,
+  yesterday: 1,
+  last_3d: 3,
+  last_7d: 7,
+  last_14d: 14,
+  last_28d: 28,
+  last_30d: 30,
+  last_90d: 90,
+  this_week_mon_today: 7,
+  this_week_sun_today: 7,
+  last_week_mon_sun: 7,
+  last_week_sun_sat: 7,
+  this_month: 31,
+  last_month: 31,
+  this_quarter: 92,
+  last_quarter: 92,
+  this_year: 366,
+  last_year: 366,
+  // Meta keeps 37 months of insights
+  maximum: 1130,
+  data_maximum: 1130,
+};
+
+/** Rough number of values per breakdown dimension */
+const BREAKDOWN_CARDINALITY: Record<string, number> = {
+  age: 7,
+  gender: 3,
+  country: 25,
+  region: 50,
+  dma: 210,
+  device_platform: 2,
+  impression_device: 8,
+  publisher_platform: 4,
+  platform_position: 15,
+  frequency_value: 20,
+  hourly_stats_aggregated_by_advertiser_time_zone: 24,
+  hourly_stats_aggregated_by_audience_time_zone: 24,
+};
+
+const DEFAULT_BREAKDOWN_CARDINALITY = 10;
+
+/** Assumed number of children per object when reporting below the queried node */
+const FAN_OUT_PER_LEVEL = 10;
+
+const LEVELS: InsightsLevel[] = ['account', 'campaign', 'adset', 'ad'];
+
+/**
+ * Estimate how many rows an insights query returns, from its date range, time
+ * increment, breakdowns and how many levels below the queried object it reports.
+ */
+export function estimateInsightsRows(params: InsightsParams, nodeLevel: InsightsLevel): number {
+  const days = getDateRangeDays(params);
+
+  const increment = params.time_increment;
+  const bucketDays =
+    increment === undefined || increment === 'all_days'
+      ? days
+      : increment === 'monthly'
+        ? 30
+        : Math.max(1, Number(increment) || days);
+  const buckets = Math.ceil(days / bucketDays);
+
+  const breakdowns = (params.breakdowns ?? []).reduce(
+    (total, breakdown) =>
+      total * (BREAKDOWN_CARDINALITY[breakdown] ?? DEFAULT_BREAKDOWN_CARDINALITY),
+    1
+  );
+
+  const depth = Math.max(0, LEVELS.indexOf(params.level ?? nodeLevel) - LEVELS.indexOf(nodeLevel));
+  return buckets * breakdowns * FAN_OUT_PER_LEVEL ** depth;
+}
+
+/**
+ * Whether an insights query is large enough to need an async report job
+ */
+export function isLargeInsightsQuery(params: InsightsParams, nodeLevel: InsightsLevel): boolean {
+  return estimateInsightsRows(params, nodeLevel) > ASYNC_INSIGHTS_ROW_THRESHOLD;
+}
+
+function getDateRangeDays(params: InsightsParams): number {
+  if (params.time_range) {
+    const since = Date.parse(`${params.time_range.since}T00:00:00Z`);
+    const until = Date.parse(`${params.time_range.until}T00:00:00Z`);
+    if (!Number.isNaN(since) && !Number.isNaN(until) && until >= since) {
+      return Math.round((until - since) / 86_400_000) + 1;
+    }
+  }
+  // Graph defaults to last_30d when no range is given
+  return DATE_PRESET_DAYS[params.date_preset ?? 'last_30d'] ?? 30;
+}
@@ -0,0 +1,286 @@
+/**
+ * Media Utilities for Meta Ads API
+ *
+ * Decoding, downloading and validation of image and video files before they
+ * are uploaded to an ad account.
+ */
+
+import { ValidationError } from './errors.js';
+
+/** Largest video accepted for upload; the whole file is held in Worker memory */
+export const MAX_VIDEO_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+/**
+ * A downloaded media file
+ */
+export interface MediaFile {
+  bytes: Uint8Array;
+  /** Content-Type reported by the server, if any */
+  contentType?: string;
+}
+
+/**
+ * Decode base64 (optionally a data: URL) into bytes
+ */
+export function decodeBase64(data: string): Uint8Array {
+  const encoded = data.replace(/^data:[^,]*;base64,/, '').replace(/\s/g, '');
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch {
+    throw new ValidationError('Media data is not valid base64');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large files do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Download a media file over HTTP(S), refusing files larger than maxBytes
+ */
+export async function fetchMedia(
+  url: string,
+  options: { maxBytes: number; signal?: AbortSignal }
+): Promise<MediaFile> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError(`Invalid media URL: ${url}`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new ValidationError('Media URL must use http or https');
+  }
+
+  const response = await fetch(parsed, { signal: options.signal });
+  if (!response.ok) {
+    throw new ValidationError(
+      `Could not download media from ${parsed.host}: HTTP ${response.status}`
+    );
+  }
+
+  const declared = Number(response.headers.get('Content-Length'));
+  if (declared > options.maxBytes) {
+    await response.body?.cancel();
+    throw new ValidationError(
+      `Media is ${declared} bytes, larger than the ${options.maxBytes} byte limit`
+    );
+  }
+
+  // Read incrementally so a server that omits Content-Length cannot exhaust memory
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > options.maxBytes) {
+      await reader.cancel();
+      throw new ValidationError(`Media is larger than the ${options.maxBytes} byte limit`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, contentType: response.headers.get('Content-Type') ?? undefined };
+}
+
+// =============================================================================
+// Image Validation
+// =============================================================================
+
+/** Largest image Meta accepts */
+export const MAX_IMAGE_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif';
+
+/**
+ * Format and dimensions read from an image's header
+ */
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  /** Width divided by height */
+  aspectRatio: number;
+  sizeBytes: number;
+}
+
+interface PlacementImageSpec {
+  minWidth: number;
+  /** Stories and Reels only set a minimum width */
+  minHeight?: number;
+  /** Narrowest supported width / height */
+  minAspectRatio: number;
+  /** Widest supported width / height */
+  maxAspectRatio: number;
+}
+
+/** Minimum sizes and supported aspect ratios of the main image placements */
+const PLACEMENT_IMAGE_SPECS: Record<string, PlacementImageSpec> = {
+  feed: { minWidth: 600, minHeight: 600, minAspectRatio: 4 / 5, maxAspectRatio: 1.91 },
+  stories_and_reels: {
+    minWidth: 500,
+    minAspectRatio: 9 / 16,
+    maxAspectRatio: 9 / 16,
+  },
+  right_column: { minWidth: 254, minHeight: 133, minAspectRatio: 1, maxAspectRatio: 1.91 },
+};
+
+// Meta accepts aspect ratios within 3% of the supported range
+const ASPECT_RATIO_TOLERANCE = 0.03;
+
+/**
+ * Identify an image by its magic bytes and read its pixel dimensions.
+ * Returns undefined for anything that is not a readable JPEG, PNG or GIF.
+ */
+export function inspectImage(bytes: Uint8Array): ImageInfo | undefined {
+  const format = sniffImageFormat(bytes);
+  const size =
+    format === 'jpeg'
+      ? readJpegSize(bytes)
+      : format === 'png'
+        ? readPngSize(bytes)
+        : format === 'gif'
+          ? readGifSize(bytes)
+          : undefined;
+  if (!format || !size || size.width === 0 || size.height === 0) {
+    return undefined;
+  }
+  return {
+    format,
+    ...size,
+    aspectRatio: Math.round((size.width / size.height) * 1000) / 1000,
+    sizeBytes: bytes.byteLength,
+  };
+}
+
+/**
+ * Check an image before upload. Unsupported formats, unreadable headers and
+ * oversized files are errors; placements the image is too small or the wrong
+ * shape for are returned as warnings.
+ */
+export function validateImage(bytes: Uint8Array): { info: ImageInfo; warnings: string[] } {
+  if (bytes.byteLength > MAX_IMAGE_UPLOAD_BYTES) {
+    throw new ValidationError(
+      `Image is ${bytes.byteLength} bytes, larger than the ${MAX_IMAGE_UPLOAD_BYTES} byte limit`
+    );
+  }
+  if (!sniffImageFormat(bytes)) {
+    throw new ValidationError('Unsupported image format; upload a JPEG, PNG or GIF file');
+  }
+  const info = inspectImage(bytes);
+  if (!info) {
+    throw new ValidationError(
+      'Image file is corrupt or truncated; its dimensions could not be read'
+    );
+  }
+
+  const warnings: string[] = [];
+  for (const [placement, spec] of Object.entries(PLACEMENT_IMAGE_SPECS)) {
+    if (spec.minHeight === undefined) {
+      if (info.width < spec.minWidth) {
+        warnings.push(
+          `${placement}: width ${info.width}px is below the ${spec.minWidth}px minimum`
+        );
+      }
+    } else if (info.width < spec.minWidth || info.height < spec.minHeight) {
+      warnings.push(
+        `${placement}: ${info.width}x${info.height} is below the ${spec.minWidth}x${spec.minHeight} minimum`
+      );
+    }
+    if (
+      info.aspectRatio < spec.minAspectRatio * (1 - ASPECT_RATIO_TOLERANCE) ||
+      info.aspectRatio > spec.maxAspectRatio * (1 + ASPECT_RATIO_TOLERANCE)
+    ) {
+      const range =
+        spec.minAspectRatio === spec.maxAspectRatio
+          ? formatRatio(spec.minAspectRatio)
+          : `${formatRatio(spec.minAspectRatio)} to ${formatRatio(spec.maxAspectRatio)}`;
+      warnings.push(
+        `${placement}: aspect ratio ${formatRatio(info.aspectRatio)} is outside ${range} and will be cropped`
+      );
+    }
+  }
+  return { info, warnings };
+}
+
+function sniffImageFormat(bytes: Uint8Array): ImageFormat | undefined {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if ([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte)) {
+    return 'png';
+  }
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  if (signature === 'GIF87a' || signature === 'GIF89a') {
+    return 'gif';
+  }
+  return undefined;
+}
+
+function readJpegSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    // Start-of-frame markers, excluding DHT, JPG and DAC which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return undefined;
+}
+
+function readPngSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+  if (bytes.length < 24 || String.fromCharCode(...bytes.subarray(12, 16)) !== 'IHDR') {
+    return undefined;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function readGifSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+  if (bytes.length < 10) {
+    return undefined;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+}
+
+function formatRatio(ratio: number): string {
+  return `${Math.round(ratio * 100) / 100}:1`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Pagination Utilities for Meta Ads API
+ *
+ * Follows Graph API cursors across pages for any list method.
+ */
+
+import type { PaginatedResponse, PaginationParams } from '../types/entities.js';
+
+/**
+ * Fetches a single page; receives the page size and cursor to use
+ */
+export type PageFetcher<T> = (
+  page: Required<Pick<PaginationParams, 'limit'>> & Pick<PaginationParams, 'after'>
+) => Promise<PaginatedResponse<T>>;
+
+export interface PaginateOptions {
+  /** Items requested per page */
+  pageSize: number;
+  /** Cursor to start from */
+  after?: string;
+  /** Stop once this many items have been collected */
+  maxItems?: number;
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Stop before the serialized items would exceed this many characters */
+  maxCharacters?: number;
+}
+
+/**
+ * Result of collecting several pages
+ */
+export interface CollectedPages<T> extends PaginatedResponse<T> {
+  /** Number of pages fetched */
+  pages: number;
+  /** True when a cap stopped collection before the last page */
+  truncated: boolean;
+}
+
+/**
+ * Iterate over pages, following `paging.cursors.after` until the last page
+ * or until maxItems/maxPages is reached.
+ *
+ * Page sizes shrink as maxItems is approached so a page never overshoots the cap,
+ * which keeps the returned cursor an exact resume point.
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions
+): AsyncGenerator<PaginatedResponse<T>> {
+  let after = options.after;
+  let items = 0;
+  let pages = 0;
+
+  while (true) {
+    const remaining = options.maxItems !== undefined ? options.maxItems - items : Infinity;
+    if (remaining <= 0 || (options.maxPages !== undefined && pages >= options.maxPages)) {
+      return;
+    }
+
+    const page = await fetchPage({ limit: Math.min(options.pageSize, remaining), after });
+    pages++;
+    items += page.data.length;
+    yield page;
+
+    const next = page.paging?.cursors?.after;
+    if (!page.paging?.next || !next || page.data.length === 0) {
+      return;
+    }
+    after = next;
+  }
+}
+
+/**
+ * Iterate over individual items across pages
+ */
+export async function* paginateItems<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions
+): AsyncGenerator<T> {
+  for await (const page of paginate(fetchPage, options)) {
+    yield* page.data;
+  }
+}
+
+/**
+ * Collect pages into a single response.
+ *
+ * When a cap stops collection early, `paging.cursors.after` holds the cursor to
+ * resume from. A page that would push the response past maxCharacters is left
+ * out entirely (except the first one) so no items are skipped on resume.
+ */
+export async function listAll<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions
+): Promise<CollectedPages<T>> {
+  const data: T[] = [];
+  let characters = 0;
+  let pages = 0;
+  let resumeAfter = options.after;
+  let lastPage: PaginatedResponse<T> | undefined;
+
+  for await (const page of paginate(fetchPage, options)) {
+    const size = page.data.reduce((total, item) => total + JSON.stringify(item).length, 0);
+    if (
+      options.maxCharacters !== undefined &&
+      pages > 0 &&
+      characters + size > options.maxCharacters
+    ) {
+      return { data, paging: { cursors: { after: resumeAfter } }, pages, truncated: true };
+    }
+
+    data.push(...page.data);
+    characters += size;
+    pages++;
+    resumeAfter = page.paging?.cursors?.after;
+    lastPage = page;
+  }
+
+  const hasMore = Boolean(lastPage?.paging?.next && resumeAfter && lastPage.data.length > 0);
+  return {
+    data,
+    paging: hasMore ? { cursors: { after: resumeAfter } } : undefined,
+    pages,
+    truncated: hasMore,
+  };
+}
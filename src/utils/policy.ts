@@ -0,0 +1,468 @@
+/**
+ * Guardrail Policy Utilities for Meta Ads API
+ *
+ * Per-tenant limits the client checks before every change it sends, whichever
+ * tool or scheduled run asked for it: budget ceilings and daily increase limits,
+ * forbidden objectives and special ad categories, archiving instead of deleting,
+ * and campaigns that may not be changed at all.
+ */
+
+import { z } from 'zod';
+import type { MetaAdsClient } from '../client.js';
+import type { AccountActivity, BatchOperation, TreeObjectType } from '../types/entities.js';
+import { PolicyViolationError, ValidationError } from './errors.js';
+import { paginateItems } from './pagination.js';
+
+/**
+ * A tenant's guardrails (stored for the tenant or from the X-Meta-Policy header).
+ * Money is in cents.
+ */
+export interface TenantPolicy {
+  /** Highest daily budget a campaign or ad set may have */
+  maxDailyBudget?: number;
+  /** Highest lifetime budget a campaign or ad set may have */
+  maxLifetimeBudget?: number;
+  /** Highest percentage a budget may rise within 24 hours */
+  maxBudgetIncreasePercentPerDay?: number;
+  /** Objectives new campaigns may not use */
+  forbiddenObjectives?: string[];
+  /** Special ad categories new campaigns may not declare */
+  forbiddenSpecialAdCategories?: string[];
+  /** Archive campaigns, ad sets and ads instead of deleting them; audience deletes are refused */
+  archiveInsteadOfDelete?: boolean;
+  /** Campaigns that may not be changed or deleted, along with their ad sets and ads */
+  protectedCampaignIds?: string[];
+}
+
+const TenantPolicySchema = z
+  .object({
+    maxDailyBudget: z.number().int().positive().optional(),
+    maxLifetimeBudget: z.number().int().positive().optional(),
+    maxBudgetIncreasePercentPerDay: z.number().min(0).optional(),
+    forbiddenObjectives: z.array(z.string()).optional(),
+    forbiddenSpecialAdCategories: z.array(z.string()).optional(),
+    archiveInsteadOfDelete: z.boolean().optional(),
+    protectedCampaignIds: z.array(z.string()).optional(),
+  })
+  .strict();
+
+/**
+ * Parse a policy from JSON, rejecting unknown settings so a typo cannot
+ * silently switch a guardrail off
+ */
+export function parseTenantPolicy(json: string): TenantPolicy {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new ValidationError('Policy is not valid JSON');
+  }
+  const result = TenantPolicySchema.safeParse(value);
+  if (!result.success) {
+    const details: Record<string, string[]> = {};
+    for (const issue of result.error.issues) {
+      const path = issue.path.join('.') || 'policy';
+      details[path] = [...(details[path] ?? []), issue.message];
+    }
+    throw new ValidationError(
+      `Invalid policy: ${result.error.issues.map((issue) => issue.message).join('; ')}`,
+      details
+    );
+  }
+  return result.data;
+}
+
+// =============================================================================
+// Stored Policies
+// =============================================================================
+
+/**
+ * Policies set by the operator for each tenant. A stored policy replaces the
+ * X-Meta-Policy header, which callers could otherwise simply leave out.
+ */
+export interface PolicyStore {
+  get(tenant: string): Promise<TenantPolicy | undefined>;
+}
+
+/**
+ * PolicyStore backed by a D1 database (schema in migrations/0004_tenant_policies.sql).
+ * A stored policy that no longer parses is an error rather than no policy.
+ */
+export class D1PolicyStore implements PolicyStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async get(tenant: string): Promise<TenantPolicy | undefined> {
+    const row = await this.db
+      .prepare('SELECT policy FROM tenant_policies WHERE tenant = ?')
+      .bind(tenant)
+      .first<{ policy: string }>();
+    return row ? parseTenantPolicy(row.policy) : undefined;
+  }
+}
+
+/** Budget fields of campaigns and ad sets, with the policy setting that caps each */
+const BUDGET_LIMITS = [
+  ['daily_budget', 'maxDailyBudget'],
+  ['lifetime_budget', 'maxLifetimeBudget'],
+] as const;
+
+type BudgetField = (typeof BUDGET_LIMITS)[number][0];
+
+type BudgetInput = Partial<Record<BudgetField, number>>;
+
+/** A campaign or ad set as read for budget checks */
+interface BudgetedObject {
+  id: string;
+  account_id: string;
+  daily_budget?: string;
+  lifetime_budget?: string;
+}
+
+type DeletableObject = 'campaign' | 'adset' | 'ad' | 'audience';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CAMPAIGN_BUDGET_FIELDS = 'id,account_id,daily_budget,lifetime_budget';
+
+const AD_SET_BUDGET_FIELDS = 'id,account_id,campaign_id,daily_budget,lifetime_budget';
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Check a new campaign's objective, special ad categories and budget
+ */
+export function checkCampaignCreate(
+  policy: TenantPolicy | undefined,
+  input: { objective: string; special_ad_categories?: string[] } & BudgetInput
+): void {
+  if (!policy) return;
+  if (policy.forbiddenObjectives?.includes(input.objective)) {
+    throw new PolicyViolationError(
+      `Campaigns with objective ${input.objective} are not allowed for this tenant`,
+      'forbiddenObjectives'
+    );
+  }
+  const category = input.special_ad_categories?.find((category) =>
+    policy.forbiddenSpecialAdCategories?.includes(category)
+  );
+  if (category) {
+    throw new PolicyViolationError(
+      `Campaigns in special ad category ${category} are not allowed for this tenant`,
+      'forbiddenSpecialAdCategories'
+    );
+  }
+  checkBudgetLimits(policy, input);
+}
+
+/**
+ * Check a campaign update: protection, deletion by status and budget changes
+ */
+export async function checkCampaignUpdate(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  campaignId: string,
+  input: { status?: string } & BudgetInput
+): Promise<void> {
+  if (!policy) return;
+  checkNotProtected(policy, campaignId, `Campaign ${campaignId}`);
+  checkStatus(policy, input.status);
+  checkBudgetLimits(policy, input);
+  if (needsBudgetHistory(policy, input)) {
+    const campaign = await client.getCampaign(campaignId, CAMPAIGN_BUDGET_FIELDS);
+    await checkBudgetIncrease(policy, client, campaign, input);
+  }
+}
+
+/**
+ * Check a new ad set's campaign and budget
+ */
+export function checkAdSetCreate(
+  policy: TenantPolicy | undefined,
+  input: { campaign_id: string } & BudgetInput
+): void {
+  if (!policy) return;
+  checkNotProtected(policy, input.campaign_id, `Campaign ${input.campaign_id}`);
+  checkBudgetLimits(policy, input);
+}
+
+/**
+ * Check an ad set update: its campaign's protection, deletion by status and
+ * budget changes
+ */
+export async function checkAdSetUpdate(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  adSetId: string,
+  input: { status?: string } & BudgetInput
+): Promise<void> {
+  if (!policy) return;
+  checkStatus(policy, input.status);
+  checkBudgetLimits(policy, input);
+  if (!policy.protectedCampaignIds?.length && !needsBudgetHistory(policy, input)) {
+    return;
+  }
+  const adSet = await client.getAdSet(adSetId, AD_SET_BUDGET_FIELDS);
+  checkNotProtected(policy, adSet.campaign_id, `Ad set ${adSetId}`);
+  if (needsBudgetHistory(policy, input)) {
+    await checkBudgetIncrease(policy, client, adSet, input);
+  }
+}
+
+/**
+ * Check that a new ad's ad set is not in a protected campaign
+ */
+export async function checkAdCreate(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  adSetId: string
+): Promise<void> {
+  if (!policy?.protectedCampaignIds?.length) return;
+  const adSet = await client.getAdSet(adSetId, 'id,campaign_id');
+  checkNotProtected(policy, adSet.campaign_id, `Ad set ${adSetId}`);
+}
+
+/**
+ * Check an ad update: its campaign's protection and deletion by status
+ */
+export async function checkAdUpdate(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  adId: string,
+  input: { status?: string }
+): Promise<void> {
+  if (!policy) return;
+  checkStatus(policy, input.status);
+  if (!policy.protectedCampaignIds?.length) return;
+  const ad = await client.getAd(adId, 'id,campaign_id');
+  checkNotProtected(policy, ad.campaign_id, `Ad ${adId}`);
+}
+
+/**
+ * Check an update sent as Graph API parameters, where budgets may be numeric
+ * strings (bulk updates and snapshot rollbacks)
+ */
+export async function checkObjectUpdate(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  objectType: TreeObjectType,
+  id: string,
+  params: Record<string, unknown>
+): Promise<void> {
+  if (!policy) return;
+  const status = typeof params.status === 'string' ? params.status : undefined;
+  const input = { status, ...toBudgetInput(params) };
+  if (objectType === 'campaign') await checkCampaignUpdate(policy, client, id, input);
+  if (objectType === 'adset') await checkAdSetUpdate(policy, client, id, input);
+  if (objectType === 'ad') await checkAdUpdate(policy, client, id, input);
+}
+
+/**
+ * Check a copy as the object it creates: a campaign copy keeps the source's
+ * objective, categories and budget, and an ad set or ad copy must not land in a
+ * protected campaign. `parentId` is the campaign or ad set the copy goes into,
+ * when it is not the source's own.
+ */
+export async function checkCopy(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  objectType: TreeObjectType,
+  sourceId: string,
+  parentId?: string
+): Promise<void> {
+  if (!policy) return;
+  if (objectType === 'campaign') {
+    const source = await client.getCampaign(
+      sourceId,
+      `${CAMPAIGN_BUDGET_FIELDS},objective,special_ad_categories`
+    );
+    checkCampaignCreate(policy, {
+      objective: source.objective,
+      special_ad_categories: source.special_ad_categories,
+      ...toBudgetInput(source),
+    });
+  } else if (objectType === 'adset') {
+    const source = await client.getAdSet(sourceId, AD_SET_BUDGET_FIELDS);
+    checkAdSetCreate(policy, {
+      campaign_id: parentId ?? source.campaign_id,
+      ...toBudgetInput(source),
+    });
+  } else {
+    const adSetId = parentId ?? (await client.getAd(sourceId, 'id,adset_id')).adset_id;
+    await checkAdCreate(policy, client, adSetId);
+  }
+}
+
+/**
+ * Check a raw batch. Its sub-requests are arbitrary Graph API calls the policy
+ * cannot judge, so with a policy only reads are allowed.
+ */
+export function checkBatch(policy: TenantPolicy | undefined, operations: BatchOperation[]): void {
+  if (!policy || operations.every((operation) => operation.method === 'GET')) return;
+  throw new PolicyViolationError(
+    'Batches may only read while a tenant policy applies; make changes with the campaign, ad set, ad and bulk update tools, which the policy checks',
+    Object.keys(policy).join(', ')
+  );
+}
+
+/**
+ * Check a delete. Deleting is refused outright when the policy archives
+ * instead; callers archive campaigns, ad sets and ads themselves, and
+ * audiences cannot be archived.
+ */
+export async function checkDelete(
+  policy: TenantPolicy | undefined,
+  client: MetaAdsClient,
+  objectType: DeletableObject,
+  id: string
+): Promise<void> {
+  if (!policy) return;
+  if (policy.archiveInsteadOfDelete) {
+    const label = { campaign: 'campaign', adset: 'ad set', ad: 'ad', audience: 'audience' }[
+      objectType
+    ];
+    throw new PolicyViolationError(
+      objectType === 'audience'
+        ? `Deleting audience ${id} is not allowed for this tenant, and audiences cannot be archived`
+        : `Deleting is not allowed for this tenant; archive the ${label} instead`,
+      'archiveInsteadOfDelete'
+    );
+  }
+  if (objectType !== 'audience' && policy.protectedCampaignIds?.length) {
+    const campaignId =
+      objectType === 'campaign'
+        ? id
+        : (objectType === 'adset'
+            ? await client.getAdSet(id, 'id,campaign_id')
+            : await client.getAd(id, 'id,campaign_id')
+          ).campaign_id;
+    const label = { campaign: 'Campaign', adset: 'Ad set', ad: 'Ad' }[objectType];
+    checkNotProtected(policy, campaignId, `${label} ${id}`);
+  }
+}
+
+function checkNotProtected(policy: TenantPolicy, campaignId: string, subject: string): void {
+  if (policy.protectedCampaignIds?.includes(campaignId)) {
+    const scope = subject.startsWith('Campaign') ? '' : ` belongs to campaign ${campaignId}, which`;
+    throw new PolicyViolationError(
+      `${subject}${scope} is protected and cannot be changed or deleted`,
+      'protectedCampaignIds'
+    );
+  }
+}
+
+function checkStatus(policy: TenantPolicy, status: string | undefined): void {
+  if (status === 'DELETED' && policy.archiveInsteadOfDelete) {
+    throw new PolicyViolationError(
+      "Deleting is not allowed for this tenant; set status to 'ARCHIVED' instead",
+      'archiveInsteadOfDelete'
+    );
+  }
+}
+
+function checkBudgetLimits(policy: TenantPolicy, input: BudgetInput): void {
+  for (const [field, setting] of BUDGET_LIMITS) {
+    const budget = input[field];
+    const limit = policy[setting];
+    if (budget !== undefined && limit !== undefined && budget > limit) {
+      throw new PolicyViolationError(
+        `${field} ${budget} exceeds the tenant's maximum of ${limit} (cents)`,
+        setting
+      );
+    }
+  }
+}
+
+/** Budgets of Graph API parameters or a read object, as numbers */
+function toBudgetInput(values: Partial<Record<BudgetField, unknown>>): BudgetInput {
+  const input: BudgetInput = {};
+  for (const [field] of BUDGET_LIMITS) {
+    if (values[field] !== undefined && values[field] !== null) input[field] = Number(values[field]);
+  }
+  return input;
+}
+
+function needsBudgetHistory(policy: TenantPolicy, input: BudgetInput): boolean {
+  return (
+    policy.maxBudgetIncreasePercentPerDay !== undefined &&
+    BUDGET_LIMITS.some(([field]) => input[field] !== undefined)
+  );
+}
+
+/**
+ * Compare each new budget with the object's budget 24 hours ago: the old value
+ * of the earliest budget change in the account activity history since then, or
+ * the current budget when it has not changed. Budgets being set for the first
+ * time have nothing to compare with.
+ */
+async function checkBudgetIncrease(
+  policy: TenantPolicy,
+  client: MetaAdsClient,
+  object: BudgetedObject,
+  input: BudgetInput
+): Promise<void> {
+  const percent = policy.maxBudgetIncreasePercentPerDay;
+  if (percent === undefined) return;
+
+  let baseline: number | undefined;
+  for (const [field] of BUDGET_LIMITS) {
+    const budget = input[field];
+    const current = Number(object[field] ?? 0);
+    if (budget === undefined || !current || budget <= current) continue;
+
+    baseline ??= (await findBudgetBefore(client, object, Date.now() - DAY_MS)) ?? current;
+    const limit = Math.floor(baseline * (1 + percent / 100));
+    if (budget > limit) {
+      const increase = Math.round((budget / baseline - 1) * 100);
+      throw new PolicyViolationError(
+        `${field} ${budget} would raise the budget ${increase}% within 24 hours ` +
+          `(from ${baseline}); the tenant allows ${percent}% (up to ${limit})`,
+        'maxBudgetIncreasePercentPerDay'
+      );
+    }
+  }
+}
+
+async function findBudgetBefore(
+  client: MetaAdsClient,
+  object: BudgetedObject,
+  since: number
+): Promise<number | undefined> {
+  let earliest: AccountActivity | undefined;
+  // Activity history lists the newest changes first
+  for await (const activity of paginateItems(
+    (page) =>
+      client.listAccountActivities(object.account_id, {
+        ...page,
+        category: 'BUDGET',
+        oid: object.id,
+        since: String(Math.floor(since / 1000)),
+      }),
+    { pageSize: 100 }
+  )) {
+    earliest = activity;
+  }
+  return earliest ? budgetBefore(earliest) : undefined;
+}
+
+/**
+ * The old budget of a budget change, which arrives in extra_data as
+ * { old_value: { old_value: 5000, currency: 'USD' }, ... } in minor units
+ */
+function budgetBefore(activity: AccountActivity): number | undefined {
+  try {
+    const data = JSON.parse(activity.extra_data ?? '{}') as { old_value?: unknown };
+    const old = data.old_value;
+    const budget = Number(
+      typeof old === 'object' && old !== null ? (old as { old_value?: unknown }).old_value : old
+    );
+    return Number.isFinite(budget) && budget > 0 ? budget : undefined;
+  } catch {
+    return undefined;
+  }
+}
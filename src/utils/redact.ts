@@ -0,0 +1,90 @@
+/**
+ * Redaction Utilities
+ *
+ * Scrubs access tokens, app secrets and PII-looking values from text and
+ * objects before they are logged or returned to a client.
+ */
+
+const REDACTED = '[REDACTED]';
+
+/** Object keys whose values are always removed */
+const SENSITIVE_KEYS = new Set([
+  'access_token',
+  'accesstoken',
+  'app_secret',
+  'appsecret',
+  'appsecret_proof',
+  'authorization',
+  'client_secret',
+  'fb_exchange_token',
+  'input_token',
+  'password',
+  'secret',
+  'token',
+  'email',
+  'phone',
+  'first_name',
+  'last_name',
+]);
+
+/** Replacements applied to free text, in order */
+const TEXT_PATTERNS: Array<[RegExp, string]> = [
+  // Query string or form parameters carrying secrets
+  [
+    /\b(access_token|appsecret_proof|client_secret|fb_exchange_token|input_token)=([^&\s"']+)/gi,
+    `$1=${REDACTED}`,
+  ],
+  // Authorization header values
+  [/\b(Bearer|OAuth)\s+[A-Za-z0-9._~+/-]+=*/g, `$1 ${REDACTED}`],
+  // Meta user, page and system user access tokens
+  [/\bEAA[A-Za-z0-9]{20,}\b/g, REDACTED],
+  // SHA-256 digests (app secret proofs, hashed customer data)
+  [/\b[a-f0-9]{64}\b/gi, REDACTED],
+  // Email addresses
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '[REDACTED_EMAIL]'],
+  // Phone numbers written with a country code or separators. Bare digit runs are
+  // left alone because Graph object IDs look the same.
+  [/\+\d{1,3}[\s.-]?\(?\d{1,4}\)?(?:[\s.-]?\d{2,4}){2,4}\b/g, '[REDACTED_PHONE]'],
+  [/\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, '[REDACTED_PHONE]'],
+];
+
+/**
+ * Redact secrets and PII-looking values from a string
+ */
+export function redactText(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of TEXT_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+/**
+ * Deep-copy a value, removing sensitive keys and redacting every string
+ */
+export function redactValue<T>(value: T): T {
+  return redact(value, new WeakSet()) as T;
+}
+
+function redact(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(entry, seen);
+  }
+  return result;
+}
@@ -0,0 +1,158 @@
+/**
+ * Retry Utilities for Meta Ads API
+ *
+ * Exponential backoff with jitter for throttled and transient Graph API failures.
+ */
+
+import { MetaAdsApiError, RateLimitError } from './errors.js';
+
+/**
+ * Retry policy for a single tenant
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts per request, including the first one */
+  maxAttempts: number;
+
+  /** Maximum total time spent waiting between attempts (across all requests) */
+  maxTotalWaitMs: number;
+
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  maxTotalWaitMs: 30_000,
+  baseDelayMs: 500,
+  maxDelayMs: 15_000,
+};
+
+/** Hard caps so a tenant cannot keep a Worker invocation busy indefinitely */
+const MAX_ATTEMPTS_CAP = 10;
+const MAX_TOTAL_WAIT_CAP_MS = 120_000;
+
+/**
+ * Build a retry policy from optional tenant overrides
+ */
+export function resolveRetryPolicy(overrides?: {
+  maxAttempts?: number;
+  maxTotalWaitMs?: number;
+}): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  if (overrides?.maxAttempts !== undefined) {
+    policy.maxAttempts = clamp(overrides.maxAttempts, 1, MAX_ATTEMPTS_CAP);
+  }
+  if (overrides?.maxTotalWaitMs !== undefined) {
+    policy.maxTotalWaitMs = clamp(overrides.maxTotalWaitMs, 0, MAX_TOTAL_WAIT_CAP_MS);
+  }
+  return policy;
+}
+
+/**
+ * Tracks how much waiting time is left for a tenant.
+ *
+ * A single budget is shared by every request made through one client, so a
+ * multi-step tool cannot multiply the wait time by the number of calls it makes.
+ */
+export class RetryBudget {
+  private remainingMs: number;
+
+  constructor(maxTotalWaitMs: number) {
+    this.remainingMs = maxTotalWaitMs;
+  }
+
+  get remaining(): number {
+    return this.remainingMs;
+  }
+
+  /**
+   * Reserve waiting time. Returns false when the budget cannot cover it.
+   */
+  consume(ms: number): boolean {
+    if (ms > this.remainingMs) {
+      return false;
+    }
+    this.remainingMs -= ms;
+    return true;
+  }
+}
+
+/**
+ * Decide whether a failed request may be retried.
+ *
+ * Throttling errors are always safe to retry because Meta rejects the call before
+ * executing it. Other transient failures are only retried for idempotent methods,
+ * since a POST that failed with a 5xx may still have created the object.
+ */
+export function shouldRetryRequest(error: unknown, method: string): boolean {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  if (error instanceof MetaAdsApiError) {
+    return error.retryable && method.toUpperCase() !== 'POST';
+  }
+  return false;
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Honors `retryAfterSeconds` on rate limit errors that carry one; otherwise
+ * (including throttling without a regain time) uses exponential backoff with
+ * full jitter, capped at maxDelayMs.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getRetryDelayMs(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  if (error instanceof RateLimitError && error.retryAfterSeconds > 0) {
+    return error.retryAfterSeconds * 1000;
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * exponential);
+}
+
+/**
+ * Run an operation, retrying retryable failures within the policy and budget.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    budget: RetryBudget;
+    shouldRetry: (error: unknown) => boolean;
+    sleep?: (ms: number) => Promise<void>;
+  }
+): Promise<T> {
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.policy.maxAttempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delay = getRetryDelayMs(error, attempt, options.policy);
+      if (!options.budget.consume(delay)) {
+        throw error;
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
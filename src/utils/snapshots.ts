@@ -0,0 +1,315 @@
+/**
+ * Snapshot Utilities for Meta Ads API
+ *
+ * Stores campaign trees per tenant and works out the updates that return a live
+ * campaign to a stored state.
+ */
+
+import type {
+  Ad,
+  AdSet,
+  Campaign,
+  CampaignSnapshot,
+  CampaignSnapshotSummary,
+  CampaignTree,
+  FieldChange,
+  RollbackPlan,
+  TreeObjectType,
+} from '../types/entities.js';
+import { diffFields } from './diff.js';
+
+/**
+ * Filters for listing a tenant's snapshots, newest first
+ */
+export interface SnapshotQuery {
+  tenant: string;
+  campaignId?: string;
+  limit: number;
+}
+
+/**
+ * Storage for campaign snapshots
+ */
+export interface SnapshotStore {
+  save(tenant: string, snapshot: CampaignSnapshot): Promise<void>;
+  get(tenant: string, id: string): Promise<CampaignSnapshot | undefined>;
+  list(query: SnapshotQuery): Promise<CampaignSnapshotSummary[]>;
+}
+
+interface SnapshotRow {
+  id: string;
+  campaign_id: string;
+  account_id: string;
+  campaign_name: string;
+  label: string | null;
+  ad_set_count: number;
+  ad_count: number;
+  tree?: string;
+  created_at: string;
+}
+
+/**
+ * SnapshotStore backed by a D1 database (schema in migrations/0002_snapshots.sql)
+ */
+export class D1SnapshotStore implements SnapshotStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async save(tenant: string, snapshot: CampaignSnapshot): Promise<void> {
+    const summary = summarizeSnapshot(snapshot);
+    await this.db
+      .prepare(
+        `INSERT INTO snapshots
+           (id, tenant, campaign_id, account_id, campaign_name, label, ad_set_count, ad_count, tree, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        snapshot.id,
+        tenant,
+        snapshot.campaignId,
+        snapshot.accountId,
+        summary.campaignName,
+        snapshot.label ?? null,
+        summary.adSetCount,
+        summary.adCount,
+        JSON.stringify(snapshot.tree),
+        snapshot.createdAt
+      )
+      .run();
+  }
+
+  async get(tenant: string, id: string): Promise<CampaignSnapshot | undefined> {
+    const row = await this.db
+      .prepare('SELECT * FROM snapshots WHERE tenant = ? AND id = ?')
+      .bind(tenant, id)
+      .first<SnapshotRow>();
+    if (!row?.tree) {
+      return undefined;
+    }
+    const { campaignName, adSetCount, adCount, ...snapshot } = fromRow(row);
+    return { ...snapshot, tree: JSON.parse(row.tree) as CampaignTree };
+  }
+
+  async list(query: SnapshotQuery): Promise<CampaignSnapshotSummary[]> {
+    const conditions = ['tenant = ?'];
+    const bindings: unknown[] = [query.tenant];
+    if (query.campaignId) {
+      conditions.push('campaign_id = ?');
+      bindings.push(query.campaignId);
+    }
+    const { results } = await this.db
+      .prepare(
+        `SELECT id, campaign_id, account_id, campaign_name, label, ad_set_count, ad_count, created_at
+         FROM snapshots WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, id DESC LIMIT ?`
+      )
+      .bind(...bindings, query.limit)
+      .all<SnapshotRow>();
+    return results.map(fromRow);
+  }
+}
+
+function fromRow(row: SnapshotRow): CampaignSnapshotSummary {
+  return {
+    id: row.id,
+    campaignId: row.campaign_id,
+    accountId: row.account_id,
+    campaignName: row.campaign_name,
+    ...(row.label !== null && { label: row.label }),
+    adSetCount: row.ad_set_count,
+    adCount: row.ad_count,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * A snapshot's listing fields: the campaign name and object counts instead of the tree
+ */
+export function summarizeSnapshot(snapshot: CampaignSnapshot): CampaignSnapshotSummary {
+  const { tree, ...rest } = snapshot;
+  return {
+    ...rest,
+    campaignName: tree.campaign.name,
+    adSetCount: tree.adSets.length,
+    adCount: tree.adSets.reduce((total, adSet) => total + adSet.ads.length, 0),
+  };
+}
+
+// =============================================================================
+// Rollback Planning
+// =============================================================================
+
+/** Fields a rollback restores on each type of object */
+const RESTORED_FIELDS: Record<TreeObjectType, string[]> = {
+  campaign: [
+    'status',
+    'daily_budget',
+    'lifetime_budget',
+    'spend_cap',
+    'bid_strategy',
+    'start_time',
+    'stop_time',
+  ],
+  adset: [
+    'status',
+    'daily_budget',
+    'lifetime_budget',
+    'bid_amount',
+    'bid_strategy',
+    'start_time',
+    'end_time',
+    'targeting',
+  ],
+  ad: ['status', 'creative'],
+};
+
+/** Statuses that already keep an object from delivering */
+const INACTIVE_STATUSES = new Set(['PAUSED', 'ARCHIVED', 'DELETED']);
+
+export interface RollbackOptions {
+  /** Pause ad sets and ads created after the snapshot */
+  pauseNewObjects: boolean;
+  /** Snapshot creatives that no longer exist */
+  missingCreatives: Set<string>;
+}
+
+/**
+ * Work out the updates that return the live campaign tree to the snapshot, and
+ * everything that cannot be restored (deleted objects, missing creatives, fields
+ * that were set after the snapshot and cannot be cleared).
+ */
+export function planRollback(
+  snapshot: CampaignTree,
+  live: CampaignTree,
+  options: RollbackOptions
+): RollbackPlan {
+  const plan: RollbackPlan = { actions: [], issues: [] };
+  restoreObject(plan, 'campaign', snapshot.campaign, live.campaign, options);
+
+  const liveAdSets = new Map(live.adSets.map((adSet) => [adSet.id, adSet]));
+  const liveAds = new Map(live.adSets.flatMap((adSet) => adSet.ads).map((ad) => [ad.id, ad]));
+  const snapshotAdSets = new Set(snapshot.adSets.map((adSet) => adSet.id));
+  const snapshotAds = new Set(snapshot.adSets.flatMap((adSet) => adSet.ads).map((ad) => ad.id));
+
+  for (const adSet of snapshot.adSets) {
+    const current = liveAdSets.get(adSet.id);
+    if (current) {
+      restoreObject(plan, 'adset', adSet, current, options);
+    } else {
+      plan.issues.push({
+        objectType: 'adset',
+        id: adSet.id,
+        name: adSet.name,
+        reason: 'Deleted since the snapshot; deleted ad sets cannot be restored',
+      });
+    }
+  }
+
+  for (const ad of snapshot.adSets.flatMap((adSet) => adSet.ads)) {
+    const current = liveAds.get(ad.id);
+    if (current) {
+      restoreObject(plan, 'ad', ad, current, options);
+    } else {
+      // Ads of a deleted ad set are listed too, so their creatives can be reused
+      const deleted = liveAdSets.has(ad.adset_id) ? 'Deleted' : 'Deleted with its ad set';
+      plan.issues.push({
+        objectType: 'ad',
+        id: ad.id,
+        name: ad.name,
+        reason: `${deleted} since the snapshot; deleted ads cannot be restored (its creative was ${ad.creative?.id ?? 'unknown'})`,
+      });
+    }
+  }
+
+  if (options.pauseNewObjects) {
+    for (const adSet of live.adSets) {
+      if (!snapshotAdSets.has(adSet.id)) {
+        pauseNewObject(plan, 'adset', adSet);
+        continue;
+      }
+      for (const ad of adSet.ads) {
+        if (!snapshotAds.has(ad.id)) pauseNewObject(plan, 'ad', ad);
+      }
+    }
+  }
+  return plan;
+}
+
+function restoreObject(
+  plan: RollbackPlan,
+  objectType: TreeObjectType,
+  snapshot: Campaign | AdSet | Ad,
+  live: Campaign | AdSet | Ad,
+  options: RollbackOptions
+): void {
+  const fields = RESTORED_FIELDS[objectType];
+  const target = pickRestoredFields(snapshot, fields);
+  const current = pickRestoredFields(live, fields);
+
+  const params: Record<string, unknown> = {};
+  const changes: FieldChange[] = [];
+  const uncleared = new Set<string>();
+  for (const change of diffFields(current, target)) {
+    const field = change.field.split('.')[0];
+    const value = target[field];
+    if (value === undefined) {
+      if (uncleared.has(field)) continue;
+      uncleared.add(field);
+      plan.issues.push({
+        objectType,
+        id: live.id,
+        name: live.name,
+        reason: `${field} was set after the snapshot and cannot be cleared`,
+      });
+      continue;
+    }
+    if (field === 'creative' && options.missingCreatives.has(value as string)) {
+      plan.issues.push({
+        objectType,
+        id: live.id,
+        name: live.name,
+        reason: `Creative ${value} no longer exists, so the ad keeps creative ${current.creative}`,
+      });
+      continue;
+    }
+    params[field] = field === 'creative' ? { creative_id: value } : value;
+    changes.push(change);
+  }
+
+  if (changes.length > 0) {
+    plan.actions.push({ objectType, id: live.id, name: live.name, params, changes });
+  }
+}
+
+function pauseNewObject(plan: RollbackPlan, objectType: TreeObjectType, live: AdSet | Ad): void {
+  if (INACTIVE_STATUSES.has(live.status)) {
+    return;
+  }
+  plan.actions.push({
+    objectType,
+    id: live.id,
+    name: live.name,
+    params: { status: 'PAUSED' },
+    changes: [{ field: 'status', change: 'changed', before: live.status, after: 'PAUSED' }],
+    reason: 'Created after the snapshot',
+  });
+}
+
+/**
+ * The restorable fields of an object, with the ad creative reduced to its ID
+ */
+function pickRestoredFields(
+  object: Campaign | AdSet | Ad,
+  fields: string[]
+): Record<string, unknown> {
+  const record = object as unknown as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = field === 'creative' ? (object as Ad).creative?.id : record[field];
+    if (value !== undefined && value !== null) picked[field] = value;
+  }
+  return picked;
+}
@@ -0,0 +1,147 @@
+/**
+ * Usage Header Utilities for Meta Ads API
+ *
+ * Parses the throttling headers Meta returns on every response and derives
+ * how long to slow down before a limit is hit.
+ */
+
+import type {
+  AdAccountUsage,
+  AppUsage,
+  BusinessUseCaseUsage,
+  RateLimitStatus,
+} from '../types/entities.js';
+
+/** Utilization (percent) above which requests start being delayed */
+const THROTTLE_START_PCT = 75;
+
+/** Delay applied when utilization reaches 100% */
+const THROTTLE_MAX_DELAY_MS = 5_000;
+
+/**
+ * Create an empty usage snapshot
+ */
+export function createRateLimitStatus(): RateLimitStatus {
+  return { adAccounts: {}, businesses: {} };
+}
+
+/**
+ * Merge the usage headers of a response into a snapshot.
+ *
+ * @param accountId - Ad account the request targeted, used to attribute X-Ad-Account-Usage
+ * @returns true when at least one usage header was present
+ */
+export function recordUsageHeaders(
+  status: RateLimitStatus,
+  headers: Headers,
+  accountId?: string
+): boolean {
+  let found = false;
+
+  const app = parseJsonHeader<Partial<AppUsage>>(headers.get('X-App-Usage'));
+  if (app) {
+    status.app = {
+      call_count: toNumber(app.call_count),
+      total_cputime: toNumber(app.total_cputime),
+      total_time: toNumber(app.total_time),
+    };
+    found = true;
+  }
+
+  const account = parseJsonHeader<Partial<AdAccountUsage>>(headers.get('X-Ad-Account-Usage'));
+  if (account && accountId) {
+    status.adAccounts[accountId] = {
+      acc_id_util_pct: toNumber(account.acc_id_util_pct),
+      reset_time_duration: toNumber(account.reset_time_duration),
+      ads_api_access_tier: account.ads_api_access_tier,
+    };
+    found = true;
+  }
+
+  const business = parseJsonHeader<Record<string, Array<Partial<BusinessUseCaseUsage>>>>(
+    headers.get('X-Business-Use-Case-Usage')
+  );
+  if (business) {
+    for (const [id, entries] of Object.entries(business)) {
+      if (!Array.isArray(entries)) continue;
+      status.businesses[id] = entries.map((entry) => ({
+        type: entry.type ?? 'unknown',
+        call_count: toNumber(entry.call_count),
+        total_cputime: toNumber(entry.total_cputime),
+        total_time: toNumber(entry.total_time),
+        estimated_time_to_regain_access: toNumber(entry.estimated_time_to_regain_access),
+        ads_api_access_tier: entry.ads_api_access_tier,
+      }));
+    }
+    found = true;
+  }
+
+  if (found) {
+    status.updatedAt = new Date().toISOString();
+  }
+  return found;
+}
+
+/**
+ * Highest utilization percentage across every reported limit
+ */
+export function getPeakUtilization(status: RateLimitStatus): number {
+  const values: number[] = [];
+  if (status.app) {
+    values.push(status.app.call_count, status.app.total_cputime, status.app.total_time);
+  }
+  for (const usage of Object.values(status.adAccounts)) {
+    values.push(usage.acc_id_util_pct);
+  }
+  for (const entries of Object.values(status.businesses)) {
+    for (const entry of entries) {
+      values.push(entry.call_count, entry.total_cputime, entry.total_time);
+    }
+  }
+  return values.length > 0 ? Math.max(...values) : 0;
+}
+
+/**
+ * Seconds until access is regained, based on the latest headers.
+ * Returns undefined when Meta did not report a wait time.
+ */
+export function getRegainAccessSeconds(status: RateLimitStatus): number | undefined {
+  let seconds = 0;
+  for (const entries of Object.values(status.businesses)) {
+    for (const entry of entries) {
+      seconds = Math.max(seconds, entry.estimated_time_to_regain_access * 60);
+    }
+  }
+  for (const usage of Object.values(status.adAccounts)) {
+    seconds = Math.max(seconds, usage.reset_time_duration);
+  }
+  return seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Delay to apply before the next request so the tenant backs off before
+ * Meta starts rejecting calls.
+ */
+export function getThrottleDelayMs(status: RateLimitStatus): number {
+  const peak = getPeakUtilization(status);
+  if (peak < THROTTLE_START_PCT) {
+    return 0;
+  }
+  const ratio = Math.min(1, (peak - THROTTLE_START_PCT) / (100 - THROTTLE_START_PCT));
+  return Math.round(ratio * THROTTLE_MAX_DELAY_MS);
+}
+
+function parseJsonHeader<T>(value: string | null): T | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null ? (parsed as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { registerCampaignTools } from '../src/tools/index.js';
+import { toAuditParams, traceToolCalls } from '../src/utils/audit.js';
+import { MemoryAuditLog, TEST_ENV, ToolHarness } from './helpers.js';
+
+function setup() {
+  const audit = new MemoryAuditLog();
+  const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Campaign',
+    objective: 'OUTCOME_SALES',
+  });
+  const harness = new ToolHarness(simulator.createClient({}, { audit }), { env: TEST_ENV, audit });
+  traceToolCalls(harness.server);
+  harness.register(registerCampaignTools);
+  return { audit, simulator, harness, campaignId };
+}
+
+async function entries(audit: MemoryAuditLog, harness: ToolHarness) {
+  return audit.query({ tenant: await harness.client.getTenantId(), limit: 100 });
+}
+
+describe('audit attribution', () => {
+  it('names the tool that made a change and the object it created', async () => {
+    const { audit, harness } = setup();
+
+    const created = await harness.call<{ campaign: { id: string } }>('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Spring Sale',
+      objective: 'OUTCOME_SALES',
+    });
+
+    expect(await entries(audit, harness)).toEqual([
+      expect.objectContaining({
+        tool: 'metaads_create_campaign',
+        method: 'POST',
+        endpoint: '/act_1000/campaigns',
+        objectId: created.json.campaign.id,
+        success: true,
+      }),
+    ]);
+  });
+
+  it('keeps concurrent tool calls apart', async () => {
+    const { audit, harness, campaignId } = setup();
+    const otherId = (
+      await harness.call<{ campaign: { id: string } }>('metaads_create_campaign', {
+        accountId: 'act_1000',
+        name: 'Other',
+        objective: 'OUTCOME_SALES',
+      })
+    ).json.campaign.id;
+
+    await Promise.all([
+      harness.call('metaads_update_campaign', { campaignId, name: 'Renamed' }),
+      harness.call('metaads_delete_campaign', { campaignId: otherId }),
+    ]);
+
+    const byObject = Object.fromEntries(
+      (await entries(audit, harness))
+        .filter((entry) => entry.tool !== 'metaads_create_campaign')
+        .map((entry) => [entry.objectId, entry.tool])
+    );
+    expect(byObject).toEqual({
+      [campaignId]: 'metaads_update_campaign',
+      [otherId]: 'metaads_delete_campaign',
+    });
+  });
+
+  it('records calls made outside a tool as unknown, failures included', async () => {
+    const { audit, simulator, harness, campaignId } = setup();
+    simulator.failNext(200, { method: 'POST', path: campaignId });
+
+    await expect(harness.client.updateCampaign(campaignId, { name: 'Renamed' })).rejects.toThrow();
+
+    expect(await entries(audit, harness)).toEqual([
+      expect.objectContaining({
+        tool: 'unknown',
+        objectId: campaignId,
+        success: false,
+        error: expect.objectContaining({ name: 'PermissionError' }),
+      }),
+    ]);
+  });
+});
+
+describe('audit params', () => {
+  it('redacts secrets and PII and drops unset values', () => {
+    expect(
+      toAuditParams({
+        name: 'Sale for person@example.com',
+        access_token: 'EAAB-secret',
+        appsecret_proof: 'a1'.repeat(32),
+        daily_budget: 5000,
+        end_time: undefined,
+      })
+    ).toEqual({
+      name: 'Sale for [REDACTED_EMAIL]',
+      access_token: '[REDACTED]',
+      appsecret_proof: '[REDACTED]',
+      daily_budget: 5000,
+    });
+  });
+
+  it('keeps only the schema and row count of audience member payloads', () => {
+    const payload = JSON.stringify({
+      schema: ['EMAIL'],
+      data: [['a'.repeat(64)], ['b'.repeat(64)]],
+    });
+
+    expect(toAuditParams({ payload })).toEqual({ payload: { schema: ['EMAIL'], rows: 2 } });
+    expect(toAuditParams({ payload: '{not json' })).toEqual({
+      payload: '[UNPARSEABLE_PAYLOAD]',
+    });
+  });
+});
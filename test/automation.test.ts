@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { registerAutomationTools } from '../src/tools/index.js';
+import type { AutomationRule } from '../src/types/entities.js';
+import {
+  changeBudget,
+  evaluateConditions,
+  isDue,
+  runAutomationRule,
+  runDueAutomationRules,
+  toAutomationMetrics,
+} from '../src/utils/automation.js';
+import { decryptText, encryptText } from '../src/utils/crypto.js';
+import { createSimulatedTools, MemoryAutomationRuleStore } from './helpers.js';
+
+const RULE = {
+  name: 'Stop loss',
+  accountId: 'act_1000',
+  level: 'adset',
+  conditions: [{ metric: 'spend', operator: 'gte', value: 0 }],
+  action: { type: 'pause' },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function rule(overrides: Partial<AutomationRule> = {}): AutomationRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    accountId: 'act_1000',
+    level: 'adset',
+    datePreset: 'last_7d',
+    conversionEvent: 'purchase',
+    conditions: [{ metric: 'spend', operator: 'gte', value: 0 }],
+    action: { type: 'pause' },
+    intervalHours: 24,
+    enabled: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function setup() {
+  const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Campaign',
+    objective: 'OUTCOME_SALES',
+    status: 'ACTIVE',
+  });
+  const adSetId = simulator.seed('adset', 'act_1000', {
+    name: 'US',
+    campaign_id: campaignId,
+    status: 'ACTIVE',
+    daily_budget: '5000',
+  });
+  simulator.seed('ad', 'act_1000', {
+    name: 'Ad',
+    campaign_id: campaignId,
+    adset_id: adSetId,
+    status: 'ACTIVE',
+    created_time: new Date(Date.now() - 3 * 24 * HOUR_MS).toISOString(),
+  });
+  return { simulator, client: simulator.createClient(), adSetId };
+}
+
+function countWrites(simulator: GraphApiSimulator): number {
+  return simulator.requests.filter((request) => request.method !== 'GET').length;
+}
+
+describe('automation conditions', () => {
+  it('compares metrics with fixed and ad set relative thresholds', () => {
+    const [fixed, relative] = evaluateConditions(
+      [
+        { metric: 'spend', operator: 'gte', value: 5000 },
+        { metric: 'cpa', operator: 'gt', value: 2, relativeTo: 'adset' },
+      ],
+      { spend: 5000, cpa: 2500 },
+      { spend: 20000, cpa: 1000 }
+    );
+
+    expect(fixed).toMatchObject({ threshold: 5000, actual: 5000, met: true });
+    expect(relative).toMatchObject({ threshold: 2000, actual: 2500, met: true });
+  });
+
+  it('never meets a condition on a metric the object has no value for', () => {
+    const metrics = toAutomationMetrics(undefined, 'purchase');
+    const [result] = evaluateConditions([{ metric: 'roas', operator: 'lt', value: 1 }], metrics);
+
+    expect(metrics).toEqual({ spend: 0, impressions: 0, clicks: 0, conversions: 0 });
+    expect(result).toMatchObject({ actual: null, met: false });
+  });
+
+  it('counts the spend so far as the cpa before the first conversion', () => {
+    const metrics = toAutomationMetrics(
+      { spend: '12.34', impressions: '1000', clicks: '10' },
+      'purchase'
+    );
+
+    expect(metrics).toMatchObject({ spend: 1234, conversions: 0, cpa: 1234, roas: 0 });
+  });
+});
+
+describe('automation budget changes', () => {
+  it('changes a budget by the percentage', () => {
+    expect(changeBudget(5000, { percent: 20 })).toBe(6000);
+    expect(changeBudget(5000, { percent: -20 })).toBe(4000);
+  });
+
+  it('keeps a changed budget within the limits', () => {
+    expect(changeBudget(5000, { percent: 20, maxBudget: 5500 })).toBe(5500);
+    expect(changeBudget(5000, { percent: -50, minBudget: 3000 })).toBe(3000);
+  });
+
+  it('never moves a budget already past a limit the wrong way', () => {
+    expect(changeBudget(8000, { percent: 20, maxBudget: 5500 })).toBe(8000);
+    expect(changeBudget(2000, { percent: -20, minBudget: 3000 })).toBe(2000);
+  });
+});
+
+describe('automation runs', () => {
+  it('logs the actions of a simulate-only run without sending them', async () => {
+    const { simulator, client, adSetId } = setup();
+    const writes = countWrites(simulator);
+
+    const run = await runAutomationRule(
+      client,
+      rule({ action: { type: 'change_budget', percent: 20, maxBudget: 5500 } }),
+      { trigger: 'manual', simulate: true }
+    );
+
+    expect(run.error).toBeUndefined();
+    expect(run.actions).toEqual([
+      expect.objectContaining({
+        id: adSetId,
+        params: { daily_budget: 5500 },
+        simulated: true,
+        success: true,
+      }),
+    ]);
+    expect(countWrites(simulator)).toBe(writes);
+    expect(simulator.get(adSetId)?.daily_budget).toBe('5000');
+  });
+
+  it('pauses the objects that meet every condition', async () => {
+    const { simulator, client, adSetId } = setup();
+
+    const run = await runAutomationRule(client, rule(), { trigger: 'manual', simulate: false });
+
+    expect(run.actions).toEqual([
+      expect.objectContaining({ id: adSetId, params: { status: 'PAUSED' }, success: true }),
+    ]);
+    expect(simulator.get(adSetId)?.status).toBe('PAUSED');
+  });
+
+  it('skips a budget change the limit leaves at the current budget', async () => {
+    const { client } = setup();
+
+    const run = await runAutomationRule(
+      client,
+      rule({ action: { type: 'change_budget', percent: 20, maxBudget: 5000 } }),
+      { trigger: 'manual', simulate: false }
+    );
+
+    expect(run.actions[0].skipped).toMatch(/already at the rule's limit/);
+  });
+});
+
+describe('automation scheduling', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z');
+
+  it('is due once the interval has passed since the last run', () => {
+    expect(isDue(rule(), now)).toBe(true);
+    expect(isDue(rule({ lastRunAt: '2026-03-01T00:00:00.000Z' }), now)).toBe(false);
+    expect(isDue(rule({ lastRunAt: '2026-02-28T12:00:00.000Z' }), now)).toBe(true);
+    expect(isDue(rule({ enabled: false }), now)).toBe(false);
+  });
+
+  it('runs every due rule even when one of them fails', async () => {
+    const { client } = setup();
+    const store = new MemoryAutomationRuleStore();
+    await store.save('user:1', rule({ id: 'broken' }), { accessToken: 'token' });
+    await store.save('user:1', rule({ id: 'unlogged' }), { accessToken: 'token' });
+    await store.save('user:1', rule({ id: 'working' }), { accessToken: 'token' });
+    store.getCredentials = async (tenant, id) => {
+      if (id === 'broken') throw new Error('Stored credentials could not be decrypted');
+      return { accessToken: `${tenant}/${id}` };
+    };
+    const recordRun = store.recordRun.bind(store);
+    store.recordRun = async (tenant, run) => {
+      if (run.ruleId === 'unlogged') throw new Error('D1 is unavailable');
+      await recordRun(tenant, run);
+    };
+
+    const runs = await runDueAutomationRules(store, () => client, { simulate: true, now });
+
+    expect(runs.map((run) => [run.ruleId, run.error?.message])).toEqual([
+      ['broken', 'Stored credentials could not be decrypted'],
+      ['unlogged', 'D1 is unavailable'],
+      ['working', undefined],
+    ]);
+    expect(
+      (await store.listRuns({ tenant: 'user:1', limit: 10 })).map((run) => run.ruleId)
+    ).toEqual(['working', 'broken']);
+    // Every rule's interval started, so none of them runs again straight away
+    expect(await store.listDue(now)).toEqual([]);
+  });
+
+  it('decrypts stored credentials only with the key they were encrypted with', async () => {
+    const encrypted = await encryptText('key-1', JSON.stringify({ accessToken: 'token' }));
+
+    expect(JSON.parse(await decryptText('key-1', encrypted))).toEqual({ accessToken: 'token' });
+    await expect(decryptText('key-2', encrypted)).rejects.toThrow();
+  });
+});
+
+describe('automation rule tools', () => {
+  it('stores the policy header with the rule for scheduled runs', async () => {
+    const store = new MemoryAutomationRuleStore();
+    const policy = JSON.stringify({ maxDailyBudget: 10000 });
+    const { harness } = createSimulatedTools([registerAutomationTools], {
+      context: { automationRules: store, credentials: { accessToken: 'token', policy } },
+    });
+
+    const result = await harness.call<{ rule: { id: string } }>(
+      'metaads_create_automation_rule',
+      RULE
+    );
+
+    const [due] = await store.listDue(new Date());
+    expect(due.rule.id).toBe(result.json.rule.id);
+    expect(await store.getCredentials(due.tenant, due.rule.id)).toMatchObject({ policy });
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { KvReadCache } from '../src/utils/cache.js';
+import { sha256Hex } from '../src/utils/crypto.js';
+import { MemoryKvNamespace } from './helpers.js';
+
+function setup(options: { accessToken?: string; accountName?: string } = {}) {
+  const simulator = new GraphApiSimulator({
+    accessToken: options.accessToken,
+    accounts: [{ id: 'act_1000', name: options.accountName ?? 'Shop' }],
+  });
+  return simulator;
+}
+
+function accountReads(simulator: GraphApiSimulator): number {
+  return simulator.requests.filter(({ method, path }) => method === 'GET' && path === 'act_1000')
+    .length;
+}
+
+describe('read cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves a repeated read from the cache until it expires', async () => {
+    const kv = new MemoryKvNamespace();
+    const cache = new KvReadCache(kv.asKv());
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await cache.set('scope', 'act_1000', 'fields=id', { id: 'act_1000' }, 300);
+    expect(await cache.get('scope', 'act_1000', 'fields=id')).toEqual({ id: 'act_1000' });
+    expect(await cache.get('scope', 'act_1000', 'fields=name')).toBeUndefined();
+
+    now.mockReturnValue(1_000_000 + 300_000);
+    expect(await cache.get('scope', 'act_1000', 'fields=id')).toBeUndefined();
+  });
+
+  it('scopes entries by a hash of the access token, never the token itself', async () => {
+    const kv = new MemoryKvNamespace();
+    const cache = new KvReadCache(kv.asKv());
+    const first = setup({ accessToken: 'token-one', accountName: 'First' });
+    const second = setup({ accessToken: 'token-two', accountName: 'Second' });
+
+    await first.createClient({}, { cache }).getAdAccount('act_1000', 'id,name');
+    const account = await second.createClient({}, { cache }).getAdAccount('act_1000', 'id,name');
+
+    expect(account.name).toBe('Second');
+    const scope = (await sha256Hex('token-one')).slice(0, 32);
+    expect([...kv.entries.keys()]).toContain(`metaads:cache:${scope}:act_1000`);
+    expect([...kv.entries.keys()].join()).not.toMatch(/token-(one|two)/);
+  });
+
+  it('drops the cached reads of an object after a write to it', async () => {
+    const cache = new KvReadCache(new MemoryKvNamespace().asKv());
+    const simulator = setup();
+    const client = simulator.createClient({}, { cache });
+
+    await client.getAdAccount('act_1000', 'id,name');
+    await client.getAdAccount('act_1000', 'id,name');
+    expect(accountReads(simulator)).toBe(1);
+
+    await client.createCampaign('act_1000', { name: 'Sale', objective: 'OUTCOME_SALES' });
+    await client.getAdAccount('act_1000', 'id,name');
+    expect(accountReads(simulator)).toBe(2);
+  });
+
+  it("drops an account's cached pixel list after a pixel is created or updated", async () => {
+    const cache = new KvReadCache(new MemoryKvNamespace().asKv());
+    const simulator = setup();
+    const client = simulator.createClient({}, { cache });
+    const pixel = { id: '555', name: 'Store pixel', owner_ad_account: { id: 'act_1000' } };
+    simulator.cannedResponse('GET', 'act_1000/adspixels', { data: [pixel] });
+    simulator.cannedResponse('POST', 'act_1000/adspixels', { id: '555' });
+    simulator.cannedResponse('POST', '555', { success: true });
+    simulator.cannedResponse('GET', '555', pixel);
+    const listReads = () =>
+      simulator.requests.filter(
+        ({ method, path }) => method === 'GET' && path === 'act_1000/adspixels'
+      ).length;
+
+    await client.listPixels('act_1000');
+    await client.listPixels('act_1000');
+    expect(listReads()).toBe(1);
+
+    await client.createPixel('act_1000', { name: 'Store pixel' });
+    await client.listPixels('act_1000');
+    expect(listReads()).toBe(2);
+
+    await client.updatePixel('555', { name: 'Checkout pixel' });
+    await client.listPixels('act_1000');
+    expect(listReads()).toBe(3);
+  });
+
+  it('refreshes the cached value when asked to skip it', async () => {
+    const cache = new KvReadCache(new MemoryKvNamespace().asKv());
+    const simulator = setup();
+    const client = simulator.createClient({}, { cache });
+
+    await client.getAdAccount('act_1000', 'id,name');
+    await client.getAdAccount('act_1000', 'id,name', { noCache: true });
+    await client.getAdAccount('act_1000', 'id,name');
+    expect(accountReads(simulator)).toBe(2);
+  });
+
+  it('treats a failing KV namespace as a cache miss', async () => {
+    const kv = new MemoryKvNamespace();
+    kv.get = async () => {
+      throw new Error('KV is unavailable');
+    };
+    const simulator = setup();
+    const client = simulator.createClient({}, { cache: new KvReadCache(kv.asKv()) });
+
+    const account = await client.getAdAccount('act_1000', 'id,name');
+    expect(account.name).toBe('Shop');
+  });
+});
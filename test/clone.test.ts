@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { remapAssets, toCloneDocument } from '../src/utils/clone.js';
+import { checkPlanIssues, toCampaignDocument } from '../src/utils/documents.js';
+import { ValidationError } from '../src/utils/errors.js';
+
+describe('cross-account clones', () => {
+  it('reports an ad without a creative as unmapped', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+    const campaignId = simulator.seed('campaign', 'act_1000', {
+      name: 'Campaign',
+      objective: 'OUTCOME_SALES',
+    });
+    const adSetId = simulator.seed('adset', 'act_1000', {
+      name: 'US',
+      campaign_id: campaignId,
+      targeting: { geo_locations: { countries: ['US'] } },
+    });
+    simulator.seed('ad', 'act_1000', { name: 'Ad', adset_id: adSetId, campaign_id: campaignId });
+
+    const tree = await simulator.createClient().getCampaignTree(campaignId);
+    const document = toCloneDocument(toCampaignDocument(tree, new Map()), {
+      targetAccountId: 'act_2000',
+    });
+
+    expect(remapAssets(document, {})).toEqual([
+      expect.objectContaining({
+        assetType: 'creative',
+        path: 'campaign.ad_sets[0].ads[0].creative',
+        name: 'Ad',
+      }),
+    ]);
+  });
+
+  it('refuses a plan with issues and lists them by document path', () => {
+    const issue = { objectType: 'adset' as const, path: 'campaign.ad_sets[0]', name: 'US' };
+    const plan = {
+      accountId: 'act_2000',
+      steps: [],
+      issues: [
+        { ...issue, reason: 'targeting cannot be changed once the ad set exists' },
+        { ...issue, reason: 'billing_event cannot be changed once the ad set exists' },
+        {
+          objectType: 'ad' as const,
+          path: 'campaign.ad_sets[0].ads[0]',
+          name: 'Ad',
+          reason: '2 live ads have this name; add the id of the one to use',
+        },
+      ],
+    };
+
+    let error: unknown;
+    try {
+      checkPlanIssues(plan, 'fix the source campaign before cloning it');
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).message).toBe(
+      'The plan has 3 issues; fix the source campaign before cloning it. Nothing was changed'
+    );
+    expect((error as ValidationError).details).toEqual({
+      'campaign.ad_sets[0]': [
+        'targeting cannot be changed once the ad set exists',
+        'billing_event cannot be changed once the ad set exists',
+      ],
+      'campaign.ad_sets[0].ads[0]': ['2 live ads have this name; add the id of the one to use'],
+    });
+    expect(() => checkPlanIssues({ ...plan, issues: [] }, 'unused')).not.toThrow();
+  });
+});
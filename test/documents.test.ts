@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { registerDocumentTools } from '../src/tools/index.js';
+import { createSimulatedTools } from './helpers.js';
+
+const AD_SET = {
+  billing_event: 'IMPRESSIONS',
+  optimization_goal: 'REACH',
+  targeting: { geo_locations: { countries: ['US'] } },
+};
+
+function setup() {
+  const { simulator, harness } = createSimulatedTools([registerDocumentTools]);
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Campaign',
+    objective: 'OUTCOME_SALES',
+    status: 'ACTIVE',
+  });
+  return { simulator, harness, campaignId };
+}
+
+function document(campaignId: string | undefined, adSets: Record<string, unknown>[]) {
+  return JSON.stringify({
+    version: 1,
+    account_id: 'act_1000',
+    campaign: {
+      ...(campaignId && { id: campaignId }),
+      name: 'Campaign',
+      objective: 'OUTCOME_SALES',
+      ad_sets: adSets,
+    },
+  });
+}
+
+describe('campaign documents', () => {
+  it('refuses to apply a plan with ambiguous name matches', async () => {
+    const { simulator, harness, campaignId } = setup();
+    const seeded = ['US', 'US'].map((name) =>
+      simulator.seed('adset', 'act_1000', {
+        ...AD_SET,
+        name,
+        campaign_id: campaignId,
+        status: 'ACTIVE',
+      })
+    );
+    const text = document(campaignId, [{ ...AD_SET, name: 'US' }]);
+
+    const plan = await harness.call<{ issues: unknown[]; steps: unknown[] }>(
+      'metaads_plan_campaign',
+      { document: text }
+    );
+    expect(plan.json.issues).toHaveLength(1);
+    expect(plan.json.steps).toEqual([]);
+
+    const applied = await harness.call<{ details: unknown }>('metaads_apply_campaign', {
+      document: text,
+    });
+    expect(applied.isError).toBe(true);
+    expect(applied.json.details).toMatchObject({ name: 'ValidationError' });
+    for (const id of seeded) expect(simulator.get(id)?.status).toBe('ACTIVE');
+  });
+
+  it('reports the completed steps when a step fails', async () => {
+    const { simulator, harness } = setup();
+    simulator.failNext(100, { method: 'POST', path: /\/adsets$/ });
+
+    const result = await harness.call<{
+      message: string;
+      completed: unknown[];
+      campaignId: string;
+    }>('metaads_apply_campaign', {
+      document: document(undefined, [{ ...AD_SET, name: 'US' }]),
+    });
+
+    expect(result.json).toMatchObject({ success: false, failed: { objectType: 'adset' } });
+    expect(result.json.message).toMatch(/failed after 1 steps completed/);
+    expect(result.json.completed).toHaveLength(1);
+    expect(simulator.get(result.json.campaignId)?.name).toBe('Campaign');
+  });
+
+  it('creates the objects a document adds', async () => {
+    const { simulator, harness, campaignId } = setup();
+
+    const result = await harness.call<{ completed: Array<{ id: string }> }>(
+      'metaads_apply_campaign',
+      {
+        document: document(campaignId, [{ ...AD_SET, name: 'EU', daily_budget: 3000 }]),
+      }
+    );
+
+    expect(result.json).toMatchObject({ success: true, campaignId });
+    const [step] = result.json.completed;
+    expect(simulator.get(step.id)).toMatchObject({
+      campaign_id: campaignId,
+      daily_budget: '3000',
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Test Helpers
+ *
+ * Registers tool modules on a stand-in MCP server so tests can call tools the
+ * way a client would, against the Graph API simulator.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MetaAdsClient, MetaAdsClientOptions } from '../src/client.js';
+import { GraphApiSimulator, type GraphSimulatorOptions } from '../src/testing/index.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type {
+  AutomationRule,
+  AutomationRun,
+  CampaignSnapshot,
+  CampaignSnapshotSummary,
+} from '../src/types/entities.js';
+import type { Env } from '../src/types/env.js';
+import type { AuditEntry, AuditLog, AuditQuery } from '../src/utils/audit.js';
+import {
+  type AutomationCredentials,
+  type AutomationRuleStore,
+  type AutomationRunQuery,
+  type DueAutomationRule,
+  isDue,
+} from '../src/utils/automation.js';
+import type { ToolResponse } from '../src/utils/formatters.js';
+import {
+  type SnapshotQuery,
+  type SnapshotStore,
+  summarizeSnapshot,
+} from '../src/utils/snapshots.js';
+
+type ToolHandler = (
+  args: Record<string, unknown>,
+  extra: { signal: AbortSignal }
+) => Promise<ToolResponse>;
+
+type RegisterTools = (server: McpServer, client: MetaAdsClient, context: ToolContext) => void;
+
+/** The vars wrangler.jsonc sets */
+export const TEST_ENV: Env = {
+  CHARACTER_LIMIT: '50000',
+  DEFAULT_PAGE_SIZE: '25',
+  MAX_PAGE_SIZE: '100',
+  META_API_VERSION: 'v21.0',
+};
+
+/** A tool's response, with its JSON text parsed as the shape the test expects */
+export interface ToolResult<T = unknown> {
+  isError: boolean;
+  text: string;
+  json: T;
+}
+
+/**
+ * Tools registered on a stand-in server. Arguments are parsed with each tool's
+ * schema first, so defaults apply as they do over MCP.
+ */
+export class ToolHarness {
+  private tools = new Map<string, { shape: z.ZodRawShape; handler: ToolHandler }>();
+
+  readonly server = {
+    tool: (name: string, _description: string, shape: z.ZodRawShape, handler: ToolHandler) => {
+      this.tools.set(name, { shape, handler });
+    },
+  } as unknown as McpServer;
+
+  constructor(
+    readonly client: MetaAdsClient,
+    readonly context: ToolContext = { env: TEST_ENV }
+  ) {}
+
+  register(...modules: RegisterTools[]): this {
+    for (const register of modules) {
+      register(this.server, this.client, this.context);
+    }
+    return this;
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  async call<T = unknown>(
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<ToolResult<T>> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Tool ${name} is not registered`);
+    }
+    const parsed = z.object(tool.shape).parse(args);
+    const response = await tool.handler(parsed, { signal: new AbortController().signal });
+    const text = response.content[0]?.text ?? '';
+    let json: T | undefined;
+    try {
+      json = JSON.parse(text) as T;
+    } catch {
+      json = undefined;
+    }
+    return { isError: response.isError === true, text, json: json as T };
+  }
+}
+
+/**
+ * A simulator with one ad account and a harness wired to it
+ */
+export function createSimulatedTools(
+  register: RegisterTools[],
+  options: {
+    simulator?: GraphSimulatorOptions;
+    client?: MetaAdsClientOptions;
+    context?: Partial<ToolContext>;
+  } = {}
+): { simulator: GraphApiSimulator; harness: ToolHarness } {
+  const simulator = new GraphApiSimulator({ accounts: ['act_1000'], ...options.simulator });
+  const harness = new ToolHarness(simulator.createClient({}, options.client), {
+    env: TEST_ENV,
+    ...options.context,
+  }).register(...register);
+  return { simulator, harness };
+}
+
+/**
+ * SnapshotStore kept in memory, for tools that need a database
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshots: Array<{ tenant: string; snapshot: CampaignSnapshot }> = [];
+
+  async save(tenant: string, snapshot: CampaignSnapshot): Promise<void> {
+    this.snapshots.push({ tenant, snapshot });
+  }
+
+  async get(tenant: string, id: string): Promise<CampaignSnapshot | undefined> {
+    return this.snapshots.find((entry) => entry.tenant === tenant && entry.snapshot.id === id)
+      ?.snapshot;
+  }
+
+  async list(query: SnapshotQuery): Promise<CampaignSnapshotSummary[]> {
+    return this.snapshots
+      .filter(
+        ({ tenant, snapshot }) =>
+          tenant === query.tenant && (!query.campaignId || snapshot.campaignId === query.campaignId)
+      )
+      .map(({ snapshot }) => summarizeSnapshot(snapshot))
+      .reverse()
+      .slice(0, query.limit);
+  }
+}
+
+/**
+ * AutomationRuleStore kept in memory; credentials are stored as given
+ */
+export class MemoryAutomationRuleStore implements AutomationRuleStore {
+  private rules = new Map<
+    string,
+    { tenant: string; rule: AutomationRule; credentials: AutomationCredentials }
+  >();
+  private runs: Array<{ tenant: string; run: AutomationRun }> = [];
+
+  async save(
+    tenant: string,
+    rule: AutomationRule,
+    credentials: AutomationCredentials
+  ): Promise<void> {
+    this.rules.set(`${tenant}/${rule.id}`, { tenant, rule, credentials });
+  }
+
+  async get(tenant: string, id: string): Promise<AutomationRule | undefined> {
+    return this.rules.get(`${tenant}/${id}`)?.rule;
+  }
+
+  async list(tenant: string): Promise<AutomationRule[]> {
+    return [...this.rules.values()]
+      .filter((entry) => entry.tenant === tenant)
+      .map(({ rule }) => rule);
+  }
+
+  async delete(tenant: string, id: string): Promise<boolean> {
+    return this.rules.delete(`${tenant}/${id}`);
+  }
+
+  async listDue(now: Date): Promise<DueAutomationRule[]> {
+    return [...this.rules.values()]
+      .filter(({ rule }) => isDue(rule, now))
+      .map(({ tenant, rule }) => ({ tenant, rule }));
+  }
+
+  async getCredentials(tenant: string, id: string): Promise<AutomationCredentials | undefined> {
+    return this.rules.get(`${tenant}/${id}`)?.credentials;
+  }
+
+  async markRun(tenant: string, id: string, time: string): Promise<void> {
+    const entry = this.rules.get(`${tenant}/${id}`);
+    if (entry) entry.rule = { ...entry.rule, lastRunAt: time };
+  }
+
+  async recordRun(tenant: string, run: AutomationRun): Promise<void> {
+    this.runs.push({ tenant, run });
+  }
+
+  async listRuns(query: AutomationRunQuery): Promise<AutomationRun[]> {
+    return this.runs
+      .filter(
+        ({ tenant, run }) =>
+          tenant === query.tenant && (!query.ruleId || run.ruleId === query.ruleId)
+      )
+      .map(({ run }) => run)
+      .reverse()
+      .slice(0, query.limit);
+  }
+}
+
+/**
+ * AuditLog kept in memory, newest entries first like the D1 log
+ */
+export class MemoryAuditLog implements AuditLog {
+  private entries: AuditEntry[] = [];
+
+  async record(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.entries
+      .filter(
+        (entry) =>
+          entry.tenant === query.tenant &&
+          (!query.objectId || entry.objectId === query.objectId) &&
+          (!query.tool || entry.tool === query.tool)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+}
+
+/**
+ * The part of a KV namespace the read cache uses, kept in memory. Expiration
+ * is left to the cache's own per-variant expiry.
+ */
+export class MemoryKvNamespace {
+  readonly entries = new Map<string, string>();
+
+  async get(key: string, type?: 'json'): Promise<unknown> {
+    const value = this.entries.get(key);
+    return value !== undefined && type === 'json' ? JSON.parse(value) : (value ?? null);
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  asKv(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
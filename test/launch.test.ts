@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { registerLaunchTools } from '../src/tools/index.js';
+import type { LaunchRollbackResult } from '../src/types/entities.js';
+import { createSimulatedTools } from './helpers.js';
+
+const LAUNCH = {
+  accountId: 'act_1000',
+  campaign: { name: 'Launch', objective: 'OUTCOME_TRAFFIC' },
+  adSet: {
+    name: 'US',
+    billingEvent: 'IMPRESSIONS',
+    optimizationGoal: 'LINK_CLICKS',
+    targeting: { geo_locations: { countries: ['US'] } },
+    dailyBudget: 2000,
+  },
+  creative: {
+    name: 'Creative',
+    objectStorySpec: { page_id: '1', link_data: { link: 'https://example.com' } },
+  },
+  ad: { name: 'Ad' },
+};
+
+interface Launched {
+  adId: string;
+  creativeId: string;
+  campaignId: string;
+}
+
+interface RolledBack {
+  message: string;
+  rolledBack: LaunchRollbackResult[];
+}
+
+describe('launch', () => {
+  it('creates the ad with the new creative', async () => {
+    const { simulator, harness } = createSimulatedTools([registerLaunchTools]);
+
+    const result = await harness.call<Launched>('metaads_launch', { ...LAUNCH, activate: true });
+
+    expect(result.json).toMatchObject({ success: true, status: 'ACTIVE' });
+    const ad = simulator.get(result.json.adId);
+    expect(ad?.creative).toMatchObject({ id: result.json.creativeId });
+    expect(simulator.get(result.json.campaignId)?.status).toBe('ACTIVE');
+  });
+
+  it('deletes what it created when a step fails', async () => {
+    const { simulator, harness } = createSimulatedTools([registerLaunchTools]);
+    simulator.failNext(100, { method: 'POST', path: /\/ads$/ });
+
+    const result = await harness.call<RolledBack>('metaads_launch', LAUNCH);
+
+    expect(result.json).toMatchObject({ success: false, failedStep: 'ad' });
+    expect(result.json.rolledBack.map((object) => object.objectType)).toEqual([
+      'creative',
+      'adset',
+      'campaign',
+    ]);
+  });
+
+  it('archives what it created when the tenant policy forbids deletes', async () => {
+    const { simulator, harness } = createSimulatedTools([registerLaunchTools], {
+      client: { policy: { archiveInsteadOfDelete: true } },
+    });
+    simulator.failNext(100, { method: 'POST', path: /\/ads$/ });
+
+    const result = await harness.call<RolledBack>('metaads_launch', LAUNCH);
+
+    expect(result.json.message).toMatch(/3 of 3 created objects were deleted or archived/);
+    const [creative, adSet, campaign] = result.json.rolledBack;
+    expect(creative).toMatchObject({ objectType: 'creative', deleted: true });
+    expect(adSet).toMatchObject({ objectType: 'adset', archived: true });
+    expect(campaign).toMatchObject({ objectType: 'campaign', archived: true });
+    expect(simulator.get(adSet.id)?.status).toBe('ARCHIVED');
+    expect(simulator.get(campaign.id)?.status).toBe('ARCHIVED');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { ValidationError } from '../src/utils/errors.js';
+import { decodeBase64, encodeBase64, inspectImage, validateImage } from '../src/utils/media.js';
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function png(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(24);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  bytes.set(ascii('IHDR'), 12);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function gif(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(10);
+  bytes.set(ascii('GIF89a'));
+  const view = new DataView(bytes.buffer);
+  view.setUint16(6, width, true);
+  view.setUint16(8, height, true);
+  return bytes;
+}
+
+/** A JPEG whose APP0 segment comes before the SOF0 frame header */
+function jpeg(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0,
+  ]);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(13, height);
+  view.setUint16(15, width);
+  return bytes;
+}
+
+describe('image inspection', () => {
+  it('reads the format and size of JPEG, PNG and GIF headers', () => {
+    expect(inspectImage(jpeg(1080, 1350))).toMatchObject({
+      format: 'jpeg',
+      width: 1080,
+      height: 1350,
+      aspectRatio: 0.8,
+    });
+    expect(inspectImage(png(1200, 628))).toMatchObject({ format: 'png', aspectRatio: 1.911 });
+    expect(inspectImage(gif(600, 600))).toMatchObject({ format: 'gif', width: 600 });
+  });
+
+  it('does not recognize other files or truncated headers', () => {
+    expect(inspectImage(ascii('<svg></svg>'))).toBeUndefined();
+    expect(inspectImage(png(1200, 628).subarray(0, 16))).toBeUndefined();
+    expect(inspectImage(png(0, 628))).toBeUndefined();
+  });
+
+  it('refuses unsupported and corrupt images', () => {
+    expect(() => validateImage(ascii('RIFF....WEBP'))).toThrow(/Unsupported image format/);
+    expect(() => validateImage(png(1200, 628).subarray(0, 16))).toThrow(/corrupt or truncated/);
+  });
+
+  it('warns about placements an image is too small or the wrong shape for', () => {
+    const { warnings } = validateImage(png(1200, 628));
+
+    expect(warnings).toEqual([
+      'stories_and_reels: aspect ratio 1.91:1 is outside 0.56:1 and will be cropped',
+    ]);
+    expect(validateImage(gif(300, 300)).warnings).toContain(
+      'feed: 300x300 is below the 600x600 minimum'
+    );
+  });
+});
+
+describe('media encoding', () => {
+  it('decodes base64 with or without a data URL prefix', () => {
+    const bytes = png(1, 1);
+    const encoded = encodeBase64(bytes);
+
+    expect(decodeBase64(encoded)).toEqual(bytes);
+    expect(decodeBase64(`data:image/png;base64,${encoded}`)).toEqual(bytes);
+    expect(() => decodeBase64('not base64!')).toThrow(ValidationError);
+  });
+});
+
+describe('chunked video uploads', () => {
+  it('sends each chunk from the offset the previous response named', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'], videoChunkBytes: 4 });
+    const data = new Uint8Array(10).map((_, i) => i);
+
+    const video = await simulator
+      .createClient()
+      .uploadAdVideo('act_1000', data, { title: 'Clip', waitForReady: false });
+
+    const phases = simulator.requests
+      .filter(({ path }) => path === 'act_1000/advideos')
+      .map(({ params }) => [params.upload_phase, params.start_offset]);
+    expect(phases).toEqual([
+      ['start', undefined],
+      ['transfer', '0'],
+      ['transfer', '4'],
+      ['transfer', '8'],
+      ['finish', undefined],
+    ]);
+    expect(video.title).toBe('Clip');
+  });
+});
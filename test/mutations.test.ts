@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { registerCampaignTools } from '../src/tools/index.js';
+import { createSimulatedTools } from './helpers.js';
+
+function setup() {
+  const { simulator, harness } = createSimulatedTools([registerCampaignTools]);
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Campaign',
+    objective: 'OUTCOME_SALES',
+    daily_budget: '5000',
+  });
+  return { simulator, harness, campaignId };
+}
+
+describe('creates and updates', () => {
+  it('retries a throttled create', async () => {
+    const { simulator, harness } = setup();
+    simulator.failNext(17, { method: 'POST' });
+
+    const result = await harness.call<{ campaign: { name: string } }>('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Retried',
+      objective: 'OUTCOME_SALES',
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.json.campaign.name).toBe('Retried');
+  });
+
+  it('creates and reads back the object in one batch', async () => {
+    const { simulator, harness } = setup();
+    simulator.requests.length = 0;
+
+    const result = await harness.call<{ campaign: { id: string } }>('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Batched',
+      objective: 'OUTCOME_SALES',
+    });
+
+    expect(simulator.requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'POST ',
+      'POST act_1000/campaigns',
+      `GET ${result.json.campaign.id}`,
+    ]);
+  });
+
+  it('sends a create throttled inside the batch again on its own', async () => {
+    const { simulator, harness } = setup();
+    simulator.failNext(17, { method: 'POST', path: 'act_1000/campaigns' });
+
+    const result = await harness.call<{ campaign: { id: string; name: string } }>(
+      'metaads_create_campaign',
+      { accountId: 'act_1000', name: 'Resent', objective: 'OUTCOME_SALES' }
+    );
+
+    expect(result.isError).toBe(false);
+    expect(result.json.campaign.name).toBe('Resent');
+    const creates = simulator.requests.filter(
+      ({ method, path }) => method === 'POST' && path === 'act_1000/campaigns'
+    );
+    expect(creates).toHaveLength(2);
+  });
+
+  it('does not send again a create that failed inside the batch', async () => {
+    const { simulator, harness } = setup();
+    simulator.failNext(2, { method: 'POST', path: 'act_1000/campaigns' });
+
+    const result = await harness.call('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Unknown',
+      objective: 'OUTCOME_SALES',
+    });
+
+    expect(result.isError).toBe(true);
+    const creates = simulator.requests.filter(
+      ({ method, path }) => method === 'POST' && path === 'act_1000/campaigns'
+    );
+    expect(creates).toHaveLength(1);
+  });
+
+  it('retries a throttled update and reports the diff', async () => {
+    const { simulator, harness, campaignId } = setup();
+    simulator.failNext(17, { method: 'POST' });
+
+    const result = await harness.call<{ changes: unknown[] }>('metaads_update_campaign', {
+      campaignId,
+      dailyBudget: 6000,
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.json.changes).toEqual([
+      { field: 'daily_budget', change: 'changed', before: '5000', after: '6000' },
+    ]);
+  });
+
+  it('reads, updates and reads back the object in one batch', async () => {
+    const { simulator, harness, campaignId } = setup();
+    simulator.requests.length = 0;
+
+    await harness.call('metaads_update_campaign', { campaignId, dailyBudget: 6000 });
+
+    expect(simulator.requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'POST ',
+      `GET ${campaignId}`,
+      `POST ${campaignId}`,
+      `GET ${campaignId}`,
+    ]);
+  });
+
+  it('sends an update throttled inside the batch again and reports the diff', async () => {
+    const { simulator, harness, campaignId } = setup();
+    simulator.failNext(17, { method: 'POST', path: campaignId });
+
+    const result = await harness.call<{ changes: unknown[] }>('metaads_update_campaign', {
+      campaignId,
+      dailyBudget: 6000,
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.json.changes).toEqual([
+      { field: 'daily_budget', change: 'changed', before: '5000', after: '6000' },
+    ]);
+  });
+
+  it('still updates when the read before the update fails', async () => {
+    const { simulator, harness, campaignId } = setup();
+    simulator.failNext(100, { method: 'GET' });
+
+    const result = await harness.call<{ warning: string }>('metaads_update_campaign', {
+      campaignId,
+      dailyBudget: 6000,
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.json.warning).toMatch(/could not be read before the update/);
+    expect(simulator.get(campaignId)?.daily_budget).toBe('6000');
+  });
+
+  it('does not read back a failed update', async () => {
+    const { simulator, harness, campaignId } = setup();
+    simulator.failNext(100, { method: 'POST' });
+
+    const result = await harness.call('metaads_update_campaign', {
+      campaignId,
+      dailyBudget: 6000,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(simulator.get(campaignId)?.daily_budget).toBe('5000');
+  });
+});
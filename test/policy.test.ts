@@ -0,0 +1,334 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import {
+  registerAccountTools,
+  registerAdRuleTools,
+  registerAdSetTools,
+  registerAdTools,
+  registerAudienceTools,
+  registerAuditTools,
+  registerAutomationTools,
+  registerBatchTools,
+  registerBulkTools,
+  registerBusinessTools,
+  registerCampaignTools,
+  registerCatalogTools,
+  registerCopyTools,
+  registerCreativeTools,
+  registerDocumentTools,
+  registerInsightsTools,
+  registerLaunchTools,
+  registerPixelTools,
+  registerSnapshotTools,
+  registerTargetingTools,
+} from '../src/tools/index.js';
+import { PolicyViolationError } from '../src/utils/errors.js';
+import type { TenantPolicy } from '../src/utils/policy.js';
+import {
+  MemoryAutomationRuleStore,
+  MemorySnapshotStore,
+  TEST_ENV,
+  ToolHarness,
+  type ToolResult,
+} from './helpers.js';
+
+const TARGETING = { geo_locations: { countries: ['US'] } };
+
+const CREATIVE = {
+  name: 'Creative',
+  object_story_spec: { page_id: '1', link_data: { link: 'https://example.com' } },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Tools that never change campaigns, ad sets, ads or audiences */
+const READ_ONLY = /^metaads_(list|get|search|preview|export|plan)_/;
+
+/** Changes the tenant policy has no setting for */
+const NOT_GOVERNED = new Set([
+  'metaads_start_insights_report',
+  'metaads_snapshot_campaign',
+  'metaads_create_automation_rule',
+  'metaads_update_automation_rule',
+  'metaads_delete_automation_rule',
+  'metaads_create_ad_rule',
+  'metaads_update_ad_rule',
+  'metaads_delete_ad_rule',
+  'metaads_create_audience',
+  'metaads_update_audience',
+  'metaads_add_users_to_audience',
+  'metaads_remove_users_from_audience',
+  'metaads_create_creative',
+  'metaads_upload_image',
+  'metaads_upload_images',
+  'metaads_upload_video',
+  'metaads_create_pixel',
+  'metaads_update_pixel',
+  'metaads_create_reach_frequency',
+]);
+
+type Fixture = ReturnType<typeof setup>;
+
+/** A call each mutating tool makes that the policy must refuse */
+const REFUSED_CALLS: Record<string, (fixture: Fixture) => Promise<ToolResult>> = {
+  metaads_create_campaign: ({ harness }) =>
+    harness.call('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Sales',
+      objective: 'OUTCOME_SALES',
+    }),
+  metaads_update_campaign: ({ harness, campaignId }) =>
+    harness.call('metaads_update_campaign', { campaignId, name: 'Renamed' }),
+  metaads_delete_campaign: ({ harness, campaignId }) =>
+    harness.call('metaads_delete_campaign', { campaignId }),
+  metaads_create_adset: ({ harness, campaignId }) =>
+    harness.call('metaads_create_adset', {
+      accountId: 'act_1000',
+      campaignId,
+      name: 'EU',
+      billingEvent: 'IMPRESSIONS',
+      optimizationGoal: 'REACH',
+      targeting: TARGETING,
+    }),
+  metaads_update_adset: ({ harness, adSetId }) =>
+    harness.call('metaads_update_adset', { adSetId, name: 'Renamed' }),
+  metaads_delete_adset: ({ harness, adSetId }) => harness.call('metaads_delete_adset', { adSetId }),
+  metaads_create_ad: ({ harness, adSetId }) =>
+    harness.call('metaads_create_ad', {
+      accountId: 'act_1000',
+      adSetId,
+      name: 'Ad',
+      creative: CREATIVE,
+    }),
+  metaads_update_ad: ({ harness, adId }) =>
+    harness.call('metaads_update_ad', { adId, name: 'Renamed' }),
+  metaads_delete_ad: ({ harness, adId }) => harness.call('metaads_delete_ad', { adId }),
+  metaads_delete_audience: ({ harness, audienceId }) =>
+    harness.call('metaads_delete_audience', { audienceId }),
+  metaads_bulk_update: ({ harness, adSetId }) =>
+    harness.call('metaads_bulk_update', {
+      objectType: 'adset',
+      ids: [adSetId],
+      patch: { status: 'PAUSED' },
+    }),
+  metaads_batch: ({ harness, campaignId }) =>
+    harness.call('metaads_batch', {
+      requests: [{ method: 'POST', relativeUrl: campaignId, params: { status: 'PAUSED' } }],
+    }),
+  metaads_launch: ({ harness }) =>
+    harness.call('metaads_launch', {
+      accountId: 'act_1000',
+      campaign: { name: 'Launch', objective: 'OUTCOME_SALES' },
+      adSet: {
+        name: 'US',
+        billingEvent: 'IMPRESSIONS',
+        optimizationGoal: 'REACH',
+        targeting: TARGETING,
+        dailyBudget: 2000,
+      },
+      creative: { name: 'Creative', objectStorySpec: CREATIVE.object_story_spec },
+      ad: { name: 'Ad' },
+    }),
+  metaads_apply_campaign: ({ harness, campaignId }) =>
+    harness.call('metaads_apply_campaign', {
+      document: JSON.stringify({
+        version: 1,
+        account_id: 'act_1000',
+        campaign: { id: campaignId, name: 'Renamed', objective: 'OUTCOME_SALES' },
+      }),
+    }),
+  metaads_rollback: async ({ harness, simulator, campaignId, adSetId }) => {
+    const snapshot = await harness.call<{ snapshot: { id: string } }>('metaads_snapshot_campaign', {
+      campaignId,
+    });
+    simulator.seed('adset', 'act_1000', { ...simulator.get(adSetId), daily_budget: '9000' });
+    return harness.call('metaads_rollback', { snapshotId: snapshot.json.snapshot.id });
+  },
+  metaads_copy_campaign: ({ harness, campaignId }) =>
+    harness.call('metaads_copy_campaign', { campaignId }),
+  metaads_copy_adset: ({ harness, adSetId }) => harness.call('metaads_copy_adset', { adSetId }),
+  metaads_copy_ad: ({ harness, adId }) => harness.call('metaads_copy_ad', { adId }),
+  metaads_clone_to_account: ({ harness, simulator }) => {
+    const campaignId = simulator.seed('campaign', 'act_1000', {
+      name: 'Unprotected',
+      objective: 'OUTCOME_SALES',
+    });
+    return harness.call('metaads_clone_to_account', { campaignId, targetAccountId: 'act_2000' });
+  },
+  metaads_run_automation_rule: async ({ harness, campaignId }) => {
+    const rule = await harness.call<{ rule: { id: string } }>('metaads_create_automation_rule', {
+      name: 'Pause everything',
+      accountId: 'act_1000',
+      level: 'adset',
+      conditions: [{ metric: 'spend', operator: 'gte', value: 0 }],
+      action: { type: 'pause' },
+      campaignIds: [campaignId],
+    });
+    return harness.call('metaads_run_automation_rule', { ruleId: rule.json.rule.id });
+  },
+};
+
+function setup(policy: TenantPolicy = {}) {
+  const simulator = new GraphApiSimulator({ accounts: ['act_1000', 'act_2000'] });
+  const created_time = new Date(Date.now() - 10 * DAY_MS).toISOString();
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Protected',
+    objective: 'OUTCOME_SALES',
+    status: 'ACTIVE',
+  });
+  const adSetId = simulator.seed('adset', 'act_1000', {
+    name: 'US',
+    campaign_id: campaignId,
+    status: 'ACTIVE',
+    daily_budget: '5000',
+    targeting: TARGETING,
+  });
+  const adId = simulator.seed('ad', 'act_1000', {
+    name: 'Ad',
+    campaign_id: campaignId,
+    adset_id: adSetId,
+    status: 'ACTIVE',
+    created_time,
+  });
+  const audienceId = simulator.seed('audience', 'act_1000', { name: 'Buyers' });
+
+  const client = simulator.createClient(
+    {},
+    {
+      policy: {
+        protectedCampaignIds: [campaignId],
+        forbiddenObjectives: ['OUTCOME_SALES'],
+        archiveInsteadOfDelete: true,
+        ...policy,
+      },
+    }
+  );
+  const harness = new ToolHarness(client, {
+    env: TEST_ENV,
+    snapshots: new MemorySnapshotStore(),
+    automationRules: new MemoryAutomationRuleStore(),
+    credentials: { accessToken: 'token' },
+  }).register(
+    registerAccountTools,
+    registerCampaignTools,
+    registerAdSetTools,
+    registerAdTools,
+    registerCreativeTools,
+    registerInsightsTools,
+    registerAudienceTools,
+    registerAdRuleTools,
+    registerPixelTools,
+    registerCatalogTools,
+    registerTargetingTools,
+    registerBusinessTools,
+    registerBatchTools,
+    registerCopyTools,
+    registerBulkTools,
+    registerAuditTools,
+    registerSnapshotTools,
+    registerDocumentTools,
+    registerLaunchTools,
+    registerAutomationTools
+  );
+  return { simulator, harness, campaignId, adSetId, adId, audienceId };
+}
+
+function countWrites(simulator: GraphApiSimulator): number {
+  return simulator.requests.filter((request) => request.method !== 'GET').length;
+}
+
+describe('tenant policy', () => {
+  it('has a refused call for every tool that changes what the policy governs', () => {
+    const { harness } = setup();
+    const unchecked = harness
+      .names()
+      .filter((name) => !READ_ONLY.test(name) && !NOT_GOVERNED.has(name))
+      .filter((name) => !REFUSED_CALLS[name]);
+
+    expect(unchecked).toEqual([]);
+  });
+
+  for (const [name, call] of Object.entries(REFUSED_CALLS)) {
+    it(`is enforced by ${name}`, async () => {
+      const fixture = setup();
+      const { simulator, campaignId } = fixture;
+      const writes = countWrites(simulator);
+
+      const result = await call(fixture);
+
+      expect(result.text).toContain('POLICY_VIOLATION');
+      expect(simulator.get(campaignId)).toMatchObject({ name: 'Protected', status: 'ACTIVE' });
+      expect(simulator.get(fixture.adSetId)?.status).toBe('ACTIVE');
+      expect(simulator.get(fixture.adId)?.status).toBe('ACTIVE');
+      expect(countWrites(simulator)).toBe(writes);
+    });
+  }
+
+  it('refuses only the bulk budget changes over the limit', async () => {
+    const { simulator, harness, campaignId, adSetId } = setup({
+      protectedCampaignIds: [],
+      maxDailyBudget: 8000,
+    });
+    const smallId = simulator.seed('adset', 'act_1000', {
+      name: 'Small',
+      campaign_id: campaignId,
+      daily_budget: '1000',
+      targeting: TARGETING,
+    });
+
+    const result = await harness.call('metaads_bulk_update', {
+      objectType: 'adset',
+      ids: [adSetId, smallId],
+      patch: { budgetScalePercent: 100 },
+    });
+
+    expect(result.text).toContain('POLICY_VIOLATION');
+    expect(simulator.get(adSetId)?.daily_budget).toBe('5000');
+    expect(simulator.get(smallId)?.daily_budget).toBe('2000');
+  });
+
+  it('uses the policy stored for the tenant instead of the one sent with the request', async () => {
+    const { simulator, campaignId } = setup();
+    const lookups: string[] = [];
+    const client = simulator.createClient(
+      {},
+      {
+        policy: {},
+        policies: {
+          get: async (tenant) => {
+            lookups.push(tenant);
+            return { protectedCampaignIds: [campaignId] };
+          },
+        },
+      }
+    );
+
+    await expect(client.updateCampaign(campaignId, { name: 'Renamed' })).rejects.toThrow(
+      PolicyViolationError
+    );
+    await client.withSignal(new AbortController().signal).getPolicy();
+
+    expect(lookups).toEqual([await client.getTenantId()]);
+    expect(simulator.get(campaignId)?.name).toBe('Protected');
+  });
+
+  it('refuses changes when the tenant for the stored policy cannot be read', async () => {
+    const { simulator, campaignId } = setup();
+    const client = simulator.createClient(
+      {},
+      { policies: { get: async () => ({ protectedCampaignIds: [campaignId] }) } }
+    );
+    simulator.failNext(100, { method: 'GET', path: 'me' });
+
+    await expect(client.updateCampaign(campaignId, { name: 'Renamed' })).rejects.toMatchObject({
+      code: 'POLICY_UNAVAILABLE',
+    });
+    expect(simulator.get(campaignId)?.name).toBe('Protected');
+
+    // A later read of /me succeeds and finds the stored policy
+    await expect(client.updateCampaign(campaignId, { name: 'Renamed' })).rejects.toThrow(
+      PolicyViolationError
+    );
+    expect(countWrites(simulator)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { redactText, redactValue } from '../src/utils/redact.js';
+
+const TOKEN = `EAAB${'x1'.repeat(40)}`;
+const PROOF = 'a1'.repeat(32);
+
+describe('redaction', () => {
+  it('removes an access token from a URL and keeps the other parameters', () => {
+    const url = `https://graph.facebook.com/v21.0/me?fields=id,name&access_token=${TOKEN}&limit=5`;
+
+    expect(redactText(url)).toBe(
+      'https://graph.facebook.com/v21.0/me?fields=id,name&access_token=[REDACTED]&limit=5'
+    );
+  });
+
+  it('removes secrets from a form body', () => {
+    const body = `name=Spring&access_token=short-token&appsecret_proof=${PROOF}&status=PAUSED`;
+
+    expect(redactText(body)).toBe(
+      'name=Spring&access_token=[REDACTED]&appsecret_proof=[REDACTED]&status=PAUSED'
+    );
+  });
+
+  it('removes a bare token or proof wherever it appears in text', () => {
+    expect(redactText(`Invalid token ${TOKEN} (proof ${PROOF})`)).toBe(
+      'Invalid token [REDACTED] (proof [REDACTED])'
+    );
+    expect(redactText('Authorization: Bearer abc.def-123=')).toBe(
+      'Authorization: Bearer [REDACTED]'
+    );
+  });
+
+  it('redacts secrets and PII nested in an error payload', () => {
+    const payload = {
+      error: {
+        message: `Error validating access token ${TOKEN}`,
+        error_data: {
+          appsecret_proof: PROOF,
+          request: { url: `/act_1000/campaigns?access_token=${TOKEN}`, Email: 'a@b.co' },
+          blame_field_specs: [['contact: person@example.com, +1 415 555 0100']],
+        },
+        fbtrace_id: 'AbC123',
+      },
+    };
+
+    expect(redactValue(payload)).toEqual({
+      error: {
+        message: 'Error validating access token [REDACTED]',
+        error_data: {
+          appsecret_proof: '[REDACTED]',
+          request: { url: '/act_1000/campaigns?access_token=[REDACTED]', Email: '[REDACTED]' },
+          blame_field_specs: [['contact: [REDACTED_EMAIL], [REDACTED_PHONE]']],
+        },
+        fbtrace_id: 'AbC123',
+      },
+    });
+    // The original is left as it was
+    expect(payload.error.error_data.appsecret_proof).toBe(PROOF);
+  });
+
+  it('leaves Graph object IDs alone and survives circular values', () => {
+    const value: Record<string, unknown> = { id: '23851234567890123', account_id: 'act_1000' };
+    value.self = value;
+
+    expect(redactValue(value)).toEqual({
+      id: '23851234567890123',
+      account_id: 'act_1000',
+      self: '[Circular]',
+    });
+  });
+});
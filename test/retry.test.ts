@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { RateLimitError } from '../src/utils/errors.js';
+import { DEFAULT_RETRY_POLICY, getRetryDelayMs } from '../src/utils/retry.js';
+
+describe('retries', () => {
+  it('retries a throttled GET and succeeds on the second attempt', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+    const id = simulator.seed('campaign', 'act_1000', { name: 'Campaign' });
+    simulator.failNext(17, { method: 'GET' });
+
+    const campaign = await simulator.createClient().getCampaign(id, 'id,name');
+
+    expect(campaign.name).toBe('Campaign');
+    expect(simulator.requests.filter(({ path }) => path.endsWith(id))).toHaveLength(2);
+  });
+
+  it('backs off within the wait budget when Meta gives no regain time', () => {
+    const error = new RateLimitError('(#17) User request limit reached', 0);
+
+    for (const attempt of [1, 2, 3]) {
+      const delay = getRetryDelayMs(error, attempt, DEFAULT_RETRY_POLICY, () => 1);
+      expect(delay).toBe(DEFAULT_RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1));
+    }
+    expect(getRetryDelayMs(error, 10, DEFAULT_RETRY_POLICY, () => 1)).toBe(
+      DEFAULT_RETRY_POLICY.maxDelayMs
+    );
+  });
+
+  it('waits for the regain time Meta reports', () => {
+    const error = new RateLimitError('(#17) User request limit reached', 12);
+
+    expect(getRetryDelayMs(error, 1, DEFAULT_RETRY_POLICY)).toBe(12_000);
+  });
+});
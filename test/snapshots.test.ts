@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import { planRollback } from '../src/utils/snapshots.js';
+
+describe('rollback planning', () => {
+  it('restores a campaign spend cap from the snapshot', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+    const client = simulator.createClient();
+    const campaign = await client.createCampaign('act_1000', {
+      name: 'Campaign',
+      objective: 'OUTCOME_SALES',
+      spend_cap: 100000,
+    });
+
+    const snapshot = await client.getCampaignTree(campaign.id);
+    expect(snapshot.campaign.spend_cap).toBe('100000');
+
+    await client.updateCampaign(campaign.id, { spend_cap: 250000 });
+    const live = await client.getCampaignTree(campaign.id);
+    const plan = planRollback(snapshot, live, {
+      pauseNewObjects: true,
+      missingCreatives: new Set(),
+    });
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.actions).toHaveLength(1);
+    expect(plan.actions[0].changes).toEqual([
+      { field: 'spend_cap', change: 'changed', before: '250000', after: '100000' },
+    ]);
+  });
+
+  it('reports the ads of a deleted ad set along with the ad set', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+    const client = simulator.createClient();
+    const campaignId = simulator.seed('campaign', 'act_1000', { name: 'Campaign' });
+    const adSetId = simulator.seed('adset', 'act_1000', { name: 'US', campaign_id: campaignId });
+    const adId = simulator.seed('ad', 'act_1000', {
+      name: 'Ad',
+      campaign_id: campaignId,
+      adset_id: adSetId,
+    });
+
+    const snapshot = await client.getCampaignTree(campaignId);
+    await client.deleteAdSet(adSetId);
+    const live = await client.getCampaignTree(campaignId);
+    const plan = planRollback(snapshot, live, {
+      pauseNewObjects: true,
+      missingCreatives: new Set(),
+    });
+
+    expect(plan.actions).toEqual([]);
+    expect(plan.issues).toEqual([
+      expect.objectContaining({ objectType: 'adset', id: adSetId }),
+      expect.objectContaining({
+        objectType: 'ad',
+        id: adId,
+        reason: expect.stringMatching(/^Deleted with its ad set since the snapshot/),
+      }),
+    ]);
+  });
+
+  it('reports a nested field set after the snapshot once', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'] });
+    const client = simulator.createClient();
+    const campaignId = simulator.seed('campaign', 'act_1000', { name: 'Campaign' });
+    const adSetId = simulator.seed('adset', 'act_1000', { name: 'US', campaign_id: campaignId });
+
+    const snapshot = await client.getCampaignTree(campaignId);
+    await client.updateAdSet(adSetId, {
+      targeting: { geo_locations: { countries: ['US'] }, age_min: 21, age_max: 45 },
+    });
+    const live = await client.getCampaignTree(campaignId);
+    const plan = planRollback(snapshot, live, {
+      pauseNewObjects: true,
+      missingCreatives: new Set(),
+    });
+
+    expect(plan.issues).toEqual([
+      expect.objectContaining({
+        id: adSetId,
+        reason: 'targeting was set after the snapshot and cannot be cleared',
+      }),
+    ]);
+  });
+});
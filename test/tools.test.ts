@@ -0,0 +1,537 @@
+import { describe, expect, it } from 'vitest';
+import {
+  registerAccountTools,
+  registerAdRuleTools,
+  registerAdSetTools,
+  registerAdTools,
+  registerAudienceTools,
+  registerAuditTools,
+  registerBatchTools,
+  registerBulkTools,
+  registerBusinessTools,
+  registerCampaignTools,
+  registerCatalogTools,
+  registerCopyTools,
+  registerCreativeTools,
+  registerInsightsTools,
+  registerPixelTools,
+  registerSnapshotTools,
+  registerTargetingTools,
+} from '../src/tools/index.js';
+import { createSimulatedTools, MemoryAuditLog, MemorySnapshotStore } from './helpers.js';
+
+const TARGETING = { geo_locations: { countries: ['US'] } };
+
+const CREATIVE = {
+  name: 'Creative',
+  object_story_spec: { page_id: '1', link_data: { link: 'https://example.com', message: 'Hi' } },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** An error response's message and logged details */
+interface ErrorResult {
+  error: string;
+  details: { name: string; code?: string | number };
+}
+
+function setup() {
+  return createSimulatedTools([registerCampaignTools, registerAdSetTools, registerAdTools]);
+}
+
+/** A campaign with one ad set and one ad that has run for three days */
+function seedCampaign(simulator: ReturnType<typeof setup>['simulator']) {
+  const campaignId = simulator.seed('campaign', 'act_1000', {
+    name: 'Campaign',
+    objective: 'OUTCOME_SALES',
+    status: 'ACTIVE',
+  });
+  const adSetId = simulator.seed('adset', 'act_1000', {
+    name: 'US',
+    campaign_id: campaignId,
+    status: 'ACTIVE',
+    daily_budget: '5000',
+    targeting: TARGETING,
+  });
+  const adId = simulator.seed('ad', 'act_1000', {
+    name: 'Ad',
+    campaign_id: campaignId,
+    adset_id: adSetId,
+    status: 'ACTIVE',
+    created_time: new Date(Date.now() - 3 * DAY_MS).toISOString(),
+  });
+  return { campaignId, adSetId, adId };
+}
+
+describe('campaign tools', () => {
+  it('creates, updates and deletes a campaign', async () => {
+    const { simulator, harness } = setup();
+
+    const created = await harness.call<{ campaign: { id: string } }>('metaads_create_campaign', {
+      accountId: 'act_1000',
+      name: 'Spring Sale',
+      objective: 'OUTCOME_SALES',
+      dailyBudget: 5000,
+    });
+    expect(created.isError).toBe(false);
+    const id = created.json.campaign.id;
+    expect(simulator.get(id)).toMatchObject({ name: 'Spring Sale', status: 'PAUSED' });
+
+    const updated = await harness.call<{ changes: unknown[] }>('metaads_update_campaign', {
+      campaignId: id,
+      dailyBudget: 7500,
+    });
+    expect(updated.json.changes).toEqual([
+      { field: 'daily_budget', change: 'changed', before: '5000', after: '7500' },
+    ]);
+
+    const deleted = await harness.call('metaads_delete_campaign', { campaignId: id });
+    expect(deleted.json).toMatchObject({ success: true });
+    expect(simulator.get(id)?.status).toBe('DELETED');
+  });
+
+  it('collects every page with fetchAll', async () => {
+    const { simulator, harness } = setup();
+    for (let i = 0; i < 30; i++) {
+      simulator.seed('campaign', 'act_1000', { name: `Campaign ${i}`, objective: 'OUTCOME_SALES' });
+    }
+
+    const firstPage = await harness.call<{ data: unknown[] }>('metaads_list_campaigns', {
+      accountId: 'act_1000',
+      limit: 10,
+    });
+    expect(firstPage.json.data).toHaveLength(10);
+
+    const all = await harness.call<{ data: unknown[] }>('metaads_list_campaigns', {
+      accountId: 'act_1000',
+      fetchAll: true,
+    });
+    expect(all.json.data).toHaveLength(30);
+  });
+
+  it('reports Graph errors with their code', async () => {
+    const { simulator, harness } = setup();
+    simulator.expireToken();
+
+    const result = await harness.call<{ details: unknown }>('metaads_get_campaign', {
+      campaignId: '1',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details).toMatchObject({
+      name: 'AuthenticationError',
+      code: 'AUTHENTICATION_FAILED',
+    });
+  });
+});
+
+describe('ad set and ad tools', () => {
+  it('creates an ad set and an ad under a campaign', async () => {
+    const { simulator, harness } = setup();
+    const campaignId = simulator.seed('campaign', 'act_1000', {
+      name: 'Campaign',
+      objective: 'OUTCOME_SALES',
+    });
+
+    const adSet = await harness.call<{ adSet: { id: string } }>('metaads_create_adset', {
+      accountId: 'act_1000',
+      campaignId,
+      name: 'US',
+      billingEvent: 'IMPRESSIONS',
+      optimizationGoal: 'REACH',
+      targeting: TARGETING,
+      dailyBudget: 2000,
+    });
+    expect(adSet.isError).toBe(false);
+    expect(adSet.json.adSet).toMatchObject({ campaign_id: campaignId, daily_budget: '2000' });
+
+    const ad = await harness.call<{ ad: { id: string } }>('metaads_create_ad', {
+      accountId: 'act_1000',
+      adSetId: adSet.json.adSet.id,
+      name: 'Ad',
+      creative: CREATIVE,
+    });
+    expect(ad.isError).toBe(false);
+
+    const ads = await harness.call<{ data: Array<{ id: string }> }>('metaads_list_ads', {
+      accountId: 'act_1000',
+      adSetId: adSet.json.adSet.id,
+    });
+    expect(ads.json.data.map((entry: { id: string }) => entry.id)).toEqual([ad.json.ad.id]);
+  });
+});
+
+describe('account tools', () => {
+  it('gets an ad account by its number', async () => {
+    const { harness } = createSimulatedTools([registerAccountTools]);
+
+    const result = await harness.call<{ id: string }>('metaads_get_ad_account', {
+      accountId: '1000',
+    });
+    expect(result.isError).toBe(false);
+    expect(result.json.id).toBe('act_1000');
+  });
+
+  it('reports an ad account the token lost access to', async () => {
+    const { simulator, harness } = createSimulatedTools([registerAccountTools]);
+    simulator.revokeAccount('act_1000');
+
+    const result = await harness.call<ErrorResult>('metaads_get_ad_account', {
+      accountId: 'act_1000',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('PermissionError');
+  });
+});
+
+describe('creative tools', () => {
+  it('creates a creative and reads it back', async () => {
+    const { simulator, harness } = createSimulatedTools([registerCreativeTools]);
+
+    const result = await harness.call<{ creative: { id: string } }>('metaads_create_creative', {
+      accountId: 'act_1000',
+      name: CREATIVE.name,
+      objectStorySpec: CREATIVE.object_story_spec,
+    });
+    expect(result.isError).toBe(false);
+    expect(simulator.get(result.json.creative.id)).toMatchObject({ name: 'Creative' });
+  });
+
+  it('reports a creative that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerCreativeTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_get_creative', {
+      creativeId: '404',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/does not exist/);
+  });
+});
+
+describe('insights tools', () => {
+  it('reports the spend of a campaign', async () => {
+    const { simulator, harness } = createSimulatedTools([registerInsightsTools]);
+    const { campaignId } = seedCampaign(simulator);
+
+    const result = await harness.call<{ data: Array<{ spend: string }> }>(
+      'metaads_get_campaign_insights',
+      { campaignId, datePreset: 'last_7d' }
+    );
+    expect(result.isError).toBe(false);
+    expect(Number(result.json.data[0].spend)).toBeGreaterThan(0);
+  });
+
+  it('reports a failed report run', async () => {
+    const { simulator, harness } = createSimulatedTools([registerInsightsTools]);
+    const { campaignId } = seedCampaign(simulator);
+    const started = await harness.call<{ report: { id: string } }>(
+      'metaads_start_insights_report',
+      { objectId: campaignId }
+    );
+    simulator.failReportRun(started.json.report.id);
+
+    const result = await harness.call<ErrorResult>('metaads_get_report_results', {
+      reportRunId: started.json.report.id,
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/failed/i);
+  });
+});
+
+describe('audience tools', () => {
+  it('creates a custom audience', async () => {
+    const { simulator, harness } = createSimulatedTools([registerAudienceTools]);
+
+    const result = await harness.call<{ audience: { id: string } }>('metaads_create_audience', {
+      accountId: 'act_1000',
+      name: 'Buyers',
+      subtype: 'CUSTOM',
+      customerFileSource: 'USER_PROVIDED_ONLY',
+    });
+    expect(result.isError).toBe(false);
+    expect(simulator.get(result.json.audience.id)).toMatchObject({ name: 'Buyers' });
+  });
+
+  it('reports users sent to an audience that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerAudienceTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_add_users_to_audience', {
+      audienceId: '404',
+      schema: ['EMAIL'],
+      data: [['person@example.com']],
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/does not exist/);
+  });
+});
+
+describe('ad rule tools', () => {
+  const evaluationSpec = {
+    evaluation_type: 'SCHEDULE',
+    filters: [
+      { field: 'entity_type', operator: 'EQUAL', value: 'ADSET' },
+      { field: 'spent', operator: 'GREATER_THAN', value: 10000 },
+    ],
+  };
+
+  it('creates a scheduled rule', async () => {
+    const { simulator, harness } = createSimulatedTools([registerAdRuleTools]);
+
+    const result = await harness.call<{ rule: { id: string } }>('metaads_create_ad_rule', {
+      accountId: 'act_1000',
+      name: 'Pause big spenders',
+      evaluationSpec,
+      executionSpec: { execution_type: 'PAUSE' },
+      scheduleSpec: { schedule_type: 'DAILY' },
+    });
+    expect(result.isError).toBe(false);
+    expect(simulator.get(result.json.rule.id)).toMatchObject({ name: 'Pause big spenders' });
+  });
+
+  it('refuses a scheduled rule without a schedule before sending it', async () => {
+    const { simulator, harness } = createSimulatedTools([registerAdRuleTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_create_ad_rule', {
+      accountId: 'act_1000',
+      name: 'Pause big spenders',
+      evaluationSpec,
+      executionSpec: { execution_type: 'PAUSE' },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('ValidationError');
+    expect(simulator.requests).toEqual([]);
+  });
+});
+
+describe('pixel tools', () => {
+  it('lists the pixels of an account', async () => {
+    const { simulator, harness } = createSimulatedTools([registerPixelTools]);
+    simulator.cannedResponse('GET', 'act_1000/adspixels', {
+      data: [{ id: '555', name: 'Store pixel' }],
+    });
+
+    const result = await harness.call<{ data: Array<{ id: string }> }>('metaads_list_pixels', {
+      accountId: 'act_1000',
+    });
+    expect(result.isError).toBe(false);
+    expect(result.json.data).toEqual([{ id: '555', name: 'Store pixel' }]);
+  });
+
+  it('reports a pixel the token may not create', async () => {
+    const { simulator, harness } = createSimulatedTools([registerPixelTools]);
+    simulator.failNext(200, { method: 'POST', path: 'act_1000/adspixels' });
+
+    const result = await harness.call<ErrorResult>('metaads_create_pixel', {
+      accountId: 'act_1000',
+      name: 'Store pixel',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('PermissionError');
+  });
+});
+
+describe('catalog tools', () => {
+  it('lists the catalogs of a business', async () => {
+    const { simulator, harness } = createSimulatedTools([registerCatalogTools]);
+    simulator.cannedResponse('GET', '777/owned_product_catalogs', {
+      data: [{ id: '888', name: 'Products' }],
+    });
+
+    const result = await harness.call<{ data: Array<{ id: string }> }>('metaads_list_catalogs', {
+      businessId: '777',
+    });
+    expect(result.isError).toBe(false);
+    expect(result.json.data.map((catalog) => catalog.id)).toEqual(['888']);
+  });
+
+  it('reports a catalog that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerCatalogTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_get_catalog', { catalogId: '404' });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/does not exist/);
+  });
+});
+
+describe('targeting tools', () => {
+  it('searches interests', async () => {
+    const { simulator, harness } = createSimulatedTools([registerTargetingTools]);
+    simulator.cannedResponse('GET', 'act_1000/targetingsearch', {
+      data: [{ id: '6003', name: 'Running', type: 'interests' }],
+    });
+
+    const result = await harness.call<{ data: Array<{ name: string }> }>(
+      'metaads_search_targeting',
+      { accountId: 'act_1000', type: 'adinterest', query: 'run' }
+    );
+    expect(result.isError).toBe(false);
+    expect(result.json.data.map((option) => option.name)).toEqual(['Running']);
+    expect(simulator.requests.at(-1)?.params).toMatchObject({ type: 'adinterest', q: 'run' });
+  });
+
+  it('reports a search the token may not make', async () => {
+    const { simulator, harness } = createSimulatedTools([registerTargetingTools]);
+    simulator.failNext(200, { path: 'act_1000/targetingsearch' });
+
+    const result = await harness.call<ErrorResult>('metaads_search_targeting', {
+      accountId: 'act_1000',
+      type: 'adinterest',
+      query: 'run',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('PermissionError');
+  });
+});
+
+describe('business tools', () => {
+  it('lists the businesses of the user', async () => {
+    const { simulator, harness } = createSimulatedTools([registerBusinessTools]);
+    simulator.cannedResponse('GET', 'me/businesses', { data: [{ id: '777', name: 'Shop' }] });
+
+    const result = await harness.call<{ data: Array<{ id: string }> }>('metaads_list_businesses');
+    expect(result.isError).toBe(false);
+    expect(result.json.data.map((business) => business.id)).toEqual(['777']);
+  });
+
+  it('reports a business that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerBusinessTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_get_business', { businessId: '404' });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/does not exist/);
+  });
+});
+
+describe('batch tools', () => {
+  it('reports each request of a batch on its own', async () => {
+    const { simulator, harness } = createSimulatedTools([registerBatchTools]);
+    const { campaignId } = seedCampaign(simulator);
+
+    const result = await harness.call<{ succeeded: number; failed: number }>('metaads_batch', {
+      requests: [
+        { method: 'POST', relativeUrl: campaignId, params: { name: 'Renamed' } },
+        { method: 'GET', relativeUrl: '404' },
+      ],
+    });
+    expect(result.isError).toBe(false);
+    expect(result.json).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(simulator.get(campaignId)?.name).toBe('Renamed');
+  });
+
+  it('reports a batch the token may not send', async () => {
+    const { simulator, harness } = createSimulatedTools([registerBatchTools]);
+    simulator.expireToken();
+
+    const result = await harness.call<ErrorResult>('metaads_batch', {
+      requests: [{ method: 'GET', relativeUrl: 'act_1000' }],
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('AuthenticationError');
+  });
+});
+
+describe('copy tools', () => {
+  it('copies a campaign with its ad sets and ads', async () => {
+    const { simulator, harness } = createSimulatedTools([registerCopyTools]);
+    const { campaignId } = seedCampaign(simulator);
+
+    const result = await harness.call<{ copy: { copied_id: string; ad_object_ids: unknown[] } }>(
+      'metaads_copy_campaign',
+      { campaignId, deepCopy: true }
+    );
+    expect(result.isError).toBe(false);
+    expect(result.json.copy.ad_object_ids).toHaveLength(3);
+    expect(simulator.get(result.json.copy.copied_id)).toMatchObject({ name: 'Campaign - Copy' });
+  });
+
+  it('reports an ad that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerCopyTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_copy_ad', { adId: '404' });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/does not exist/);
+  });
+});
+
+describe('bulk tools', () => {
+  it('pauses the ad sets a filter selects', async () => {
+    const { simulator, harness } = createSimulatedTools([registerBulkTools]);
+    const { adSetId } = seedCampaign(simulator);
+
+    const result = await harness.call('metaads_bulk_update', {
+      objectType: 'adset',
+      filter: { accountId: 'act_1000', nameContains: 'US' },
+      patch: { status: 'PAUSED' },
+    });
+    expect(result.isError).toBe(false);
+    expect(simulator.get(adSetId)?.status).toBe('PAUSED');
+  });
+
+  it('refuses an update that selects no objects', async () => {
+    const { harness } = createSimulatedTools([registerBulkTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_bulk_update', {
+      objectType: 'adset',
+      patch: { status: 'PAUSED' },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.json.error).toMatch(/Provide either ids or filter/);
+  });
+});
+
+describe('audit tools', () => {
+  it('lists the calls recorded for the tenant', async () => {
+    const audit = new MemoryAuditLog();
+    const { harness } = createSimulatedTools([registerAuditTools], { context: { audit } });
+    const entry = {
+      tool: 'metaads_update_campaign',
+      method: 'POST',
+      endpoint: '/123',
+      objectId: '123',
+      params: { name: 'Renamed' },
+      success: true,
+      timestamp: '2026-03-01T12:00:00.000Z',
+    };
+    await audit.record({ ...entry, id: 'mine', tenant: await harness.client.getTenantId() });
+    await audit.record({ ...entry, id: 'theirs', tenant: 'user:other' });
+
+    const result = await harness.call<{ data: Array<{ id: string }> }>('metaads_get_audit_log');
+    expect(result.isError).toBe(false);
+    expect(result.json.data.map((entry) => entry.id)).toEqual(['mine']);
+  });
+
+  it('reports that the audit log is not configured', async () => {
+    const { harness } = createSimulatedTools([registerAuditTools]);
+
+    const result = await harness.call<ErrorResult>('metaads_get_audit_log');
+    expect(result.isError).toBe(true);
+    expect(result.json.details.code).toBe('AUDIT_LOG_UNAVAILABLE');
+  });
+});
+
+describe('snapshot tools', () => {
+  it('lists a saved snapshot', async () => {
+    const { simulator, harness } = createSimulatedTools([registerSnapshotTools], {
+      context: { snapshots: new MemorySnapshotStore() },
+    });
+    const { campaignId } = seedCampaign(simulator);
+
+    const saved = await harness.call<{ snapshot: { id: string } }>('metaads_snapshot_campaign', {
+      campaignId,
+    });
+    const listed = await harness.call<{ data: Array<{ id: string }> }>('metaads_list_snapshots', {
+      campaignId,
+    });
+    expect(listed.isError).toBe(false);
+    expect(listed.json.data.map((snapshot) => snapshot.id)).toEqual([saved.json.snapshot.id]);
+  });
+
+  it('reports a snapshot that does not exist', async () => {
+    const { harness } = createSimulatedTools([registerSnapshotTools], {
+      context: { snapshots: new MemorySnapshotStore() },
+    });
+
+    const result = await harness.call<ErrorResult>('metaads_rollback', { snapshotId: '404' });
+    expect(result.isError).toBe(true);
+    expect(result.json.details.name).toBe('NotFoundError');
+  });
+});
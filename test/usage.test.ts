@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { GraphApiSimulator } from '../src/testing/index.js';
+import {
+  createRateLimitStatus,
+  getRegainAccessSeconds,
+  getThrottleDelayMs,
+  recordUsageHeaders,
+} from '../src/utils/usage.js';
+
+function usageHeaders(headers: Record<string, unknown>): Headers {
+  return new Headers(
+    Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, JSON.stringify(value)])
+    )
+  );
+}
+
+describe('usage headers', () => {
+  it('records app, ad account and business use case usage', () => {
+    const status = createRateLimitStatus();
+
+    const found = recordUsageHeaders(
+      status,
+      usageHeaders({
+        'X-App-Usage': { call_count: '12', total_cputime: 3, total_time: 4 },
+        'X-Ad-Account-Usage': { acc_id_util_pct: 40, reset_time_duration: 0 },
+        'X-Business-Use-Case-Usage': {
+          '777': [{ type: 'ads_management', call_count: 90, estimated_time_to_regain_access: 2 }],
+        },
+      }),
+      'act_1000'
+    );
+
+    expect(found).toBe(true);
+    expect(status.app).toEqual({ call_count: 12, total_cputime: 3, total_time: 4 });
+    expect(status.adAccounts.act_1000).toMatchObject({ acc_id_util_pct: 40 });
+    expect(status.businesses['777']).toEqual([
+      expect.objectContaining({
+        type: 'ads_management',
+        call_count: 90,
+        total_cputime: 0,
+        estimated_time_to_regain_access: 2,
+      }),
+    ]);
+  });
+
+  it('ignores malformed headers and account usage it cannot attribute', () => {
+    const status = createRateLimitStatus();
+    const headers = usageHeaders({ 'X-Ad-Account-Usage': { acc_id_util_pct: 40 } });
+    headers.set('X-App-Usage', '{not json');
+
+    expect(recordUsageHeaders(status, headers)).toBe(false);
+    expect(status).toEqual(createRateLimitStatus());
+  });
+
+  it('waits for the longest regain time any limit reports', () => {
+    const status = createRateLimitStatus();
+    expect(getRegainAccessSeconds(status)).toBeUndefined();
+
+    recordUsageHeaders(
+      status,
+      usageHeaders({
+        'X-Ad-Account-Usage': { acc_id_util_pct: 100, reset_time_duration: 90 },
+        'X-Business-Use-Case-Usage': { '777': [{ estimated_time_to_regain_access: 3 }] },
+      }),
+      'act_1000'
+    );
+    expect(getRegainAccessSeconds(status)).toBe(180);
+  });
+
+  it('slows down from 75% of the highest limit up to 5 seconds at 100%', () => {
+    const delayAt = (callCount: number) => {
+      const status = createRateLimitStatus();
+      recordUsageHeaders(status, usageHeaders({ 'X-App-Usage': { call_count: callCount } }));
+      return getThrottleDelayMs(status);
+    };
+
+    expect(delayAt(74)).toBe(0);
+    expect(delayAt(75)).toBe(0);
+    expect(delayAt(90)).toBe(3000);
+    expect(delayAt(100)).toBe(5000);
+    expect(delayAt(250)).toBe(5000);
+  });
+
+  it('delays the next call once a response shows the tenant near its limit', async () => {
+    const simulator = new GraphApiSimulator({ accounts: ['act_1000'], rateLimit: { maxCalls: 5 } });
+    const id = simulator.seed('campaign', 'act_1000', { name: 'Campaign' });
+    const delays: number[] = [];
+    const client = simulator.createClient(
+      {},
+      {
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      }
+    );
+
+    // Each call uses 20% of the app limit, so only the fifth follows a response over 75%
+    for (let i = 0; i < 5; i++) {
+      await client.getCampaign(id, 'id');
+    }
+
+    expect(delays).toEqual([1000]);
+  });
+});